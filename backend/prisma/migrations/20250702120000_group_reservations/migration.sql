@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "maxSeatsPerUser" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "attendeeNames" TEXT[],
+ADD COLUMN     "quantity" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "WaitlistEntry" ADD COLUMN     "quantity" INTEGER NOT NULL DEFAULT 1;
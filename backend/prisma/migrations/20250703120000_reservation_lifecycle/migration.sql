@@ -0,0 +1,45 @@
+-- AlterEnum
+BEGIN;
+CREATE TYPE "ReservationStatus_new" AS ENUM ('PENDING', 'CONFIRMED', 'CANCELED', 'ATTENDED', 'NO_SHOW', 'EXPIRED');
+ALTER TABLE "Reservation" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Reservation" ALTER COLUMN "status" TYPE "ReservationStatus_new" USING ("status"::text::"ReservationStatus_new");
+ALTER TYPE "ReservationStatus" RENAME TO "ReservationStatus_old";
+ALTER TYPE "ReservationStatus_new" RENAME TO "ReservationStatus";
+DROP TYPE "ReservationStatus_old";
+ALTER TABLE "Reservation" ALTER COLUMN "status" SET DEFAULT 'CONFIRMED';
+COMMIT;
+
+-- DropIndex
+DROP INDEX "Reservation_eventId_userId_status_key";
+
+-- CreateIndex
+CREATE INDEX "Reservation_eventId_userId_idx" ON "Reservation"("eventId", "userId");
+
+-- CreateIndex (parcial: apenas reservas ativas; não representável no schema do Prisma)
+CREATE UNIQUE INDEX "Reservation_active_event_user_key" ON "Reservation"("eventId", "userId") WHERE "status" IN ('PENDING', 'CONFIRMED');
+
+-- CreateTable
+CREATE TABLE "reservation_history" (
+    "id" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "fromStatus" "ReservationStatus",
+    "toStatus" "ReservationStatus" NOT NULL,
+    "changedById" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reservation_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reservation_history_reservationId_createdAt_idx" ON "reservation_history"("reservationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "reservation_history" ADD CONSTRAINT "reservation_history_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reservation_history" ADD CONSTRAINT "reservation_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: registra o status atual de cada reserva existente como ponto de partida do histórico.
+INSERT INTO "reservation_history" ("id", "reservationId", "fromStatus", "toStatus", "createdAt")
+SELECT gen_random_uuid()::text, "id", NULL, "status", "reservationDate" FROM "Reservation";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "checkedInById" TEXT;
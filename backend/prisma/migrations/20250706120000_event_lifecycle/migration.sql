@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'CANCELED', 'COMPLETED', 'ARCHIVED');
+
+-- AlterTable
+-- Eventos já existentes estavam visíveis para todos, então entram como PUBLISHED;
+-- novos eventos passam a nascer como DRAFT.
+ALTER TABLE "Event" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "canceledAt" TIMESTAMP(3),
+ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'PUBLISHED';
+
+ALTER TABLE "Event" ALTER COLUMN "status" SET DEFAULT 'DRAFT';
+
+-- CreateIndex
+CREATE INDEX "Event_status_eventDate_idx" ON "Event"("status", "eventDate");
+
+-- CreateIndex
+CREATE INDEX "Event_status_publishAt_idx" ON "Event"("status", "publishAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "event_series" (
+    "id" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "dtstart" TIMESTAMP(3) NOT NULL,
+    "exdates" TIMESTAMP(3)[],
+    "creatorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_seriesId_occurrenceDate_key" ON "Event"("seriesId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "event_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_series" ADD CONSTRAINT "event_series_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "event_sessions" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "room" TEXT,
+    "onlineLink" TEXT,
+    "speakers" TEXT[],
+    "maxCapacity" INTEGER,
+    "availableSpots" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "session_enrollments" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "reservationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_sessions_eventId_startsAt_idx" ON "event_sessions"("eventId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "session_enrollments_reservationId_idx" ON "session_enrollments"("reservationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_enrollments_sessionId_reservationId_key" ON "session_enrollments"("sessionId", "reservationId");
+
+-- AddForeignKey
+ALTER TABLE "event_sessions" ADD CONSTRAINT "event_sessions_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_enrollments" ADD CONSTRAINT "session_enrollments_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "event_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_enrollments" ADD CONSTRAINT "session_enrollments_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
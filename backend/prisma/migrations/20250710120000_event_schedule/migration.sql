@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Event" RENAME COLUMN "eventDate" TO "startsAt";
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- Eventos existentes não tinham término: assume duração de 2 horas.
+UPDATE "Event" SET "endsAt" = "startsAt" + INTERVAL '2 hours';
+
+ALTER TABLE "Event" ALTER COLUMN "endsAt" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "event_series" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- RenameIndex
+ALTER INDEX "Event_status_eventDate_idx" RENAME TO "Event_status_startsAt_idx";
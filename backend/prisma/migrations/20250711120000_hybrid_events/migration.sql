@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "EventFormat" AS ENUM ('IN_PERSON', 'ONLINE', 'HYBRID');
+
+-- CreateEnum
+CREATE TYPE "AttendanceMode" AS ENUM ('IN_PERSON', 'ONLINE');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "format" "EventFormat" NOT NULL DEFAULT 'IN_PERSON',
+ADD COLUMN     "onlineCapacity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "onlineAvailableSpots" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "attendanceMode" "AttendanceMode" NOT NULL DEFAULT 'IN_PERSON';
+
+-- AlterTable
+ALTER TABLE "WaitlistEntry" ADD COLUMN     "attendanceMode" "AttendanceMode" NOT NULL DEFAULT 'IN_PERSON';
+
+-- Eventos existentes com link online eram exclusivamente online: toda a capacidade passa a ser online.
+UPDATE "Event"
+SET "format" = 'ONLINE', "onlineCapacity" = "maxCapacity", "onlineAvailableSpots" = "availableSpots"
+WHERE "onlineLink" IS NOT NULL;
+
+UPDATE "Reservation" SET "attendanceMode" = 'ONLINE'
+WHERE "eventId" IN (SELECT "id" FROM "Event" WHERE "format" = 'ONLINE');
+
+UPDATE "WaitlistEntry" SET "attendanceMode" = 'ONLINE'
+WHERE "eventId" IN (SELECT "id" FROM "Event" WHERE "format" = 'ONLINE');
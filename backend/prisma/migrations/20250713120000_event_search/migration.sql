@@ -0,0 +1,30 @@
+-- Busca textual de eventos: dicionário português sem acentos ("reuniao" encontra "reunião").
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent ( COPY = portuguese );
+ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "searchVector" tsvector;
+
+-- Documento de busca do evento, com pesos: nome (A), descrição (B) e local (C).
+CREATE FUNCTION event_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."description", '')), 'B') ||
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."location", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Event_searchVector_update"
+BEFORE INSERT OR UPDATE OF "name", "description", "location" ON "Event"
+FOR EACH ROW EXECUTE FUNCTION event_search_vector_update();
+
+-- Preenche o documento dos eventos existentes.
+UPDATE "Event" SET "name" = "name";
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "categories" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categories_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "categoryId" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_name_key" ON "categories"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_slug_key" ON "categories"("slug");
+
+-- CreateIndex
+CREATE INDEX "Event_categoryId_startsAt_idx" ON "Event"("categoryId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Event_tags_idx" ON "Event" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- As tags passam a fazer parte do documento da busca textual, com o mesmo peso da descrição.
+CREATE OR REPLACE FUNCTION event_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('portuguese_unaccent', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."description", '')), 'B') ||
+    setweight(to_tsvector('portuguese_unaccent', coalesce(NEW."location", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER "Event_searchVector_update" ON "Event";
+CREATE TRIGGER "Event_searchVector_update"
+BEFORE INSERT OR UPDATE OF "name", "description", "location", "tags" ON "Event"
+FOR EACH ROW EXECUTE FUNCTION event_search_vector_update();
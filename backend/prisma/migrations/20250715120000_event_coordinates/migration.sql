@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Event_latitude_longitude_idx" ON "Event"("latitude", "longitude");
+
+-- Eventos existentes em salas do catálogo herdam as coordenadas do local.
+UPDATE "Event" AS e
+SET "latitude" = v."latitude", "longitude" = v."longitude"
+FROM "rooms" AS r
+JOIN "venues" AS v ON v."id" = r."venueId"
+WHERE e."roomId" = r."id" AND v."latitude" IS NOT NULL AND v."longitude" IS NOT NULL;
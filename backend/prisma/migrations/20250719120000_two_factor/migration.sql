@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpLastUsedStep" INTEGER,
+ADD COLUMN     "totpSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "user_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_recovery_codes_userId_idx" ON "user_recovery_codes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "user_recovery_codes" ADD CONSTRAINT "user_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- A verificação em duas etapas passa a ser obrigatória para administradores: as sessões abertas sem ela são
+-- encerradas, e o próximo login pede a configuração.
+UPDATE "user_sessions" SET "revokedAt" = CURRENT_TIMESTAMP, "revokedReason" = 'REVOKED'
+WHERE "revokedAt" IS NULL AND "userId" IN (SELECT "id" FROM "User" WHERE "role" = 'ADMIN');
@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'ORGANIZER';
+ALTER TYPE "Role" ADD VALUE 'CHECKIN_STAFF';
+ALTER TYPE "Role" ADD VALUE 'SUPPORT';
+
+-- CreateTable
+CREATE TABLE "event_staff" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_staff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_staff_userId_idx" ON "event_staff"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_staff_eventId_userId_key" ON "event_staff"("eventId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_staff" ADD CONSTRAINT "event_staff_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "CoOrganizerPermission" AS ENUM ('EDIT_DETAILS', 'VIEW_ATTENDEES', 'CHECK_IN', 'MESSAGE_ATTENDEES');
+
+-- CreateEnum
+CREATE TYPE "CoOrganizerStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "event_co_organizers" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "permissions" "CoOrganizerPermission"[],
+    "status" "CoOrganizerStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "event_co_organizers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_co_organizers_userId_status_idx" ON "event_co_organizers"("userId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_co_organizers_eventId_userId_key" ON "event_co_organizers"("eventId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "event_co_organizers" ADD CONSTRAINT "event_co_organizers_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_co_organizers" ADD CONSTRAINT "event_co_organizers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_co_organizers" ADD CONSTRAINT "event_co_organizers_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,3 +1,6 @@
+// backend/src/config/redis.ts
+// Cliente do Redis usado pelo cache (services/cacheBackend.ts) e pelos limites de requisições
+// (services/rateLimitStore.ts) quando configurados para o Redis.
 
 import { createClient } from 'redis';
 import dotenv from 'dotenv'; 
@@ -5,13 +8,41 @@ import dotenv from 'dotenv';
 dotenv.config(); 
 const redisUrl = process.env.REDIS_URL;
 
+// TLS apenas com o esquema rediss:// (ex: Redis gerenciado do Heroku, com certificado autoassinado);
+// redis:// usa conexão simples, como o Redis do docker-compose.yml.
+const useTls = redisUrl?.startsWith('rediss://') ?? false;
+
 export const redisClient = createClient({
     url: redisUrl,
+    // Sem conexão, os comandos falham na hora em vez de aguardar a reconexão: o cache recorre ao banco de dados.
+    disableOfflineQueue: true,
     socket: {
-        tls: true,
-        rejectUnauthorized: false, 
+        ...(useTls ? { tls: true as const, rejectUnauthorized: false } : {}),
+        // Tenta reconectar indefinidamente, com intervalos de até 5 segundos.
+        reconnectStrategy: (retries: number) => Math.min(retries * 100, 5000),
     },
 });
 
 redisClient.on('error', (err) => console.error('Erro na conexão com o Redis:', err));
 redisClient.on('connect', () => console.info('Redis conectado com sucesso!'));
+
+/**
+ * Inicia a conexão sem aguardá-la, se ainda não tiver sido iniciada (o cliente é compartilhado).
+ * Com a estratégia de reconexão acima, a conexão é tentada até dar certo.
+ */
+export const connectRedis = (client: typeof redisClient = redisClient): void => {
+    if (!client.isOpen) {
+        client.connect().catch((error) => console.error('Erro ao iniciar a conexão com o Redis:', error));
+    }
+};
+
+/**
+ * Encerra a conexão, se estiver aberta.
+ */
+export const disconnectRedis = async (client: typeof redisClient = redisClient): Promise<void> => {
+    if (client.isReady) {
+        await client.quit();
+    } else if (client.isOpen) {
+        await client.disconnect();
+    }
+};
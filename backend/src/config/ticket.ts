@@ -0,0 +1,61 @@
+// backend/src/config/ticket.ts
+// Este arquivo contém funções utilitárias para gerar e validar os códigos dos ingressos (tickets) das reservas.
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config(); // Carrega as variáveis de ambiente
+
+// Chave usada para assinar os ingressos com HMAC-SHA256.
+// Se TICKET_SECRET não estiver definida, reutiliza a JWT_SECRET (já validada em config/jwt.ts).
+// Definir uma chave dedicada permite invalidar todos os ingressos sem derrubar as sessões dos usuários.
+const TICKET_SECRET = process.env.TICKET_SECRET || process.env.JWT_SECRET;
+
+if (!TICKET_SECRET) {
+  console.error('ERRO: Nenhuma chave para assinar ingressos. Defina TICKET_SECRET ou JWT_SECRET no seu arquivo .env.');
+  process.exit(1);
+}
+
+// Prefixo de versão do código, para permitir trocar o formato no futuro sem ambiguidade.
+const TICKET_VERSION = 'T1';
+
+const sign = (reservationId: string): string => {
+  return crypto
+    .createHmac('sha256', TICKET_SECRET as string)
+    .update(`${TICKET_VERSION}.${reservationId}`)
+    .digest('base64url');
+};
+
+/**
+ * Gera o código do ingresso de uma reserva.
+ * O código é determinístico (sempre o mesmo para a mesma reserva) e inclui a assinatura HMAC,
+ * o que o torna impossível de adivinhar sem a chave secreta.
+ * @param reservationId O ID da reserva.
+ * @returns O código do ingresso, no formato `T1.<reservationId>.<assinatura>`.
+ */
+export const generateTicketCode = (reservationId: string): string => {
+  return `${TICKET_VERSION}.${reservationId}.${sign(reservationId)}`;
+};
+
+/**
+ * Valida a assinatura de um código de ingresso.
+ * @param ticketCode O código lido do QR code.
+ * @returns O ID da reserva se a assinatura for válida, caso contrário `null`.
+ */
+export const verifyTicketCode = (ticketCode: string): string | null => {
+  const parts = ticketCode.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== TICKET_VERSION) {
+    return null;
+  }
+
+  const [, reservationId, signature] = parts;
+  const expected = Buffer.from(sign(reservationId));
+  const received = Buffer.from(signature);
+
+  // Comparação em tempo constante para não vazar informação sobre a assinatura.
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return reservationId;
+};
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { createCategorySchema, updateCategorySchema } from '../validation/schemas';
+import { prisma } from '../services/prisma';
+import { slugify } from '../services/categories';
+import { invalidateEventCache } from '../services/eventCache';
+
+// Invalida o cache dos eventos da categoria e da listagem (que traz as contagens por categoria).
+const invalidateCategoryCaches = async (categoryId: string) => {
+  const events = await prisma.event.findMany({ where: { categoryId }, select: { id: true } });
+  await invalidateEventCache(events.map((event) => event.id));
+};
+
+// Procura outra categoria com o mesmo nome ou slug.
+const findDuplicateCategory = (name: string | undefined, slug: string | undefined, excludeId?: string) => {
+  const conditions: Prisma.CategoryWhereInput[] = [];
+  if (name !== undefined) conditions.push({ name: { equals: name, mode: 'insensitive' } });
+  if (slug !== undefined) conditions.push({ slug });
+  if (conditions.length === 0) {
+    return null;
+  }
+  return prisma.category.findFirst({
+    where: { OR: conditions, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { id: true },
+  });
+};
+
+/**
+ * Lista as categorias em ordem alfabética.
+ */
+export const listCategories = async (req: Request, res: Response) => {
+  try {
+    const categories = await prisma.category.findMany({ orderBy: { name: 'asc' } });
+
+    res.status(200).json({ categories });
+  } catch (error) {
+    console.error('Erro ao listar categorias:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar categorias.' });
+  }
+};
+
+/**
+ * Retorna uma categoria pelo slug (usado nas páginas públicas de categoria).
+ */
+export const getCategoryBySlug = async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const category = await prisma.category.findUnique({ where: { slug } });
+    if (!category) {
+      return res.status(404).json({ message: 'Categoria não encontrada.' });
+    }
+
+    res.status(200).json({ category });
+  } catch (error) {
+    console.error('Erro ao obter categoria:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter categoria.' });
+  }
+};
+
+/**
+ * Cadastra uma categoria. (Apenas Admin)
+ */
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const { name, slug, description } = createCategorySchema.parse(req.body);
+    const finalSlug = slug ?? slugify(name);
+
+    if (await findDuplicateCategory(name, finalSlug)) {
+      return res.status(409).json({ message: 'Já existe uma categoria com este nome ou slug.' });
+    }
+
+    const category = await prisma.category.create({
+      data: { name, slug: finalSlug, description: description || null },
+    });
+
+    // A listagem passa a mostrar a nova categoria nas contagens.
+    await invalidateEventCache([]);
+
+    res.status(201).json({ message: 'Categoria cadastrada com sucesso!', category });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao cadastrar categoria:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao cadastrar categoria.' });
+  }
+};
+
+/**
+ * Atualiza uma categoria. Mudar o slug muda a URL pública da categoria. (Apenas Admin)
+ */
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { name, slug, description } = updateCategorySchema.parse(req.body);
+
+    const existingCategory = await prisma.category.findUnique({ where: { id }, select: { id: true } });
+    if (!existingCategory) {
+      return res.status(404).json({ message: 'Categoria não encontrada para atualização.' });
+    }
+
+    if (await findDuplicateCategory(name, slug, id)) {
+      return res.status(409).json({ message: 'Já existe uma categoria com este nome ou slug.' });
+    }
+
+    const data: Prisma.CategoryUpdateInput = {};
+    if (name !== undefined) data.name = name;
+    if (slug !== undefined) data.slug = slug;
+    if (description !== undefined) data.description = description || null;
+
+    const category = await prisma.category.update({ where: { id }, data });
+
+    await invalidateCategoryCaches(id);
+
+    res.status(200).json({ message: 'Categoria atualizada com sucesso!', category });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar categoria:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atualizar categoria.' });
+  }
+};
+
+/**
+ * Remove uma categoria. Os eventos dela ficam sem categoria, mas mantêm as suas tags. (Apenas Admin)
+ */
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCategory = await prisma.category.findUnique({ where: { id }, select: { id: true } });
+    if (!existingCategory) {
+      return res.status(404).json({ message: 'Categoria não encontrada para exclusão.' });
+    }
+
+    // Invalida antes de remover: depois da remoção os eventos já não apontam para a categoria.
+    await invalidateCategoryCaches(id);
+    await prisma.category.delete({ where: { id } });
+
+    res.status(200).json({ message: 'Categoria removida com sucesso!' });
+  } catch (error) {
+    console.error('Erro ao remover categoria:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover categoria.' });
+  }
+};
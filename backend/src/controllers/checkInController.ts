@@ -0,0 +1,340 @@
+import { Request, Response } from 'express';
+import { ReservationStatus } from '@prisma/client';
+import { ZodError } from 'zod';
+import { checkInSchema, checkInSyncSchema } from '../validation/schemas';
+import { AppTransactionClient, prisma } from '../services/prisma';
+import { transitionReservation } from '../services/reservationLifecycle';
+import { generateTicketCode, verifyTicketCode } from '../config/ticket';
+
+// Trava a linha da reserva até o fim da transação: leituras simultâneas do mesmo ingresso são processadas uma a uma,
+// e a segunda já encontra a reserva com a presença registrada.
+const lockReservation = async (tx: AppTransactionClient, reservationId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT 1 FROM "Reservation" WHERE "id" = ${reservationId} FOR UPDATE`;
+};
+
+/**
+ * Realiza o check-in de um participante a partir do código do ingresso (lido do QR code).
+ * Valida a assinatura, recusa ingressos de outro evento, cancelados ou já utilizados
+ * e marca a reserva como ATTENDED com o horário do check-in. (Permissão 'event:check-in')
+ */
+export const checkInTicket = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const { ticketCode } = checkInSchema.parse(req.body);
+
+    const reservationId = verifyTicketCode(ticketCode);
+    if (!reservationId) {
+      return res.status(400).json({ message: 'Ingresso inválido: assinatura não reconhecida.' });
+    }
+
+    // As verificações de status ficam dentro da transação, com a reserva travada: o mesmo QR code lido duas vezes ao
+    // mesmo tempo resulta em um check-in e um 409 "Ingresso já utilizado".
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      await lockReservation(tx, reservationId);
+      // Ingressos de usuários na lixeira não valem para o check-in até uma eventual restauração.
+      const reservation = await tx.reservation.findUnique({
+        where: { id: reservationId, user: { deletedAt: null } },
+        include: { user: { select: { id: true, email: true } } },
+      });
+
+      if (!reservation || reservation.eventId !== eventId) {
+        return { status: 404, body: { message: 'Ingresso não pertence a este evento.' } };
+      }
+
+      if (reservation.status === ReservationStatus.ATTENDED) {
+        return {
+          status: 409,
+          body: { message: 'Ingresso já utilizado.', checkedInAt: reservation.checkedInAt, reservation },
+        };
+      }
+
+      if (reservation.status !== ReservationStatus.CONFIRMED && reservation.status !== ReservationStatus.NO_SHOW) {
+        return { status: 409, body: { message: 'Ingresso cancelado ou expirado.', reservation } };
+      }
+
+      await transitionReservation(tx, reservationId, ReservationStatus.ATTENDED, {
+        changedById: req.userId,
+        reason: 'Check-in por leitura do ingresso.',
+      });
+
+      const checkedIn = await tx.reservation.update({
+        where: { id: reservationId },
+        data: { checkedInAt: new Date(), checkedInById: req.userId },
+        include: { user: { select: { id: true, email: true } } },
+      });
+      return { status: 200, body: { message: 'Check-in realizado com sucesso!', reservation: checkedIn } };
+    });
+
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao realizar check-in:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao realizar check-in.' });
+  }
+};
+
+/**
+ * Retorna os contadores de check-in de um evento: reservas (e assentos) esperados vs. já presentes.
+ * Usado pela tela de check-in para acompanhar a entrada em tempo real. (Permissão 'event:check-in')
+ */
+export const getCheckInStats = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, maxCapacity: true },
+    });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const grouped = await prisma.reservation.groupBy({
+      by: ['status'],
+      where: {
+        eventId,
+        status: { in: [ReservationStatus.CONFIRMED, ReservationStatus.ATTENDED, ReservationStatus.NO_SHOW] },
+        user: { deletedAt: null },
+      },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    });
+
+    const countOf = (status: ReservationStatus) => grouped.find((group) => group.status === status)?._count._all ?? 0;
+    const seatsOf = (status: ReservationStatus) => grouped.find((group) => group.status === status)?._sum.quantity ?? 0;
+
+    const checkedIn = countOf(ReservationStatus.ATTENDED);
+    const checkedInSeats = seatsOf(ReservationStatus.ATTENDED);
+
+    res.status(200).json({
+      event,
+      stats: {
+        // Total esperado: reservas confirmadas (ainda não lidas) + já presentes + marcadas como ausentes.
+        confirmed: checkedIn + countOf(ReservationStatus.CONFIRMED) + countOf(ReservationStatus.NO_SHOW),
+        confirmedSeats: checkedInSeats + seatsOf(ReservationStatus.CONFIRMED) + seatsOf(ReservationStatus.NO_SHOW),
+        checkedIn,
+        checkedInSeats,
+      },
+    });
+  } catch (error) {
+    console.error('Erro ao obter estatísticas de check-in:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter estatísticas de check-in.' });
+  }
+};
+
+/**
+ * Retorna a lista de ingressos do evento para validação offline no dispositivo de check-in.
+ * Inclui também os ingressos cancelados/expirados (com o status), para que o dispositivo
+ * possa recusá-los com uma mensagem clara mesmo sem conexão. (Permissão 'event:check-in')
+ */
+export const getCheckInManifest = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, maxCapacity: true },
+    });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where: { eventId, status: { not: ReservationStatus.PENDING }, user: { deletedAt: null } },
+      select: {
+        id: true,
+        status: true,
+        quantity: true,
+        attendeeNames: true,
+        checkedInAt: true,
+        user: { select: { email: true } },
+      },
+      orderBy: { reservationDate: 'asc' },
+    });
+
+    res.status(200).json({
+      event,
+      generatedAt: new Date().toISOString(),
+      tickets: reservations.map((reservation) => ({
+        reservationId: reservation.id,
+        ticketCode: generateTicketCode(reservation.id),
+        status: reservation.status,
+        quantity: reservation.quantity,
+        attendeeNames: reservation.attendeeNames,
+        email: reservation.user.email,
+        checkedInAt: reservation.checkedInAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Erro ao gerar lista de check-in offline:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao gerar lista de check-in.' });
+  }
+};
+
+type SyncOutcome = 'CHECKED_IN' | 'CONFLICT' | 'REJECTED' | 'INVALID';
+
+interface SyncResult {
+  ticketCode: string;
+  scannedAt: string;
+  outcome: SyncOutcome;
+  message: string;
+  reservationId?: string;
+  // Leitura que prevaleceu para o ingresso (informada em caso de conflito).
+  winner?: { deviceId: string | null; checkedInAt: Date };
+}
+
+/**
+ * Indica se a leitura A tem precedência sobre a leitura B: vence a mais antiga e,
+ * em caso de empate, a do menor `deviceId` (check-in online não tem dispositivo e conta como '').
+ * A regra é determinística, então o resultado final não depende da ordem de sincronização dos dispositivos.
+ */
+const scanPrecedes = (
+  a: { scannedAt: Date; deviceId: string | null },
+  b: { scannedAt: Date; deviceId: string | null }
+): boolean => {
+  if (a.scannedAt.getTime() !== b.scannedAt.getTime()) {
+    return a.scannedAt.getTime() < b.scannedAt.getTime();
+  }
+  return (a.deviceId ?? '') < (b.deviceId ?? '');
+};
+
+/**
+ * Sincroniza em lote os check-ins feitos offline por um dispositivo.
+ * Cada leitura é aplicada em sua própria transação e recebe um resultado:
+ * CHECKED_IN (aplicada), CONFLICT (ingresso também lido em outro dispositivo; informa qual leitura prevaleceu),
+ * REJECTED (ingresso de outro evento, cancelado ou expirado) ou INVALID (assinatura não reconhecida).
+ * Reenviar a mesma fila é seguro: leituras já aplicadas pelo mesmo dispositivo voltam como CHECKED_IN. (Permissão 'event:check-in')
+ */
+export const syncCheckIns = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const { deviceId, scans } = checkInSyncSchema.parse(req.body);
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const now = new Date();
+    // Processa as leituras em ordem cronológica, para que leituras repetidas no próprio lote sigam a mesma regra.
+    const orderedScans = scans
+      .map((scan) => ({
+        ticketCode: scan.ticketCode,
+        // Horário informado pelo dispositivo: não muda entre reenvios, então é o que identifica a mesma leitura.
+        deviceScannedAt: new Date(scan.scannedAt),
+        // Relógios de dispositivos adiantados não podem gerar check-ins "no futuro".
+        scannedAt: new Date(Math.min(new Date(scan.scannedAt).getTime(), now.getTime())),
+      }))
+      .sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime());
+
+    const results: SyncResult[] = [];
+
+    for (const scan of orderedScans) {
+      const base = { ticketCode: scan.ticketCode, scannedAt: scan.scannedAt.toISOString() };
+
+      const reservationId = verifyTicketCode(scan.ticketCode);
+      if (!reservationId) {
+        results.push({ ...base, outcome: 'INVALID', message: 'Ingresso inválido: assinatura não reconhecida.' });
+        continue;
+      }
+
+      try {
+        // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+        const result = await prisma.$transaction(async (tx: AppTransactionClient): Promise<SyncResult> => {
+          await lockReservation(tx, reservationId);
+          const reservation = await tx.reservation.findUnique({
+            where: { id: reservationId, user: { deletedAt: null } },
+            select: { id: true, eventId: true, status: true, checkedInAt: true, checkInDeviceId: true, deviceScannedAt: true },
+          });
+
+          if (!reservation || reservation.eventId !== eventId) {
+            return { ...base, outcome: 'REJECTED', message: 'Ingresso não pertence a este evento.' };
+          }
+
+          const incoming = { scannedAt: scan.scannedAt, deviceId };
+          const checkInData = {
+            checkedInAt: scan.scannedAt,
+            checkedInById: req.userId,
+            checkInDeviceId: deviceId,
+            deviceScannedAt: scan.deviceScannedAt,
+          };
+
+          if (reservation.status === ReservationStatus.ATTENDED) {
+            // Presença marcada sem horário de leitura (ex: alteração manual do admin): apenas registra a leitura.
+            if (!reservation.checkedInAt) {
+              await tx.reservation.update({ where: { id: reservationId }, data: checkInData });
+              return { ...base, outcome: 'CHECKED_IN', message: 'Check-in sincronizado.', reservationId };
+            }
+
+            const current = { scannedAt: reservation.checkedInAt, deviceId: reservation.checkInDeviceId };
+
+            // Reenvio da mesma leitura (ex: sincronização interrompida): resultado idempotente. Compara o horário original
+            // do dispositivo, e não o ajustado, que muda a cada reenvio quando o relógio do dispositivo está adiantado.
+            // (Check-ins sincronizados antes de `deviceScannedAt` existir só têm o horário ajustado.)
+            const storedScannedAt = reservation.deviceScannedAt ?? current.scannedAt;
+            if (current.deviceId === deviceId && storedScannedAt.getTime() === scan.deviceScannedAt.getTime()) {
+              return { ...base, outcome: 'CHECKED_IN', message: 'Check-in já sincronizado.', reservationId };
+            }
+
+            if (scanPrecedes(incoming, current)) {
+              await tx.reservation.update({ where: { id: reservationId }, data: checkInData });
+              return {
+                ...base,
+                outcome: 'CONFLICT',
+                message: 'Ingresso também lido em outro dispositivo; esta leitura foi a primeira e prevaleceu.',
+                reservationId,
+                winner: { deviceId, checkedInAt: scan.scannedAt },
+              };
+            }
+
+            return {
+              ...base,
+              outcome: 'CONFLICT',
+              message: 'Ingresso já utilizado: lido antes em outro dispositivo.',
+              reservationId,
+              winner: { deviceId: current.deviceId, checkedInAt: current.scannedAt },
+            };
+          }
+
+          if (reservation.status !== ReservationStatus.CONFIRMED && reservation.status !== ReservationStatus.NO_SHOW) {
+            return { ...base, outcome: 'REJECTED', message: 'Ingresso cancelado ou expirado.', reservationId };
+          }
+
+          await transitionReservation(tx, reservationId, ReservationStatus.ATTENDED, {
+            changedById: req.userId,
+            reason: `Check-in offline sincronizado (dispositivo ${deviceId}).`,
+          });
+          await tx.reservation.update({ where: { id: reservationId }, data: checkInData });
+
+          return { ...base, outcome: 'CHECKED_IN', message: 'Check-in sincronizado.', reservationId };
+        });
+        results.push(result);
+      } catch (error) {
+        results.push({
+          ...base,
+          outcome: 'REJECTED',
+          message: error instanceof Error ? error.message : 'Falha ao sincronizar leitura.',
+          reservationId,
+        });
+      }
+    }
+
+    const countOf = (outcome: SyncOutcome) => results.filter((result) => result.outcome === outcome).length;
+
+    res.status(200).json({
+      message: `${countOf('CHECKED_IN')} check-in(s) sincronizado(s), ${countOf('CONFLICT')} conflito(s), ${countOf('REJECTED') + countOf('INVALID')} recusado(s).`,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao sincronizar check-ins offline:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao sincronizar check-ins.' });
+  }
+};
@@ -0,0 +1,257 @@
+import { Request, Response } from 'express';
+import { CoOrganizerPermission, CoOrganizerStatus, Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { inviteCoOrganizerSchema, updateCoOrganizerSchema } from '../validation/schemas';
+import { prisma } from '../services/prisma';
+import { FRONTEND_URL, sendMail } from '../services/mailer';
+import { invalidateEventCache } from '../services/eventCache';
+
+// Campos de cada coorganizador exibidos ao organizador.
+const CO_ORGANIZER_SELECT = {
+  id: true,
+  permissions: true,
+  status: true,
+  createdAt: true,
+  respondedAt: true,
+  user: { select: { id: true, email: true } },
+  invitedBy: { select: { id: true, email: true } },
+} as const;
+
+// Nomes das permissões delegadas, usados no e-mail do convite.
+const CO_ORGANIZER_PERMISSION_LABELS: Record<CoOrganizerPermission, string> = {
+  [CoOrganizerPermission.EDIT_DETAILS]: 'editar os dados e a agenda',
+  [CoOrganizerPermission.VIEW_ATTENDEES]: 'ver os participantes',
+  [CoOrganizerPermission.CHECK_IN]: 'fazer o check-in',
+  [CoOrganizerPermission.MESSAGE_ATTENDEES]: 'enviar mensagens aos participantes',
+};
+
+// Falhas no envio do convite não impedem o convite: ele também aparece na página de coorganização do convidado.
+const sendInvitationEmail = async (
+  invitee: { email: string },
+  event: { name: string },
+  inviter: { email: string } | null,
+  permissions: CoOrganizerPermission[]
+) => {
+  const link = `${FRONTEND_URL}/co-organizing`;
+  const rights = permissions.map((permission) => CO_ORGANIZER_PERMISSION_LABELS[permission]).join(', ');
+  try {
+    await sendMail({
+      to: invitee.email,
+      subject: `Convite para coorganizar "${event.name}"`,
+      text: `Olá!\n\n${inviter ? inviter.email : 'A organização'} convidou você para coorganizar o evento "${event.name}", com permissão para: ${rights}.\n\nPara aceitar ou recusar o convite, acesse:\n${link}`,
+    });
+  } catch (error) {
+    console.error('Erro ao enviar o e-mail do convite de coorganização:', error);
+  }
+};
+
+/**
+ * Lista os coorganizadores de um evento, com os convites pendentes e recusados. (Permissão 'event:manage-staff')
+ */
+export const listCoOrganizers = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const coOrganizers = await prisma.eventCoOrganizer.findMany({
+      where: { eventId },
+      select: CO_ORGANIZER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.status(200).json({ coOrganizers });
+  } catch (error) {
+    console.error('Erro ao listar os coorganizadores:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar os coorganizadores.' });
+  }
+};
+
+/**
+ * Convida um usuário, informado pelo e-mail, a coorganizar um evento com as permissões informadas. As permissões só
+ * valem depois que o convite é aceito. Um convite recusado pode ser reenviado. (Permissão 'event:manage-staff')
+ */
+export const inviteCoOrganizer = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+    const { email, permissions } = inviteCoOrganizerSchema.parse(req.body);
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true, name: true, creatorId: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const invitee = await prisma.user.findUnique({ where: { email }, select: { id: true, email: true } });
+    if (!invitee) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
+    }
+    if (invitee.id === event.creatorId) {
+      return res.status(400).json({ message: 'O criador do evento já é o seu organizador.' });
+    }
+
+    const existing = await prisma.eventCoOrganizer.findUnique({
+      where: { eventId_userId: { eventId, userId: invitee.id } },
+      select: { id: true, status: true },
+    });
+    if (existing && existing.status !== CoOrganizerStatus.DECLINED) {
+      return res.status(409).json({
+        message: existing.status === CoOrganizerStatus.PENDING
+          ? 'Este usuário já foi convidado e ainda não respondeu.'
+          : 'Este usuário já é coorganizador do evento. Altere as permissões dele.',
+      });
+    }
+
+    const data = { permissions, status: CoOrganizerStatus.PENDING, invitedById: req.userId, respondedAt: null };
+    const coOrganizer = existing
+      ? await prisma.eventCoOrganizer.update({ where: { id: existing.id }, data, select: CO_ORGANIZER_SELECT })
+      : await prisma.eventCoOrganizer.create({ data: { ...data, eventId, userId: invitee.id }, select: CO_ORGANIZER_SELECT });
+
+    const inviter = req.userId ? await prisma.user.findUnique({ where: { id: req.userId }, select: { email: true } }) : null;
+    await sendInvitationEmail(invitee, event, inviter, permissions);
+
+    res.status(201).json({ message: 'Convite de coorganização enviado.', coOrganizer });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'Este usuário já foi convidado e ainda não respondeu.' });
+    }
+    console.error('Erro ao convidar coorganizador:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao convidar coorganizador.' });
+  }
+};
+
+/**
+ * Altera as permissões delegadas a um coorganizador (ou as do convite ainda pendente). (Permissão 'event:manage-staff')
+ */
+export const updateCoOrganizer = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId, userId } = req.params;
+    const { permissions } = updateCoOrganizerSchema.parse(req.body);
+
+    const updated = await prisma.eventCoOrganizer.updateMany({
+      where: { eventId, userId, status: { not: CoOrganizerStatus.DECLINED } },
+      data: { permissions },
+    });
+    if (updated.count === 0) {
+      return res.status(404).json({ message: 'Usuário não é coorganizador do evento.' });
+    }
+
+    // As permissões delegadas mudam os rascunhos visíveis nas listagens do coorganizador.
+    await invalidateEventCache([eventId]);
+
+    res.status(200).json({ message: 'Permissões do coorganizador atualizadas.' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar coorganizador:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atualizar coorganizador.' });
+  }
+};
+
+/**
+ * Remove um coorganizador do evento (ou cancela o convite). (Permissão 'event:manage-staff')
+ */
+export const removeCoOrganizer = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId, userId } = req.params;
+
+    const removed = await prisma.eventCoOrganizer.deleteMany({ where: { eventId, userId } });
+    if (removed.count === 0) {
+      return res.status(404).json({ message: 'Usuário não é coorganizador do evento.' });
+    }
+
+    await invalidateEventCache([eventId]);
+
+    res.status(200).json({ message: 'Coorganizador removido do evento.' });
+  } catch (error) {
+    console.error('Erro ao remover coorganizador:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover coorganizador.' });
+  }
+};
+
+/**
+ * Lista os convites de coorganização do usuário autenticado: os pendentes e os aceitos, com o evento de cada um.
+ */
+export const listMyCoOrganizations = async (req: Request, res: Response) => {
+  try {
+    const coOrganizations = await prisma.eventCoOrganizer.findMany({
+      where: { userId: req.userId, status: { not: CoOrganizerStatus.DECLINED }, event: { deletedAt: null } },
+      select: {
+        id: true,
+        permissions: true,
+        status: true,
+        createdAt: true,
+        respondedAt: true,
+        event: { select: { id: true, name: true, status: true, startsAt: true, endsAt: true, timezone: true } },
+        invitedBy: { select: { id: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.status(200).json({ coOrganizations });
+  } catch (error) {
+    console.error('Erro ao listar as coorganizações do usuário:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar as coorganizações.' });
+  }
+};
+
+// Responde a um convite do próprio usuário: aceitar vale apenas para convites pendentes; recusar vale também para
+// coorganizações já aceitas (o usuário deixa de coorganizar o evento).
+const respondToInvitation = async (req: Request, res: Response, status: CoOrganizerStatus) => {
+  const { invitationId } = req.params;
+  const accepting = status === CoOrganizerStatus.ACCEPTED;
+
+  const invitation = await prisma.eventCoOrganizer.findFirst({
+    where: { id: invitationId, userId: req.userId },
+    select: { id: true, eventId: true },
+  });
+  if (!invitation) {
+    return res.status(404).json({ message: 'Convite não encontrado.' });
+  }
+
+  // A resposta é condicional: o convite pode ter sido respondido ou reenviado enquanto isso.
+  const responded = await prisma.eventCoOrganizer.updateMany({
+    where: {
+      id: invitation.id,
+      status: accepting ? CoOrganizerStatus.PENDING : { in: [CoOrganizerStatus.PENDING, CoOrganizerStatus.ACCEPTED] },
+    },
+    data: { status, respondedAt: new Date() },
+  });
+  if (responded.count === 0) {
+    return res.status(409).json({ message: 'Este convite já foi respondido.' });
+  }
+
+  await invalidateEventCache([invitation.eventId]);
+
+  res.status(200).json({ message: accepting ? 'Convite de coorganização aceito.' : 'Convite de coorganização recusado.' });
+};
+
+/**
+ * Aceita um convite de coorganização do usuário autenticado.
+ */
+export const acceptCoOrganizerInvitation = async (req: Request, res: Response) => {
+  try {
+    await respondToInvitation(req, res, CoOrganizerStatus.ACCEPTED);
+  } catch (error) {
+    console.error('Erro ao aceitar convite de coorganização:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao aceitar convite de coorganização.' });
+  }
+};
+
+/**
+ * Recusa um convite de coorganização do usuário autenticado, ou deixa uma coorganização já aceita.
+ */
+export const declineCoOrganizerInvitation = async (req: Request, res: Response) => {
+  try {
+    await respondToInvitation(req, res, CoOrganizerStatus.DECLINED);
+  } catch (error) {
+    console.error('Erro ao recusar convite de coorganização:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao recusar convite de coorganização.' });
+  }
+};
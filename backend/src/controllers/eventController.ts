@@ -1,36 +1,136 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Role } from '@prisma/client';
-import { createEventSchema, updateEventSchema } from '../validation/schemas';
-import { ZodError } from 'zod';
-import { prisma } from '../services/prisma';
-import { redisClient } from '../config/redis';
-
-const EVENT_CACHE_PREFIX = 'event:';
-const EVENT_LIST_CACHE_KEY = 'events:list';
+import { PrismaClient, Prisma, EventStatus, EventFormat } from '@prisma/client';
+import { createEventSchema, createEventSeriesSchema, listEventsQuerySchema, searchSuggestionsQuerySchema, updateEventSchema, updateEventStatusSchema } from '../validation/schemas';
+import { z, ZodError } from 'zod';
+import { AppTransactionClient, prisma, prismaWithDeleted } from '../services/prisma';
+import { promoteFromWaitlist } from '../services/waitlist';
+import { PUBLIC_EVENT_STATUSES, transitionEvent } from '../services/eventLifecycle';
+import { getPurgeDate } from '../services/trash';
+import { isWithinEvent } from '../services/eventSessions';
+import { getSeriesOccurrences, materializeEventSeries, splitEventSeries } from '../services/eventSeries';
+import { DEFAULT_TIMEZONE, getZonedDayRange, isValidTimeZone } from '../services/timezone';
+import { canAccessOnlineLink, getEventPlaceError, hideOnlineLinks, inferEventFormat, resolveOnlineCapacity } from '../services/attendance';
+import {
+  BookingRange,
+  RoomWithVenue,
+  ROOM_CONFLICT_MESSAGE,
+  findRoomConflicts,
+  formatRoomLocation,
+  getRoomCapacityError,
+  lockRoom,
+} from '../services/venues';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SORT_ORDER,
+  EventSortField,
+  ListingCursor,
+  decodeListingCursor,
+  encodeListingCursor,
+  getCursorFilter,
+  getListingOrderBy,
+  getScoredPage,
+} from '../services/eventListing';
+import { getCategoryFacets } from '../services/categories';
+import { buildSearchQuery, findSearchMatches, findSearchSuggestions, getSearchHighlights } from '../services/eventSearch';
+import { DEFAULT_NEARBY_RADIUS_KM, findEventsNear, resolveEventCoordinates } from '../services/eventGeo';
+import { Coordinates } from '../services/geocoding';
+import { cached } from '../services/cache';
+import {
+  EVENT_AVAILABILITY_CACHE_TTL_SECONDS,
+  EVENT_DETAIL_CACHE_NAMESPACE,
+  EVENT_DETAIL_CACHE_TTL_SECONDS,
+  EVENT_LISTS_TAG,
+  EVENT_LIST_CACHE_NAMESPACE,
+  EVENT_LIST_CACHE_TTL_SECONDS,
+  eventCacheTag,
+  invalidateEventCache,
+  withFreshAvailability,
+} from '../services/eventCache';
+import { canAccessResource, getEventAccessFilter, getManagedEventsFilter, getPermissionScope } from '../services/permissions';
 
 export const createEvent = async (req: Request, res: Response) => {
   try {
     const eventData = createEventSchema.parse(req.body);
-    const { name, description, eventDate, location, onlineLink, maxCapacity } = eventData;
+    const { name, description, startsAt, endsAt, timezone, format, roomId, categoryId, tags, latitude, longitude, location, onlineLink, maxCapacity, onlineCapacity, maxSeatsPerUser, status, publishAt } = eventData;
 
-    if (req.role !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem criar eventos.' });
+    if (publishAt && status === EventStatus.PUBLISHED) {
+      return res.status(400).json({ message: 'A publicação agendada só se aplica a eventos em rascunho.' });
     }
 
-    const newEvent = await prisma.event.create({
-      data: {
-        name,
-        description: description ?? null,
-        eventDate: new Date(eventDate),
-        location: location ?? null,
-        onlineLink: onlineLink ?? null,
-        maxCapacity,
-        availableSpots: maxCapacity,
-        creatorId: req.userId!,
-      },
+    if (maxSeatsPerUser !== undefined && maxSeatsPerUser > maxCapacity) {
+      return res.status(400).json({ message: 'O limite de assentos por usuário não pode exceder a capacidade máxima.' });
+    }
+
+    const eventFormat = format ?? inferEventFormat(roomId ?? location, onlineLink);
+    const capacity = resolveOnlineCapacity(eventFormat, maxCapacity, onlineCapacity);
+    if ('error' in capacity) {
+      return res.status(400).json({ message: capacity.error });
+    }
+
+    const room = roomId ? await prisma.room.findUnique({ where: { id: roomId }, include: { venue: true } }) : null;
+    if (roomId && !room) {
+      return res.status(404).json({ message: 'Sala não encontrada.' });
+    }
+    if (room) {
+      const roomError = getRoomCapacityError(room, maxCapacity - capacity.onlineCapacity);
+      if (roomError) {
+        return res.status(400).json({ message: roomError });
+      }
+    }
+
+    if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } }))) {
+      return res.status(404).json({ message: 'Categoria não encontrada.' });
+    }
+
+    // A geocodificação pode consultar um serviço externo, por isso acontece fora da transação.
+    const coordinates = await resolveEventCoordinates({ format: eventFormat, room, location, latitude, longitude });
+    const booking: BookingRange = { startsAt: new Date(startsAt), endsAt: new Date(endsAt) };
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      if (room) {
+        await lockRoom(tx, room.id);
+        const conflicts = await findRoomConflicts(tx, room.id, [booking]);
+        if (conflicts.length > 0) {
+          return { conflicts };
+        }
+      }
+
+      const event = await tx.event.create({
+        data: {
+          name,
+          description: description ?? null,
+          startsAt: booking.startsAt,
+          endsAt: booking.endsAt,
+          timezone: timezone ?? DEFAULT_TIMEZONE,
+          format: eventFormat,
+          roomId: room?.id ?? null,
+          // Com sala, o local do evento é o endereço da sala.
+          location: room ? formatRoomLocation(room) : location ?? null,
+          latitude: coordinates?.latitude ?? null,
+          longitude: coordinates?.longitude ?? null,
+          onlineLink: onlineLink ?? null,
+          categoryId: categoryId ?? null,
+          tags: tags ?? [],
+          maxCapacity,
+          availableSpots: maxCapacity,
+          onlineCapacity: capacity.onlineCapacity,
+          onlineAvailableSpots: capacity.onlineCapacity,
+          maxSeatsPerUser: maxSeatsPerUser ?? 1,
+          status: status ?? EventStatus.DRAFT,
+          publishAt: publishAt ? new Date(publishAt) : null,
+          creatorId: req.userId!,
+        },
+      });
+      return { event };
     });
 
-    await redisClient.del(EVENT_LIST_CACHE_KEY);
+    if ('conflicts' in result) {
+      return res.status(409).json({ message: ROOM_CONFLICT_MESSAGE, conflicts: result.conflicts });
+    }
+    const newEvent = result.event;
+
+    await invalidateEventCache([newEvent.id]);
 
     res.status(201).json({ message: 'Evento criado com sucesso!', event: newEvent });
   } catch (error) {
@@ -42,152 +142,616 @@ export const createEvent = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Lista eventos, uma página por vez. Aceita busca textual (`q`), busca por proximidade (`near`/`radiusKm`), filtros (nome, dia,
+ * período, apenas futuros, apenas com vagas, formato, local, criador, categoria, tags, apenas os eventos criados ou
+ * coorganizados por quem consulta com `mine`), ordenação (`sort`/`order`)
+ * e paginação por cursor (`limit`/`cursor`).
+ * A resposta traz a página, o cursor da próxima (`nextCursor`, null na última), o total de eventos do filtro
+ * e as contagens de eventos futuros por categoria (`facets`).
+ * Em buscas, cada evento traz também `search`, com a relevância e os termos encontrados destacados;
+ * em buscas por proximidade, `distanceKm`, a distância até o ponto informado.
+ */
 export const listEvents = async (req: Request, res: Response) => {
   try {
-    const { name, date } = req.query;
-    let events;
+    const { name, date, timezone, status } = req.query;
+    const query = listEventsQuerySchema.parse(req.query);
+    // Buscas são ordenadas por relevância e buscas por proximidade por distância, a menos que outra ordenação seja pedida.
+    // A relevância é sempre decrescente e a distância sempre crescente.
+    const sort = query.sort ?? (query.q ? 'relevance' : query.near ? 'distance' : 'startsAt');
+    const isScoredSort = sort === 'relevance' || sort === 'distance';
+    const order = isScoredSort ? DEFAULT_SORT_ORDER[sort] : query.order ?? DEFAULT_SORT_ORDER[sort];
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
 
-    if (!name && !date) {
-      const cachedEvents = await redisClient.get(EVENT_LIST_CACHE_KEY);
-      if (cachedEvents) {
-        return res.status(200).json({ events: JSON.parse(cachedEvents) });
-      }
+    // Administradores veem todos os eventos e organizadores também os rascunhos dos próprios (ambos podem filtrar por
+    // status); os demais apenas os públicos.
+    // Os rascunhos dos eventos coorganizados aparecem apenas em "meus eventos" (`mine`): considerá-los em toda listagem
+    // separaria o cache das páginas públicas por usuário.
+    const draftsFilter = getEventAccessFilter(req, 'event:view-drafts', { coOrganizers: query.mine === true });
+    const canSeeAllEvents = getPermissionScope(req.role, 'event:view-drafts') === 'all';
+    if (query.mine && !req.userId) {
+      return res.status(401).json({ message: 'Autenticação necessária para listar os próprios eventos.' });
+    }
+
+    const cursor = query.cursor ? decodeListingCursor(query.cursor, sort, order) : null;
+    if (query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Cursor de paginação inválido para esta ordenação.' });
     }
 
-    const where: any = {};
+    const tsquery = query.q ? buildSearchQuery(query.q) : null;
+    if (query.q && !tsquery) {
+      return res.status(400).json({ message: 'Informe ao menos uma palavra para a busca.' });
+    }
+
+    const where: Prisma.EventWhereInput = {};
+    const conditions: Prisma.EventWhereInput[] = [];
+    if (draftsFilter) {
+      if (status) {
+        if (!Object.values(EventStatus).includes(status as EventStatus)) {
+          return res.status(400).json({ message: 'Status de evento inválido.' });
+        }
+        where.status = status as EventStatus;
+      }
+      if (!canSeeAllEvents) {
+        conditions.push({ OR: [{ status: { in: PUBLIC_EVENT_STATUSES } }, draftsFilter] });
+      }
+    } else {
+      where.status = { in: PUBLIC_EVENT_STATUSES };
+    }
     if (name) {
       where.name = { contains: name as string, mode: 'insensitive' };
     }
+    const filterTimeZone = (timezone as string | undefined) || DEFAULT_TIMEZONE;
     if (date) {
-      const parsedDate = new Date(date as string);
-      if (isNaN(parsedDate.getTime())) {
+      // O dia é interpretado no fuso informado em `timezone` (o de quem consulta), não no fuso do servidor.
+      if (!isValidTimeZone(filterTimeZone)) {
+        return res.status(400).json({ message: 'Fuso horário inválido. Use um identificador IANA (ex: "America/Sao_Paulo").' });
+      }
+      const dayRange = getZonedDayRange(date as string, filterTimeZone);
+      if (!dayRange) {
         return res.status(400).json({ message: 'Formato de data inválido. Use AAAA-MM-DD.' });
       }
-      const startOfDay = new Date(parsedDate.setHours(0, 0, 0, 0));
-      const endOfDay = new Date(parsedDate.setHours(23, 59, 59, 999));
-      where.eventDate = { gte: startOfDay, lte: endOfDay };
+      // Eventos que acontecem em qualquer momento do dia, inclusive os que começaram antes ou terminam depois.
+      conditions.push({ startsAt: { lt: dayRange.end }, endsAt: { gt: dayRange.start } });
+    }
+    // Assim como o dia, o período inclui os eventos que estão acontecendo em algum momento dele.
+    if (query.from) {
+      conditions.push({ endsAt: { gt: new Date(query.from) } });
+    }
+    if (query.to) {
+      conditions.push({ startsAt: { lt: new Date(query.to) } });
+    }
+    // "Futuros" inclui os eventos em andamento, que ainda aceitam reservas.
+    if (query.upcoming) {
+      conditions.push({ endsAt: { gt: new Date() } });
+    }
+    if (query.hasSpots) {
+      where.availableSpots = { gt: 0 };
+    }
+    if (query.format) {
+      where.format = query.format;
+    }
+    if (query.location) {
+      where.location = { contains: query.location, mode: 'insensitive' };
+    }
+    if (query.creatorId) {
+      where.creatorId = query.creatorId;
+    }
+    if (query.mine) {
+      conditions.push(getManagedEventsFilter(req.userId!));
+    }
+    if (query.tags && query.tags.length > 0) {
+      where.tags = { hasEvery: query.tags };
     }
 
-    events = await prisma.event.findMany({
-      where,
-      orderBy: { eventDate: 'asc' },
-      include: {
-        creator: { select: { id: true, email: true } }
+    const include = {
+      creator: { select: { id: true, email: true } },
+      category: { select: { id: true, name: true, slug: true } },
+    } as const;
+
+    // Cada página é guardada em cache pela consulta normalizada (com os padrões já aplicados), separada para administradores
+    // e para cada organizador.
+    // Páginas que dependem das vagas (filtro `hasSpots` ou ordenação por vagas) valem só por alguns segundos.
+    const dependsOnAvailability = query.hasSpots || sort === 'availableSpots';
+    const page = await cached({
+      namespace: EVENT_LIST_CACHE_NAMESPACE,
+      params: {
+        ...query,
+        sort,
+        order,
+        limit,
+        scope: canSeeAllEvents ? 'admin' : draftsFilter || query.mine ? `own:${req.userId}` : 'public',
+        name,
+        date,
+        timezone: date ? filterTimeZone : undefined,
+        status: draftsFilter ? status : undefined,
+      },
+      ttlSeconds: dependsOnAvailability ? EVENT_AVAILABILITY_CACHE_TTL_SECONDS : EVENT_LIST_CACHE_TTL_SECONDS,
+      tags: (value) => [EVENT_LISTS_TAG, ...value.events.map((event) => eventCacheTag(event.id))],
+    }, async () => {
+      // As buscas textual e por proximidade consideram apenas os eventos que passam nos demais filtros (status,
+      // visibilidade, período, vagas...): assim nenhum evento visível fica de fora dos resultados e o total é exato.
+      const candidateIds = tsquery || query.near
+        ? (await prisma.event.findMany({ where: { ...where, AND: [...conditions] }, select: { id: true } })).map((event) => event.id)
+        : [];
+      const matches = tsquery ? await findSearchMatches(prisma, tsquery, candidateIds) : [];
+      if (tsquery) {
+        conditions.push({ id: { in: matches.map((match) => match.id) } });
+      }
+      const nearby = query.near ? await findEventsNear(prisma, query.near, query.radiusKm ?? DEFAULT_NEARBY_RADIUS_KM, candidateIds) : [];
+      if (query.near) {
+        conditions.push({ id: { in: nearby.map((match) => match.id) } });
+      }
+      if (conditions.length > 0) {
+        where.AND = conditions;
       }
-    });
 
-    if (!name && !date) {
-      await redisClient.setEx(EVENT_LIST_CACHE_KEY, 3600, JSON.stringify(events));
-    }
+      // A categoria filtra a listagem, mas não as contagens por categoria, que seguem os demais filtros.
+      const listWhere: Prisma.EventWhereInput = query.category ? { AND: [where, { category: { slug: query.category } }] } : where;
 
-    res.status(200).json({ events });
+      let total: number;
+      let events: Prisma.EventGetPayload<{ include: typeof include }>[];
+      let nextCursor: string | null;
+
+      if (isScoredSort) {
+        // Relevância e distância não são colunas: os resultados que passam nos filtros são paginados em memória.
+        const scored = sort === 'relevance'
+          ? matches.map((match) => ({ id: match.id, score: match.rank }))
+          : nearby.map((match) => ({ id: match.id, score: match.distanceKm }));
+        const filteredIds = new Set((await prisma.event.findMany({ where: listWhere, select: { id: true } })).map((event) => event.id));
+        const filteredScored = scored.filter((item) => filteredIds.has(item.id));
+        const scoreCursor = cursor ? { value: cursor.value as number, id: cursor.id } : null;
+        const { page, hasNextPage } = getScoredPage(filteredScored, order, scoreCursor, limit);
+
+        const pageEvents = await prisma.event.findMany({ where: { id: { in: page.map((item) => item.id) } }, include });
+        const eventsById = new Map(pageEvents.map((event) => [event.id, event]));
+        total = filteredScored.length;
+        events = page.flatMap((item) => eventsById.get(item.id) ?? []);
+        const last = page[page.length - 1];
+        nextCursor = hasNextPage ? encodeListingCursor(last.score, last.id, sort, order) : null;
+      } else {
+        const fieldCursor = cursor as ListingCursor<EventSortField> | null;
+        const [count, page] = await Promise.all([
+          prisma.event.count({ where: listWhere }),
+          prisma.event.findMany({
+            where: fieldCursor ? { AND: [listWhere, getCursorFilter(fieldCursor)] } : listWhere,
+            orderBy: getListingOrderBy(sort, order),
+            // Um evento a mais indica se existe uma próxima página.
+            take: limit + 1,
+            include,
+          }),
+        ]);
+
+        const hasNextPage = page.length > limit;
+        total = count;
+        events = hasNextPage ? page.slice(0, limit) : page;
+        const last = events[events.length - 1];
+        nextCursor = hasNextPage ? encodeListingCursor(last[sort], last.id, sort, order) : null;
+      }
+
+      // A listagem nunca revela links online: eles ficam nos detalhes, para quem tem reserva online confirmada.
+      if (!canSeeAllEvents) {
+        events = events.map(hideOnlineLinks);
+      }
+
+      const facets = { categories: await getCategoryFacets(prisma, where) };
+
+      // Em buscas, cada evento traz a relevância e os termos destacados; em buscas por proximidade, a distância.
+      const highlights = tsquery ? await getSearchHighlights(prisma, events.map((event) => event.id), tsquery) : new Map();
+      const ranks = new Map(matches.map((match) => [match.id, match.rank]));
+      const distances = new Map(nearby.map((match) => [match.id, match.distanceKm]));
+      const results = events.map((event) => ({
+        ...event,
+        ...(tsquery ? { search: { rank: ranks.get(event.id) ?? 0, ...highlights.get(event.id) } } : {}),
+        ...(query.near ? { distanceKm: distances.get(event.id) ?? null } : {}),
+      }));
+
+      return { events: results, nextCursor, total, facets };
+    });
+
+    res.status(200).json({ ...page, events: await withFreshAvailability(page.events) });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
     console.error('Erro ao listar eventos:', error);
     res.status(500).json({ message: 'Erro interno do servidor ao listar eventos.' });
   }
 };
 
+/**
+ * Sugestões para a caixa de busca enquanto o usuário digita: eventos públicos ainda não encerrados,
+ * do mais ao menos relevante, com o nome destacado.
+ */
+export const suggestEvents = async (req: Request, res: Response) => {
+  try {
+    const { q, limit } = searchSuggestionsQuerySchema.parse(req.query);
+
+    const tsquery = buildSearchQuery(q);
+    if (!tsquery) {
+      return res.status(200).json({ suggestions: [] });
+    }
+
+    const suggestions = await findSearchSuggestions(prisma, tsquery, PUBLIC_EVENT_STATUSES, limit ?? 8);
+    res.status(200).json({ suggestions });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao buscar sugestões de eventos:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao buscar sugestões de eventos.' });
+  }
+};
+
 export const getEventById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const cachedEvent = await redisClient.get(`${EVENT_CACHE_PREFIX}${id}`);
-    if (cachedEvent) {
-      return res.status(200).json({ event: JSON.parse(cachedEvent) });
-    }
+    // Rascunhos só existem para administradores, para o organizador do evento e para os coorganizadores que o editam.
+    const isHiddenFromRequester = async (event: { status: EventStatus; creatorId: string }) => {
+      return event.status === EventStatus.DRAFT && !(await canAccessResource(req, 'event:view-drafts', { creatorId: event.creatorId, eventId: id }));
+    };
+
+    // O cache guarda o evento completo; o link online é removido por requisição, para quem não tem acesso a ele.
+    const withOnlineLinkForRequester = async <T extends { onlineLink: string | null; sessions?: { onlineLink: string | null }[] }>(event: T): Promise<T> => {
+      return (await canAccessOnlineLink(prisma, id, req)) ? event : hideOnlineLinks(event);
+    };
 
-    const event = await prisma.event.findUnique({
+    // Eventos inexistentes (ou na lixeira) também ficam em cache, como null, até serem restaurados.
+    const cachedEvent = await cached({
+      namespace: EVENT_DETAIL_CACHE_NAMESPACE,
+      params: { id },
+      ttlSeconds: EVENT_DETAIL_CACHE_TTL_SECONDS,
+      tags: () => [eventCacheTag(id)],
+    }, () => prisma.event.findUnique({
       where: { id },
       include: {
-        creator: { select: { id: true, email: true } }
+        creator: { select: { id: true, email: true } },
+        room: { include: { venue: true } },
+        category: true,
+        sessions: { orderBy: [{ startsAt: 'asc' }, { endsAt: 'asc' }] },
       }
-    });
+    }));
 
-    if (!event) {
+    if (!cachedEvent || (await isHiddenFromRequester(cachedEvent))) {
       return res.status(404).json({ message: 'Evento não encontrado.' });
     }
 
-    await redisClient.setEx(`${EVENT_CACHE_PREFIX}${id}`, 3600, JSON.stringify(event));
-    res.status(200).json({ event });
+    const [event] = await withFreshAvailability([cachedEvent]);
+    res.status(200).json({ event: await withOnlineLinkForRequester(event) });
   } catch (error) {
     console.error('Erro ao obter evento por ID:', error);
     res.status(500).json({ message: 'Erro interno do servidor ao obter evento.' });
   }
 };
 
+// Campos lidos de cada evento afetado por uma atualização.
+const EVENT_UPDATE_SELECT = {
+  id: true,
+  startsAt: true,
+  endsAt: true,
+  format: true,
+  maxCapacity: true,
+  availableSpots: true,
+  onlineCapacity: true,
+  onlineAvailableSpots: true,
+  maxSeatsPerUser: true,
+  location: true,
+  onlineLink: true,
+  roomId: true,
+  room: { include: { venue: true } },
+  status: true,
+  seriesId: true,
+  occurrenceDate: true,
+} as const;
+
+type EventUpdateTarget = Prisma.EventGetPayload<{ select: typeof EVENT_UPDATE_SELECT }>;
+type UpdateEventInput = z.infer<typeof updateEventSchema>;
+
+// Reserva de sala de um evento atualizado, a verificar contra os demais eventos da sala.
+interface RoomBooking extends BookingRange {
+  roomId: string;
+}
+
+/**
+ * Valida e monta a atualização de um evento a partir dos campos enviados.
+ * Em edições de série, os deslocamentos (em ms) movem o início e o término de cada ocorrência pelo mesmo intervalo.
+ * @param newRoom A nova sala do evento, null para removê-la ou undefined para manter a atual.
+ * @param coordinates As novas coordenadas do evento, null para removê-las ou undefined para manter as atuais.
+ * @returns Os dados a gravar, as novas vagas disponíveis e a reserva de sala a verificar (quando a sala
+ * ou o horário mudam), ou a mensagem de erro de validação.
+ */
+const buildEventUpdate = (
+  existingEvent: EventUpdateTarget,
+  eventData: UpdateEventInput,
+  shifts: { startShift: number; endShift: number },
+  newRoom?: RoomWithVenue | null,
+  coordinates?: Coordinates | null
+): { data: Prisma.EventUpdateInput; newAvailableSpots?: number; booking?: RoomBooking } | { error: string } => {
+  const { name, description, timezone, format, location, onlineLink, categoryId, tags, maxCapacity, onlineCapacity, maxSeatsPerUser, publishAt } = eventData;
+
+  const finalStartsAt = new Date(existingEvent.startsAt.getTime() + shifts.startShift);
+  const finalEndsAt = new Date(existingEvent.endsAt.getTime() + shifts.endShift);
+  if (finalEndsAt <= finalStartsAt) {
+    return { error: 'O término do evento deve ser posterior ao início.' };
+  }
+
+  const finalMaxCapacity = maxCapacity ?? existingEvent.maxCapacity;
+  const finalMaxSeatsPerUser = maxSeatsPerUser ?? existingEvent.maxSeatsPerUser;
+  if (finalMaxSeatsPerUser > finalMaxCapacity) {
+    return { error: 'O limite de assentos por usuário não pode exceder a capacidade máxima.' };
+  }
+
+  // Com sala, o local do evento é o endereço da sala; sem ela, o texto informado (ou o atual).
+  const finalRoom = newRoom !== undefined ? newRoom : existingEvent.room;
+  const finalLocation = finalRoom
+    ? formatRoomLocation(finalRoom)
+    : location !== undefined ? (location?.trim() || null) : existingEvent.location;
+  const finalOnlineLink = onlineLink !== undefined ? (onlineLink?.trim() || null) : existingEvent.onlineLink;
+  const finalFormat = format ?? existingEvent.format;
+
+  if (finalRoom && finalFormat === EventFormat.ONLINE) {
+    return { error: 'Eventos online não podem ocupar uma sala. Use o formato híbrido.' };
+  }
+
+  const placeError = getEventPlaceError(finalFormat, finalLocation, finalOnlineLink);
+  if (placeError) {
+    return { error: placeError };
+  }
+
+  // Sem nova capacidade online, um evento que já era híbrido mantém a atual.
+  const capacity = resolveOnlineCapacity(
+    finalFormat,
+    finalMaxCapacity,
+    onlineCapacity ?? (existingEvent.format === EventFormat.HYBRID ? existingEvent.onlineCapacity : undefined)
+  );
+  if ('error' in capacity) {
+    return { error: capacity.error };
+  }
+
+  if (finalRoom) {
+    const roomError = getRoomCapacityError(finalRoom, finalMaxCapacity - capacity.onlineCapacity);
+    if (roomError) {
+      return { error: roomError };
+    }
+  }
+
+  // Assentos ocupados em cada modalidade; uma modalidade com reservas não pode deixar de existir.
+  const occupiedOnline = existingEvent.onlineCapacity - existingEvent.onlineAvailableSpots;
+  const occupiedInPerson = (existingEvent.maxCapacity - existingEvent.onlineCapacity) - (existingEvent.availableSpots - existingEvent.onlineAvailableSpots);
+  if (finalFormat === EventFormat.IN_PERSON && occupiedOnline > 0) {
+    return { error: 'O evento possui reservas online e não pode passar a ser apenas presencial.' };
+  }
+  if (finalFormat === EventFormat.ONLINE && occupiedInPerson > 0) {
+    return { error: 'O evento possui reservas presenciais e não pode passar a ser apenas online.' };
+  }
+
+  let newAvailableSpots: number | undefined = undefined;
+  let newOnlineAvailableSpots: number | undefined = undefined;
+  if (maxCapacity !== undefined || format !== undefined || onlineCapacity !== undefined) {
+    newOnlineAvailableSpots = Math.max(0, capacity.onlineCapacity - occupiedOnline);
+    newAvailableSpots = newOnlineAvailableSpots + Math.max(0, finalMaxCapacity - capacity.onlineCapacity - occupiedInPerson);
+  }
+
+  const data: Prisma.EventUpdateInput = {};
+
+  if (name !== undefined) data.name = name;
+  if (description !== undefined) data.description = description ?? null;
+  if (shifts.startShift !== 0) data.startsAt = finalStartsAt;
+  if (shifts.endShift !== 0) data.endsAt = finalEndsAt;
+  if (timezone !== undefined) data.timezone = timezone;
+  if (format !== undefined) data.format = format;
+  if (newRoom !== undefined) data.room = newRoom ? { connect: { id: newRoom.id } } : { disconnect: true };
+  if (location !== undefined || newRoom) data.location = finalLocation;
+  if (onlineLink !== undefined) data.onlineLink = finalOnlineLink;
+  if (coordinates !== undefined) {
+    data.latitude = coordinates?.latitude ?? null;
+    data.longitude = coordinates?.longitude ?? null;
+  }
+  if (categoryId !== undefined) data.category = categoryId ? { connect: { id: categoryId } } : { disconnect: true };
+  if (tags !== undefined) data.tags = tags;
+  if (maxSeatsPerUser !== undefined) data.maxSeatsPerUser = maxSeatsPerUser;
+  // Publicação agendada só vale para rascunhos; nas demais ocorrências de uma série, é ignorada.
+  if (publishAt !== undefined && existingEvent.status === EventStatus.DRAFT) {
+    data.publishAt = publishAt ? new Date(publishAt) : null;
+  }
+  if (typeof maxCapacity === 'number') {
+    data.maxCapacity = maxCapacity;
+  }
+  if (newAvailableSpots !== undefined && newOnlineAvailableSpots !== undefined) {
+    data.availableSpots = newAvailableSpots;
+    data.onlineCapacity = capacity.onlineCapacity;
+    data.onlineAvailableSpots = newOnlineAvailableSpots;
+  }
+
+  // Eventos cancelados não ocupam a sala; os demais são verificados quando a sala ou o horário mudam.
+  const bookingChanged = newRoom !== undefined || shifts.startShift !== 0 || shifts.endShift !== 0;
+  const booking = finalRoom && bookingChanged && existingEvent.status !== EventStatus.CANCELED
+    ? { roomId: finalRoom.id, startsAt: finalStartsAt, endsAt: finalEndsAt }
+    : undefined;
+
+  return { data, newAvailableSpots, booking };
+};
+
+/**
+ * Atualiza um evento. Em ocorrências de uma série, `scope` define o alcance da edição:
+ * THIS (padrão) altera só esta ocorrência, FOLLOWING divide a série e altera esta e as seguintes,
+ * ALL altera todas as ocorrências. Ocorrências arquivadas nunca são alteradas. (Permissão 'event:update')
+ */
 export const updateEvent = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const eventData = updateEventSchema.parse(req.body);
-    const { name, description, eventDate, location, onlineLink, maxCapacity } = eventData;
-
-    if (req.role !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem atualizar eventos.' });
-    }
+    const { startsAt, endsAt, timezone, format, roomId, categoryId, location, latitude, longitude, publishAt, scope = 'THIS' } = eventData;
 
     const existingEvent = await prisma.event.findUnique({
       where: { id },
-      select: { creatorId: true, maxCapacity: true, availableSpots: true, location: true, onlineLink: true }
+      select: EVENT_UPDATE_SELECT,
     });
 
     if (!existingEvent) {
       return res.status(404).json({ message: 'Evento não encontrado para atualização.' });
     }
 
-    const finalLocation = location !== undefined ? (location?.trim() || null) : existingEvent.location;
-    const finalOnlineLink = onlineLink !== undefined ? (onlineLink?.trim() || null) : existingEvent.onlineLink;
-
-    const hasFinalLocation = finalLocation !== null && finalLocation !== '';
-    const hasFinalOnlineLink = finalOnlineLink !== null && finalOnlineLink !== '';
+    if (existingEvent.status === EventStatus.ARCHIVED) {
+      return res.status(400).json({ message: 'Eventos arquivados não podem ser alterados.' });
+    }
 
-    if (!hasFinalLocation && !hasFinalOnlineLink) {
-      return res.status(400).json({ message: 'O evento deve ter uma localização ou um link online.' });
+    if (publishAt && existingEvent.status !== EventStatus.DRAFT) {
+      return res.status(400).json({ message: 'A publicação agendada só se aplica a eventos em rascunho.' });
     }
-    if (hasFinalLocation && hasFinalOnlineLink) {
-      return res.status(400).json({ message: 'O evento não pode ter localização e link online simultaneamente.' });
+
+    if (scope !== 'THIS' && (!existingEvent.seriesId || !existingEvent.occurrenceDate)) {
+      return res.status(400).json({ message: 'Este evento não faz parte de uma série recorrente.' });
     }
 
-    let newAvailableSpots: number | undefined = undefined;
-    if (typeof maxCapacity === 'number' && typeof existingEvent.maxCapacity === 'number') {
-      if (maxCapacity !== existingEvent.maxCapacity) {
-        const delta = maxCapacity - existingEvent.maxCapacity;
-        newAvailableSpots = Math.max(0, existingEvent.availableSpots + delta);
-      } else {
-        newAvailableSpots = existingEvent.availableSpots;
+    // Sem `roomId`, cada evento mantém a sua sala; null remove a sala.
+    let newRoom: RoomWithVenue | null | undefined = roomId === null ? null : undefined;
+    if (roomId) {
+      newRoom = await prisma.room.findUnique({ where: { id: roomId }, include: { venue: true } });
+      if (!newRoom) {
+        return res.status(404).json({ message: 'Sala não encontrada.' });
       }
     }
 
-    const dataToUpdate: {
-      name?: string;
-      description?: string | null;
-      eventDate?: Date;
-      location?: string | null;
-      onlineLink?: string | null;
-      maxCapacity?: number;
-      availableSpots?: number;
-    } = {};
+    if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } }))) {
+      return res.status(404).json({ message: 'Categoria não encontrada.' });
+    }
+
+    // As coordenadas são recalculadas quando o local muda (sala, endereço ou passagem de/para online),
+    // a partir do local final deste evento; coordenadas informadas substituem as calculadas.
+    const finalFormat = format ?? existingEvent.format;
+    const placeChanged = roomId !== undefined || location !== undefined
+      || (finalFormat === EventFormat.ONLINE) !== (existingEvent.format === EventFormat.ONLINE);
+    let coordinates: Coordinates | null | undefined = undefined;
+    if (latitude !== undefined || placeChanged) {
+      const finalRoom = newRoom !== undefined ? newRoom : existingEvent.room;
+      coordinates = await resolveEventCoordinates({
+        format: finalFormat,
+        room: finalRoom,
+        location: location !== undefined ? location : existingEvent.location,
+        latitude,
+        longitude,
+      });
+    }
+
+    const targets = scope === 'THIS'
+      ? [existingEvent]
+      : await prisma.event.findMany({
+          where: {
+            seriesId: existingEvent.seriesId,
+            status: { not: EventStatus.ARCHIVED },
+            ...(scope === 'FOLLOWING' ? { occurrenceDate: { gte: existingEvent.occurrenceDate! } } : {}),
+          },
+          select: EVENT_UPDATE_SELECT,
+          orderBy: { startsAt: 'asc' },
+        });
+
+    // O novo horário desta ocorrência vira um deslocamento aplicado a todas as afetadas (ex: mudar o horário da série).
+    // Sem um novo término, o evento mantém a duração.
+    const startShift = startsAt !== undefined ? new Date(startsAt).getTime() - existingEvent.startsAt.getTime() : 0;
+    const endShift = endsAt !== undefined ? new Date(endsAt).getTime() - existingEvent.endsAt.getTime() : startShift;
 
-    if (name !== undefined) dataToUpdate.name = name;
-    if (description !== undefined) dataToUpdate.description = description ?? null;
-    if (eventDate !== undefined) dataToUpdate.eventDate = new Date(eventDate as string);
-    if (location !== undefined) dataToUpdate.location = finalLocation;
-    if (onlineLink !== undefined) dataToUpdate.onlineLink = finalOnlineLink;
-    if (typeof maxCapacity === 'number') {
-      dataToUpdate.maxCapacity = maxCapacity;
-      if (newAvailableSpots !== undefined) {
-        dataToUpdate.availableSpots = newAvailableSpots;
+    const updates: { target: EventUpdateTarget; data: Prisma.EventUpdateInput; newAvailableSpots?: number; booking?: RoomBooking }[] = [];
+    for (const target of targets) {
+      const update = buildEventUpdate(target, eventData, { startShift, endShift }, newRoom, coordinates);
+      if ('error' in update) {
+        const occurrence = targets.length > 1 ? ` (ocorrência de ${target.startsAt.toISOString()})` : '';
+        return res.status(400).json({ message: `${update.error}${occurrence}` });
       }
+      updates.push({ target, ...update });
     }
 
-    const updatedEvent = await prisma.event.update({
-      where: { id },
-      data: dataToUpdate,
+    // Reservas de sala a verificar, agrupadas por sala; os próprios eventos atualizados não contam como conflito.
+    const bookingsByRoom = new Map<string, BookingRange[]>();
+    for (const { booking } of updates) {
+      if (booking) {
+        bookingsByRoom.set(booking.roomId, [...(bookingsByRoom.get(booking.roomId) ?? []), booking]);
+      }
+    }
+    const targetIds = updates.map(({ target }) => target.id);
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      // As salas são travadas sempre na mesma ordem, para que edições simultâneas não se bloqueiem mutuamente.
+      for (const bookedRoomId of [...bookingsByRoom.keys()].sort()) {
+        await lockRoom(tx, bookedRoomId);
+        const conflicts = await findRoomConflicts(tx, bookedRoomId, bookingsByRoom.get(bookedRoomId)!, targetIds);
+        if (conflicts.length > 0) {
+          return { conflicts };
+        }
+      }
+
+      // A agenda acompanha o novo início de cada evento; a edição é recusada se alguma sessão ficar fora do novo horário
+      // (ex: término antecipado).
+      const shiftedSessions = startShift !== 0 || endShift !== 0
+        ? await tx.eventSession.findMany({
+            where: { eventId: { in: targetIds } },
+            select: { id: true, eventId: true, title: true, startsAt: true, endsAt: true },
+          })
+        : [];
+      for (const session of shiftedSessions) {
+        const target = updates.find((update) => update.target.id === session.eventId)!.target;
+        const newWindow = {
+          startsAt: new Date(target.startsAt.getTime() + startShift),
+          endsAt: new Date(target.endsAt.getTime() + endShift),
+        };
+        const newStartsAt = new Date(session.startsAt.getTime() + startShift);
+        const newEndsAt = new Date(session.endsAt.getTime() + startShift);
+        if (!isWithinEvent(newWindow, newStartsAt, newEndsAt)) {
+          const occurrence = updates.length > 1 ? ` (ocorrência de ${target.startsAt.toISOString()})` : '';
+          return { sessionError: `A sessão "${session.title}" ficaria fora do novo horário do evento${occurrence}. Ajuste a agenda antes.` };
+        }
+      }
+
+      const seriesId = scope === 'FOLLOWING'
+        ? await splitEventSeries(tx, existingEvent.seriesId!, existingEvent.occurrenceDate!)
+        : existingEvent.seriesId;
+
+      // Um novo fuso em edições de série passa a valer também para a expansão da regra.
+      if (scope !== 'THIS' && timezone !== undefined) {
+        await tx.eventSeries.update({ where: { id: seriesId! }, data: { timezone } });
+      }
+
+      for (const { target, data, newAvailableSpots } of updates) {
+        await tx.event.update({ where: { id: target.id }, data });
+
+        // Vagas novas (aumento de capacidade em alguma modalidade) são oferecidas primeiro a quem está na lista de espera.
+        if (newAvailableSpots !== undefined) {
+          await promoteFromWaitlist(tx, target.id);
+        }
+      }
+
+      if (startShift !== 0) {
+        for (const session of shiftedSessions) {
+          await tx.eventSession.update({
+            where: { id: session.id },
+            data: {
+              startsAt: new Date(session.startsAt.getTime() + startShift),
+              endsAt: new Date(session.endsAt.getTime() + startShift),
+            },
+          });
+        }
+      }
+
+      return { event: await tx.event.findUniqueOrThrow({ where: { id } }) };
     });
 
-    await redisClient.del(`${EVENT_CACHE_PREFIX}${id}`);
-    await redisClient.del(EVENT_LIST_CACHE_KEY);
+    if ('conflicts' in result) {
+      return res.status(409).json({ message: ROOM_CONFLICT_MESSAGE, conflicts: result.conflicts });
+    }
+    if ('sessionError' in result) {
+      return res.status(400).json({ message: result.sessionError });
+    }
+    const updatedEvent = result.event;
+
+    await invalidateEventCache(targetIds);
 
-    res.status(200).json({ message: 'Evento atualizado com sucesso!', event: updatedEvent });
+    res.status(200).json({
+      message: updates.length > 1 ? `${updates.length} ocorrências atualizadas com sucesso!` : 'Evento atualizado com sucesso!',
+      event: updatedEvent,
+      updatedCount: updates.length,
+    });
   } catch (error) {
     if (error instanceof ZodError) {
       return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
@@ -197,29 +761,273 @@ export const updateEvent = async (req: Request, res: Response) => {
   }
 };
 
-export const deleteEvent = async (req: Request, res: Response) => {
+/**
+ * Cria uma série de eventos recorrentes, materializando cada ocorrência da regra como um evento. (Permissão 'event:create')
+ */
+export const createEventSeries = async (req: Request, res: Response) => {
+  try {
+    const seriesData = createEventSeriesSchema.parse(req.body);
+    const { name, description, startsAt, endsAt, timezone, format, roomId, categoryId, tags, latitude, longitude, location, onlineLink, maxCapacity, onlineCapacity, maxSeatsPerUser, status, publishAt, rrule, exdates } = seriesData;
+
+    if (publishAt && status === EventStatus.PUBLISHED) {
+      return res.status(400).json({ message: 'A publicação agendada só se aplica a eventos em rascunho.' });
+    }
+
+    if (maxSeatsPerUser !== undefined && maxSeatsPerUser > maxCapacity) {
+      return res.status(400).json({ message: 'O limite de assentos por usuário não pode exceder a capacidade máxima.' });
+    }
+
+    const eventFormat = format ?? inferEventFormat(roomId ?? location, onlineLink);
+    const capacity = resolveOnlineCapacity(eventFormat, maxCapacity, onlineCapacity);
+    if ('error' in capacity) {
+      return res.status(400).json({ message: capacity.error });
+    }
+
+    const room = roomId ? await prisma.room.findUnique({ where: { id: roomId }, include: { venue: true } }) : null;
+    if (roomId && !room) {
+      return res.status(404).json({ message: 'Sala não encontrada.' });
+    }
+    if (room) {
+      const roomError = getRoomCapacityError(room, maxCapacity - capacity.onlineCapacity);
+      if (roomError) {
+        return res.status(400).json({ message: roomError });
+      }
+    }
+
+    if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } }))) {
+      return res.status(404).json({ message: 'Categoria não encontrada.' });
+    }
+
+    const dtstart = new Date(startsAt);
+    const duration = new Date(endsAt).getTime() - dtstart.getTime();
+    const seriesTimeZone = timezone ?? DEFAULT_TIMEZONE;
+    const exceptionDates = (exdates ?? []).map((date) => new Date(date));
+
+    // Regras que geram ocorrências demais (ou nenhuma) são erros de entrada, verificados antes da transação.
+    let occurrences: Date[];
+    try {
+      occurrences = getSeriesOccurrences(rrule, dtstart, exceptionDates, seriesTimeZone);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Regra de recorrência inválida.' });
+    }
+
+    const coordinates = await resolveEventCoordinates({ format: eventFormat, room, location, latitude, longitude });
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      // Todas as ocorrências precisam da sala livre; um único conflito impede a criação da série.
+      if (room) {
+        await lockRoom(tx, room.id);
+        const conflicts = await findRoomConflicts(
+          tx,
+          room.id,
+          occurrences.map((date) => ({ startsAt: date, endsAt: new Date(date.getTime() + duration) }))
+        );
+        if (conflicts.length > 0) {
+          return { conflicts };
+        }
+      }
+
+      return materializeEventSeries(tx, {
+        rrule,
+        dtstart,
+        duration,
+        timezone: seriesTimeZone,
+        exdates: exceptionDates,
+        creatorId: req.userId!,
+        event: {
+          name,
+          description: description ?? null,
+          format: eventFormat,
+          roomId: room?.id ?? null,
+          location: room ? formatRoomLocation(room) : location ?? null,
+          latitude: coordinates?.latitude ?? null,
+          longitude: coordinates?.longitude ?? null,
+          onlineLink: onlineLink ?? null,
+          categoryId: categoryId ?? null,
+          tags: tags ?? [],
+          maxCapacity,
+          onlineCapacity: capacity.onlineCapacity,
+          maxSeatsPerUser: maxSeatsPerUser ?? 1,
+          status: status ?? EventStatus.DRAFT,
+          publishAt: publishAt ? new Date(publishAt) : null,
+        },
+      });
+    });
+
+    if ('conflicts' in result) {
+      return res.status(409).json({ message: ROOM_CONFLICT_MESSAGE, conflicts: result.conflicts });
+    }
+
+    await invalidateEventCache(result.events.map((event) => event.id));
+
+    res.status(201).json({
+      message: `Série criada com ${result.events.length} ocorrência(s)!`,
+      series: result.series,
+      events: result.events,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao criar série de eventos:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao criar série de eventos.' });
+  }
+};
+
+/**
+ * Retorna uma série recorrente com suas ocorrências. (Permissão 'event:update')
+ */
+export const getEventSeries = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    if (req.role !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem deletar eventos.' });
+    const series = await prisma.eventSeries.findUnique({
+      where: { id },
+      include: { events: { orderBy: { startsAt: 'asc' } } },
+    });
+
+    if (!series) {
+      return res.status(404).json({ message: 'Série não encontrada.' });
     }
 
+    res.status(200).json({ series });
+  } catch (error) {
+    console.error('Erro ao obter série de eventos:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter série de eventos.' });
+  }
+};
+
+/**
+ * Altera o status de um evento (publicar, despublicar, cancelar, concluir ou arquivar).
+ * Cancelar um evento cancela todas as suas reservas ativas, mantendo o histórico de cada uma. (Permissão 'event:update')
+ */
+export const updateEventStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { status, reason } = updateEventStatusSchema.parse(req.body);
+
+    const existingEvent = await prisma.event.findUnique({ where: { id }, select: { id: true } });
+    if (!existingEvent) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      return transitionEvent(tx, id, status, { changedById: req.userId, reason });
+    });
+
+    await invalidateEventCache([id]);
+
+    res.status(200).json({
+      message: result.canceledReservations > 0
+        ? `Status do evento atualizado com sucesso! ${result.canceledReservations} reserva(s) cancelada(s).`
+        : 'Status do evento atualizado com sucesso!',
+      event: result.event,
+      canceledReservations: result.canceledReservations,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar status do evento:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao atualizar status do evento.' });
+  }
+};
+
+export const deleteEvent = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
     const existingEvent = await prisma.event.findUnique({ where: { id } });
     if (!existingEvent) {
       return res.status(404).json({ message: 'Evento não encontrado para exclusão.' });
     }
 
-    await prisma.event.delete({ where: { id } });
-    await redisClient.del(`${EVENT_CACHE_PREFIX}${id}`);
-    await redisClient.del(EVENT_LIST_CACHE_KEY);
+    // Exclusão lógica: o evento vai para a lixeira com as reservas intactas e pode ser restaurado
+    // até o fim do prazo de retenção, quando é expurgado definitivamente.
+    const deletedEvent = await prisma.event.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+      select: { id: true, deletedAt: true },
+    });
+    await invalidateEventCache([id]);
 
-    res.status(200).json({ message: 'Evento deletado com sucesso!' });
-  } catch (error: any) {
-    if (error.code === 'P2003') {
-      return res.status(400).json({ message: 'Não é possível deletar o evento devido a reservas associadas.' });
-    }
+    res.status(200).json({
+      message: 'Evento movido para a lixeira.',
+      purgeAt: getPurgeDate(deletedEvent.deletedAt!),
+    });
+  } catch (error) {
     console.error('Erro ao deletar evento:', error);
     res.status(500).json({ message: 'Erro interno do servidor ao deletar evento.' });
   }
 };
+
+/**
+ * Lista os eventos na lixeira, com a data em que cada um será expurgado. (Permissão 'event:delete'; organizadores veem apenas os próprios eventos)
+ */
+export const listDeletedEvents = async (req: Request, res: Response) => {
+  try {
+    const deletedEvents = await prismaWithDeleted.event.findMany({
+      where: { deletedAt: { not: null }, ...getEventAccessFilter(req, 'event:delete') },
+      include: { _count: { select: { reservations: true } } },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    const events = deletedEvents.map((event) => ({
+      ...event,
+      purgeAt: getPurgeDate(event.deletedAt!),
+    }));
+
+    res.status(200).json({ events });
+  } catch (error) {
+    console.error('Erro ao listar eventos na lixeira:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar a lixeira.' });
+  }
+};
+
+/**
+ * Restaura um evento da lixeira, junto com suas reservas. (Permissão 'event:delete')
+ */
+export const restoreEvent = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deletedEvent = await prismaWithDeleted.event.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true, roomId: true, startsAt: true, endsAt: true, status: true },
+    });
+    if (!deletedEvent) {
+      return res.status(404).json({ message: 'Evento não encontrado na lixeira.' });
+    }
+
+    // Enquanto o evento estava na lixeira, a sala pode ter sido reservada por outro evento no mesmo horário.
+    const { roomId } = deletedEvent;
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      if (roomId && deletedEvent.status !== EventStatus.CANCELED) {
+        await lockRoom(tx, roomId);
+        const conflicts = await findRoomConflicts(tx, roomId, [deletedEvent], [id]);
+        if (conflicts.length > 0) {
+          return { conflicts };
+        }
+      }
+
+      return { event: await tx.event.update({ where: { id }, data: { deletedAt: null } }) };
+    });
+
+    if ('conflicts' in result) {
+      return res.status(409).json({ message: ROOM_CONFLICT_MESSAGE, conflicts: result.conflicts });
+    }
+    const { event } = result;
+
+    await invalidateEventCache([id]);
+
+    res.status(200).json({ message: 'Evento restaurado com sucesso!', event });
+  } catch (error) {
+    console.error('Erro ao restaurar evento:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao restaurar evento.' });
+  }
+};
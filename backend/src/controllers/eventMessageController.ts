@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { ReservationStatus } from '@prisma/client';
+import { ZodError } from 'zod';
+import { eventMessageSchema } from '../validation/schemas';
+import { prisma } from '../services/prisma';
+import { sendMail } from '../services/mailer';
+
+// Reservas cujos participantes recebem as mensagens do evento.
+const MESSAGE_RECIPIENT_STATUSES: ReservationStatus[] = [ReservationStatus.CONFIRMED, ReservationStatus.ATTENDED];
+
+/**
+ * Envia uma mensagem por e-mail aos participantes com reserva confirmada do evento (um e-mail por usuário).
+ * Falhas no envio para um participante não interrompem os demais; a resposta informa quantos envios falharam.
+ * (Permissão 'event:message-attendees')
+ */
+export const messageEventAttendees = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+    const { subject, message } = eventMessageSchema.parse(req.body);
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true, name: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where: { eventId, status: { in: MESSAGE_RECIPIENT_STATUSES }, user: { deletedAt: null } },
+      select: { user: { select: { email: true } } },
+      distinct: ['userId'],
+    });
+    if (reservations.length === 0) {
+      return res.status(400).json({ message: 'O evento não tem participantes confirmados.' });
+    }
+
+    const sender = await prisma.user.findUnique({ where: { id: req.userId }, select: { email: true } });
+    const footer = `\n\n—\nMensagem enviada por ${sender?.email ?? 'a organização'} aos participantes do evento "${event.name}".`;
+
+    let failed = 0;
+    for (const { user } of reservations) {
+      try {
+        await sendMail({ to: user.email, subject: `[${event.name}] ${subject}`, text: `${message}${footer}` });
+      } catch (error) {
+        failed++;
+        console.error(`Erro ao enviar a mensagem do evento para ${user.email}:`, error);
+      }
+    }
+
+    const sent = reservations.length - failed;
+    res.status(200).json({
+      message: failed === 0
+        ? `Mensagem enviada para ${sent} participante(s).`
+        : `Mensagem enviada para ${sent} participante(s); ${failed} envio(s) falharam.`,
+      sent,
+      failed,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao enviar mensagem aos participantes:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao enviar mensagem aos participantes.' });
+  }
+};
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { Prisma, Role } from '@prisma/client';
+import { ZodError } from 'zod';
+import { eventStaffSchema } from '../validation/schemas';
+import { prisma } from '../services/prisma';
+import { getEventAccessFilter } from '../services/permissions';
+
+// Campos de cada membro da equipe de check-in exibidos ao organizador.
+const EVENT_STAFF_SELECT = {
+  id: true,
+  createdAt: true,
+  user: { select: { id: true, email: true } },
+  assignedBy: { select: { id: true, email: true } },
+} as const;
+
+/**
+ * Lista a equipe de check-in de um evento. (Permissão 'event:manage-staff')
+ */
+export const listEventStaff = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const staff = await prisma.eventStaff.findMany({
+      where: { eventId },
+      select: EVENT_STAFF_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.status(200).json({ staff });
+  } catch (error) {
+    console.error('Erro ao listar a equipe de check-in:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar a equipe de check-in.' });
+  }
+};
+
+/**
+ * Atribui um usuário com o papel CHECKIN_STAFF, informado pelo e-mail, à equipe de check-in de um evento.
+ * (Permissão 'event:manage-staff')
+ */
+export const addEventStaff = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+    const { email } = eventStaffSchema.parse(req.body);
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true, role: true } });
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
+    }
+    if (user.role !== Role.CHECKIN_STAFF) {
+      return res.status(400).json({ message: 'Apenas usuários com o papel CHECKIN_STAFF podem ser atribuídos à equipe de check-in.' });
+    }
+
+    const member = await prisma.eventStaff.create({
+      data: { eventId, userId: user.id, assignedById: req.userId },
+      select: EVENT_STAFF_SELECT,
+    });
+
+    res.status(201).json({ message: 'Usuário atribuído à equipe de check-in.', member });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'Este usuário já faz parte da equipe de check-in do evento.' });
+    }
+    console.error('Erro ao atribuir usuário à equipe de check-in:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atribuir usuário à equipe de check-in.' });
+  }
+};
+
+/**
+ * Remove um usuário da equipe de check-in de um evento. (Permissão 'event:manage-staff')
+ */
+export const removeEventStaff = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId, userId } = req.params;
+
+    const removed = await prisma.eventStaff.deleteMany({ where: { eventId, userId } });
+    if (removed.count === 0) {
+      return res.status(404).json({ message: 'Usuário não faz parte da equipe de check-in do evento.' });
+    }
+
+    res.status(200).json({ message: 'Usuário removido da equipe de check-in.' });
+  } catch (error) {
+    console.error('Erro ao remover usuário da equipe de check-in:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover usuário da equipe de check-in.' });
+  }
+};
+
+/**
+ * Lista os eventos ainda não encerrados em que o usuário pode fazer check-in: todos (admins), os próprios
+ * (organizadores) ou aqueles para os quais foi atribuído à equipe. (Permissão 'event:check-in')
+ */
+export const listCheckInEvents = async (req: Request, res: Response) => {
+  try {
+    const events = await prisma.event.findMany({
+      where: { endsAt: { gt: new Date() }, ...getEventAccessFilter(req, 'event:check-in') },
+      select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, status: true },
+      orderBy: { startsAt: 'asc' },
+      take: 100,
+    });
+
+    res.status(200).json({ events });
+  } catch (error) {
+    console.error('Erro ao listar eventos para check-in:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar eventos para check-in.' });
+  }
+};
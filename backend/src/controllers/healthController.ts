@@ -1,14 +1,25 @@
 import { Request, Response } from 'express';
 import { prisma } from '../services/prisma';
-import { redisClient } from '../config/redis';
+import { getCacheMetrics } from '../services/cache';
+import { getCacheBackend } from '../services/cacheBackend';
 
 export async function healthCheck(req: Request, res: Response) {
     try {
         await prisma.$queryRaw`SELECT 1`;
-        await redisClient.ping();
-        res.status(200).json({ message: 'Serviços de backend e banco de dados estão saudáveis!' });
+        // O cache indisponível não torna o serviço indisponível: as consultas vão direto ao banco de dados.
+        const cacheBackend = getCacheBackend();
+        const cacheStatus = await cacheBackend.ping().then(() => 'ok', () => 'unavailable');
+        res.status(200).json({
+            message: 'Serviços de backend e banco de dados estão saudáveis!',
+            cache: { driver: cacheBackend.driver, status: cacheStatus },
+        });
     } catch (error) {
         console.error('Erro na verificação de saúde:', error);
         res.status(500).json({ message: 'Erro na verificação de saúde dos serviços.' });
     }
 }
+
+// Métricas do cache de consultas (acertos, falhas e consultas coalescidas por namespace) deste processo.
+export async function cacheMetrics(req: Request, res: Response) {
+    res.status(200).json(getCacheMetrics());
+}
@@ -1,52 +1,99 @@
 import { Request, Response } from 'express';
-import { PrismaClient, ReservationStatus, Role, Prisma } from '@prisma/client'; 
-import { reservationSchema, updateReservationStatusSchema } from '../validation/schemas';
+import { PrismaClient, ReservationStatus, Prisma, EventStatus, EventFormat, AttendanceMode } from '@prisma/client'; 
+import {
+  reservationSchema,
+  releaseSeatsSchema,
+  updateReservationStatusSchema,
+  bulkUpdateReservationStatusSchema,
+} from '../validation/schemas';
 import { ZodError } from 'zod';
-import { prisma } from '../services/prisma';
-import { redisClient } from '../config/redis'; 
-
-const EVENT_CACHE_PREFIX = 'event:';
-const EVENT_LIST_CACHE_KEY = 'events:list';
+import QRCode from 'qrcode';
+import { AppTransactionClient, prisma } from '../services/prisma';
+import { invalidateEventCache } from '../services/eventCache';
+import { promoteFromWaitlist, getWaitlistPosition } from '../services/waitlist';
+import { ACTIVE_RESERVATION_STATUSES, transitionReservation } from '../services/reservationLifecycle';
+import { canAccessEvent, getEventAccessFilter } from '../services/permissions';
+import { recordReservationHistory } from '../services/reservationHistory';
+import { generateTicketCode } from '../config/ticket';
+import { releaseSessionSeats } from '../services/eventSessions';
+import {
+  ATTENDANCE_MODE_LABELS,
+  ONLINE_LINK_STATUSES,
+  getModeAvailableSpots,
+  hideOnlineLinks,
+  lockEventSeats,
+  resolveAttendanceMode,
+  seatsUpdate,
+} from '../services/attendance';
+
+// Reservas e lista de espera exigem o e-mail confirmado (POST /api/users/verify-email).
+const EMAIL_NOT_VERIFIED_MESSAGE = 'Confirme o seu e-mail antes de reservar. Use o link que enviamos ou peça um novo.';
+
+const hasVerifiedEmail = async (userId: string): Promise<boolean> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerifiedAt: true } });
+  return Boolean(user?.emailVerifiedAt);
+};
 
 /**
- * Cria uma nova reserva para um evento.
- * Requer autenticação de usuário `USER`.
+ * Cria uma nova reserva para um evento, com um ou mais assentos (reserva em grupo).
+ * Em eventos híbridos o usuário escolhe a modalidade (`attendanceMode`), e os assentos saem da capacidade dela.
+ * Qualquer papel pode reservar (permissão 'reservation:create'), desde que tenha confirmado o e-mail.
  */
 export const createReservation = async (req: Request, res: Response) => {
   try {
     const { id: eventId } = req.params; 
     const userId = req.userId!; 
 
-    reservationSchema.parse({ eventId });
+    const { quantity, attendeeNames, attendanceMode } = reservationSchema.parse({ ...req.body, eventId });
 
-    if (req.role !== Role.USER) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas usuários podem fazer reservas.' });
+    if (!(await hasVerifiedEmail(userId))) {
+      return res.status(403).json({ message: EMAIL_NOT_VERIFIED_MESSAGE });
     }
 
     // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
-    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      // Reservas simultâneas no mesmo evento verificam as vagas uma a uma.
+      await lockEventSeats(tx, eventId);
       const event = await tx.event.findUnique({
         where: { id: eventId },
-        select: { id: true, availableSpots: true, maxCapacity: true, eventDate: true },
+        select: { id: true, format: true, availableSpots: true, onlineAvailableSpots: true, maxCapacity: true, maxSeatsPerUser: true, endsAt: true, status: true },
       });
 
       if (!event) {
         throw new Error('Evento não encontrado.');
       }
 
-      if (event.eventDate < new Date()) {
+      if (event.status !== EventStatus.PUBLISHED) {
+        throw new Error('Este evento não está aberto para reservas.');
+      }
+
+      // Eventos em andamento (já começaram, mas ainda não terminaram) continuam aceitando reservas.
+      if (event.endsAt < new Date()) {
         throw new Error('Não é possível reservar vagas para um evento que já ocorreu.');
       }
 
-      if (event.availableSpots <= 0) {
-        throw new Error('Desculpe, não há mais vagas disponíveis para este evento.');
+      if (quantity > event.maxSeatsPerUser) {
+        throw new Error(`Este evento permite no máximo ${event.maxSeatsPerUser} assento(s) por usuário.`);
+      }
+
+      const mode = resolveAttendanceMode(event.format, attendanceMode);
+      const availableSpots = getModeAvailableSpots(event, mode);
+      // Em eventos híbridos as mensagens dizem de qual modalidade são as vagas.
+      const modeLabel = event.format === EventFormat.HYBRID ? ` ${ATTENDANCE_MODE_LABELS[mode]}` : '';
+
+      if (availableSpots <= 0) {
+        throw new Error(`Desculpe, não há mais vagas${modeLabel} disponíveis para este evento. Entre na lista de espera para ser avisado.`);
+      }
+
+      if (availableSpots < quantity) {
+        throw new Error(`Restam apenas ${availableSpots} vaga(s)${modeLabel} para este evento.`);
       }
 
       const existingReservation = await tx.reservation.findFirst({
         where: {
           eventId: eventId,
           userId: userId,
-          status: ReservationStatus.CONFIRMED,
+          status: { in: ACTIVE_RESERVATION_STATUSES },
         },
       });
 
@@ -56,11 +103,7 @@ export const createReservation = async (req: Request, res: Response) => {
 
       await tx.event.update({
         where: { id: eventId },
-        data: {
-          availableSpots: {
-            decrement: 1, 
-          },
-        },
+        data: seatsUpdate(mode, 'decrement', quantity),
       });
 
       const newReservation = await tx.reservation.create({
@@ -68,108 +111,328 @@ export const createReservation = async (req: Request, res: Response) => {
           eventId: eventId,
           userId: userId,
           status: ReservationStatus.CONFIRMED,
+          quantity,
+          attendeeNames: attendeeNames ?? [],
+          attendanceMode: mode,
         },
       });
 
+      await recordReservationHistory(tx, {
+        reservationId: newReservation.id,
+        fromStatus: null,
+        toStatus: ReservationStatus.CONFIRMED,
+        changedById: userId,
+      });
+
       return newReservation;
     });
 
-    await redisClient.del(`${EVENT_CACHE_PREFIX}${result.eventId}`);
-    await redisClient.del(EVENT_LIST_CACHE_KEY);
+    await invalidateEventCache([result.eventId], { lists: false });
 
     res.status(201).json({ message: 'Reserva criada com sucesso!', reservation: result });
   } catch (error) {
     if (error instanceof ZodError) {
       return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
     }
+    // Violação do índice único parcial: outra requisição criou uma reserva ativa em paralelo.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'Você já possui uma reserva confirmada para este evento.' });
+    }
     console.error('Erro ao criar reserva:', error);
     res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao criar reserva.' });
   }
 };
 
 /**
- * Cancela uma reserva. (Usuário pode cancelar suas próprias reservas, Admin pode cancelar qualquer reserva)
- * Incrementa `availableSpots` do evento.
+ * Coloca o usuário autenticado na lista de espera de um evento lotado (na fila da modalidade escolhida, em eventos híbridos).
+ * Qualquer papel pode entrar na fila (permissão 'reservation:create'), desde que tenha confirmado o e-mail.
+ */
+export const joinWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.userId!;
+
+    const { quantity, attendanceMode } = reservationSchema.parse({ ...req.body, eventId });
+
+    if (!(await hasVerifiedEmail(userId))) {
+      return res.status(403).json({ message: EMAIL_NOT_VERIFIED_MESSAGE });
+    }
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const event = await tx.event.findUnique({
+        where: { id: eventId },
+        select: { id: true, format: true, availableSpots: true, onlineAvailableSpots: true, maxSeatsPerUser: true, endsAt: true, status: true },
+      });
+
+      if (!event) {
+        throw new Error('Evento não encontrado.');
+      }
+
+      if (event.status !== EventStatus.PUBLISHED) {
+        throw new Error('Este evento não está aberto para reservas.');
+      }
+
+      if (event.endsAt < new Date()) {
+        throw new Error('Não é possível entrar na lista de espera de um evento que já ocorreu.');
+      }
+
+      if (quantity > event.maxSeatsPerUser) {
+        throw new Error(`Este evento permite no máximo ${event.maxSeatsPerUser} assento(s) por usuário.`);
+      }
+
+      const mode = resolveAttendanceMode(event.format, attendanceMode);
+      if (getModeAvailableSpots(event, mode) >= quantity) {
+        throw new Error('Este evento ainda possui vagas disponíveis. Faça sua reserva diretamente.');
+      }
+
+      const existingReservation = await tx.reservation.findFirst({
+        where: { eventId, userId, status: { in: ACTIVE_RESERVATION_STATUSES } },
+        select: { id: true },
+      });
+      if (existingReservation) {
+        throw new Error('Você já possui uma reserva confirmada para este evento.');
+      }
+
+      const existingEntry = await tx.waitlistEntry.findUnique({
+        where: { eventId_userId: { eventId, userId } },
+      });
+      if (existingEntry) {
+        throw new Error('Você já está na lista de espera deste evento.');
+      }
+
+      const entry = await tx.waitlistEntry.create({
+        data: { eventId, userId, quantity, attendanceMode: mode },
+      });
+
+      return { ...entry, position: await getWaitlistPosition(tx, entry) };
+    });
+
+    res.status(201).json({ message: `Você entrou na lista de espera na posição ${result.position}.`, waitlistEntry: result });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao entrar na lista de espera:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao entrar na lista de espera.' });
+  }
+};
+
+/**
+ * Remove uma entrada da lista de espera.
+ * (Usuário remove a própria entrada; com 'reservation:update', as entradas dos eventos no seu escopo)
+ */
+export const leaveWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { id: entryId } = req.params;
+
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+    if (!entry) {
+      return res.status(404).json({ message: 'Entrada na lista de espera não encontrada.' });
+    }
+
+    if (entry.userId !== req.userId && !(await canAccessEvent(req, 'reservation:update', entry.eventId))) {
+      return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para remover esta entrada.' });
+    }
+
+    await prisma.waitlistEntry.delete({ where: { id: entryId } });
+
+    res.status(200).json({ message: 'Você saiu da lista de espera.' });
+  } catch (error) {
+    console.error('Erro ao sair da lista de espera:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao sair da lista de espera.' });
+  }
+};
+
+/**
+ * Cancela uma reserva.
+ * (Usuário cancela as próprias reservas; com 'reservation:update', as reservas dos eventos no seu escopo)
+ * Devolve todos os assentos da reserva a `availableSpots` e promove o próximo da lista de espera, se houver.
  */
 export const cancelReservation = async (req: Request, res: Response) => {
   try {
     const { id: reservationId } = req.params; 
     const requestingUserId = req.userId!;     
-    const requestingUserRole = req.role!;     
 
     // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
-    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
       const existingReservation = await tx.reservation.findUnique({
         where: { id: reservationId },
-        select: { id: true, eventId: true, userId: true, status: true },
+        select: { id: true, userId: true, eventId: true },
       });
 
       if (!existingReservation) {
         throw new Error('Reserva não encontrada.');
       }
 
-      if (requestingUserRole === Role.USER && existingReservation.userId !== requestingUserId) {
+      if (existingReservation.userId !== requestingUserId && !(await canAccessEvent(req, 'reservation:update', existingReservation.eventId, tx))) {
         throw new Error('Acesso negado: Você não tem permissão para cancelar esta reserva.');
       }
 
-      if (existingReservation.status === ReservationStatus.CANCELED) {
-        throw new Error('Esta reserva já está cancelada.');
+      // Regras de transição, devolução de assentos, lista de espera e histórico ficam no serviço de ciclo de vida.
+      const updatedReservation = await transitionReservation(tx, reservationId, ReservationStatus.CANCELED, {
+        changedById: requestingUserId,
+        reason: typeof req.body?.reason === 'string' ? req.body.reason : null,
+      });
+
+      return updatedReservation;
+    });
+
+    await invalidateEventCache([result.eventId], { lists: false });
+
+    res.status(200).json({ message: 'Reserva cancelada com sucesso!', reservation: result });
+  } catch (error) {
+    console.error('Erro ao cancelar reserva:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao cancelar reserva.' });
+  }
+};
+
+/**
+ * Libera parte dos assentos de uma reserva em grupo (ex: liberar 2 de 5 assentos).
+ * A reserva continua confirmada com os assentos restantes; para liberar todos, use o cancelamento.
+ */
+export const releaseReservationSeats = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId } = req.params;
+    const requestingUserId = req.userId!;
+
+    const { seats, attendeeNames } = releaseSeatsSchema.parse(req.body);
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const existingReservation = await tx.reservation.findUnique({
+        where: { id: reservationId },
+        select: { id: true, eventId: true, userId: true, status: true, quantity: true, attendeeNames: true, attendanceMode: true },
+      });
+
+      if (!existingReservation) {
+        throw new Error('Reserva não encontrada.');
+      }
+
+      if (existingReservation.userId !== requestingUserId && !(await canAccessEvent(req, 'reservation:update', existingReservation.eventId, tx))) {
+        throw new Error('Acesso negado: Você não tem permissão para alterar esta reserva.');
+      }
+
+      if (!ACTIVE_RESERVATION_STATUSES.includes(existingReservation.status)) {
+        throw new Error('Apenas reservas ativas podem ter assentos liberados.');
+      }
+
+      let remainingNames = existingReservation.attendeeNames;
+      if (attendeeNames) {
+        const missing = attendeeNames.filter((name) => !remainingNames.includes(name));
+        if (missing.length > 0) {
+          throw new Error(`Participante(s) não encontrado(s) nesta reserva: ${missing.join(', ')}.`);
+        }
+        remainingNames = remainingNames.filter((name) => !attendeeNames.includes(name));
+      }
+
+      const seatsToRelease = seats ?? attendeeNames!.length;
+      if (seatsToRelease >= existingReservation.quantity) {
+        throw new Error('Para liberar todos os assentos, cancele a reserva.');
+      }
+
+      const remainingQuantity = existingReservation.quantity - seatsToRelease;
+      if (!attendeeNames && remainingNames.length > remainingQuantity) {
+        remainingNames = remainingNames.slice(0, remainingQuantity);
       }
 
       const updatedReservation = await tx.reservation.update({
         where: { id: reservationId },
-        data: { status: ReservationStatus.CANCELED },
+        data: { quantity: remainingQuantity, attendeeNames: remainingNames },
       });
 
       await tx.event.update({
         where: { id: existingReservation.eventId },
-        data: {
-          availableSpots: {
-            increment: 1, 
-          },
-        },
+        data: seatsUpdate(existingReservation.attendanceMode, 'increment', seatsToRelease),
       });
+      await releaseSessionSeats(tx, reservationId, seatsToRelease);
+
+      await promoteFromWaitlist(tx, existingReservation.eventId);
 
       return updatedReservation;
     });
 
-    await redisClient.del(`${EVENT_CACHE_PREFIX}${result.eventId}`);
-    await redisClient.del(EVENT_LIST_CACHE_KEY);
+    await invalidateEventCache([result.eventId], { lists: false });
 
-    res.status(200).json({ message: 'Reserva cancelada com sucesso!', reservation: result });
+    res.status(200).json({ message: 'Assentos liberados com sucesso!', reservation: result });
   } catch (error) {
-    console.error('Erro ao cancelar reserva:', error);
-    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao cancelar reserva.' });
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao liberar assentos da reserva:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao liberar assentos.' });
   }
 };
 
+// O link online (do evento e das sessões) só acompanha as reservas online confirmadas.
+const hasOnlineLinkAccess = (reservation: { status: ReservationStatus; attendanceMode: AttendanceMode }): boolean => {
+  return reservation.attendanceMode === AttendanceMode.ONLINE && ONLINE_LINK_STATUSES.includes(reservation.status);
+};
+
 /**
- * Lista todas as reservas para o usuário autenticado. (Apenas Usuário)
+ * Lista todas as reservas e entradas na lista de espera (com posição na fila) do usuário autenticado. (Qualquer papel)
  */
 export const getMyReservations = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!; 
 
-    if (req.role !== Role.USER) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas usuários podem ver suas próprias reservas.' });
-    }
-
+    // Reservas e entradas de eventos na lixeira ficam ocultas até uma eventual restauração.
     const reservations = await prisma.reservation.findMany({
-      where: { userId: userId },
+      where: { userId: userId, event: { deletedAt: null } },
       include: {
         event: { 
-          select: { id: true, name: true, eventDate: true, location: true, onlineLink: true, maxCapacity: true, availableSpots: true },
+          select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, format: true, location: true, onlineLink: true, maxCapacity: true, availableSpots: true, onlineCapacity: true, onlineAvailableSpots: true, maxSeatsPerUser: true },
         },
         user: { // <--- CORREÇÃO AQUI: Incluir o objeto user para que o frontend possa acessar .email
             select: { id: true, email: true },
-        }
+        },
+        sessionEnrollments: { select: { sessionId: true } },
       },
       orderBy: {
         reservationDate: 'desc', 
       },
     });
 
-    res.status(200).json({ reservations });
+    const waitlistEntries = await prisma.waitlistEntry.findMany({
+      where: { userId: userId, event: { deletedAt: null } },
+      include: {
+        event: {
+          select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, format: true, location: true, maxCapacity: true, availableSpots: true, onlineCapacity: true, onlineAvailableSpots: true, maxSeatsPerUser: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const waitlist = await Promise.all(
+      waitlistEntries.map(async (entry) => ({
+        ...entry,
+        position: await getWaitlistPosition(prisma, entry),
+      }))
+    );
+
+    // Agenda pessoal: as sessões escolhidas em todas as reservas, em ordem cronológica.
+    const enrollments = await prisma.sessionEnrollment.findMany({
+      where: { reservation: { userId, event: { deletedAt: null } } },
+      include: {
+        session: true,
+        reservation: { select: { id: true, status: true, attendanceMode: true, event: { select: { id: true, name: true } } } },
+      },
+    });
+    const schedule = enrollments
+      .map(({ session, reservation }) => ({
+        ...(hasOnlineLinkAccess(reservation) ? session : hideOnlineLinks(session)),
+        reservationId: reservation.id,
+        event: reservation.event,
+      }))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    res.status(200).json({
+      reservations: reservations.map((reservation) => (
+        hasOnlineLinkAccess(reservation) ? reservation : { ...reservation, event: hideOnlineLinks(reservation.event) }
+      )),
+      waitlist,
+      schedule,
+    });
   } catch (error) {
     console.error('Erro ao listar minhas reservas:', error);
     res.status(500).json({ message: 'Erro interno do servidor ao listar suas reservas.' });
@@ -177,16 +440,12 @@ export const getMyReservations = async (req: Request, res: Response) => {
 };
 
 /**
- * Lista todas as reservas para um evento específico. (Apenas Admin)
+ * Lista todas as reservas para um evento específico. (Permissão 'reservation:read')
  */
 export const getEventReservations = async (req: Request, res: Response) => {
   try {
     const { id: eventId } = req.params; 
 
-    if (req.role !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem ver as reservas de um evento.' });
-    }
-
     const eventExists = await prisma.event.findUnique({
       where: { id: eventId },
       select: { id: true }
@@ -195,8 +454,9 @@ export const getEventReservations = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Evento não encontrado.' });
     }
 
+    // Reservas de usuários na lixeira ficam ocultas até uma eventual restauração.
     const reservations = await prisma.reservation.findMany({
-      where: { eventId: eventId },
+      where: { eventId: eventId, user: { deletedAt: null } },
       include: {
         user: { 
           select: { id: true, email: true },
@@ -213,3 +473,211 @@ export const getEventReservations = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Erro interno do servidor ao listar reservas do evento.' });
   }
 };
+
+/**
+ * Retorna o histórico de transições de status de uma reserva.
+ * (Usuário vê o histórico das próprias reservas; com 'reservation:read', das reservas dos eventos no seu escopo)
+ */
+export const getReservationHistory = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId } = req.params;
+
+    const reservation = await prisma.reservation.findUnique({
+      where: { id: reservationId },
+      select: { id: true, userId: true, eventId: true, status: true },
+    });
+
+    if (!reservation) {
+      return res.status(404).json({ message: 'Reserva não encontrada.' });
+    }
+
+    if (reservation.userId !== req.userId && !(await canAccessEvent(req, 'reservation:read', reservation.eventId))) {
+      return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para ver esta reserva.' });
+    }
+
+    const history = await prisma.reservationHistory.findMany({
+      where: { reservationId },
+      include: {
+        changedBy: { select: { id: true, email: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.status(200).json({ reservation, history });
+  } catch (error) {
+    console.error('Erro ao obter histórico da reserva:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter histórico da reserva.' });
+  }
+};
+
+/**
+ * Lista todas as reservas do sistema, com evento e usuário. (Permissão 'reservation:read'; organizadores veem apenas as reservas dos próprios eventos)
+ * Filtros opcionais via query: `status` e `eventId`.
+ */
+export const listAllReservations = async (req: Request, res: Response) => {
+  try {
+    const { status, eventId } = req.query;
+    const where: Prisma.ReservationWhereInput = {
+      event: { deletedAt: null, ...getEventAccessFilter(req, 'reservation:read') },
+      user: { deletedAt: null },
+    };
+    if (status) {
+      const parsedStatus = updateReservationStatusSchema.shape.status.safeParse(status);
+      if (!parsedStatus.success) {
+        return res.status(400).json({ message: 'Status de reserva inválido para filtro.' });
+      }
+      where.status = parsedStatus.data;
+    }
+    if (eventId) {
+      where.eventId = eventId as string;
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where,
+      include: {
+        event: { select: { id: true, name: true, startsAt: true, endsAt: true, timezone: true, availableSpots: true, maxCapacity: true } },
+        user: { select: { id: true, email: true } },
+      },
+      orderBy: { reservationDate: 'asc' },
+    });
+
+    res.status(200).json({ reservations });
+  } catch (error) {
+    console.error('Erro ao listar todas as reservas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar reservas.' });
+  }
+};
+
+/**
+ * Altera o status de uma reserva. (Permissão 'reservation:update')
+ * Usa as regras do ciclo de vida (incluindo as transições exclusivas de admin, como reativar uma
+ * reserva cancelada), ajusta `availableSpots` e recusa reativações que excederiam a capacidade.
+ */
+export const updateReservationStatus = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId } = req.params;
+
+    const { status, reason } = updateReservationStatusSchema.parse(req.body);
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const result = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      return transitionReservation(tx, reservationId, status, {
+        changedById: req.userId,
+        reason,
+        asAdmin: true,
+      });
+    });
+
+    await invalidateEventCache([result.eventId], { lists: false });
+
+    res.status(200).json({ message: 'Status da reserva atualizado com sucesso!', reservation: result });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar status da reserva:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao atualizar status da reserva.' });
+  }
+};
+
+/**
+ * Altera o status de várias reservas de uma vez (ex: cancelamento em massa). (Permissão 'reservation:update')
+ * Cada reserva é processada em sua própria transação, na ordem recebida; uma falha (transição inválida,
+ * falta de vagas) não desfaz as demais. A resposta informa o resultado de cada reserva.
+ */
+export const bulkUpdateReservationStatus = async (req: Request, res: Response) => {
+  try {
+    const { reservationIds, status, reason } = bulkUpdateReservationStatusSchema.parse(req.body);
+    const uniqueIds = Array.from(new Set(reservationIds));
+
+    const results: { reservationId: string; success: boolean; message: string }[] = [];
+    const affectedEventIds = new Set<string>();
+
+    for (const reservationId of uniqueIds) {
+      try {
+        // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+        const updated = await prisma.$transaction(async (tx: AppTransactionClient) => {
+          // Organizadores alteram apenas as reservas dos próprios eventos.
+          const reservation = await tx.reservation.findUnique({ where: { id: reservationId }, select: { eventId: true } });
+          if (reservation && !(await canAccessEvent(req, 'reservation:update', reservation.eventId, tx))) {
+            throw new Error('Acesso negado: Você não tem permissão para alterar esta reserva.');
+          }
+          return transitionReservation(tx, reservationId, status, {
+            changedById: req.userId,
+            reason,
+            asAdmin: true,
+          });
+        });
+        affectedEventIds.add(updated.eventId);
+        results.push({ reservationId, success: true, message: 'Status atualizado.' });
+      } catch (itemError) {
+        results.push({
+          reservationId,
+          success: false,
+          message: itemError instanceof Error ? itemError.message : 'Falha ao atualizar status.',
+        });
+      }
+    }
+
+    await invalidateEventCache([...affectedEventIds], { lists: false });
+
+    const succeeded = results.filter((result) => result.success).length;
+    res.status(200).json({
+      message: `${succeeded} de ${results.length} reserva(s) atualizada(s).`,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar status de reservas em massa:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atualizar status das reservas.' });
+  }
+};
+
+/**
+ * Retorna o ingresso de uma reserva como QR code.
+ * Por padrão responde com a imagem SVG; com `?format=json` responde com o código e o SVG em JSON.
+ * (Usuário vê o ingresso das próprias reservas; com 'reservation:read', das reservas dos eventos no seu escopo)
+ */
+export const getReservationTicket = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId } = req.params;
+
+    const reservation = await prisma.reservation.findUnique({
+      where: { id: reservationId },
+      select: { id: true, userId: true, eventId: true, status: true, quantity: true, checkedInAt: true },
+    });
+
+    if (!reservation) {
+      return res.status(404).json({ message: 'Reserva não encontrada.' });
+    }
+
+    if (reservation.userId !== req.userId && !(await canAccessEvent(req, 'reservation:read', reservation.eventId))) {
+      return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para ver este ingresso.' });
+    }
+
+    if (reservation.status !== ReservationStatus.CONFIRMED && reservation.status !== ReservationStatus.ATTENDED) {
+      return res.status(409).json({ message: 'Apenas reservas confirmadas possuem ingresso.' });
+    }
+
+    const ticketCode = generateTicketCode(reservation.id);
+    const qrCodeSvg = await QRCode.toString(ticketCode, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+
+    if (req.query.format === 'json') {
+      return res.status(200).json({
+        ticketCode,
+        qrCodeSvg,
+        status: reservation.status,
+        quantity: reservation.quantity,
+        checkedInAt: reservation.checkedInAt,
+      });
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.type('image/svg+xml').status(200).send(qrCodeSvg);
+  } catch (error) {
+    console.error('Erro ao gerar ingresso da reserva:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao gerar ingresso.' });
+  }
+};
@@ -0,0 +1,261 @@
+import { Request, Response } from 'express';
+import { EventStatus, Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { createSessionSchema, updateSessionSchema, sessionEnrollmentSchema } from '../validation/schemas';
+import { AppTransactionClient, prisma } from '../services/prisma';
+import { ACTIVE_RESERVATION_STATUSES } from '../services/reservationLifecycle';
+import { countSessionSeats, enrollInSession, isWithinEvent, leaveSession } from '../services/eventSessions';
+import { canAccessOnlineLink, hideOnlineLinks } from '../services/attendance';
+import { invalidateEventCache } from '../services/eventCache';
+import { canAccessEvent, canAccessResource } from '../services/permissions';
+
+/**
+ * Lista a agenda de um evento (sessões em ordem de início).
+ * Rascunhos só são visíveis para administradores e para o organizador do evento; links online das sessões, só para quem tem acesso ao do evento.
+ */
+export const listEventSessions = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true, status: true, creatorId: true } });
+    const isHidden = event?.status === EventStatus.DRAFT && !(await canAccessResource(req, 'event:view-drafts', { creatorId: event.creatorId, eventId }));
+    if (!event || isHidden) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    const sessions = await prisma.eventSession.findMany({
+      where: { eventId },
+      orderBy: [{ startsAt: 'asc' }, { endsAt: 'asc' }],
+    });
+
+    const canSeeLinks = await canAccessOnlineLink(prisma, eventId, req);
+    res.status(200).json({ sessions: canSeeLinks ? sessions : sessions.map(hideOnlineLinks) });
+  } catch (error) {
+    console.error('Erro ao listar sessões do evento:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar a agenda do evento.' });
+  }
+};
+
+/**
+ * Adiciona uma sessão à agenda de um evento. (Permissão 'event:update')
+ */
+export const createEventSession = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId } = req.params;
+
+    const { title, description, startsAt, endsAt, room, onlineLink, speakers, maxCapacity } = createSessionSchema.parse(req.body);
+
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true, startsAt: true, endsAt: true, status: true } });
+    if (!event) {
+      return res.status(404).json({ message: 'Evento não encontrado.' });
+    }
+
+    if (event.status === EventStatus.ARCHIVED) {
+      return res.status(400).json({ message: 'Eventos arquivados não podem ser alterados.' });
+    }
+
+    if (!isWithinEvent(event, new Date(startsAt), new Date(endsAt))) {
+      return res.status(400).json({ message: 'A sessão deve acontecer dentro do horário do evento.' });
+    }
+
+    const session = await prisma.eventSession.create({
+      data: {
+        eventId,
+        title,
+        description: description ?? null,
+        startsAt: new Date(startsAt),
+        endsAt: new Date(endsAt),
+        room: room || null,
+        onlineLink: onlineLink || null,
+        speakers: speakers ?? [],
+        maxCapacity: maxCapacity ?? null,
+        availableSpots: maxCapacity ?? null,
+      },
+    });
+
+    await invalidateEventCache([eventId], { lists: false });
+
+    res.status(201).json({ message: 'Sessão adicionada à agenda!', session });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao criar sessão:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao criar sessão.' });
+  }
+};
+
+/**
+ * Atualiza uma sessão da agenda. A capacidade não pode ficar abaixo dos assentos já inscritos. (Permissão 'event:update')
+ */
+export const updateEventSession = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId, sessionId } = req.params;
+
+    const { title, description, startsAt, endsAt, room, onlineLink, speakers, maxCapacity } = updateSessionSchema.parse(req.body);
+
+    const existingSession = await prisma.eventSession.findUnique({
+      where: { id: sessionId },
+      include: { event: { select: { startsAt: true, endsAt: true, status: true } } },
+    });
+    if (!existingSession || existingSession.eventId !== eventId) {
+      return res.status(404).json({ message: 'Sessão não encontrada neste evento.' });
+    }
+
+    if (existingSession.event.status === EventStatus.ARCHIVED) {
+      return res.status(400).json({ message: 'Eventos arquivados não podem ser alterados.' });
+    }
+
+    const finalStartsAt = startsAt !== undefined ? new Date(startsAt) : existingSession.startsAt;
+    const finalEndsAt = endsAt !== undefined ? new Date(endsAt) : existingSession.endsAt;
+    if (finalEndsAt <= finalStartsAt) {
+      return res.status(400).json({ message: 'O fim da sessão deve ser posterior ao início.' });
+    }
+    if (!isWithinEvent(existingSession.event, finalStartsAt, finalEndsAt)) {
+      return res.status(400).json({ message: 'A sessão deve acontecer dentro do horário do evento.' });
+    }
+
+    const finalRoom = room !== undefined ? (room || null) : existingSession.room;
+    const finalOnlineLink = onlineLink !== undefined ? (onlineLink || null) : existingSession.onlineLink;
+    if (finalRoom && finalOnlineLink) {
+      return res.status(400).json({ message: 'A sessão não pode ter sala e link online simultaneamente.' });
+    }
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const session = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const data: Prisma.EventSessionUpdateInput = {
+        startsAt: finalStartsAt,
+        endsAt: finalEndsAt,
+        room: finalRoom,
+        onlineLink: finalOnlineLink,
+      };
+      if (title !== undefined) data.title = title;
+      if (description !== undefined) data.description = description ?? null;
+      if (speakers !== undefined) data.speakers = speakers;
+
+      if (maxCapacity !== undefined) {
+        const enrolledSeats = await countSessionSeats(tx, sessionId);
+        if (maxCapacity !== null && maxCapacity < enrolledSeats) {
+          throw new Error(`A capacidade da sessão não pode ser menor que os ${enrolledSeats} assento(s) já inscritos.`);
+        }
+        data.maxCapacity = maxCapacity;
+        data.availableSpots = maxCapacity === null ? null : maxCapacity - enrolledSeats;
+      }
+
+      return tx.eventSession.update({ where: { id: sessionId }, data });
+    });
+
+    await invalidateEventCache([eventId], { lists: false });
+
+    res.status(200).json({ message: 'Sessão atualizada com sucesso!', session });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar sessão:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao atualizar sessão.' });
+  }
+};
+
+/**
+ * Remove uma sessão da agenda, junto com as inscrições nela. (Permissão 'event:update')
+ */
+export const deleteEventSession = async (req: Request, res: Response) => {
+  try {
+    const { id: eventId, sessionId } = req.params;
+
+    const existingSession = await prisma.eventSession.findUnique({ where: { id: sessionId }, select: { eventId: true } });
+    if (!existingSession || existingSession.eventId !== eventId) {
+      return res.status(404).json({ message: 'Sessão não encontrada neste evento.' });
+    }
+
+    await prisma.eventSession.delete({ where: { id: sessionId } });
+    await invalidateEventCache([eventId], { lists: false });
+
+    res.status(200).json({ message: 'Sessão removida da agenda.' });
+  } catch (error) {
+    console.error('Erro ao remover sessão:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover sessão.' });
+  }
+};
+
+// Busca a reserva para inscrição/saída de sessões, verificando dono e status dentro da transação.
+const findEnrollingReservation = async (tx: AppTransactionClient, reservationId: string, req: Request) => {
+  const reservation = await tx.reservation.findUnique({
+    where: { id: reservationId },
+    select: { id: true, userId: true, eventId: true, quantity: true, status: true },
+  });
+
+  if (!reservation) {
+    throw new Error('Reserva não encontrada.');
+  }
+
+  if (reservation.userId !== req.userId && !(await canAccessEvent(req, 'reservation:update', reservation.eventId, tx))) {
+    throw new Error('Acesso negado: Você não tem permissão para alterar esta reserva.');
+  }
+
+  if (!ACTIVE_RESERVATION_STATUSES.includes(reservation.status)) {
+    throw new Error('Apenas reservas ativas podem escolher sessões da agenda.');
+  }
+
+  return reservation;
+};
+
+/**
+ * Inscreve uma reserva ativa em uma sessão da agenda do evento.
+ * (Usuário inscreve as próprias reservas, com 'reservation:update' as dos eventos no seu escopo)
+ */
+export const enrollReservationInSession = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId } = req.params;
+    const { sessionId } = sessionEnrollmentSchema.parse(req.body);
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const enrollment = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const reservation = await findEnrollingReservation(tx, reservationId, req);
+      return enrollInSession(tx, reservation, sessionId);
+    });
+
+    await invalidateEventCache([enrollment.session.eventId], { lists: false });
+
+    const canSeeLinks = await canAccessOnlineLink(prisma, enrollment.session.eventId, req);
+    res.status(201).json({
+      message: 'Sessão adicionada à sua agenda!',
+      enrollment: canSeeLinks ? enrollment : { ...enrollment, session: hideOnlineLinks(enrollment.session) },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    // Violação do índice único: a mesma inscrição foi criada em paralelo.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'Você já está inscrito nesta sessão.' });
+    }
+    console.error('Erro ao inscrever reserva em sessão:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao inscrever na sessão.' });
+  }
+};
+
+/**
+ * Remove uma sessão da agenda de uma reserva ativa, devolvendo as vagas da sessão.
+ * (Usuário altera as próprias reservas, com 'reservation:update' as dos eventos no seu escopo)
+ */
+export const leaveReservationSession = async (req: Request, res: Response) => {
+  try {
+    const { id: reservationId, sessionId } = req.params;
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const eventId = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const reservation = await findEnrollingReservation(tx, reservationId, req);
+      await leaveSession(tx, reservation, sessionId);
+      return reservation.eventId;
+    });
+
+    await invalidateEventCache([eventId], { lists: false });
+
+    res.status(200).json({ message: 'Sessão removida da sua agenda.' });
+  } catch (error) {
+    console.error('Erro ao sair da sessão:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao sair da sessão.' });
+  }
+};
@@ -1,16 +1,67 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Role } from '@prisma/client';
+import { PrismaClient, Role, SessionRevokeReason, UserTokenType } from '@prisma/client';
 import bcrypt from 'bcryptjs';
-import { generateToken } from '../config/jwt';
-import { registerSchema, loginSchema } from '../validation/schemas';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+} from '../validation/schemas';
 import { ZodError } from 'zod';
-import { prisma } from '../services/prisma';
+import { AppTransactionClient, prisma, prismaWithDeleted } from '../services/prisma';
+import { getPurgeDate } from '../services/trash';
+import { SESSION_SELECT, createSession, getSessionClient, revokeSessionByToken, revokeSessions, rotateSession } from '../services/userSessions';
+import { consumeUserToken, sendPasswordResetEmail, sendVerificationEmail } from '../services/userTokens';
+import {
+  LOCKED_ACCOUNT_SELECT,
+  LoginLockout,
+  clearLoginFailures,
+  describeLoginLockout,
+  getLoginLockout,
+  recordLoginFailure,
+} from '../services/loginLockout';
+import { setRetryAfter } from '../middlewares/rateLimit';
+import {
+  confirmTotpEnrollment,
+  countRemainingRecoveryCodes,
+  disableTwoFactor,
+  generateRecoveryCodes,
+  issueTwoFactorChallenge,
+  requiresTwoFactor,
+  startTotpEnrollment,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from '../services/twoFactor';
+import { hasPermission } from '../services/permissions';
+
+// Falhas no envio não impedem a operação que o originou: o usuário pode pedir o e-mail de novo.
+const sendAccountEmail = async (send: Promise<void>, description: string) => {
+  try {
+    await send;
+  } catch (error) {
+    console.error(`Erro ao enviar o e-mail de ${description}:`, error);
+  }
+};
+
+const sendLoginLockout = (res: Response, lockout: LoginLockout) => {
+  const retryAfter = setRetryAfter(res, lockout.retryAfterMs);
+  return res.status(429).json({ message: describeLoginLockout(lockout), retryAfter });
+};
 
 export const registerUser = async (req: Request, res: Response) => {
   try {
     const { email, password } = registerSchema.parse(req.body);
 
-    const existingUser = await prisma.user.findUnique({ where: { email } });
+    // Contas na lixeira continuam reservando o e-mail até serem expurgadas (ou restauradas por um administrador).
+    const existingUser = await prismaWithDeleted.user.findUnique({ where: { email } });
+    if (existingUser?.deletedAt) {
+      return res.status(409).json({ message: 'Este e-mail pertence a uma conta removida. Entre em contato com um administrador.' });
+    }
     if (existingUser) {
       return res.status(409).json({ message: 'E-mail já registrado.' });
     }
@@ -23,19 +74,25 @@ export const registerUser = async (req: Request, res: Response) => {
         password: hashedPassword,
         role: Role.USER,
       },
-      select: { id: true, email: true, role: true, createdAt: true },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true, createdAt: true },
     });
 
-    const token = generateToken({ id: newUser.id, role: newUser.role });
+    // A conta já pode entrar, mas só reserva depois de confirmar o e-mail.
+    await sendAccountEmail(sendVerificationEmail(newUser), 'confirmação');
+
+    const { token, refreshToken } = await createSession(newUser, getSessionClient(req));
 
     res.status(201).json({
-      message: 'Usuário registrado com sucesso!',
+      message: 'Usuário registrado com sucesso! Enviamos um link de confirmação para o seu e-mail.',
       user: {
         id: newUser.id,
         email: newUser.email,
         role: newUser.role,
+        emailVerifiedAt: newUser.emailVerifiedAt,
+        twoFactorEnabled: false,
       },
       token,
+      refreshToken,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -51,16 +108,36 @@ export const loginUser = async (req: Request, res: Response) => {
     const { email, password } = loginSchema.parse(req.body);
 
     const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
-      return res.status(400).json({ message: 'Credenciais inválidas.' });
+
+    // Com a conta ou o IP bloqueados por excesso de tentativas, a senha nem é verificada.
+    const lockout = await getLoginLockout(user, req.ip);
+    if (lockout) {
+      return sendLoginLockout(res, lockout);
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    const isPasswordValid = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !isPasswordValid) {
+      const newLockout = await recordLoginFailure(user?.id ?? null, req.ip);
+      if (newLockout) {
+        return sendLoginLockout(res, newLockout);
+      }
       return res.status(400).json({ message: 'Credenciais inválidas.' });
     }
 
-    const token = generateToken({ id: user.id, role: user.role });
+    // Com a verificação em duas etapas, a senha correta rende apenas o desafio da segunda etapa. Administradores sem
+    // a verificação ativa precisam configurá-la antes (`setupRequired`).
+    // As tentativas erradas só são zeradas ao fim do login: senão, acertar a senha zeraria os erros de código.
+    if (requiresTwoFactor(user)) {
+      return res.status(200).json({
+        message: 'Informe o código de verificação em duas etapas.',
+        twoFactorRequired: true,
+        setupRequired: user.totpEnabledAt === null,
+        challengeToken: issueTwoFactorChallenge(user.id),
+      });
+    }
+
+    await clearLoginFailures(user.id);
+    const { token, refreshToken } = await createSession(user, getSessionClient(req));
 
     res.status(200).json({
       message: 'Login realizado com sucesso!',
@@ -68,8 +145,11 @@ export const loginUser = async (req: Request, res: Response) => {
         id: user.id,
         email: user.email,
         role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
+        twoFactorEnabled: false,
       },
       token,
+      refreshToken,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -80,6 +160,421 @@ export const loginUser = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Segunda etapa do login: troca o token de desafio e o código (TOTP ou de recuperação) pela sessão.
+ * Se a verificação ainda não estiver ativa (administrador configurando no login), o código a ativa e a resposta traz
+ * os códigos de recuperação.
+ */
+export const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+      return res.status(401).json({ message: 'Verificação expirada. Faça login novamente.' });
+    }
+
+    const lockout = await getLoginLockout(user, req.ip);
+    if (lockout) {
+      return sendLoginLockout(res, lockout);
+    }
+
+    const recoveryCodes = user.totpEnabledAt ? null : await confirmTotpEnrollment(user.id, code);
+    const isCodeValid = recoveryCodes !== null || (user.totpEnabledAt !== null && (await verifySecondFactor(user.id, code)));
+    if (!isCodeValid) {
+      // Códigos errados contam como tentativas de login erradas.
+      const newLockout = await recordLoginFailure(user.id, req.ip);
+      if (newLockout) {
+        return sendLoginLockout(res, newLockout);
+      }
+      return res.status(400).json({ message: 'Código de verificação inválido.' });
+    }
+
+    await clearLoginFailures(user.id);
+    const { token, refreshToken } = await createSession(user, getSessionClient(req));
+
+    res.status(200).json({
+      message: 'Login realizado com sucesso!',
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        emailVerifiedAt: user.emailVerifiedAt,
+        twoFactorEnabled: true,
+      },
+      token,
+      refreshToken,
+      ...(recoveryCodes ? { recoveryCodes } : {}),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro na verificação em duas etapas do login:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao fazer login.' });
+  }
+};
+
+/**
+ * Gera o segredo TOTP de quem precisa configurar a verificação em duas etapas durante o login (administradores).
+ */
+export const setupLoginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken } = twoFactorChallengeSchema.parse(req.body);
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true } }) : null;
+    if (!user) {
+      return res.status(401).json({ message: 'Verificação expirada. Faça login novamente.' });
+    }
+
+    const enrollment = await startTotpEnrollment(user);
+    if (!enrollment) {
+      return res.status(400).json({ message: 'A verificação em duas etapas já está ativa. Informe o código do aplicativo.' });
+    }
+
+    res.status(200).json({ message: 'Leia o QR code no aplicativo autenticador e informe o código gerado.', ...enrollment });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao configurar a verificação em duas etapas no login:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao configurar a verificação em duas etapas.' });
+  }
+};
+
+/**
+ * Troca o refresh token por um novo token de acesso e um novo refresh token (o anterior deixa de valer).
+ */
+export const refreshTokens = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const result = await rotateSession(refreshToken, getSessionClient(req));
+    if ('error' in result) {
+      return res.status(401).json({ message: result.error });
+    }
+
+    res.status(200).json({ message: 'Sessão renovada.', ...result.tokens });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao renovar sessão:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao renovar sessão.' });
+  }
+};
+
+/**
+ * Encerra a sessão do refresh token informado. Responde com sucesso mesmo se ela já estiver encerrada.
+ */
+export const logoutUser = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    await revokeSessionByToken(refreshToken);
+
+    res.status(200).json({ message: 'Logout realizado com sucesso!' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao fazer logout:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao fazer logout.' });
+  }
+};
+
+/**
+ * Confirma o e-mail do usuário com o token enviado por e-mail.
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    const userId = await consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION);
+    if (!userId) {
+      return res.status(400).json({ message: 'Link de confirmação inválido, expirado ou já usado.' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true },
+    });
+
+    res.status(200).json({ message: 'E-mail confirmado com sucesso!', user });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao confirmar e-mail:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao confirmar e-mail.' });
+  }
+};
+
+/**
+ * Reenvia o link de confirmação ao usuário logado. O link anterior deixa de valer.
+ */
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    });
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: 'Este e-mail já foi confirmado.' });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({ message: `Enviamos um novo link de confirmação para ${user.email}.` });
+  } catch (error) {
+    console.error('Erro ao reenviar confirmação de e-mail:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao reenviar confirmação de e-mail.' });
+  }
+};
+
+/**
+ * Envia o link de redefinição de senha. A resposta é a mesma para e-mails cadastrados ou não,
+ * para não revelar quais endereços têm conta.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true, email: true } });
+    if (user) {
+      await sendAccountEmail(sendPasswordResetEmail(user), 'redefinição de senha');
+    }
+
+    res.status(200).json({ message: 'Se o e-mail estiver cadastrado, você receberá um link para redefinir a senha.' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao solicitar redefinição de senha:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao solicitar redefinição de senha.' });
+  }
+};
+
+/**
+ * Define uma nova senha com o token enviado por e-mail e encerra todas as sessões do usuário.
+ * Como o token chegou pelo e-mail, o endereço também passa a contar como confirmado.
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    const userId = await consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+    if (!userId) {
+      return res.status(400).json({ message: 'Link de redefinição inválido, expirado ou já usado.' });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerifiedAt: true } });
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword, emailVerifiedAt: user?.emailVerifiedAt ?? new Date() },
+    });
+    await revokeSessions({ userId }, SessionRevokeReason.PASSWORD_CHANGED);
+    // Quem recebeu o link no e-mail é o dono da conta: um bloqueio por tentativas erradas deixa de fazer sentido.
+    await clearLoginFailures(userId);
+
+    res.status(200).json({ message: 'Senha redefinida com sucesso! Faça login com a nova senha.' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao redefinir senha:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao redefinir senha.' });
+  }
+};
+
+/**
+ * Lista as sessões ativas do usuário logado (dispositivos conectados), indicando a atual.
+ */
+export const listMySessions = async (req: Request, res: Response) => {
+  try {
+    const sessions = await prisma.userSession.findMany({
+      where: { userId: req.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: SESSION_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    res.status(200).json({
+      sessions: sessions.map((session) => ({ ...session, current: session.id === req.sessionId })),
+    });
+  } catch (error) {
+    console.error('Erro ao listar sessões:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar sessões.' });
+  }
+};
+
+/**
+ * Encerra uma sessão do usuário logado (ex: um dispositivo perdido). Os tokens dela deixam de valer na hora.
+ */
+export const revokeMySession = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const revoked = await revokeSessions(
+      { id, userId: req.userId },
+      id === req.sessionId ? SessionRevokeReason.LOGOUT : SessionRevokeReason.REVOKED
+    );
+    if (revoked === 0) {
+      return res.status(404).json({ message: 'Sessão não encontrada ou já encerrada.' });
+    }
+
+    res.status(200).json({ message: 'Sessão encerrada com sucesso!' });
+  } catch (error) {
+    console.error('Erro ao encerrar sessão:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao encerrar sessão.' });
+  }
+};
+
+/**
+ * Encerra todas as sessões do usuário logado, exceto a atual.
+ */
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeSessions(
+      { userId: req.userId, id: { not: req.sessionId } },
+      SessionRevokeReason.REVOKED
+    );
+
+    res.status(200).json({ message: `${revoked} sessão(ões) encerrada(s).`, revoked });
+  } catch (error) {
+    console.error('Erro ao encerrar sessões:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao encerrar sessões.' });
+  }
+};
+
+/**
+ * Situação da verificação em duas etapas do usuário logado.
+ */
+export const getMyTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.userId }, select: { role: true, totpEnabledAt: true } });
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
+    }
+
+    res.status(200).json({
+      enabled: user.totpEnabledAt !== null,
+      enabledAt: user.totpEnabledAt,
+      required: user.role === Role.ADMIN,
+      recoveryCodesRemaining: user.totpEnabledAt ? await countRemainingRecoveryCodes(req.userId!) : 0,
+    });
+  } catch (error) {
+    console.error('Erro ao obter a verificação em duas etapas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter a verificação em duas etapas.' });
+  }
+};
+
+/**
+ * Inicia a ativação da verificação em duas etapas: gera o segredo TOTP, confirmado depois com um código do aplicativo.
+ */
+export const setupMyTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.userId }, select: { id: true, email: true } });
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
+    }
+
+    const enrollment = await startTotpEnrollment(user);
+    if (!enrollment) {
+      return res.status(400).json({ message: 'A verificação em duas etapas já está ativa.' });
+    }
+
+    res.status(200).json({ message: 'Leia o QR code no aplicativo autenticador e informe o código gerado.', ...enrollment });
+  } catch (error) {
+    console.error('Erro ao configurar a verificação em duas etapas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao configurar a verificação em duas etapas.' });
+  }
+};
+
+/**
+ * Conclui a ativação com um código do aplicativo e devolve os códigos de recuperação (exibidos uma única vez).
+ */
+export const enableMyTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const recoveryCodes = await confirmTotpEnrollment(req.userId!, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Código inválido ou configuração não iniciada.' });
+    }
+
+    res.status(200).json({
+      message: 'Verificação em duas etapas ativada! Guarde os códigos de recuperação em um lugar seguro.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao ativar a verificação em duas etapas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao ativar a verificação em duas etapas.' });
+  }
+};
+
+/**
+ * Substitui os códigos de recuperação por novos, mediante um código válido (TOTP ou de recuperação).
+ */
+export const regenerateMyRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    if (!(await verifySecondFactor(req.userId!, code))) {
+      return res.status(400).json({ message: 'Código de verificação inválido.' });
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(req.userId!);
+
+    res.status(200).json({
+      message: 'Novos códigos de recuperação gerados. Os anteriores deixaram de valer.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao gerar códigos de recuperação:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao gerar códigos de recuperação.' });
+  }
+};
+
+/**
+ * Desativa a verificação em duas etapas, mediante um código válido. Administradores não podem desativá-la.
+ */
+export const disableMyTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    if (req.role === Role.ADMIN) {
+      return res.status(403).json({ message: 'A verificação em duas etapas é obrigatória para administradores.' });
+    }
+
+    if (!(await verifySecondFactor(req.userId!, code))) {
+      return res.status(400).json({ message: 'Código de verificação inválido.' });
+    }
+
+    await disableTwoFactor(req.userId!);
+
+    res.status(200).json({ message: 'Verificação em duas etapas desativada.' });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao desativar a verificação em duas etapas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao desativar a verificação em duas etapas.' });
+  }
+};
+
 export const getUserProfile = async (req: Request, res: Response) => {
   try {
     const { id: paramId } = req.params;
@@ -91,7 +586,7 @@ export const getUserProfile = async (req: Request, res: Response) => {
     }
 
     const userIdToFetch =
-      paramId && requestingUserRole === Role.ADMIN ? paramId : requestingUserId;
+      paramId && hasPermission(requestingUserRole, 'user:read') ? paramId : requestingUserId;
 
     if (!userIdToFetch) {
       return res.status(400).json({ message: 'ID do usuário inválido para busca de perfil.' });
@@ -99,14 +594,15 @@ export const getUserProfile = async (req: Request, res: Response) => {
 
     const user = await prisma.user.findUnique({
       where: { id: userIdToFetch },
-      select: { id: true, email: true, role: true, createdAt: true, updatedAt: true },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true, totpEnabledAt: true, createdAt: true, updatedAt: true },
     });
 
     if (!user) {
       return res.status(404).json({ message: 'Usuário não encontrado.' });
     }
 
-    res.status(200).json({ user });
+    const { totpEnabledAt, ...profile } = user;
+    res.status(200).json({ user: { ...profile, twoFactorEnabled: totpEnabledAt !== null } });
   } catch (error) {
     console.error('Erro ao obter perfil do usuário:', error);
     res.status(500).json({ message: 'Erro interno do servidor ao obter perfil do usuário.' });
@@ -123,7 +619,7 @@ export const updateUserProfile = async (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Não autorizado: Usuário não identificado.' });
     }
 
-    if (requestingUserRole === Role.USER && id !== requestingUserId) {
+    if (id !== requestingUserId && !hasPermission(requestingUserRole, 'user:update')) {
       return res.status(403).json({ message: 'Acesso negado: Você só pode atualizar seu próprio perfil.' });
     }
 
@@ -134,11 +630,15 @@ export const updateUserProfile = async (req: Request, res: Response) => {
     if (email !== undefined) {
       try {
         registerSchema.shape.email.parse(email);
-        const existingUserWithEmail = await prisma.user.findUnique({ where: { email } });
+        const existingUserWithEmail = await prismaWithDeleted.user.findUnique({ where: { email } });
         if (existingUserWithEmail && existingUserWithEmail.id !== id) {
           return res.status(409).json({ message: 'Este e-mail já está em uso por outro usuário.' });
         }
         dataToUpdate.email = email;
+        // Um novo endereço precisa ser confirmado.
+        if (!existingUserWithEmail) {
+          dataToUpdate.emailVerifiedAt = null;
+        }
       } catch (error) {
         if (error instanceof ZodError) {
           return res.status(400).json({ message: 'Erro de validação do e-mail.', errors: error.errors });
@@ -159,7 +659,7 @@ export const updateUserProfile = async (req: Request, res: Response) => {
       }
     }
 
-    if (requestingUserRole === Role.ADMIN && role !== undefined) {
+    if (hasPermission(requestingUserRole, 'user:update') && role !== undefined) {
       if (!Object.values(Role).includes(role)) {
         return res.status(400).json({ message: 'Papel inválido fornecido.' });
       }
@@ -173,9 +673,29 @@ export const updateUserProfile = async (req: Request, res: Response) => {
     const updatedUser = await prisma.user.update({
       where: { id },
       data: dataToUpdate,
-      select: { id: true, email: true, role: true, createdAt: true, updatedAt: true },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true, createdAt: true, updatedAt: true },
     });
 
+    if (dataToUpdate.emailVerifiedAt === null) {
+      await sendAccountEmail(sendVerificationEmail(updatedUser), 'confirmação');
+    }
+
+    // Trocar a senha encerra as demais sessões do usuário (todas, se foi um administrador que a trocou).
+    if (dataToUpdate.password) {
+      await revokeSessions(
+        id === requestingUserId ? { userId: id, id: { not: req.sessionId } } : { userId: id },
+        SessionRevokeReason.PASSWORD_CHANGED
+      );
+    }
+
+    // Administradores precisam da verificação em duas etapas: quem é promovido sem ela entra de novo e a configura.
+    if (dataToUpdate.role === Role.ADMIN) {
+      const promoted = await prisma.user.findUnique({ where: { id }, select: { totpEnabledAt: true } });
+      if (!promoted?.totpEnabledAt) {
+        await revokeSessions({ userId: id }, SessionRevokeReason.REVOKED);
+      }
+    }
+
     res.status(200).json({ message: 'Perfil do usuário atualizado com sucesso!', user: updatedUser });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -189,11 +709,6 @@ export const updateUserProfile = async (req: Request, res: Response) => {
 export const deleteUser = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const requestingUserRole = req.role;
-
-    if (requestingUserRole !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem deletar usuários.' });
-    }
 
     const userToDelete = await prisma.user.findUnique({ where: { id } });
     if (!userToDelete) {
@@ -204,24 +719,128 @@ export const deleteUser = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Você não pode deletar seu próprio usuário através desta rota.' });
     }
 
-    await prisma.user.delete({ where: { id } });
+    // Exclusão lógica: o usuário vai para a lixeira e perde o acesso imediatamente. Assim como na exclusão de eventos,
+    // as reservas e as entradas na lista de espera são preservadas (ocultas nas listagens e na fila enquanto o usuário
+    // estiver na lixeira), para que a restauração desfaça a exclusão por completo; as vagas só são liberadas no expurgo.
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const deletedUser = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const user = await tx.user.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+        select: { id: true, deletedAt: true },
+      });
+      await revokeSessions({ userId: id }, SessionRevokeReason.USER_DELETED, new Date(), tx);
+      return user;
+    });
 
-    res.status(200).json({ message: 'Usuário deletado com sucesso!' });
-  } catch (error: any) {
-    if (error.code === 'P2003') {
-      return res.status(400).json({ message: 'Não é possível deletar o usuário devido a reservas ou eventos associados.' });
-    }
+    res.status(200).json({
+      message: 'Usuário movido para a lixeira.',
+      purgeAt: getPurgeDate(deletedUser.deletedAt!),
+    });
+  } catch (error) {
     console.error('Erro ao deletar usuário:', error);
-    res.status(500).json({ message: 'Erro interno do servidor ao deletar usuário.' });
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Erro interno do servidor ao deletar usuário.' });
   }
 };
 
-export const listUsers = async (req: Request, res: Response) => {
+/**
+ * Lista os usuários na lixeira, com a data em que cada um será expurgado. (Apenas Admin)
+ */
+export const listDeletedUsers = async (req: Request, res: Response) => {
+  try {
+    const deletedUsers = await prismaWithDeleted.user.findMany({
+      where: { deletedAt: { not: null } },
+      select: { id: true, email: true, role: true, createdAt: true, deletedAt: true },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    const users = deletedUsers.map((user) => ({
+      ...user,
+      purgeAt: getPurgeDate(user.deletedAt!),
+    }));
+
+    res.status(200).json({ users });
+  } catch (error) {
+    console.error('Erro ao listar usuários na lixeira:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar a lixeira.' });
+  }
+};
+
+/**
+ * Restaura um usuário da lixeira, junto com suas reservas e entradas na lista de espera, preservadas na exclusão. (Apenas Admin)
+ */
+export const restoreUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deletedUser = await prismaWithDeleted.user.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true },
+    });
+    if (!deletedUser) {
+      return res.status(404).json({ message: 'Usuário não encontrado na lixeira.' });
+    }
+
+    const user = await prismaWithDeleted.user.update({
+      where: { id },
+      data: { deletedAt: null },
+      select: { id: true, email: true, role: true, createdAt: true, updatedAt: true },
+    });
+
+    res.status(200).json({
+      message: 'Usuário restaurado com sucesso!',
+      user,
+    });
+  } catch (error) {
+    console.error('Erro ao restaurar usuário:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao restaurar usuário.' });
+  }
+};
+
+/**
+ * Lista as contas bloqueadas no momento por excesso de tentativas de login. (Suporte e Admin)
+ */
+export const listLockedUsers = async (req: Request, res: Response) => {
   try {
-    if (req.role !== Role.ADMIN) {
-      return res.status(403).json({ message: 'Acesso negado: Apenas administradores podem listar usuários.' });
+    const users = await prisma.user.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      select: LOCKED_ACCOUNT_SELECT,
+      orderBy: { lockedUntil: 'desc' },
+    });
+
+    res.status(200).json({ users });
+  } catch (error) {
+    console.error('Erro ao listar contas bloqueadas:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar contas bloqueadas.' });
+  }
+};
+
+/**
+ * Desbloqueia uma conta bloqueada por excesso de tentativas de login, zerando também a progressão dos bloqueios.
+ * (Apenas Admin)
+ */
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado.' });
     }
 
+    const unlocked = await clearLoginFailures(id);
+
+    res.status(200).json({
+      message: unlocked ? 'Conta desbloqueada com sucesso!' : 'A conta não estava bloqueada.',
+    });
+  } catch (error) {
+    console.error('Erro ao desbloquear conta:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao desbloquear conta.' });
+  }
+};
+
+export const listUsers = async (req: Request, res: Response) => {
+  try {
     const users = await prisma.user.findMany({
       select: { id: true, email: true, role: true, createdAt: true, updatedAt: true },
     });
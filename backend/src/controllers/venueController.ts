@@ -0,0 +1,291 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { createRoomSchema, createVenueSchema, updateRoomSchema, updateVenueSchema } from '../validation/schemas';
+import { AppTransactionClient, prisma } from '../services/prisma';
+import { findUpcomingRoomEvents, syncRoomEventLocations } from '../services/venues';
+import { geocodeAddress } from '../services/geocoding';
+import { invalidateEventCache } from '../services/eventCache';
+
+// Salas em ordem alfabética, como exibidas no catálogo.
+const VENUE_INCLUDE = { rooms: { orderBy: { name: 'asc' } } } as const;
+
+// Invalida o cache dos eventos cujo endereço mudou junto com a sala ou o local.
+const invalidateEventCaches = async (eventIds: string[]) => {
+  if (eventIds.length > 0) {
+    await invalidateEventCache(eventIds);
+  }
+};
+
+/**
+ * Lista os locais do catálogo com as suas salas.
+ */
+export const listVenues = async (req: Request, res: Response) => {
+  try {
+    const venues = await prisma.venue.findMany({
+      include: VENUE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json({ venues });
+  } catch (error) {
+    console.error('Erro ao listar locais:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao listar locais.' });
+  }
+};
+
+/**
+ * Retorna um local com as suas salas.
+ */
+export const getVenueById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const venue = await prisma.venue.findUnique({ where: { id }, include: VENUE_INCLUDE });
+    if (!venue) {
+      return res.status(404).json({ message: 'Local não encontrado.' });
+    }
+
+    res.status(200).json({ venue });
+  } catch (error) {
+    console.error('Erro ao obter local:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao obter local.' });
+  }
+};
+
+/**
+ * Cadastra um local no catálogo. (Apenas Admin)
+ */
+export const createVenue = async (req: Request, res: Response) => {
+  try {
+    const { name, address, latitude, longitude, accessibilityNotes } = createVenueSchema.parse(req.body);
+
+    // Sem coordenadas informadas, elas são geocodificadas a partir do endereço (se encontrado).
+    const coordinates = latitude !== undefined && latitude !== null && longitude !== undefined && longitude !== null
+      ? { latitude, longitude }
+      : await geocodeAddress(address);
+
+    const venue = await prisma.venue.create({
+      data: {
+        name,
+        address,
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        accessibilityNotes: accessibilityNotes || null,
+      },
+      include: VENUE_INCLUDE,
+    });
+
+    res.status(201).json({ message: 'Local cadastrado com sucesso!', venue });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao cadastrar local:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao cadastrar local.' });
+  }
+};
+
+/**
+ * Atualiza um local. Mudanças no nome, no endereço ou nas coordenadas são aplicadas aos eventos futuros das suas salas. (Apenas Admin)
+ */
+export const updateVenue = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { name, address, latitude, longitude, accessibilityNotes } = updateVenueSchema.parse(req.body);
+
+    const existingVenue = await prisma.venue.findUnique({ where: { id }, include: { rooms: { select: { id: true } } } });
+    if (!existingVenue) {
+      return res.status(404).json({ message: 'Local não encontrado para atualização.' });
+    }
+
+    const data: Prisma.VenueUpdateInput = {};
+    if (name !== undefined) data.name = name;
+    if (address !== undefined) data.address = address;
+    if (latitude !== undefined) data.latitude = latitude;
+    if (longitude !== undefined) data.longitude = longitude;
+    if (accessibilityNotes !== undefined) data.accessibilityNotes = accessibilityNotes || null;
+
+    // Um novo endereço sem novas coordenadas é geocodificado; se não for encontrado, o local fica sem coordenadas.
+    if (address !== undefined && address !== existingVenue.address && latitude === undefined) {
+      const coordinates = await geocodeAddress(address);
+      data.latitude = coordinates?.latitude ?? null;
+      data.longitude = coordinates?.longitude ?? null;
+    }
+
+    const addressChanged = (name !== undefined && name !== existingVenue.name) || (address !== undefined && address !== existingVenue.address);
+    const coordinatesChanged = (data.latitude !== undefined && data.latitude !== existingVenue.latitude)
+      || (data.longitude !== undefined && data.longitude !== existingVenue.longitude);
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const { venue, updatedEventIds } = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const venue = await tx.venue.update({ where: { id }, data, include: VENUE_INCLUDE });
+      const updatedEventIds = addressChanged || coordinatesChanged
+        ? await syncRoomEventLocations(tx, existingVenue.rooms.map((room) => room.id))
+        : [];
+      return { venue, updatedEventIds };
+    });
+
+    await invalidateEventCaches(updatedEventIds);
+
+    res.status(200).json({ message: 'Local atualizado com sucesso!', venue, updatedEvents: updatedEventIds.length });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar local:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atualizar local.' });
+  }
+};
+
+/**
+ * Remove um local e as suas salas. Locais com eventos futuros em alguma sala não podem ser removidos. (Apenas Admin)
+ */
+export const deleteVenue = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingVenue = await prisma.venue.findUnique({ where: { id }, include: { rooms: { select: { id: true } } } });
+    if (!existingVenue) {
+      return res.status(404).json({ message: 'Local não encontrado para exclusão.' });
+    }
+
+    const upcomingEvents = await findUpcomingRoomEvents(prisma, existingVenue.rooms.map((room) => room.id));
+    if (upcomingEvents.length > 0) {
+      return res.status(409).json({
+        message: 'O local possui eventos futuros em suas salas. Transfira ou cancele esses eventos antes de removê-lo.',
+        events: upcomingEvents,
+      });
+    }
+
+    // Eventos passados perdem a referência à sala (SetNull), mas mantêm o endereço em `location`.
+    await prisma.venue.delete({ where: { id } });
+
+    res.status(200).json({ message: 'Local removido com sucesso!' });
+  } catch (error) {
+    console.error('Erro ao remover local:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover local.' });
+  }
+};
+
+/**
+ * Adiciona uma sala a um local. (Apenas Admin)
+ */
+export const createRoom = async (req: Request, res: Response) => {
+  try {
+    const { id: venueId } = req.params;
+
+    const { name, capacity, accessibilityNotes } = createRoomSchema.parse(req.body);
+
+    const venue = await prisma.venue.findUnique({ where: { id: venueId }, select: { id: true } });
+    if (!venue) {
+      return res.status(404).json({ message: 'Local não encontrado.' });
+    }
+
+    const sameName = await prisma.room.findUnique({ where: { venueId_name: { venueId, name } }, select: { id: true } });
+    if (sameName) {
+      return res.status(409).json({ message: 'Já existe uma sala com este nome neste local.' });
+    }
+
+    const room = await prisma.room.create({
+      data: { venueId, name, capacity, accessibilityNotes: accessibilityNotes || null },
+    });
+
+    res.status(201).json({ message: 'Sala cadastrada com sucesso!', room });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao cadastrar sala:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao cadastrar sala.' });
+  }
+};
+
+/**
+ * Atualiza uma sala. A capacidade não pode ficar abaixo da capacidade presencial dos eventos futuros
+ * que a ocupam, e um novo nome é aplicado ao local desses eventos. (Apenas Admin)
+ */
+export const updateRoom = async (req: Request, res: Response) => {
+  try {
+    const { id: venueId, roomId } = req.params;
+
+    const { name, capacity, accessibilityNotes } = updateRoomSchema.parse(req.body);
+
+    const existingRoom = await prisma.room.findUnique({ where: { id: roomId } });
+    if (!existingRoom || existingRoom.venueId !== venueId) {
+      return res.status(404).json({ message: 'Sala não encontrada neste local.' });
+    }
+
+    if (name !== undefined && name !== existingRoom.name) {
+      const sameName = await prisma.room.findUnique({ where: { venueId_name: { venueId, name } }, select: { id: true } });
+      if (sameName) {
+        return res.status(409).json({ message: 'Já existe uma sala com este nome neste local.' });
+      }
+    }
+
+    if (capacity !== undefined && capacity < existingRoom.capacity) {
+      const upcomingEvents = await findUpcomingRoomEvents(prisma, [roomId]);
+      const exceeding = upcomingEvents.filter((event) => event.maxCapacity - event.onlineCapacity > capacity);
+      if (exceeding.length > 0) {
+        return res.status(409).json({
+          message: 'A nova capacidade é menor que a capacidade presencial de eventos futuros nesta sala.',
+          events: exceeding,
+        });
+      }
+    }
+
+    const data: Prisma.RoomUpdateInput = {};
+    if (name !== undefined) data.name = name;
+    if (capacity !== undefined) data.capacity = capacity;
+    if (accessibilityNotes !== undefined) data.accessibilityNotes = accessibilityNotes || null;
+
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    const { room, updatedEventIds } = await prisma.$transaction(async (tx: AppTransactionClient) => {
+      const room = await tx.room.update({ where: { id: roomId }, data });
+      const updatedEventIds = name !== undefined && name !== existingRoom.name
+        ? await syncRoomEventLocations(tx, [roomId])
+        : [];
+      return { room, updatedEventIds };
+    });
+
+    await invalidateEventCaches(updatedEventIds);
+
+    res.status(200).json({ message: 'Sala atualizada com sucesso!', room, updatedEvents: updatedEventIds.length });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Erro de validação.', errors: error.errors });
+    }
+    console.error('Erro ao atualizar sala:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao atualizar sala.' });
+  }
+};
+
+/**
+ * Remove uma sala. Salas com eventos futuros não podem ser removidas. (Apenas Admin)
+ */
+export const deleteRoom = async (req: Request, res: Response) => {
+  try {
+    const { id: venueId, roomId } = req.params;
+
+    const existingRoom = await prisma.room.findUnique({ where: { id: roomId }, select: { id: true, venueId: true } });
+    if (!existingRoom || existingRoom.venueId !== venueId) {
+      return res.status(404).json({ message: 'Sala não encontrada neste local.' });
+    }
+
+    const upcomingEvents = await findUpcomingRoomEvents(prisma, [roomId]);
+    if (upcomingEvents.length > 0) {
+      return res.status(409).json({
+        message: 'A sala possui eventos futuros. Transfira ou cancele esses eventos antes de removê-la.',
+        events: upcomingEvents,
+      });
+    }
+
+    await prisma.room.delete({ where: { id: roomId } });
+
+    res.status(200).json({ message: 'Sala removida com sucesso!' });
+  } catch (error) {
+    console.error('Erro ao remover sala:', error);
+    res.status(500).json({ message: 'Erro interno do servidor ao remover sala.' });
+  }
+};
@@ -1,12 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../config/jwt';
 import { prisma } from '../services/prisma'; // CERTO
-import { Role } from '@prisma/client';
+import { isSessionActive } from '../services/userSessions';
+import {
+  Permission,
+  ResourceLoader,
+  canAccessResource,
+  getDelegatingPermissions,
+  getPermissionScope,
+  hasDelegatedPermission,
+} from '../services/permissions';
 
 /**
  * Middleware de autenticação:
- * Verifica a presença e validade de um token JWT no cabeçalho 'Authorization'.
- * Se o token for válido, decodifica o payload e anexa o 'userId' e 'role' ao objeto 'req'.
+ * Verifica a presença e validade de um token JWT no cabeçalho 'Authorization' e se a sua sessão continua ativa.
+ * Se o token for válido, decodifica o payload e anexa o 'userId', 'role' e 'sessionId' ao objeto 'req'.
  * Se o token for inválido ou ausente, retorna um erro 401 (Não Autorizado).
  */
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
@@ -31,9 +39,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       return res.status(401).json({ message: 'Não autorizado: Usuário não encontrado.' });
     }
 
-    // Anexa o ID do usuário e o papel ao objeto 'req' para uso posterior nas rotas.
+    // Tokens de sessões encerradas (logout, revogação) deixam de valer antes mesmo de expirar.
+    if (typeof decoded.sid !== 'string' || !(await isSessionActive(decoded.sid, user.id))) {
+      return res.status(401).json({ message: 'Não autorizado: Sessão encerrada ou expirada.' });
+    }
+
+    // Anexa o ID do usuário, o papel e a sessão ao objeto 'req' para uso posterior nas rotas.
     req.userId = user.id;
     req.role = user.role;
+    req.sessionId = decoded.sid;
 
     next(); 
   } catch (error: any) {
@@ -41,23 +55,83 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+/**
+ * Middleware de autenticação opcional:
+ * Para rotas públicas cujo conteúdo varia conforme o usuário (ex: administradores e organizadores veem rascunhos).
+ * Se houver um token válido, anexa 'userId' e 'role' ao objeto 'req'; caso contrário, segue como visitante,
+ * sem retornar erro.
+ */
+export const optionalAuthenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next();
+  }
+
+  try {
+    const decoded = verifyToken(authHeader.split(' ')[1]);
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.id },
+      select: { id: true, role: true }
+    });
+
+    if (user && typeof decoded.sid === 'string' && (await isSessionActive(decoded.sid, user.id))) {
+      req.userId = user.id;
+      req.role = user.role;
+      req.sessionId = decoded.sid;
+    }
+  } catch (error) {
+    // Token inválido ou expirado em rota pública: trata a requisição como de um visitante.
+  }
+
+  next();
+};
+
 /**
  * Middleware de autorização:
- * Retorna um middleware que verifica se o usuário autenticado tem um dos papéis permitidos.
- * @param roles Um array de papéis permitidos (ex: [Role.ADMIN, Role.USER]).
+ * Retorna um middleware que verifica se o papel do usuário autenticado tem a permissão (services/permissions.ts).
+ * Com `resourceLoader`, a permissão é verificada sobre o recurso da rota: papéis com escopo restrito (ex: organizadores,
+ * apenas nos próprios eventos) recebem 403 nos demais; se o recurso não existir, retorna 404.
+ * Sem `resourceLoader`, basta ter a permissão em algum escopo; listagens restringem os resultados ao escopo no controller.
+ * Permissões delegadas a coorganizadores (services/permissions.ts) também são aceitas, apenas nos eventos da delegação.
+ * @param permission A permissão exigida (ex: 'event:update').
+ * @param resourceLoader Carrega o recurso da rota (ex: `eventResource()`, o evento do parâmetro ':id').
  * @returns Um middleware de Express.
  */
-export const authorize = (roles: Role[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+export const requirePermission = (permission: Permission, resourceLoader?: ResourceLoader) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.role) {
       return res.status(403).json({ message: 'Acesso negado: Papel do usuário não definido.' });
     }
 
-    if (!roles.includes(req.role)) {
-      return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para realizar esta ação.' });
-    }
+    try {
+      // Sem a permissão no papel, passam apenas os coorganizadores a quem ela foi delegada: no evento da rota
+      // (verificado abaixo) ou, nas rotas sem recurso (listagens), em algum evento.
+      if (!getPermissionScope(req.role, permission)) {
+        const mayBeDelegated = resourceLoader
+          ? getDelegatingPermissions(permission).length > 0
+          : await hasDelegatedPermission(req, permission);
+        if (!mayBeDelegated) {
+          return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para realizar esta ação.' });
+        }
+      }
 
-    next();
+      if (!resourceLoader) {
+        return next();
+      }
+
+      const resource = await resourceLoader.load(req);
+      if (!resource) {
+        return res.status(404).json({ message: resourceLoader.notFoundMessage });
+      }
+      if (!(await canAccessResource(req, permission, resource))) {
+        return res.status(403).json({ message: 'Acesso negado: Você não tem permissão para realizar esta ação.' });
+      }
+      next();
+    } catch (error) {
+      console.error(`Erro ao verificar a permissão "${permission}":`, error);
+      res.status(500).json({ message: 'Erro interno do servidor ao verificar permissões.' });
+    }
   };
 };
 
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../services/rateLimitStore';
+
+export interface RateLimitOptions {
+  // Identifica o limite nas chaves dos contadores (ex: 'login'); rotas com o mesmo nome compartilham o limite.
+  name: string;
+  windowMs: number;
+  // Requisições permitidas por janela.
+  max: number;
+  // 'ip' conta por endereço de origem; 'user' conta por usuário e exige `authenticate` antes na rota.
+  keyBy?: 'ip' | 'user';
+  message?: string;
+}
+
+/**
+ * Define o cabeçalho Retry-After de uma resposta recusada por excesso de tentativas (429).
+ * @returns Os segundos informados no cabeçalho.
+ */
+export const setRetryAfter = (res: Response, retryAfterMs: number): number => {
+  const seconds = Math.max(Math.ceil(retryAfterMs / 1000), 1);
+  res.setHeader('Retry-After', String(seconds));
+  return seconds;
+};
+
+/**
+ * Middleware de limite de requisições (janela fixa):
+ * Conta as requisições de cada IP (ou usuário) na janela de `windowMs`. Acima de `max`, retorna 429 (Too Many
+ * Requests) com o cabeçalho Retry-After, sem chegar ao controlador.
+ * Todas as respostas informam o limite nos cabeçalhos RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset
+ * (segundos até a janela recomeçar) e RateLimit-Policy.
+ */
+export const rateLimit = ({ name, windowMs, max, keyBy = 'ip', message }: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const subject = keyBy === 'user' && req.userId ? `user:${req.userId}` : `ip:${req.ip}`;
+
+    try {
+      const { count, resetMs } = await getRateLimitStore().hit(`ratelimit:${name}:${subject}`, windowMs);
+
+      res.setHeader('RateLimit-Limit', String(max));
+      res.setHeader('RateLimit-Remaining', String(Math.max(max - count, 0)));
+      res.setHeader('RateLimit-Reset', String(Math.ceil(resetMs / 1000)));
+      res.setHeader('RateLimit-Policy', `${max};w=${Math.ceil(windowMs / 1000)}`);
+
+      if (count > max) {
+        const retryAfter = setRetryAfter(res, resetMs);
+        return res.status(429).json({
+          message: message || 'Muitas requisições. Aguarde um pouco e tente novamente.',
+          retryAfter,
+        });
+      }
+
+      next();
+    } catch (error) {
+      // Mesmo com o Redis fora do ar os contadores ficam em memória; um erro aqui não deve derrubar a rota.
+      console.error(`Erro ao aplicar o limite de requisições "${name}":`, error);
+      next();
+    }
+  };
+};
@@ -1,4 +1,4 @@
-import { PrismaClient, Role, ReservationStatus } from '@prisma/client';
+import { PrismaClient, Role, ReservationStatus, EventStatus, EventFormat, AttendanceMode, CoOrganizerPermission, CoOrganizerStatus } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -9,6 +9,8 @@ async function main() {
   // Limpa dados
   await prisma.reservation.deleteMany();
   await prisma.event.deleteMany();
+  await prisma.venue.deleteMany();
+  await prisma.category.deleteMany();
   await prisma.user.deleteMany();
 
   const hashedPassword = await bcrypt.hash('password123', 10);
@@ -19,6 +21,7 @@ async function main() {
       email: 'admin@admin.com',
       password: hashedPassword,
       role: Role.ADMIN,
+      emailVerifiedAt: new Date(),
     },
   });
   console.log(`Admin criado: ${adminUser.email}`);
@@ -30,22 +33,73 @@ async function main() {
         email: `user${i + 1}@teste.com`,
         password: hashedPassword,
         role: Role.USER,
+        emailVerifiedAt: new Date(), // Contas de exemplo já confirmadas, para poderem reservar.
       },
     })
   );
   const users = await Promise.all(userPromises);
   console.log(`Usuários criados: ${users.map(u => u.email).join(', ')}`);
 
+  // Cria um usuário de cada papel da equipe (organizador, check-in e suporte)
+  const [organizerUser, checkInStaffUser, supportUser] = await Promise.all(
+    [Role.ORGANIZER, Role.CHECKIN_STAFF, Role.SUPPORT].map((role) =>
+      prisma.user.create({
+        data: {
+          email: `${role.toLowerCase().replace('_', '-')}@teste.com`,
+          password: hashedPassword,
+          role,
+          emailVerifiedAt: new Date(),
+        },
+      })
+    )
+  );
+  console.log(`Equipe criada: ${[organizerUser, checkInStaffUser, supportUser].map(u => u.email).join(', ')}`);
+
+  // Cria o catálogo de locais e salas
+  const venue = await prisma.venue.create({
+    data: {
+      name: 'Centro de Convenções',
+      address: 'Av. Paulista, 1000 - São Paulo, SP',
+      latitude: -23.5649,
+      longitude: -46.6519,
+      accessibilityNotes: 'Rampas na entrada principal e elevadores em todos os andares.',
+      rooms: {
+        create: [
+          { name: 'Auditório Principal', capacity: 150, accessibilityNotes: 'Espaço reservado para cadeirantes na primeira fila.' },
+          { name: 'Sala 204', capacity: 80 },
+        ],
+      },
+    },
+    include: { rooms: true },
+  });
+  const auditorium = venue.rooms.find((room) => room.name === 'Auditório Principal')!;
+  console.log(`Local criado: ${venue.name} (${venue.rooms.length} salas)`);
+
+  // Cria as categorias
+  const [technology, design] = await Promise.all([
+    prisma.category.create({ data: { name: 'Tecnologia', slug: 'tecnologia', description: 'Programação, dados e infraestrutura.' } }),
+    prisma.category.create({ data: { name: 'Design', slug: 'design', description: 'UX, UI e design de produto.' } }),
+  ]);
+  console.log(`Categorias criadas: ${technology.name}, ${design.name}`);
+
   // Cria eventos
   const events = await Promise.all([
     prisma.event.create({
       data: {
         name: 'Workshop de React Avançado',
         description: 'Hooks customizados e gerenciamento de estado.',
-        eventDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        location: 'Auditório Principal, Centro de Convenções',
+        startsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        endsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000 + 3 * 60 * 60 * 1000),
+        roomId: auditorium.id,
+        location: `${auditorium.name} — ${venue.name}, ${venue.address}`,
+        latitude: venue.latitude,
+        longitude: venue.longitude,
+        categoryId: technology.id,
+        tags: ['react', 'frontend', 'javascript'],
         maxCapacity: 100,
         availableSpots: 100,
+        maxSeatsPerUser: 5,
+        status: EventStatus.PUBLISHED,
         creatorId: adminUser.id,
       },
     }),
@@ -53,10 +107,17 @@ async function main() {
       data: {
         name: 'Webinar sobre SEO com IA',
         description: 'IA aplicada em otimização para motores de busca.',
-        eventDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+        startsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+        endsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000 + 2 * 60 * 60 * 1000),
+        format: EventFormat.ONLINE,
         onlineLink: 'https://meet.google.com/seo-ai',
+        categoryId: technology.id,
+        tags: ['seo', 'ia', 'marketing'],
         maxCapacity: 500,
         availableSpots: 500,
+        onlineCapacity: 500,
+        onlineAvailableSpots: 500,
+        status: EventStatus.PUBLISHED,
         creatorId: adminUser.id,
       },
     }),
@@ -64,21 +125,50 @@ async function main() {
       data: {
         name: 'Oficina de UX Design',
         description: 'Melhores práticas de UX para apps modernos.',
-        eventDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+        startsAt: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+        endsAt: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000 + 4 * 60 * 60 * 1000),
         location: 'Sala 204, Bloco B',
+        latitude: -23.5587,
+        longitude: -46.7319,
+        categoryId: design.id,
+        tags: ['ux', 'design'],
         maxCapacity: 80,
         availableSpots: 80,
-        creatorId: adminUser.id,
+        status: EventStatus.PUBLISHED,
+        creatorId: organizerUser.id,
+        // A equipe de check-in do organizador trabalha na entrada da oficina.
+        staff: { create: { userId: checkInStaffUser.id, assignedById: organizerUser.id } },
+        // Um coorganizador que acompanha os participantes e ajuda no check-in, e um convite ainda sem resposta.
+        coOrganizers: {
+          create: [
+            {
+              userId: users[0].id,
+              invitedById: organizerUser.id,
+              permissions: [CoOrganizerPermission.VIEW_ATTENDEES, CoOrganizerPermission.CHECK_IN],
+              status: CoOrganizerStatus.ACCEPTED,
+              respondedAt: new Date(),
+            },
+            {
+              userId: users[1].id,
+              invitedById: organizerUser.id,
+              permissions: [CoOrganizerPermission.EDIT_DETAILS, CoOrganizerPermission.MESSAGE_ATTENDEES],
+            },
+          ],
+        },
       },
     }),
     prisma.event.create({
       data: {
         name: 'Bootcamp Fullstack com TypeScript',
         description: 'Backend, frontend e DevOps com TS moderno.',
-        eventDate: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000),
+        startsAt: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000),
+        endsAt: new Date(Date.now() + 26 * 24 * 60 * 60 * 1000),
         location: 'Campus Virtual - Plataforma própria',
+        categoryId: technology.id,
+        tags: ['typescript', 'fullstack', 'devops'],
         maxCapacity: 300,
         availableSpots: 300,
+        status: EventStatus.PUBLISHED,
         creatorId: adminUser.id,
       },
     }),
@@ -92,6 +182,8 @@ async function main() {
         userId: user.id,
         eventId: events[i % events.length].id,
         status: ReservationStatus.CONFIRMED,
+        attendanceMode: events[i % events.length].format === EventFormat.ONLINE ? AttendanceMode.ONLINE : AttendanceMode.IN_PERSON,
+        history: { create: { toStatus: ReservationStatus.CONFIRMED, changedById: user.id } },
       },
     })
   ));
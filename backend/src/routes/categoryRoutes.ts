@@ -0,0 +1,36 @@
+// backend/src/routes/categoryRoutes.ts
+// Este arquivo define as rotas das categorias de eventos.
+
+import { Router } from 'express';
+import {
+  listCategories,
+  getCategoryBySlug,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from '../controllers/categoryController';
+import { authenticate, requirePermission } from '../middlewares/auth';
+
+const router = Router();
+
+// Rota para listar as categorias.
+// Não requer autenticação.
+router.get('/', listCategories);
+
+// Rota para obter uma categoria pelo slug.
+// Não requer autenticação.
+router.get('/:slug', getCategoryBySlug);
+
+// Rota para cadastrar uma categoria.
+// Requer autenticação e a permissão 'category:manage' (apenas admins).
+router.post('/', authenticate, requirePermission('category:manage'), createCategory);
+
+// Rota para atualizar uma categoria.
+// Requer autenticação e a permissão 'category:manage' (apenas admins).
+router.put('/:id', authenticate, requirePermission('category:manage'), updateCategory);
+
+// Rota para remover uma categoria (os eventos ficam sem categoria).
+// Requer autenticação e a permissão 'category:manage' (apenas admins).
+router.delete('/:id', authenticate, requirePermission('category:manage'), deleteCategory);
+
+export default router;
@@ -5,35 +5,170 @@ import { Router } from 'express';
 import {
   createEvent,
   listEvents,
+  suggestEvents,
   getEventById,
   updateEvent,
   deleteEvent,
+  updateEventStatus,
+  listDeletedEvents,
+  restoreEvent,
+  createEventSeries,
+  getEventSeries,
 } from '../controllers/eventController';
-import { authenticate, authorize } from '../middlewares/auth';
-import { Role } from '@prisma/client'; // Importa o enum Role
+import { checkInTicket, getCheckInStats, getCheckInManifest, syncCheckIns } from '../controllers/checkInController';
+import { listEventSessions, createEventSession, updateEventSession, deleteEventSession } from '../controllers/sessionController';
+import { listEventStaff, addEventStaff, removeEventStaff, listCheckInEvents } from '../controllers/eventStaffController';
+import {
+  listCoOrganizers,
+  inviteCoOrganizer,
+  updateCoOrganizer,
+  removeCoOrganizer,
+  listMyCoOrganizations,
+  acceptCoOrganizerInvitation,
+  declineCoOrganizerInvitation,
+} from '../controllers/coOrganizerController';
+import { messageEventAttendees } from '../controllers/eventMessageController';
+import { authenticate, optionalAuthenticate, requirePermission } from '../middlewares/auth';
+import { eventResource, seriesResource } from '../services/permissions';
 
 const router = Router();
 
 // Rota para criar um novo evento.
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.post('/', authenticate, authorize([Role.ADMIN]), createEvent);
+// Requer autenticação e a permissão 'event:create' (organizadores e admins).
+router.post('/', authenticate, requirePermission('event:create'), createEvent);
+
+// Rota para criar uma série de eventos recorrentes (uma ocorrência por data gerada pela regra).
+// Requer autenticação e a permissão 'event:create' (organizadores e admins).
+router.post('/series', authenticate, requirePermission('event:create'), createEventSeries);
+
+// Rota para obter uma série recorrente com suas ocorrências.
+// Requer autenticação e a permissão 'event:update' sobre a série (organizadores, apenas nas próprias).
+router.get('/series/:id', authenticate, requirePermission('event:update', seriesResource()), getEventSeries);
 
 // Rota para listar todos os eventos.
-// Qualquer usuário autenticado (USER ou ADMIN) pode acessar.
 // Não requer autenticação para listagem pública (seção 1.1 dos requisitos)
-router.get('/', listEvents); // Rota pública, não precisa de autenticação para listar
+// A autenticação é opcional: administradores também veem os rascunhos, e organizadores os dos próprios eventos.
+router.get('/', optionalAuthenticate, listEvents); // Rota pública, não precisa de autenticação para listar
+
+// Rota para as sugestões da caixa de busca (eventos públicos ainda não encerrados).
+// Não requer autenticação.
+router.get('/suggest', suggestEvents);
+
+// Rota para listar os eventos na lixeira (excluídos e ainda não expurgados).
+// Requer autenticação e a permissão 'event:delete' (organizadores veem apenas os próprios eventos).
+// Declarada antes de '/:id' para não ser capturada como um ID.
+router.get('/trash', authenticate, requirePermission('event:delete'), listDeletedEvents);
+
+// Rota para listar os eventos futuros em que o usuário pode fazer check-in (todos, os próprios, os atribuídos ou os
+// coorganizados com essa permissão).
+// Requer autenticação e a permissão 'event:check-in'. Declarada antes de '/:id' para não ser capturada como um ID.
+router.get('/check-in', authenticate, requirePermission('event:check-in'), listCheckInEvents);
+
+// Rota para listar os convites de coorganização do usuário (pendentes e aceitos).
+// Requer autenticação (qualquer papel). Declarada antes de '/:id' para não ser capturada como um ID.
+router.get('/co-organizing', authenticate, listMyCoOrganizations);
+
+// Rota para aceitar um convite de coorganização.
+// Requer autenticação; apenas o convidado pode responder.
+router.post('/co-organizing/:invitationId/accept', authenticate, acceptCoOrganizerInvitation);
+
+// Rota para recusar um convite de coorganização (ou deixar de coorganizar o evento).
+// Requer autenticação; apenas o convidado pode responder.
+router.post('/co-organizing/:invitationId/decline', authenticate, declineCoOrganizerInvitation);
 
 // Rota para obter detalhes de um evento específico.
-// Qualquer usuário autenticado (USER ou ADMIN) pode acessar.
 // Não requer autenticação para detalhes públicos (seção 1.1 dos requisitos)
-router.get('/:id', getEventById); // Rota pública, não precisa de autenticação para ver detalhes
+// A autenticação é opcional: rascunhos só são exibidos para administradores e para o organizador do evento.
+router.get('/:id', optionalAuthenticate, getEventById); // Rota pública, não precisa de autenticação para ver detalhes
 
 // Rota para atualizar um evento existente.
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.put('/:id', authenticate, authorize([Role.ADMIN]), updateEvent);
+// Requer autenticação e a permissão 'event:update' sobre o evento (organizadores nos próprios, coorganizadores com a
+// delegação).
+router.put('/:id', authenticate, requirePermission('event:update', eventResource()), updateEvent);
+
+// Rota para alterar o status de um evento (publicar, cancelar, concluir, arquivar).
+// Requer autenticação e a permissão 'event:update' sobre o evento (organizadores nos próprios, coorganizadores com a
+// delegação).
+router.patch('/:id/status', authenticate, requirePermission('event:update', eventResource()), updateEventStatus);
 
 // Rota para deletar um evento.
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.delete('/:id', authenticate, authorize([Role.ADMIN]), deleteEvent);
+// Requer autenticação e a permissão 'event:delete' sobre o evento (organizadores, apenas nos próprios).
+router.delete('/:id', authenticate, requirePermission('event:delete', eventResource()), deleteEvent);
+
+// Rota para restaurar um evento da lixeira, junto com suas reservas.
+// Requer autenticação e a permissão 'event:delete' sobre o evento (organizadores, apenas nos próprios).
+router.post('/:id/restore', authenticate, requirePermission('event:delete', eventResource()), restoreEvent);
+
+// Rota para obter a agenda (sessões) de um evento.
+// A autenticação é opcional: a agenda de rascunhos só é exibida para administradores e para o organizador do evento.
+router.get('/:id/sessions', optionalAuthenticate, listEventSessions);
+
+// Rota para adicionar uma sessão à agenda do evento.
+// Requer autenticação e a permissão 'event:update' sobre o evento (organizadores nos próprios, coorganizadores com a
+// delegação).
+router.post('/:id/sessions', authenticate, requirePermission('event:update', eventResource()), createEventSession);
+
+// Rota para atualizar uma sessão da agenda do evento.
+// Requer autenticação e a permissão 'event:update' sobre o evento (organizadores nos próprios, coorganizadores com a
+// delegação).
+router.put('/:id/sessions/:sessionId', authenticate, requirePermission('event:update', eventResource()), updateEventSession);
+
+// Rota para remover uma sessão da agenda do evento.
+// Requer autenticação e a permissão 'event:update' sobre o evento (organizadores nos próprios, coorganizadores com a
+// delegação).
+router.delete('/:id/sessions/:sessionId', authenticate, requirePermission('event:update', eventResource()), deleteEventSession);
+
+// Rota para realizar o check-in de um participante pela leitura do ingresso (QR code).
+// Requer autenticação e a permissão 'event:check-in' sobre o evento (organizadores nos próprios, equipe nos atribuídos,
+// coorganizadores com a delegação).
+router.post('/:id/check-in', authenticate, requirePermission('event:check-in', eventResource()), checkInTicket);
+
+// Rota para acompanhar os contadores de check-in do evento (confirmados vs. presentes).
+// Requer autenticação e a permissão 'event:check-in' sobre o evento (organizadores nos próprios, equipe nos atribuídos,
+// coorganizadores com a delegação).
+router.get('/:id/check-in/stats', authenticate, requirePermission('event:check-in', eventResource()), getCheckInStats);
+
+// Rota para baixar a lista de ingressos do evento, usada pelo check-in offline.
+// Requer autenticação e a permissão 'event:check-in' sobre o evento (organizadores nos próprios, equipe nos atribuídos,
+// coorganizadores com a delegação).
+router.get('/:id/check-in/manifest', authenticate, requirePermission('event:check-in', eventResource()), getCheckInManifest);
+
+// Rota para sincronizar em lote os check-ins feitos offline, com resolução de conflitos.
+// Requer autenticação e a permissão 'event:check-in' sobre o evento (organizadores nos próprios, equipe nos atribuídos,
+// coorganizadores com a delegação).
+router.post('/:id/check-in/sync', authenticate, requirePermission('event:check-in', eventResource()), syncCheckIns);
+
+// Rota para listar a equipe de check-in do evento.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.get('/:id/staff', authenticate, requirePermission('event:manage-staff', eventResource()), listEventStaff);
+
+// Rota para atribuir um usuário CHECKIN_STAFF (pelo e-mail) à equipe de check-in do evento.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.post('/:id/staff', authenticate, requirePermission('event:manage-staff', eventResource()), addEventStaff);
+
+// Rota para remover um usuário da equipe de check-in do evento.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.delete('/:id/staff/:userId', authenticate, requirePermission('event:manage-staff', eventResource()), removeEventStaff);
+
+// Rota para listar os coorganizadores do evento e os convites enviados.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.get('/:id/co-organizers', authenticate, requirePermission('event:manage-staff', eventResource()), listCoOrganizers);
+
+// Rota para convidar um usuário (pelo e-mail) a coorganizar o evento, com as permissões delegadas.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.post('/:id/co-organizers', authenticate, requirePermission('event:manage-staff', eventResource()), inviteCoOrganizer);
+
+// Rota para alterar as permissões delegadas a um coorganizador.
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.patch('/:id/co-organizers/:userId', authenticate, requirePermission('event:manage-staff', eventResource()), updateCoOrganizer);
+
+// Rota para remover um coorganizador do evento (ou cancelar o convite).
+// Requer autenticação e a permissão 'event:manage-staff' sobre o evento (organizadores, apenas nos próprios).
+router.delete('/:id/co-organizers/:userId', authenticate, requirePermission('event:manage-staff', eventResource()), removeCoOrganizer);
+
+// Rota para enviar uma mensagem por e-mail aos participantes confirmados do evento.
+// Requer autenticação e a permissão 'event:message-attendees' sobre o evento (organizadores nos próprios,
+// coorganizadores com a delegação).
+router.post('/:id/messages', authenticate, requirePermission('event:message-attendees', eventResource()), messageEventAttendees);
 
 export default router;
@@ -2,13 +2,20 @@ import { Router } from 'express';
 import userRoutes from './userRoutes';
 import eventRoutes from './eventRoutes';
 import reservationRoutes from './reservationRoutes';
-import { healthCheck } from '../controllers/healthController';
+import venueRoutes from './venueRoutes';
+import categoryRoutes from './categoryRoutes';
+import { cacheMetrics, healthCheck } from '../controllers/healthController';
+import { authenticate, requirePermission } from '../middlewares/auth';
 
 const router = Router();
 
 
 router.get('/health', healthCheck);
 
+// Rota para consultar as métricas do cache de eventos.
+// Requer autenticação e a permissão 'system:monitor' (apenas admins).
+router.get('/health/cache', authenticate, requirePermission('system:monitor'), cacheMetrics);
+
 router.use('/users', userRoutes);
 
 
@@ -20,4 +27,10 @@ mas esta base é para operações diretas em reservas ou minhas reservas.
 Ex: /api/reservations/:id, /api/my-reservations */
 router.use('/reservations', reservationRoutes);
 
+// Catálogo de locais e salas usados pelos eventos.
+router.use('/venues', venueRoutes);
+
+// Categorias usadas para classificar e navegar pelos eventos.
+router.use('/categories', categoryRoutes);
+
 export default router;
@@ -5,32 +5,102 @@ import { Router } from 'express';
 import {
   createReservation,
   cancelReservation,
+  releaseReservationSeats,
   getMyReservations,
   getEventReservations,
+  getReservationHistory,
+  getReservationTicket,
+  listAllReservations,
+  updateReservationStatus,
+  bulkUpdateReservationStatus,
+  joinWaitlist,
+  leaveWaitlist,
 } from '../controllers/reservationController';
-import { authenticate, authorize } from '../middlewares/auth';
-import { Role } from '@prisma/client'; // Importa o enum Role
+import { enrollReservationInSession, leaveReservationSession } from '../controllers/sessionController';
+import { authenticate, requirePermission } from '../middlewares/auth';
+import { rateLimit } from '../middlewares/rateLimit';
+import { eventResource, reservationResource } from '../services/permissions';
 
 const router = Router();
 
+// Limite das novas reservas e entradas na lista de espera, por usuário: impede que um script esgote as vagas.
+const reservationRateLimit = rateLimit({
+  name: 'reserve',
+  windowMs: 60 * 1000,
+  max: 10,
+  keyBy: 'user',
+  message: 'Muitas tentativas de reserva. Aguarde um minuto e tente novamente.',
+});
+
 // Rota para criar uma nova reserva para um evento específico.
 // URL: /api/events/:id/reserve (o ID aqui é o eventId)
-// Requer autenticação e apenas usuários com o papel 'USER' podem acessar.
-router.post('/events/:id/reserve', authenticate, authorize([Role.USER]), createReservation);
+// Requer autenticação e a permissão 'reservation:create' (todos os papéis). Limitada a 10 por minuto por usuário.
+router.post('/events/:id/reserve', authenticate, requirePermission('reservation:create'), reservationRateLimit, createReservation);
+
+// Rota para entrar na lista de espera de um evento lotado.
+// URL: /api/reservations/events/:id/waitlist (o ID aqui é o eventId)
+// Requer autenticação e a permissão 'reservation:create' (todos os papéis). Compartilha o limite das reservas.
+router.post('/events/:id/waitlist', authenticate, requirePermission('reservation:create'), reservationRateLimit, joinWaitlist);
+
+// Rota para sair da lista de espera.
+// URL: /api/reservations/waitlist/:id (o ID aqui é o ID da entrada na fila)
+// Requer autenticação. Usuários removem a própria entrada; com 'reservation:update', as entradas dos eventos no seu escopo.
+router.delete('/waitlist/:id', authenticate, leaveWaitlist);
 
 // Rota para cancelar uma reserva específica.
 // URL: /api/reservations/:id (o ID aqui é o reservationId)
-// Requer autenticação. Usuários podem cancelar suas próprias reservas. Admins podem cancelar qualquer reserva.
+// Requer autenticação. Usuários cancelam as próprias reservas; com 'reservation:update', as dos eventos no seu escopo.
 router.delete('/:id', authenticate, cancelReservation);
 
+// Rota para liberar parte dos assentos de uma reserva em grupo.
+// URL: /api/reservations/:id/release (o ID aqui é o reservationId)
+// Requer autenticação. Usuários liberam assentos das próprias reservas; com 'reservation:update', das reservas dos eventos no seu escopo.
+router.post('/:id/release', authenticate, releaseReservationSeats);
+
+// Rota para escolher uma sessão da agenda do evento com uma reserva ativa (sem conflito de horário).
+// URL: /api/reservations/:id/sessions (o ID aqui é o reservationId)
+// Requer autenticação. Usuários alteram as próprias reservas; com 'reservation:update', as dos eventos no seu escopo.
+router.post('/:id/sessions', authenticate, enrollReservationInSession);
+
+// Rota para remover uma sessão da agenda de uma reserva.
+// URL: /api/reservations/:id/sessions/:sessionId
+// Requer autenticação. Usuários alteram as próprias reservas; com 'reservation:update', as dos eventos no seu escopo.
+router.delete('/:id/sessions/:sessionId', authenticate, leaveReservationSession);
+
 // Rota para listar todas as reservas do usuário autenticado.
 // URL: /api/my-reservations
-// Requer autenticação e apenas usuários com o papel 'USER' podem acessar.
-router.get('/my-reservations', authenticate, authorize([Role.USER]), getMyReservations);
+// Requer autenticação (qualquer ROLE).
+router.get('/my-reservations', authenticate, getMyReservations);
+
+// Rota para obter o ingresso (QR code) de uma reserva confirmada.
+// URL: /api/reservations/:id/ticket (o ID aqui é o reservationId). Use ?format=json para receber código e SVG em JSON.
+// Requer autenticação. Usuários veem o ingresso das próprias reservas; com 'reservation:read', das reservas dos eventos no seu escopo.
+router.get('/:id/ticket', authenticate, getReservationTicket);
+
+// Rota para consultar o histórico de status de uma reserva.
+// URL: /api/reservations/:id/history (o ID aqui é o reservationId)
+// Requer autenticação. Usuários veem o histórico das próprias reservas; com 'reservation:read', das reservas dos eventos no seu escopo.
+router.get('/:id/history', authenticate, getReservationHistory);
 
 // Rota para listar todas as reservas de um evento específico.
 // URL: /api/events/:id/reservations (o ID aqui é o eventId)
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.get('/events/:id/reservations', authenticate, authorize([Role.ADMIN]), getEventReservations);
+// Requer autenticação e a permissão 'reservation:read' sobre o evento (suporte e admins em todos, organizadores nos próprios,
+// coorganizadores com a delegação).
+router.get('/events/:id/reservations', authenticate, requirePermission('reservation:read', eventResource()), getEventReservations);
+
+// Rota para listar todas as reservas do sistema (filtros opcionais: status, eventId).
+// URL: /api/reservations
+// Requer autenticação e a permissão 'reservation:read' (organizadores e coorganizadores veem apenas as reservas dos seus eventos).
+router.get('/', authenticate, requirePermission('reservation:read'), listAllReservations);
+
+// Rota para alterar o status de várias reservas de uma vez (ex: cancelamento em massa).
+// URL: /api/reservations/status
+// Requer autenticação e a permissão 'reservation:update' (organizadores alteram apenas as reservas dos próprios eventos).
+router.patch('/status', authenticate, requirePermission('reservation:update'), bulkUpdateReservationStatus);
+
+// Rota para alterar o status de uma reserva (ex: reativar uma reserva cancelada).
+// URL: /api/reservations/:id/status (o ID aqui é o reservationId)
+// Requer autenticação e a permissão 'reservation:update' sobre o evento da reserva (organizadores, apenas nos próprios).
+router.patch('/:id/status', authenticate, requirePermission('reservation:update', reservationResource()), updateReservationStatus);
 
 export default router;
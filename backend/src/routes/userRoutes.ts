@@ -9,38 +9,152 @@ import {
   updateUserProfile,
   deleteUser,
   listUsers,
+  listDeletedUsers,
+  restoreUser,
+  refreshTokens,
+  logoutUser,
+  listMySessions,
+  revokeMySession,
+  revokeOtherSessions,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  listLockedUsers,
+  unlockUser,
+  loginTwoFactor,
+  setupLoginTwoFactor,
+  getMyTwoFactor,
+  setupMyTwoFactor,
+  enableMyTwoFactor,
+  regenerateMyRecoveryCodes,
+  disableMyTwoFactor,
 } from '../controllers/userController';
-import { authenticate, authorize } from '../middlewares/auth';
-import { Role } from '@prisma/client'; // Importa o enum Role
+import { authenticate, requirePermission } from '../middlewares/auth';
+import { rateLimit } from '../middlewares/rateLimit';
 
 const router = Router();
 
+const MINUTE_MS = 60 * 1000;
+
 // Rota pública para registro de novo usuário.
-// Qualquer um pode acessar.
-router.post('/register', registerUser);
+// Qualquer um pode acessar. Limitada a 10 cadastros por hora por IP.
+router.post('/register', rateLimit({ name: 'register', windowMs: 60 * MINUTE_MS, max: 10 }), registerUser);
 
 // Rota pública para login de usuário.
+// Qualquer um pode acessar. Além do limite por IP, senhas erradas seguidas bloqueiam a conta e o IP (services/loginLockout.ts).
+router.post('/login', rateLimit({ name: 'login', windowMs: 15 * MINUTE_MS, max: 50 }), loginUser);
+
+// Rota pública para a segunda etapa do login (código TOTP ou de recuperação), com o token de desafio do login.
+// Não requer autenticação: a sessão só é aberta aqui. Códigos errados contam para o bloqueio de login.
+router.post('/login/2fa', rateLimit({ name: 'login-2fa', windowMs: 15 * MINUTE_MS, max: 50 }), loginTwoFactor);
+
+// Rota pública para configurar a verificação em duas etapas durante o login (administradores sem ela ativa).
+// Não requer autenticação: exige o token de desafio do login.
+router.post('/login/2fa/setup', rateLimit({ name: 'login-2fa-setup', windowMs: 15 * MINUTE_MS, max: 10 }), setupLoginTwoFactor);
+
+// Rota pública para renovar o token de acesso com o refresh token (que também é trocado).
+// Não requer autenticação: o token de acesso pode já ter expirado.
+router.post('/refresh', rateLimit({ name: 'refresh', windowMs: MINUTE_MS, max: 60 }), refreshTokens);
+
+// Rota pública para encerrar a sessão do refresh token informado.
+// Não requer autenticação: o token de acesso pode já ter expirado.
+router.post('/logout', logoutUser);
+
+// Rota pública para confirmar o e-mail com o token recebido por e-mail.
+// Não requer autenticação: o link pode ser aberto em outro dispositivo.
+router.post('/verify-email', rateLimit({ name: 'verify-email', windowMs: 15 * MINUTE_MS, max: 20 }), verifyEmail);
+
+// Rota para reenviar o link de confirmação de e-mail.
+// Requer autenticação (qualquer ROLE).
+// Limitada a 3 envios a cada 15 minutos por usuário.
+router.post(
+  '/verify-email/resend',
+  authenticate,
+  rateLimit({ name: 'verify-email-resend', windowMs: 15 * MINUTE_MS, max: 3, keyBy: 'user' }),
+  resendVerificationEmail
+);
+
+// Rota pública para pedir o link de redefinição de senha.
+// Qualquer um pode acessar. Limitada a 5 pedidos a cada 15 minutos por IP.
+router.post('/forgot-password', rateLimit({ name: 'forgot-password', windowMs: 15 * MINUTE_MS, max: 5 }), forgotPassword);
+
+// Rota pública para redefinir a senha com o token recebido por e-mail.
 // Qualquer um pode acessar.
-router.post('/login', loginUser);
+router.post('/reset-password', rateLimit({ name: 'reset-password', windowMs: 15 * MINUTE_MS, max: 20 }), resetPassword);
 
 // Rota para obter o perfil do usuário logado.
 // Requer autenticação (qualquer ROLE pode acessar seu próprio perfil).
 // Se um ID for fornecido nos parâmetros (ex: /api/users/:id),
-// apenas ADMINs podem ver perfis de outros usuários.
+// apenas quem tem a permissão 'user:read' (suporte e admins) pode ver perfis de outros usuários.
 router.get('/me', authenticate, getUserProfile); // CORREÇÃO: Rota específica para o próprio perfil
-router.get('/:id', authenticate, authorize([Role.ADMIN]), getUserProfile); // Rota para ADMIN ver outros perfis
+
+// Rota para listar as sessões ativas (dispositivos conectados) do usuário logado.
+// Requer autenticação (qualquer ROLE).
+router.get('/me/sessions', authenticate, listMySessions);
+
+// Rota para encerrar todas as sessões do usuário logado, exceto a atual.
+// Requer autenticação (qualquer ROLE).
+router.delete('/me/sessions', authenticate, revokeOtherSessions);
+
+// Rota para encerrar uma sessão do usuário logado.
+// Requer autenticação (qualquer ROLE).
+router.delete('/me/sessions/:id', authenticate, revokeMySession);
+
+// Limite das rotas que conferem códigos da verificação em duas etapas, por usuário.
+const twoFactorRateLimit = rateLimit({ name: 'two-factor', windowMs: 15 * MINUTE_MS, max: 20, keyBy: 'user' });
+
+// Rota para consultar a verificação em duas etapas do usuário logado.
+// Requer autenticação (qualquer ROLE).
+router.get('/me/2fa', authenticate, getMyTwoFactor);
+
+// Rota para iniciar a ativação da verificação em duas etapas (gera o QR code).
+// Requer autenticação (qualquer ROLE).
+router.post('/me/2fa/setup', authenticate, twoFactorRateLimit, setupMyTwoFactor);
+
+// Rota para concluir a ativação com um código do aplicativo autenticador.
+// Requer autenticação (qualquer ROLE).
+router.post('/me/2fa/enable', authenticate, twoFactorRateLimit, enableMyTwoFactor);
+
+// Rota para gerar novos códigos de recuperação.
+// Requer autenticação (qualquer ROLE).
+router.post('/me/2fa/recovery-codes', authenticate, twoFactorRateLimit, regenerateMyRecoveryCodes);
+
+// Rota para desativar a verificação em duas etapas.
+// Requer autenticação; administradores não podem desativá-la.
+router.post('/me/2fa/disable', authenticate, twoFactorRateLimit, disableMyTwoFactor);
+
+// Rota para listar os usuários na lixeira (excluídos e ainda não expurgados).
+// Requer autenticação e a permissão 'user:delete' (apenas admins).
+// Declarada antes de '/:id' para não ser capturada como um ID.
+router.get('/trash', authenticate, requirePermission('user:delete'), listDeletedUsers);
+
+// Rota para listar as contas bloqueadas no momento por excesso de tentativas de login.
+// Requer autenticação e a permissão 'user:read' (suporte e admins).
+// Declarada antes de '/:id' para não ser capturada como um ID.
+router.get('/locked', authenticate, requirePermission('user:read'), listLockedUsers);
+
+router.get('/:id', authenticate, requirePermission('user:read'), getUserProfile); // Rota para suporte e admins verem outros perfis
 
 // Rota para atualizar o perfil de um usuário.
-// Usuário comum: pode atualizar seu próprio perfil.
-// Admin: pode atualizar qualquer perfil, incluindo o papel.
+// Qualquer usuário: pode atualizar seu próprio perfil.
+// Com a permissão 'user:update' (admins): pode atualizar qualquer perfil, incluindo o papel.
 router.put('/:id', authenticate, updateUserProfile);
 
 // Rota para deletar um usuário.
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.delete('/:id', authenticate, authorize([Role.ADMIN]), deleteUser);
+// Requer autenticação e a permissão 'user:delete' (apenas admins).
+router.delete('/:id', authenticate, requirePermission('user:delete'), deleteUser);
+
+// Rota para restaurar um usuário da lixeira.
+// Requer autenticação e a permissão 'user:delete' (apenas admins).
+router.post('/:id/restore', authenticate, requirePermission('user:delete'), restoreUser);
+
+// Rota para desbloquear uma conta bloqueada por excesso de tentativas de login.
+// Requer autenticação e a permissão 'user:update' (apenas admins).
+router.post('/:id/unlock', authenticate, requirePermission('user:update'), unlockUser);
 
 // Rota para listar todos os usuários.
-// Requer autenticação e apenas usuários com o papel 'ADMIN' podem acessar.
-router.get('/', authenticate, authorize([Role.ADMIN]), listUsers);
+// Requer autenticação e a permissão 'user:read' (suporte e admins).
+router.get('/', authenticate, requirePermission('user:read'), listUsers);
 
 export default router;
@@ -0,0 +1,51 @@
+// backend/src/routes/venueRoutes.ts
+// Este arquivo define as rotas do catálogo de locais e salas.
+
+import { Router } from 'express';
+import {
+  listVenues,
+  getVenueById,
+  createVenue,
+  updateVenue,
+  deleteVenue,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+} from '../controllers/venueController';
+import { authenticate, requirePermission } from '../middlewares/auth';
+
+const router = Router();
+
+// Rota para listar os locais com as suas salas.
+// Não requer autenticação.
+router.get('/', listVenues);
+
+// Rota para obter um local com as suas salas.
+// Não requer autenticação.
+router.get('/:id', getVenueById);
+
+// Rota para cadastrar um local.
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.post('/', authenticate, requirePermission('venue:manage'), createVenue);
+
+// Rota para atualizar um local.
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.put('/:id', authenticate, requirePermission('venue:manage'), updateVenue);
+
+// Rota para remover um local (e as suas salas).
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.delete('/:id', authenticate, requirePermission('venue:manage'), deleteVenue);
+
+// Rota para adicionar uma sala a um local.
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.post('/:id/rooms', authenticate, requirePermission('venue:manage'), createRoom);
+
+// Rota para atualizar uma sala.
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.put('/:id/rooms/:roomId', authenticate, requirePermission('venue:manage'), updateRoom);
+
+// Rota para remover uma sala.
+// Requer autenticação e a permissão 'venue:manage' (apenas admins).
+router.delete('/:id/rooms/:roomId', authenticate, requirePermission('venue:manage'), deleteRoom);
+
+export default router;
@@ -2,14 +2,17 @@ import express from 'express';
 import dotenv from 'dotenv';
 import cors from 'cors';
 import { prisma } from './services/prisma';
-import { redisClient } from './config/redis';
+import { getCacheBackend } from './services/cacheBackend';
+import { getRateLimitStore } from './services/rateLimitStore';
 import apiRoutes from './routes';
 import { errorHandler } from './middlewares/errorHandler';
+import { startScheduler, stopScheduler } from './services/scheduler';
 
 dotenv.config();
 
 const port = process.env.PORT;
 const origin = process.env.FRONTEND_URL;
+const trustProxy = process.env.TRUST_PROXY;
 
 if (!port) {
   console.error('PORT não definida no .env');
@@ -18,8 +21,19 @@ if (!port) {
 
 const app = express();
 
+// Atrás de um proxy reverso (ex: Heroku), `req.ip` só é o IP do cliente se o proxy for confiável; sem isso, os limites
+// por IP contariam todas as requisições como vindas do proxy. Aceita a quantidade de proxies ou os seus endereços.
+if (trustProxy) {
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Middlewares
-app.use(cors({ origin, credentials: true }));
+// Os cabeçalhos dos limites de requisições ficam visíveis para o frontend.
+app.use(cors({
+  origin,
+  credentials: true,
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
+}));
 app.use(express.json());
 
 // Rotas
@@ -31,13 +45,18 @@ app.use(errorHandler);
 // Inicialização
 async function startServer() {
   try {
-    console.log('Conectando ao Redis...');
-    await redisClient.connect();
-    console.log('Redis conectado!');
+    // O cache não é obrigatório: enquanto o Redis não conecta, as consultas vão direto ao banco de dados.
+    console.log(`Cache: ${getCacheBackend().driver}`);
+    getCacheBackend().connect();
+    console.log(`Limites de requisições: ${getRateLimitStore().driver}`);
+    getRateLimitStore().connect();
 
     app.listen(port, () => {
       console.log(`Servidor rodando na porta ${port}`);
     });
+
+    // Tarefas periódicas (publicação agendada de eventos e expurgo da lixeira).
+    startScheduler();
   } catch (err) {
     console.error('Erro crítico ao iniciar o servidor:', err);
     await gracefulShutdown();
@@ -48,8 +67,10 @@ async function startServer() {
 // Encerramento seguro
 async function gracefulShutdown() {
   console.log('Encerrando serviços...');
+  stopScheduler();
   await prisma.$disconnect();
-  await redisClient.quit();
+  await getCacheBackend().disconnect();
+  await getRateLimitStore().disconnect();
   console.log('Serviços encerrados.');
 }
 
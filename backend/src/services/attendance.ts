@@ -0,0 +1,162 @@
+// backend/src/services/attendance.ts
+// Formatos de evento (presencial, online, híbrido) e modalidades de participação das reservas.
+// `maxCapacity`/`availableSpots` do evento são totais; `onlineCapacity`/`onlineAvailableSpots` são a parte online
+// e a parte presencial é a diferença entre os dois. Toda movimentação de assentos deve usar `seatsUpdate`,
+// para que os dois contadores andem juntos.
+
+import { AttendanceMode, EventFormat, Prisma, ReservationStatus, Role } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+import { canAccessEvent } from './permissions';
+
+// Rótulos (no plural, para mensagens sobre vagas) de cada modalidade.
+export const ATTENDANCE_MODE_LABELS: Record<AttendanceMode, string> = {
+  [AttendanceMode.IN_PERSON]: 'presenciais',
+  [AttendanceMode.ONLINE]: 'online',
+};
+
+// Status de reserva que dão acesso ao link online do evento.
+export const ONLINE_LINK_STATUSES: ReservationStatus[] = [ReservationStatus.CONFIRMED, ReservationStatus.ATTENDED];
+
+const hasValue = (value: string | null | undefined): boolean => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Deduz o formato de um evento a partir do local informado (para clientes que não enviam `format`).
+ */
+export const inferEventFormat = (location?: string | null, onlineLink?: string | null): EventFormat => {
+  if (hasValue(location) && hasValue(onlineLink)) return EventFormat.HYBRID;
+  if (hasValue(onlineLink)) return EventFormat.ONLINE;
+  return EventFormat.IN_PERSON;
+};
+
+/**
+ * Verifica se o local do evento corresponde ao formato.
+ * @returns A mensagem de erro, ou null se o local for válido.
+ */
+export const getEventPlaceError = (format: EventFormat, location?: string | null, onlineLink?: string | null): string | null => {
+  const hasLocation = hasValue(location);
+  const hasOnlineLink = hasValue(onlineLink);
+
+  switch (format) {
+    case EventFormat.IN_PERSON:
+      if (!hasLocation) return 'Eventos presenciais precisam de uma localização.';
+      if (hasOnlineLink) return 'Eventos presenciais não podem ter link online. Use o formato híbrido.';
+      return null;
+    case EventFormat.ONLINE:
+      if (!hasOnlineLink) return 'Eventos online precisam de um link online.';
+      if (hasLocation) return 'Eventos online não podem ter localização. Use o formato híbrido.';
+      return null;
+    case EventFormat.HYBRID:
+      if (!hasLocation || !hasOnlineLink) return 'Eventos híbridos precisam de uma localização e de um link online.';
+      return null;
+  }
+};
+
+/**
+ * Calcula a parte online da capacidade total de acordo com o formato.
+ * Eventos presenciais não têm vagas online e eventos online só têm vagas online; nesses formatos,
+ * `onlineCapacity` é ignorado. Eventos híbridos precisam informá-lo, deixando vagas presenciais.
+ */
+export const resolveOnlineCapacity = (
+  format: EventFormat,
+  maxCapacity: number,
+  onlineCapacity?: number | null
+): { onlineCapacity: number } | { error: string } => {
+  if (format === EventFormat.IN_PERSON) return { onlineCapacity: 0 };
+  if (format === EventFormat.ONLINE) return { onlineCapacity: maxCapacity };
+
+  if (onlineCapacity === undefined || onlineCapacity === null) {
+    return { error: 'Informe a capacidade online do evento híbrido.' };
+  }
+  if (onlineCapacity >= maxCapacity) {
+    return { error: 'A capacidade online deve ser menor que a capacidade total, deixando vagas presenciais.' };
+  }
+  return { onlineCapacity };
+};
+
+/**
+ * Define a modalidade de uma reserva (ou entrada na lista de espera) de acordo com o formato do evento.
+ * Em eventos presenciais ou online a modalidade é implícita; em eventos híbridos precisa ser escolhida.
+ */
+export const resolveAttendanceMode = (format: EventFormat, requested?: AttendanceMode): AttendanceMode => {
+  if (format === EventFormat.IN_PERSON) {
+    if (requested === AttendanceMode.ONLINE) {
+      throw new Error('Este evento é apenas presencial.');
+    }
+    return AttendanceMode.IN_PERSON;
+  }
+
+  if (format === EventFormat.ONLINE) {
+    if (requested === AttendanceMode.IN_PERSON) {
+      throw new Error('Este evento é apenas online.');
+    }
+    return AttendanceMode.ONLINE;
+  }
+
+  if (!requested) {
+    throw new Error('Escolha a modalidade de participação: presencial ou online.');
+  }
+  return requested;
+};
+
+/**
+ * Vagas disponíveis de um evento na modalidade informada.
+ */
+export const getModeAvailableSpots = (
+  event: { availableSpots: number; onlineAvailableSpots: number },
+  mode: AttendanceMode
+): number => {
+  return mode === AttendanceMode.ONLINE ? event.onlineAvailableSpots : event.availableSpots - event.onlineAvailableSpots;
+};
+
+/**
+ * Trava a linha do evento até o fim da transação. Deve ser chamada antes de ler as vagas que serão ocupadas, para que
+ * ocupações simultâneas (reservas, reativações e promoções da lista de espera) sejam verificadas uma a uma e nunca
+ * deixem as vagas negativas.
+ * @param tx Cliente de transação do Prisma.
+ * @param eventId ID do evento.
+ */
+export const lockEventSeats = async (tx: AppTransactionClient, eventId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT 1 FROM "Event" WHERE "id" = ${eventId} FOR UPDATE`;
+};
+
+/**
+ * Monta a atualização dos contadores de vagas do evento ao ocupar (`decrement`) ou devolver (`increment`) assentos.
+ * Antes de ocupar assentos, a linha do evento deve estar travada com `lockEventSeats`.
+ */
+export const seatsUpdate = (mode: AttendanceMode, operation: 'increment' | 'decrement', seats: number): Prisma.EventUpdateInput => {
+  const data: Prisma.EventUpdateInput = { availableSpots: { [operation]: seats } };
+  if (mode === AttendanceMode.ONLINE) {
+    data.onlineAvailableSpots = { [operation]: seats };
+  }
+  return data;
+};
+
+/**
+ * Indica se quem consulta pode ver o link online do evento: quem vê os rascunhos do evento (administradores e o
+ * organizador) e usuários com reserva online confirmada.
+ */
+export const canAccessOnlineLink = async (
+  client: AppTransactionClient,
+  eventId: string,
+  requester: { userId?: string; role?: Role }
+): Promise<boolean> => {
+  if (!requester.userId) return false;
+  if (await canAccessEvent(requester, 'event:view-drafts', eventId, client)) return true;
+
+  const reservation = await client.reservation.findFirst({
+    where: { eventId, userId: requester.userId, attendanceMode: AttendanceMode.ONLINE, status: { in: ONLINE_LINK_STATUSES } },
+    select: { id: true },
+  });
+  return reservation !== null;
+};
+
+/**
+ * Remove o link online do evento (e das sessões da agenda, quando presentes) para quem não tem acesso a ele.
+ */
+export const hideOnlineLinks = <T extends { onlineLink: string | null; sessions?: { onlineLink: string | null }[] }>(event: T): T => {
+  return {
+    ...event,
+    onlineLink: null,
+    ...(event.sessions ? { sessions: event.sessions.map((session) => ({ ...session, onlineLink: null })) } : {}),
+  };
+};
@@ -0,0 +1,207 @@
+// backend/src/services/cache.ts
+// Camada de cache das consultas de leitura mais frequentes (listagem e detalhes de eventos), guardada no Redis ou em
+// memória (services/cacheBackend.ts).
+// - Chaves derivadas dos parâmetros normalizados da consulta: a mesma consulta, escrita de outra forma, usa a mesma entrada.
+// - Invalidação por tags: cada entrada é registrada nas tags informadas (ex: "event:<id>" para cada evento que ela contém),
+//   e invalidar uma tag remove todas as entradas registradas nela. Um valor carregado enquanto alguma das suas tags era
+//   invalidada (em qualquer instância que compartilhe o armazenamento) não é gravado.
+// - Coalescência: falhas simultâneas da mesma chave no mesmo processo compartilham uma única consulta ao banco.
+// - Métricas de acertos e falhas por namespace, expostas em GET /api/health/cache.
+// - Degradação: erros do armazenamento (ex: Redis fora do ar) nunca chegam à requisição; a leitura conta como falha
+//   e a consulta vai ao banco de dados.
+
+import { createHash } from 'crypto';
+import { getCacheBackend } from './cacheBackend';
+
+const KEY_PREFIX = 'cache:';
+
+// Intervalo mínimo entre os registros de erro do armazenamento no log, que sem ele se repetiriam a cada requisição.
+const ERROR_LOG_INTERVAL_MS = 60_000;
+
+export interface CacheOptions<T> {
+  namespace: string;
+  // Parâmetros que identificam a entrada (normalmente a consulta já validada).
+  params?: Record<string, unknown>;
+  ttlSeconds: number;
+  // Tags da entrada, calculadas a partir do valor (ex: os IDs dos eventos de uma página).
+  tags?: (value: T) => string[];
+}
+
+interface NamespaceMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+}
+
+const metrics = new Map<string, NamespaceMetrics>();
+let invalidatedKeys = 0;
+let invalidationErrors = 0;
+const metricsSince = new Date();
+let lastErrorLoggedAt = 0;
+
+// Consultas em andamento por chave, compartilhadas pelas requisições que chegam enquanto a primeira carrega.
+const inFlight = new Map<string, Promise<unknown>>();
+
+const recordMetric = (namespace: string, metric: keyof NamespaceMetrics, count = 1) => {
+  const current = metrics.get(namespace) ?? { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+  current[metric] += count;
+  metrics.set(namespace, current);
+};
+
+// Executa uma operação no armazenamento; em caso de erro, registra-o (no namespace, ou como erro de invalidação)
+// e retorna `fallback`.
+const attempt = async <T>(namespace: string | null, operation: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    if (namespace) {
+      recordMetric(namespace, 'errors');
+    } else {
+      invalidationErrors++;
+    }
+    if (Date.now() - lastErrorLoggedAt >= ERROR_LOG_INTERVAL_MS) {
+      lastErrorLoggedAt = Date.now();
+      console.error(`Cache indisponível (${getCacheBackend().driver}); consultando o banco de dados:`, error);
+    }
+    return fallback;
+  }
+};
+
+// Forma canônica dos parâmetros: sem valores vazios, com as chaves em ordem e listas de valores simples ordenadas.
+const normalizeParams = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeParams);
+    return items.every((item) => typeof item !== 'object') ? [...items].sort() : items;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined && item !== null && item !== '')
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, item]) => [key, normalizeParams(item)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Chave de uma entrada: o namespace e um hash dos parâmetros normalizados, ex: "cache:events:list:3f2a9c0d1b7e4a55".
+ */
+export const buildCacheKey = (namespace: string, params: Record<string, unknown> = {}): string => {
+  const hash = createHash('sha1').update(JSON.stringify(normalizeParams(params))).digest('hex').slice(0, 16);
+  return `${KEY_PREFIX}${namespace}:${hash}`;
+};
+
+// Versão das invalidações antes de uma carga, ou null se o armazenamento estiver indisponível (e nada será gravado).
+const readVersion = (namespace: string) => attempt<number | null>(namespace, () => getCacheBackend().getVersion(), null);
+
+// Grava a entrada e a registra nas suas tags, a menos que alguma delas tenha sido invalidada depois de `since`.
+const store = (namespace: string, key: string, value: unknown, ttlSeconds: number, tags: string[], since: number | null) =>
+  since === null
+    ? Promise.resolve(false)
+    : attempt(namespace, () => getCacheBackend().set(key, JSON.stringify(value), ttlSeconds, tags, since), false);
+
+/**
+ * Retorna o valor em cache ou o carrega com `loader`, gravando-o com a validade e as tags informadas.
+ * O valor volta do cache como JSON: datas chegam como strings, o que basta para valores que serão enviados na resposta.
+ */
+export const cached = async <T>(options: CacheOptions<T>, loader: () => Promise<T>): Promise<T> => {
+  const key = buildCacheKey(options.namespace, options.params);
+
+  const [hit] = await attempt(options.namespace, () => getCacheBackend().getMany([key]), [null]);
+  if (hit !== null) {
+    recordMetric(options.namespace, 'hits');
+    return JSON.parse(hit) as T;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    recordMetric(options.namespace, 'coalesced');
+    return pending as Promise<T>;
+  }
+
+  recordMetric(options.namespace, 'misses');
+  const load = (async () => {
+    const since = await readVersion(options.namespace);
+    const value = await loader();
+    await store(options.namespace, key, value, options.ttlSeconds, options.tags ? options.tags(value) : [], since);
+    return value;
+  })();
+
+  inFlight.set(key, load);
+  try {
+    return await load;
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+/**
+ * Versão em lote de `cached` para valores identificados por ID (uma entrada por ID, lidas numa única operação).
+ * `loader` recebe apenas os IDs ausentes do cache.
+ */
+export const cachedMany = async <T>(
+  options: Omit<CacheOptions<T>, 'params' | 'tags'> & { tags?: (id: string) => string[] },
+  ids: string[],
+  loader: (missingIds: string[]) => Promise<Map<string, T>>
+): Promise<Map<string, T>> => {
+  const uniqueIds = [...new Set(ids)];
+  if (uniqueIds.length === 0) {
+    return new Map();
+  }
+
+  const keys = uniqueIds.map((id) => buildCacheKey(options.namespace, { id }));
+  const hits = await attempt(options.namespace, () => getCacheBackend().getMany(keys), keys.map(() => null));
+  const values = new Map<string, T>();
+  const missingIds: string[] = [];
+  uniqueIds.forEach((id, index) => {
+    const hit = hits[index];
+    if (hit !== null) {
+      values.set(id, JSON.parse(hit) as T);
+    } else {
+      missingIds.push(id);
+    }
+  });
+
+  recordMetric(options.namespace, 'hits', values.size);
+  recordMetric(options.namespace, 'misses', missingIds.length);
+  if (missingIds.length === 0) {
+    return values;
+  }
+
+  const since = await readVersion(options.namespace);
+  const loaded = await loader(missingIds);
+  for (const [id, value] of loaded) {
+    values.set(id, value);
+    await store(options.namespace, buildCacheKey(options.namespace, { id }), value, options.ttlSeconds, options.tags ? options.tags(id) : [], since);
+  }
+  return values;
+};
+
+/**
+ * Remove todas as entradas registradas nas tags informadas.
+ * Se o armazenamento estiver indisponível, as entradas continuam lá até expirarem.
+ */
+export const invalidateCacheTags = async (tags: string[]): Promise<void> => {
+  if (tags.length === 0) {
+    return;
+  }
+  invalidatedKeys += await attempt(null, () => getCacheBackend().invalidateTags(tags), 0);
+};
+
+/**
+ * Acertos, falhas, consultas coalescidas e erros do armazenamento por namespace desde o início do processo.
+ */
+export const getCacheMetrics = () => {
+  const namespaces = Object.fromEntries(
+    [...metrics.entries()].map(([namespace, { hits, misses, coalesced, errors }]) => {
+      const lookups = hits + misses + coalesced;
+      return [namespace, { hits, misses, coalesced, errors, hitRate: lookups > 0 ? hits / lookups : null }];
+    })
+  );
+  return { driver: getCacheBackend().driver, since: metricsSince.toISOString(), namespaces, invalidatedKeys, invalidationErrors };
+};
@@ -0,0 +1,252 @@
+// backend/src/services/cacheBackend.ts
+// Armazenamento usado pela camada de cache (services/cache.ts). O backend é plugável: `CACHE_DRIVER=redis` guarda as
+// entradas no Redis, compartilhadas entre as instâncias do servidor; `memory` guarda em memória, no próprio processo,
+// descartando as entradas menos usadas quando o limite é atingido. Sem CACHE_DRIVER, usa o Redis se REDIS_URL
+// estiver definida e a memória caso contrário.
+// O cache não é obrigatório: se o Redis estiver fora do ar, as operações falham e as consultas vão ao banco de dados.
+
+import dotenv from 'dotenv';
+import { connectRedis, disconnectRedis, redisClient } from '../config/redis';
+
+dotenv.config();
+
+export type CacheDriver = 'redis' | 'memory';
+
+export interface CacheBackend {
+  readonly driver: CacheDriver;
+  /**
+   * @returns Os valores das chaves, na mesma ordem, com null para as ausentes ou expiradas.
+   */
+  getMany(keys: string[]): Promise<(string | null)[]>;
+  /**
+   * Versão atual das invalidações, que cresce a cada `invalidateTags`.
+   */
+  getVersion(): Promise<number>;
+  /**
+   * Grava a entrada com a validade informada e a registra nas suas tags, desde que nenhuma das tags tenha sido
+   * invalidada depois da versão `since` (lida antes de carregar o valor). A verificação e a gravação são atômicas.
+   * @returns Se a entrada foi gravada.
+   */
+  set(key: string, value: string, ttlSeconds: number, tags: string[], since: number): Promise<boolean>;
+  /**
+   * Remove as entradas registradas nas tags e marca as tags com uma nova versão.
+   * @returns A quantidade de entradas removidas.
+   */
+  invalidateTags(tags: string[]): Promise<number>;
+  /**
+   * Falha se o armazenamento não estiver disponível.
+   */
+  ping(): Promise<void>;
+  // Inicia a conexão sem aguardá-la: o servidor sobe mesmo sem o armazenamento.
+  connect(): void;
+  disconnect(): Promise<void>;
+}
+
+const TAG_PREFIX = 'cache:tag:';
+// Versão da última invalidação de cada tag e contador global de versões.
+const TAG_VERSION_PREFIX = 'cache:tag-version:';
+const VERSION_KEY = 'cache:version';
+
+// Validade dos conjuntos de chaves de cada tag no Redis; precisa ser maior que a validade de qualquer entrada.
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+// Gravação condicional no Redis. KEYS: a entrada, as versões das N tags e os conjuntos das N tags;
+// ARGV: since, valor, validade, N e validade dos conjuntos.
+const CONDITIONAL_SET_SCRIPT = `
+local count = tonumber(ARGV[4])
+for i = 1, count do
+  local version = redis.call('GET', KEYS[1 + i])
+  if version and tonumber(version) > tonumber(ARGV[1]) then
+    return 0
+  end
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+for i = 1, count do
+  redis.call('SADD', KEYS[1 + count + i], KEYS[1])
+  redis.call('EXPIRE', KEYS[1 + count + i], ARGV[5])
+end
+return 1`;
+
+/**
+ * Backend no Redis: cada tag é um conjunto com as chaves das entradas registradas nela. As versões das tags também
+ * ficam no Redis, para que uma invalidação feita em uma instância impeça as demais de gravar valores desatualizados.
+ */
+export const createRedisCacheBackend = (client: typeof redisClient = redisClient): CacheBackend => ({
+  driver: 'redis',
+
+  getMany: (keys) => client.mGet(keys),
+
+  async getVersion() {
+    return Number(await client.get(VERSION_KEY) ?? 0);
+  },
+
+  async set(key, value, ttlSeconds, tags, since) {
+    const uniqueTags = [...new Set(tags)];
+    const stored = await client.eval(CONDITIONAL_SET_SCRIPT, {
+      keys: [
+        key,
+        ...uniqueTags.map((tag) => `${TAG_VERSION_PREFIX}${tag}`),
+        ...uniqueTags.map((tag) => `${TAG_PREFIX}${tag}`),
+      ],
+      arguments: [String(since), value, String(ttlSeconds), String(uniqueTags.length), String(TAG_TTL_SECONDS)],
+    });
+    return stored === 1;
+  },
+
+  async invalidateTags(tags) {
+    const uniqueTags = [...new Set(tags)];
+    // As versões são gravadas antes da remoção: uma gravação concorrente acontece antes delas (e é removida em seguida)
+    // ou depois (e é recusada).
+    const version = await client.incr(VERSION_KEY);
+    const versions = client.multi();
+    for (const tag of uniqueTags) {
+      versions.set(`${TAG_VERSION_PREFIX}${tag}`, String(version), { EX: TAG_TTL_SECONDS });
+    }
+    await versions.exec();
+
+    const tagKeys = uniqueTags.map((tag) => `${TAG_PREFIX}${tag}`);
+    const members = await Promise.all(tagKeys.map((tagKey) => client.sMembers(tagKey)));
+    const keys = [...new Set(members.flat())];
+    await client.del([...keys, ...tagKeys]);
+    return keys.length;
+  },
+
+  async ping() {
+    await client.ping();
+  },
+
+  connect: () => connectRedis(client),
+
+  disconnect: () => disconnectRedis(client),
+});
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * Backend em memória (LRU): com mais de `maxEntries` entradas, descarta as usadas há mais tempo.
+ * Cada instância do servidor tem o seu próprio cache, invalidado apenas pelas alterações feitas nela.
+ */
+export const createMemoryCacheBackend = (maxEntries = Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES): CacheBackend => {
+  // Em ordem de uso: a primeira entrada é a usada há mais tempo.
+  const entries = new Map<string, MemoryEntry>();
+  const keysByTag = new Map<string, Set<string>>();
+  // Versão da última invalidação de cada tag.
+  const tagVersions = new Map<string, number>();
+  let version = 0;
+
+  const remove = (key: string): boolean => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        keysByTag.delete(tag);
+      }
+    }
+    return true;
+  };
+
+  const read = (key: string): string | null => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      remove(key);
+      return null;
+    }
+    // Reinsere a entrada para marcá-la como a usada mais recentemente.
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.value;
+  };
+
+  return {
+    driver: 'memory',
+
+    async getMany(keys) {
+      return keys.map(read);
+    },
+
+    async getVersion() {
+      return version;
+    },
+
+    async set(key, value, ttlSeconds, tags, since) {
+      const uniqueTags = [...new Set(tags)];
+      if (uniqueTags.some((tag) => (tagVersions.get(tag) ?? 0) > since)) {
+        return false;
+      }
+      remove(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, tags: uniqueTags });
+      for (const tag of uniqueTags) {
+        const keys = keysByTag.get(tag) ?? new Set<string>();
+        keys.add(key);
+        keysByTag.set(tag, keys);
+      }
+      for (const oldestKey of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        remove(oldestKey);
+      }
+      return true;
+    },
+
+    async invalidateTags(tags) {
+      let removed = 0;
+      version++;
+      for (const tag of new Set(tags)) {
+        tagVersions.set(tag, version);
+        for (const key of [...(keysByTag.get(tag) ?? [])]) {
+          if (remove(key)) {
+            removed++;
+          }
+        }
+        keysByTag.delete(tag);
+      }
+      return removed;
+    },
+
+    async ping() {},
+
+    connect() {},
+
+    async disconnect() {
+      entries.clear();
+      keysByTag.clear();
+      tagVersions.clear();
+    },
+  };
+};
+
+const CACHE_DRIVER = process.env.CACHE_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+if (CACHE_DRIVER !== 'redis' && CACHE_DRIVER !== 'memory') {
+  console.error(`ERRO: CACHE_DRIVER inválido (${CACHE_DRIVER}). Use "redis" ou "memory".`);
+  process.exit(1);
+}
+
+let cacheBackend: CacheBackend = CACHE_DRIVER === 'redis' ? createRedisCacheBackend() : createMemoryCacheBackend();
+
+/**
+ * Backend em uso pelo cache.
+ */
+export const getCacheBackend = (): CacheBackend => cacheBackend;
+
+/**
+ * Substitui o backend do cache (ex: outro armazenamento).
+ */
+export const setCacheBackend = (newBackend: CacheBackend): void => {
+  cacheBackend = newBackend;
+};
@@ -0,0 +1,57 @@
+// backend/src/services/categories.ts
+// Categorias e tags dos eventos: normalização das tags, slugs das categorias e contagens por categoria
+// (facetas) exibidas ao lado da listagem.
+
+import { Prisma } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+
+export const MAX_EVENT_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Contagem de eventos futuros de uma categoria, no filtro atual da listagem.
+export interface CategoryFacet {
+  id: string;
+  name: string;
+  slug: string;
+  upcomingEvents: number;
+}
+
+/**
+ * Gera o slug de uma categoria a partir do nome, ex: "Música & Artes" → "musica-artes".
+ */
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Normaliza as tags de um evento: sem espaços nas pontas nem repetidos, em minúsculas e sem duplicatas.
+ * Assim "JavaScript" e " javascript " são a mesma tag nos filtros.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const normalized = tags.map((tag) => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+};
+
+/**
+ * Conta os eventos futuros (ainda não encerrados) de cada categoria entre os que atendem ao filtro informado.
+ * Todas as categorias aparecem, inclusive as sem eventos, em ordem alfabética.
+ * @param where O filtro da listagem, sem o filtro de categoria (para que as contagens das demais categorias continuem visíveis).
+ */
+export const getCategoryFacets = async (client: AppTransactionClient, where: Prisma.EventWhereInput): Promise<CategoryFacet[]> => {
+  const [categories, counts] = await Promise.all([
+    client.category.findMany({ select: { id: true, name: true, slug: true }, orderBy: { name: 'asc' } }),
+    client.event.groupBy({
+      by: ['categoryId'],
+      where: { AND: [where, { categoryId: { not: null }, endsAt: { gt: new Date() } }] },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countsByCategory = new Map(counts.map((count) => [count.categoryId, count._count._all]));
+  return categories.map((category) => ({ ...category, upcomingEvents: countsByCategory.get(category.id) ?? 0 }));
+};
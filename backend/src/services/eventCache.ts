@@ -0,0 +1,62 @@
+// backend/src/services/eventCache.ts
+// Cache dos eventos (services/cache.ts): validades, tags e invalidação usadas pelos controllers.
+// Cada entrada é marcada com a tag de cada evento que contém ("event:<id>"); as páginas da listagem também com
+// EVENT_LISTS_TAG. Reservas invalidam apenas as entradas do evento; mudanças no próprio evento, que podem
+// colocá-lo ou tirá-lo de qualquer listagem, invalidam também todas as listagens.
+// As vagas disponíveis mudam a cada reserva, por isso são sobrepostas às entradas a partir de um cache próprio,
+// de validade curta: mesmo que uma invalidação falhe, elas ficam desatualizadas por poucos segundos.
+
+import { cachedMany, invalidateCacheTags } from './cache';
+import { prisma } from './prisma';
+
+export const EVENT_DETAIL_CACHE_NAMESPACE = 'events:detail';
+export const EVENT_LIST_CACHE_NAMESPACE = 'events:list';
+const EVENT_AVAILABILITY_CACHE_NAMESPACE = 'events:availability';
+
+export const EVENT_DETAIL_CACHE_TTL_SECONDS = 60 * 60;
+export const EVENT_LIST_CACHE_TTL_SECONDS = 5 * 60;
+export const EVENT_AVAILABILITY_CACHE_TTL_SECONDS = 10;
+
+// Tag de todas as páginas da listagem.
+export const EVENT_LISTS_TAG = 'events:lists';
+
+/**
+ * Tag das entradas que contêm o evento.
+ */
+export const eventCacheTag = (eventId: string): string => `event:${eventId}`;
+
+export interface EventAvailability {
+  availableSpots: number;
+  onlineAvailableSpots: number;
+}
+
+/**
+ * Invalida o cache dos eventos informados.
+ * @param options.lists Invalida também todas as listagens (padrão). Use false quando a mudança não afeta
+ * em quais listagens o evento aparece, ex: reservas, que só mudam as vagas.
+ */
+export const invalidateEventCache = async (eventIds: string[], options: { lists?: boolean } = {}): Promise<void> => {
+  const tags = eventIds.map(eventCacheTag);
+  if (options.lists ?? true) {
+    tags.push(EVENT_LISTS_TAG);
+  }
+  await invalidateCacheTags(tags);
+};
+
+/**
+ * Substitui as vagas disponíveis dos eventos (vindos do cache) pelas atuais, com validade curta.
+ */
+export const withFreshAvailability = async <T extends { id: string } & EventAvailability>(events: T[]): Promise<T[]> => {
+  const availability = await cachedMany<EventAvailability>(
+    { namespace: EVENT_AVAILABILITY_CACHE_NAMESPACE, ttlSeconds: EVENT_AVAILABILITY_CACHE_TTL_SECONDS, tags: (id) => [eventCacheTag(id)] },
+    events.map((event) => event.id),
+    async (missingIds) => {
+      const rows = await prisma.event.findMany({
+        where: { id: { in: missingIds } },
+        select: { id: true, availableSpots: true, onlineAvailableSpots: true },
+      });
+      return new Map(rows.map(({ id, ...spots }) => [id, spots]));
+    }
+  );
+  return events.map((event) => ({ ...event, ...availability.get(event.id) }));
+};
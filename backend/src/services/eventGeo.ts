@@ -0,0 +1,97 @@
+// backend/src/services/eventGeo.ts
+// Coordenadas dos eventos presenciais e busca por proximidade (`near`/`radiusKm` na listagem).
+// A distância é calculada no banco pela fórmula de haversine, depois de um recorte retangular (bounding box)
+// que aproveita o índice de latitude/longitude. A ordenação por distância é paginada em memória, como a relevância.
+
+import { EventFormat, Prisma } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+import { Coordinates, geocodeAddress } from './geocoding';
+import { RoomWithVenue } from './venues';
+
+export const DEFAULT_NEARBY_RADIUS_KM = 25;
+export const MAX_NEARBY_RADIUS_KM = 500;
+
+const EARTH_RADIUS_KM = 6371;
+// Comprimento aproximado de um grau de latitude.
+const KM_PER_DEGREE = 111.32;
+
+export interface NearbyMatch {
+  id: string;
+  distanceKm: number;
+}
+
+// Local de um evento, como usado para calcular as suas coordenadas.
+export interface EventPlace {
+  format: EventFormat;
+  room: RoomWithVenue | null;
+  location: string | null | undefined;
+  // Coordenadas informadas pelo administrador, se houver; null indica um evento sem coordenadas.
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Coordenadas de um evento: as informadas, as do local da sala, se houver, ou as do endereço geocodificado.
+ * Eventos online não têm coordenadas.
+ */
+export const resolveEventCoordinates = async (place: EventPlace): Promise<Coordinates | null> => {
+  if (place.latitude !== undefined || place.longitude !== undefined) {
+    return place.latitude !== null && place.latitude !== undefined && place.longitude !== null && place.longitude !== undefined
+      ? { latitude: place.latitude, longitude: place.longitude }
+      : null;
+  }
+  if (place.format === EventFormat.ONLINE) {
+    return null;
+  }
+  if (place.room) {
+    const { latitude, longitude, address } = place.room.venue;
+    return latitude !== null && longitude !== null ? { latitude, longitude } : geocodeAddress(address);
+  }
+  return place.location ? geocodeAddress(place.location) : null;
+};
+
+/**
+ * Lista, entre os eventos informados (os que passam nos demais filtros da listagem), os que estão a até `radiusKm`
+ * do ponto, do mais ao menos próximo. Empates são desfeitos pelo ID, na mesma ordem usada pela paginação (`getScoredPage`).
+ * @param eventIds Eventos candidatos; a busca não tem limite de resultados, para que o total da listagem seja exato.
+ */
+export const findEventsNear = async (
+  client: AppTransactionClient,
+  origin: Coordinates,
+  radiusKm: number,
+  eventIds: string[]
+): Promise<NearbyMatch[]> => {
+  if (eventIds.length === 0) {
+    return [];
+  }
+
+  const latitudeDelta = radiusKm / KM_PER_DEGREE;
+  const longitudeDelta = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((origin.latitude * Math.PI) / 180), 0.01));
+  const minLongitude = origin.longitude - longitudeDelta;
+  const maxLongitude = origin.longitude + longitudeDelta;
+  // Perto dos polos ou do antimeridiano o recorte por longitude não é um intervalo simples; nesse caso só a latitude recorta.
+  const longitudeFilter = minLongitude < -180 || maxLongitude > 180
+    ? Prisma.empty
+    : Prisma.sql`AND e."longitude" BETWEEN ${minLongitude} AND ${maxLongitude}`;
+
+  const rows = await client.$queryRaw<NearbyMatch[]>`
+    SELECT "id", "distanceKm" FROM (
+      SELECT e."id",
+             2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+               power(sin(radians(e."latitude" - ${origin.latitude}::float8) / 2), 2)
+               + cos(radians(${origin.latitude}::float8)) * cos(radians(e."latitude"))
+               * power(sin(radians(e."longitude" - ${origin.longitude}::float8) / 2), 2)
+             ))) AS "distanceKm"
+      FROM "Event" e
+      WHERE e."deletedAt" IS NULL
+        AND e."id" = ANY(${eventIds})
+        AND e."latitude" BETWEEN ${origin.latitude - latitudeDelta} AND ${origin.latitude + latitudeDelta}
+        ${longitudeFilter}
+    ) AS nearby
+    WHERE "distanceKm" <= ${radiusKm}::float8`;
+
+  // Distâncias arredondadas em 10 m: são as exibidas e as gravadas no cursor.
+  return rows
+    .map((row) => ({ id: row.id, distanceKm: Math.round(Number(row.distanceKm) * 100) / 100 }))
+    .sort((a, b) => a.distanceKm - b.distanceKm || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+};
@@ -0,0 +1,179 @@
+// backend/src/services/eventLifecycle.ts
+// Ciclo de vida dos eventos: transições de status permitidas, publicação agendada e cancelamento em cascata.
+// Toda mudança de status de um evento deve passar por `transitionEvent`.
+
+import { AttendanceMode, EventStatus, Prisma, ReservationStatus } from '@prisma/client';
+import { AppTransactionClient, prisma } from './prisma';
+import { ACTIVE_RESERVATION_STATUSES } from './reservationLifecycle';
+import { recordReservationHistoryMany } from './reservationHistory';
+import { removeManySessionEnrollments } from './eventSessions';
+import { seatsUpdate } from './attendance';
+
+// Status visíveis na listagem pública de eventos (usuários comuns e visitantes).
+// Rascunhos só aparecem para administradores e para o organizador do evento; arquivados saem das listagens.
+export const PUBLIC_EVENT_STATUSES: EventStatus[] = [
+  EventStatus.PUBLISHED,
+  EventStatus.CANCELED,
+  EventStatus.COMPLETED,
+];
+
+// Mapa de transições permitidas: status de origem -> status de destino aceitos.
+export const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  [EventStatus.DRAFT]: [EventStatus.PUBLISHED, EventStatus.CANCELED],
+  [EventStatus.PUBLISHED]: [EventStatus.DRAFT, EventStatus.CANCELED, EventStatus.COMPLETED],
+  [EventStatus.CANCELED]: [EventStatus.ARCHIVED],
+  [EventStatus.COMPLETED]: [EventStatus.ARCHIVED],
+  [EventStatus.ARCHIVED]: [],
+};
+
+const STATUS_LABELS: Record<EventStatus, string> = {
+  [EventStatus.DRAFT]: 'rascunho',
+  [EventStatus.PUBLISHED]: 'publicado',
+  [EventStatus.CANCELED]: 'cancelado',
+  [EventStatus.COMPLETED]: 'concluído',
+  [EventStatus.ARCHIVED]: 'arquivado',
+};
+
+/**
+ * Lança um erro descritivo se a transição `from -> to` não for permitida.
+ */
+export const assertEventTransition = (from: EventStatus, to: EventStatus): void => {
+  if (from === to) {
+    throw new Error(`Este evento já está ${STATUS_LABELS[to]}.`);
+  }
+  if (!EVENT_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Não é possível alterar um evento ${STATUS_LABELS[from]} para ${STATUS_LABELS[to]}.`);
+  }
+};
+
+interface EventTransitionOptions {
+  changedById?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Aplica uma transição de status a um evento, dentro de uma transação.
+ * Ao cancelar, esvazia a lista de espera e cancela todas as reservas ativas em lote (status, histórico em
+ * reservation_history, inscrições nas sessões e assentos do evento), para que eventos grandes caibam na transação.
+ * @param tx Cliente de transação do Prisma.
+ * @param eventId ID do evento.
+ * @param toStatus Novo status.
+ * @param options Autor e motivo da transição.
+ * @returns O evento atualizado e o número de reservas canceladas em cascata.
+ */
+export const transitionEvent = async (
+  tx: AppTransactionClient,
+  eventId: string,
+  toStatus: EventStatus,
+  options: EventTransitionOptions = {}
+) => {
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, status: true },
+  });
+
+  if (!event) {
+    throw new Error('Evento não encontrado.');
+  }
+
+  assertEventTransition(event.status, toStatus);
+
+  if (toStatus === EventStatus.DRAFT) {
+    const activeReservations = await tx.reservation.count({
+      where: { eventId, status: { in: ACTIVE_RESERVATION_STATUSES } },
+    });
+    if (activeReservations > 0) {
+      throw new Error('Não é possível voltar para rascunho um evento com reservas ativas. Cancele o evento.');
+    }
+  }
+
+  const data: Prisma.EventUpdateInput = { status: toStatus };
+  if (toStatus === EventStatus.PUBLISHED) {
+    data.publishAt = null; // Publicação (manual ou agendada) encerra qualquer agendamento pendente.
+  }
+  if (toStatus === EventStatus.CANCELED) {
+    data.canceledAt = new Date();
+    data.cancellationReason = options.reason ?? null;
+  }
+
+  // O status é gravado antes do cancelamento das reservas: com o evento já cancelado,
+  // os assentos devolvidos não promovem ninguém da lista de espera.
+  const updatedEvent = await tx.event.update({ where: { id: eventId }, data });
+
+  if (toStatus === EventStatus.CANCELED) {
+    await tx.waitlistEntry.deleteMany({ where: { eventId } });
+
+    const reservations = await tx.reservation.findMany({
+      where: { eventId, status: { in: ACTIVE_RESERVATION_STATUSES } },
+      select: { id: true, status: true, quantity: true, attendanceMode: true },
+    });
+
+    if (reservations.length > 0) {
+      // Equivale a `transitionReservation` para cada reserva (PENDING/CONFIRMED -> CANCELED), sem a promoção da lista
+      // de espera, que não acontece em eventos cancelados.
+      const reservationIds = reservations.map((reservation) => reservation.id);
+      const canceled = await tx.reservation.updateMany({
+        where: { id: { in: reservationIds }, status: { in: ACTIVE_RESERVATION_STATUSES } },
+        data: { status: ReservationStatus.CANCELED },
+      });
+      if (canceled.count !== reservations.length) {
+        throw new Error('As reservas do evento mudaram durante o cancelamento. Tente novamente.');
+      }
+
+      const reason = options.reason ? `Evento cancelado: ${options.reason}` : 'Evento cancelado.';
+      await recordReservationHistoryMany(tx, reservations.map((reservation) => ({
+        reservationId: reservation.id,
+        fromStatus: reservation.status,
+        toStatus: ReservationStatus.CANCELED,
+        changedById: options.changedById,
+        reason,
+      })));
+
+      await removeManySessionEnrollments(tx, reservationIds);
+
+      // Uma devolução de assentos por modalidade.
+      for (const mode of [AttendanceMode.IN_PERSON, AttendanceMode.ONLINE]) {
+        const seats = reservations
+          .filter((reservation) => reservation.attendanceMode === mode)
+          .reduce((total, reservation) => total + reservation.quantity, 0);
+        if (seats > 0) {
+          await tx.event.update({ where: { id: eventId }, data: seatsUpdate(mode, 'increment', seats) });
+        }
+      }
+    }
+
+    return {
+      event: await tx.event.findUniqueOrThrow({ where: { id: eventId } }),
+      canceledReservations: reservations.length,
+    };
+  }
+
+  return { event: updatedEvent, canceledReservations: 0 };
+};
+
+/**
+ * Publica os rascunhos cuja publicação agendada (`publishAt`) já chegou.
+ * Cada evento é publicado em sua própria transação; uma falha não impede os demais.
+ * @returns Os IDs dos eventos publicados.
+ */
+export const publishScheduledEvents = async (now: Date = new Date()): Promise<string[]> => {
+  const dueEvents = await prisma.event.findMany({
+    where: { status: EventStatus.DRAFT, publishAt: { lte: now } },
+    select: { id: true },
+  });
+
+  const published: string[] = [];
+  for (const { id } of dueEvents) {
+    try {
+      // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+      await prisma.$transaction(async (tx: AppTransactionClient) => {
+        await transitionEvent(tx, id, EventStatus.PUBLISHED);
+      });
+      published.push(id);
+    } catch (error) {
+      console.error(`Erro ao publicar evento agendado ${id}:`, error);
+    }
+  }
+
+  return published;
+};
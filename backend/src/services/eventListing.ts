@@ -0,0 +1,118 @@
+// backend/src/services/eventListing.ts
+// Ordenação e paginação por cursor da listagem de eventos.
+// A paginação é por chave (keyset): o cursor guarda o valor do campo ordenado e o ID do último evento da página,
+// com o ID desempatando eventos com o mesmo valor. Assim, eventos criados ou removidos entre as páginas
+// não fazem a listagem pular nem repetir itens.
+
+import { Prisma } from '@prisma/client';
+
+export type EventSortField = 'startsAt' | 'name' | 'availableSpots' | 'createdAt';
+// Relevância (buscas textuais, `q`) e distância (buscas por proximidade, `near`) não são colunas:
+// são calculadas por consulta e ordenadas em memória (services/eventSearch.ts e services/eventGeo.ts).
+export type EventSort = EventSortField | 'relevance' | 'distance';
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Direção padrão de cada ordenação: mais relevantes, mais próximos e mais recentes primeiro.
+export const DEFAULT_SORT_ORDER: Record<EventSort, SortOrder> = {
+  relevance: 'desc',
+  distance: 'asc',
+  startsAt: 'asc',
+  name: 'asc',
+  availableSpots: 'asc',
+  createdAt: 'desc',
+};
+
+const DATE_SORT_FIELDS: EventSort[] = ['startsAt', 'createdAt'];
+
+// Evento com o valor de uma ordenação calculada (relevância ou distância).
+export interface ScoredEvent {
+  id: string;
+  score: number;
+}
+
+export interface ListingCursor<S extends EventSort = EventSort> {
+  sort: S;
+  order: SortOrder;
+  value: Date | string | number;
+  id: string;
+}
+
+/**
+ * Gera o cursor da próxima página a partir do último item da página atual (valor ordenado e ID).
+ */
+export const encodeListingCursor = (value: Date | string | number, id: string, sort: EventSort, order: SortOrder): string => {
+  const payload = { s: sort, o: order, v: value instanceof Date ? value.toISOString() : value, id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Lê um cursor recebido na query string.
+ * @returns O cursor, ou null se ele for inválido ou tiver sido gerado para outra ordenação.
+ */
+export const decodeListingCursor = <S extends EventSort>(cursor: string, sort: S, order: SortOrder): ListingCursor<S> | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload.s !== sort || payload.o !== order || typeof payload.id !== 'string') {
+      return null;
+    }
+
+    if (DATE_SORT_FIELDS.includes(sort)) {
+      const date = new Date(payload.v);
+      return isNaN(date.getTime()) ? null : { sort, order, value: date, id: payload.id };
+    }
+    if (sort === 'relevance' || sort === 'distance') {
+      return Number.isFinite(payload.v) ? { sort, order, value: payload.v, id: payload.id } : null;
+    }
+    if (sort === 'availableSpots') {
+      return Number.isInteger(payload.v) ? { sort, order, value: payload.v, id: payload.id } : null;
+    }
+    return typeof payload.v === 'string' ? { sort, order, value: payload.v, id: payload.id } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ordenação da listagem: o campo escolhido e o ID como desempate, na mesma direção.
+ */
+export const getListingOrderBy = (sort: EventSortField, order: SortOrder): Prisma.EventOrderByWithRelationInput[] => {
+  return [{ [sort]: order }, { id: order }];
+};
+
+/**
+ * Filtro dos eventos posteriores ao cursor na ordenação da listagem.
+ */
+export const getCursorFilter = (cursor: ListingCursor<EventSortField>): Prisma.EventWhereInput => {
+  const operator = cursor.order === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [
+      { [cursor.sort]: { [operator]: cursor.value } },
+      { [cursor.sort]: cursor.value, id: { [operator]: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Página de uma ordenação calculada, a partir do cursor (valor e ID do último evento visto).
+ * `items` já deve estar na ordem da listagem: pelo valor, na direção `order`, e pelo ID crescente nos empates.
+ */
+export const getScoredPage = (
+  items: ScoredEvent[],
+  order: SortOrder,
+  cursor: { value: number; id: string } | null,
+  limit: number
+): { page: ScoredEvent[]; hasNextPage: boolean } => {
+  const isAfterCursor = (item: ScoredEvent) => {
+    if (!cursor) return true;
+    if (item.score === cursor.value) return item.id > cursor.id;
+    return order === 'asc' ? item.score > cursor.value : item.score < cursor.value;
+  };
+
+  const start = items.findIndex(isAfterCursor);
+  if (start === -1) {
+    return { page: [], hasNextPage: false };
+  }
+  return { page: items.slice(start, start + limit), hasNextPage: items.length > start + limit };
+};
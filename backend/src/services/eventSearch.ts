@@ -0,0 +1,107 @@
+// backend/src/services/eventSearch.ts
+// Busca textual de eventos (PostgreSQL full-text search). O documento de cada evento (`searchVector`: nome, tags,
+// descrição e local) é mantido por trigger no banco, com a configuração `portuguese_unaccent`: dicionário português, sem acentos.
+// Os trechos destacados marcam os termos encontrados entre HIGHLIGHT_START e HIGHLIGHT_END.
+
+import { EventStatus, Prisma } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+const MAX_SEARCH_TERMS = 8;
+
+const NAME_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MinWords=8, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SearchMatch {
+  id: string;
+  rank: number;
+}
+
+export interface SearchHighlight {
+  name: string; // Nome completo, com os termos destacados.
+  snippet: string | null; // Trechos da descrição com os termos destacados, se houver descrição.
+}
+
+/**
+ * Converte o texto digitado em uma consulta `to_tsquery`: todos os termos precisam aparecer,
+ * e cada um vale também como prefixo ("reun" encontra "reunião"). Pontuação e operadores são descartados.
+ * @returns A consulta, ou null se o texto não tiver nenhuma palavra.
+ */
+export const buildSearchQuery = (text: string): string | null => {
+  const terms = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.slice(0, MAX_SEARCH_TERMS).map((term) => `${term}:*`).join(' & ');
+};
+
+/**
+ * Lista, entre os eventos informados (os que passam nos demais filtros da listagem), os que correspondem à consulta,
+ * do mais ao menos relevante. Empates são desfeitos pelo ID, na mesma ordem usada pela paginação (`getScoredPage`).
+ * @param eventIds Eventos candidatos; a busca não tem limite de resultados, para que o total da listagem seja exato.
+ */
+export const findSearchMatches = async (
+  client: AppTransactionClient,
+  tsquery: string,
+  eventIds: string[]
+): Promise<SearchMatch[]> => {
+  if (eventIds.length === 0) {
+    return [];
+  }
+
+  const rows = await client.$queryRaw<SearchMatch[]>`
+    SELECT e."id", ts_rank_cd(e."searchVector", query) AS "rank"
+    FROM "Event" e, to_tsquery('portuguese_unaccent', ${tsquery}) query
+    WHERE e."searchVector" @@ query AND e."deletedAt" IS NULL AND e."id" = ANY(${eventIds})`;
+
+  return rows
+    .map((row) => ({ id: row.id, rank: Number(row.rank) }))
+    .sort((a, b) => b.rank - a.rank || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+};
+
+/**
+ * Gera os destaques (nome e trechos da descrição) dos eventos de uma página de resultados.
+ */
+export const getSearchHighlights = async (
+  client: AppTransactionClient,
+  eventIds: string[],
+  tsquery: string
+): Promise<Map<string, SearchHighlight>> => {
+  if (eventIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await client.$queryRaw<(SearchHighlight & { id: string })[]>`
+    SELECT e."id",
+           ts_headline('portuguese_unaccent', e."name", query, ${NAME_HEADLINE_OPTIONS}) AS "name",
+           CASE WHEN e."description" IS NULL THEN NULL
+                ELSE ts_headline('portuguese_unaccent', e."description", query, ${SNIPPET_HEADLINE_OPTIONS}) END AS "snippet"
+    FROM "Event" e, to_tsquery('portuguese_unaccent', ${tsquery}) query
+    WHERE e."id" IN (${Prisma.join(eventIds)})`;
+
+  return new Map(rows.map((row) => [row.id, { name: row.name, snippet: row.snippet }]));
+};
+
+/**
+ * Sugestões para a caixa de busca: eventos públicos ainda não encerrados cujo documento corresponde à consulta,
+ * com o nome destacado.
+ */
+export const findSearchSuggestions = async (
+  client: AppTransactionClient,
+  tsquery: string,
+  statuses: EventStatus[],
+  limit: number
+) => {
+  return client.$queryRaw<{ id: string; name: string; startsAt: Date; highlight: string }[]>`
+    SELECT e."id", e."name", e."startsAt",
+           ts_headline('portuguese_unaccent', e."name", query, ${NAME_HEADLINE_OPTIONS}) AS "highlight"
+    FROM "Event" e, to_tsquery('portuguese_unaccent', ${tsquery}) query
+    WHERE e."searchVector" @@ query
+      AND e."deletedAt" IS NULL
+      AND e."status"::text IN (${Prisma.join(statuses)})
+      AND e."endsAt" > now()
+    ORDER BY ts_rank_cd(e."searchVector", query) DESC, e."startsAt" ASC
+    LIMIT ${limit}`;
+};
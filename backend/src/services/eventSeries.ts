@@ -0,0 +1,145 @@
+// backend/src/services/eventSeries.ts
+// Séries de eventos recorrentes: materialização das ocorrências como eventos e divisão da série
+// na edição "esta e as seguintes". Cada ocorrência é um Event comum, com reservas e lista de espera próprias.
+// A regra é expandida no horário de parede do fuso da série, para que o horário local se mantenha no horário de verão.
+
+import { EventFormat, EventStatus } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+import { expandRRule, formatRRule, parseRRule, splitRRule, RecurrenceRule } from './recurrence';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+interface CreateSeriesInput {
+  rrule: string;
+  dtstart: Date;
+  // Duração de cada ocorrência, em ms (término da primeira ocorrência menos o início).
+  duration: number;
+  timezone: string;
+  exdates: Date[];
+  creatorId: string;
+  event: {
+    name: string;
+    description: string | null;
+    format: EventFormat;
+    roomId: string | null;
+    categoryId: string | null;
+    tags: string[];
+    location: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    onlineLink: string | null;
+    maxCapacity: number;
+    onlineCapacity: number;
+    maxSeatsPerUser: number;
+    status: EventStatus;
+    publishAt: Date | null;
+  };
+}
+
+// Converte o UNTIL (um instante) para o horário de parede do fuso, em que a regra é expandida.
+const toZonedRule = (rule: RecurrenceRule, timeZone: string): RecurrenceRule => ({
+  ...rule,
+  until: rule.until && toZonedTime(rule.until, timeZone),
+});
+
+/**
+ * Calcula as datas das ocorrências de uma série (regra + exceções), expandindo a regra no fuso informado.
+ * Lança um erro descritivo se a regra for inválida, gerar ocorrências demais ou nenhuma.
+ */
+export const getSeriesOccurrences = (rrule: string, dtstart: Date, exdates: Date[], timeZone: string): Date[] => {
+  const occurrences = expandRRule(
+    toZonedRule(parseRRule(rrule), timeZone),
+    toZonedTime(dtstart, timeZone),
+    exdates.map((date) => toZonedTime(date, timeZone))
+  ).map((date) => fromZonedTime(date, timeZone));
+  if (occurrences.length === 0) {
+    throw new Error('A regra de recorrência não gera nenhuma ocorrência.');
+  }
+  return occurrences;
+};
+
+/**
+ * Cria uma série e materializa cada ocorrência como um evento, dentro de uma transação.
+ * @returns A série e as ocorrências criadas, em ordem cronológica.
+ */
+export const materializeEventSeries = async (tx: AppTransactionClient, input: CreateSeriesInput) => {
+  const occurrences = getSeriesOccurrences(input.rrule, input.dtstart, input.exdates, input.timezone);
+
+  const series = await tx.eventSeries.create({
+    data: {
+      rrule: formatRRule(parseRRule(input.rrule)),
+      dtstart: input.dtstart,
+      timezone: input.timezone,
+      exdates: input.exdates,
+      creatorId: input.creatorId,
+    },
+  });
+
+  await tx.event.createMany({
+    data: occurrences.map((date) => ({
+      ...input.event,
+      startsAt: date,
+      endsAt: new Date(date.getTime() + input.duration),
+      timezone: input.timezone,
+      occurrenceDate: date,
+      availableSpots: input.event.maxCapacity,
+      onlineAvailableSpots: input.event.onlineCapacity,
+      seriesId: series.id,
+      creatorId: input.creatorId,
+    })),
+  });
+
+  const events = await tx.event.findMany({
+    where: { seriesId: series.id },
+    orderBy: { startsAt: 'asc' },
+  });
+
+  return { series, events };
+};
+
+/**
+ * Divide uma série na ocorrência `splitAt`: a série original passa a terminar antes dela e uma nova série,
+ * com a mesma regra, assume `splitAt` e as ocorrências seguintes (que são movidas para ela).
+ * Se `splitAt` já for a primeira ocorrência, nada é dividido.
+ * @returns O ID da série que contém as ocorrências a partir de `splitAt`.
+ */
+export const splitEventSeries = async (tx: AppTransactionClient, seriesId: string, splitAt: Date): Promise<string> => {
+  const series = await tx.eventSeries.findUniqueOrThrow({ where: { id: seriesId } });
+
+  if (splitAt.getTime() <= series.dtstart.getTime()) {
+    return series.id;
+  }
+
+  // A divisão é feita no horário de parede do fuso; o novo UNTIL volta a ser um instante.
+  const { head, tail } = splitRRule(
+    toZonedRule(parseRRule(series.rrule), series.timezone),
+    toZonedTime(series.dtstart, series.timezone),
+    toZonedTime(splitAt, series.timezone)
+  );
+  if (head.until) head.until = fromZonedTime(head.until, series.timezone);
+  if (tail.until) tail.until = fromZonedTime(tail.until, series.timezone);
+
+  await tx.eventSeries.update({
+    where: { id: series.id },
+    data: {
+      rrule: formatRRule(head),
+      exdates: series.exdates.filter((date) => date < splitAt),
+    },
+  });
+
+  const newSeries = await tx.eventSeries.create({
+    data: {
+      rrule: formatRRule(tail),
+      dtstart: splitAt,
+      timezone: series.timezone,
+      exdates: series.exdates.filter((date) => date >= splitAt),
+      creatorId: series.creatorId,
+    },
+  });
+
+  await tx.event.updateMany({
+    where: { seriesId: series.id, occurrenceDate: { gte: splitAt } },
+    data: { seriesId: newSeries.id },
+  });
+
+  return newSeries.id;
+};
@@ -0,0 +1,164 @@
+// backend/src/services/eventSessions.ts
+// Agenda dos eventos: inscrição das reservas nas sessões, com vagas por sessão e sem conflitos de horário.
+// Inscrições só existem para reservas que ocupam assentos; quando a reserva deixa de ocupá-los
+// (cancelada ou expirada), `removeSessionEnrollments` devolve as vagas e apaga as inscrições.
+
+import { AppTransactionClient } from './prisma';
+
+/**
+ * Verifica se o intervalo da sessão está contido no intervalo do evento.
+ */
+export const isWithinEvent = (event: { startsAt: Date; endsAt: Date }, startsAt: Date, endsAt: Date): boolean => {
+  return startsAt >= event.startsAt && endsAt <= event.endsAt;
+};
+
+interface EnrollingReservation {
+  id: string;
+  userId: string;
+  eventId: string;
+  quantity: number;
+}
+
+/**
+ * Inscreve uma reserva em uma sessão do seu evento, dentro de uma transação.
+ * Recusa sessões de outro evento, já encerradas, lotadas ou com horário sobreposto a outra sessão
+ * da agenda do usuário (em qualquer evento). A validação do status da reserva fica com quem chama.
+ * @returns A inscrição criada, com a sessão.
+ */
+export const enrollInSession = async (tx: AppTransactionClient, reservation: EnrollingReservation, sessionId: string) => {
+  const session = await tx.eventSession.findUnique({ where: { id: sessionId } });
+
+  if (!session || session.eventId !== reservation.eventId) {
+    throw new Error('Sessão não encontrada neste evento.');
+  }
+
+  if (session.endsAt < new Date()) {
+    throw new Error('Esta sessão já foi encerrada.');
+  }
+
+  const existingEnrollment = await tx.sessionEnrollment.findUnique({
+    where: { sessionId_reservationId: { sessionId, reservationId: reservation.id } },
+    select: { id: true },
+  });
+  if (existingEnrollment) {
+    throw new Error('Você já está inscrito nesta sessão.');
+  }
+
+  // Sobreposição de intervalos: começa antes do fim da outra e termina depois do início dela.
+  const conflict = await tx.sessionEnrollment.findFirst({
+    where: {
+      reservation: { userId: reservation.userId },
+      session: { startsAt: { lt: session.endsAt }, endsAt: { gt: session.startsAt } },
+    },
+    select: { session: { select: { title: true } } },
+  });
+  if (conflict) {
+    throw new Error(`Conflito de horário com a sessão "${conflict.session.title}" da sua agenda.`);
+  }
+
+  if (session.availableSpots !== null) {
+    // Ocupação condicional: inscrições simultâneas não passam da capacidade da sessão.
+    const taken = await tx.eventSession.updateMany({
+      where: { id: sessionId, availableSpots: { gte: reservation.quantity } },
+      data: { availableSpots: { decrement: reservation.quantity } },
+    });
+    if (taken.count === 0) {
+      const current = await tx.eventSession.findUnique({ where: { id: sessionId }, select: { availableSpots: true } });
+      const availableSpots = current?.availableSpots ?? 0;
+      throw new Error(availableSpots <= 0
+        ? 'Não há mais vagas nesta sessão.'
+        : `Restam apenas ${availableSpots} vaga(s) nesta sessão.`);
+    }
+  }
+
+  return tx.sessionEnrollment.create({
+    data: { sessionId, reservationId: reservation.id },
+    include: { session: true },
+  });
+};
+
+/**
+ * Remove a inscrição de uma reserva em uma sessão e devolve as vagas da sessão.
+ */
+export const leaveSession = async (tx: AppTransactionClient, reservation: EnrollingReservation, sessionId: string) => {
+  const enrollment = await tx.sessionEnrollment.findUnique({
+    where: { sessionId_reservationId: { sessionId, reservationId: reservation.id } },
+    include: { session: { select: { maxCapacity: true } } },
+  });
+
+  if (!enrollment) {
+    throw new Error('Você não está inscrito nesta sessão.');
+  }
+
+  await tx.sessionEnrollment.delete({ where: { id: enrollment.id } });
+
+  if (enrollment.session.maxCapacity !== null) {
+    await tx.eventSession.update({
+      where: { id: sessionId },
+      data: { availableSpots: { increment: reservation.quantity } },
+    });
+  }
+};
+
+/**
+ * Devolve às sessões com capacidade própria os assentos liberados de uma reserva em grupo.
+ * As inscrições continuam valendo para os assentos restantes.
+ * @param seats Quantidade de assentos liberados da reserva.
+ */
+export const releaseSessionSeats = async (tx: AppTransactionClient, reservationId: string, seats: number) => {
+  const enrollments = await tx.sessionEnrollment.findMany({
+    where: { reservationId, session: { maxCapacity: { not: null } } },
+    select: { sessionId: true },
+  });
+
+  for (const { sessionId } of enrollments) {
+    await tx.eventSession.update({
+      where: { id: sessionId },
+      data: { availableSpots: { increment: seats } },
+    });
+  }
+};
+
+/**
+ * Apaga todas as inscrições de uma reserva que deixou de ocupar assentos, devolvendo as vagas das sessões.
+ * @param quantity Assentos que a reserva ocupava em cada sessão.
+ */
+export const removeSessionEnrollments = async (tx: AppTransactionClient, reservationId: string, quantity: number) => {
+  await releaseSessionSeats(tx, reservationId, quantity);
+  await tx.sessionEnrollment.deleteMany({ where: { reservationId } });
+};
+
+/**
+ * Versão em lote de `removeSessionEnrollments`, para quando muitas reservas deixam de ocupar assentos de uma vez
+ * (ex: cancelamento do evento): devolve as vagas com uma atualização por sessão e apaga as inscrições de uma vez.
+ */
+export const removeManySessionEnrollments = async (tx: AppTransactionClient, reservationIds: string[]) => {
+  const enrollments = await tx.sessionEnrollment.findMany({
+    where: { reservationId: { in: reservationIds }, session: { maxCapacity: { not: null } } },
+    select: { sessionId: true, reservation: { select: { quantity: true } } },
+  });
+
+  const releasedSeats = new Map<string, number>();
+  for (const { sessionId, reservation } of enrollments) {
+    releasedSeats.set(sessionId, (releasedSeats.get(sessionId) ?? 0) + reservation.quantity);
+  }
+  for (const [sessionId, seats] of releasedSeats) {
+    await tx.eventSession.update({
+      where: { id: sessionId },
+      data: { availableSpots: { increment: seats } },
+    });
+  }
+
+  await tx.sessionEnrollment.deleteMany({ where: { reservationId: { in: reservationIds } } });
+};
+
+/**
+ * Soma os assentos ocupados em uma sessão pelas reservas inscritas.
+ */
+export const countSessionSeats = async (tx: AppTransactionClient, sessionId: string): Promise<number> => {
+  const enrollments = await tx.sessionEnrollment.findMany({
+    where: { sessionId },
+    select: { reservation: { select: { quantity: true } } },
+  });
+  return enrollments.reduce((total, enrollment) => total + enrollment.reservation.quantity, 0);
+};
@@ -0,0 +1,121 @@
+// backend/src/services/geocoding.ts
+// Geocodificação de endereços (texto → coordenadas) para a busca de eventos por proximidade.
+// O geocodificador é plugável: `GEOCODER=nominatim` consulta o Nominatim (OpenStreetMap); o padrão, `offline`,
+// reconhece apenas as cidades de uma tabela local e não depende de rede (desenvolvimento e testes).
+// Falhas de geocodificação nunca impedem a gravação: o evento apenas fica sem coordenadas.
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geocoder {
+  /**
+   * @returns As coordenadas do endereço, ou null se ele não for encontrado.
+   */
+  geocode(address: string): Promise<Coordinates | null>;
+}
+
+interface KnownPlace extends Coordinates {
+  name: string;
+}
+
+// Cidades reconhecidas pelo geocodificador offline (centro de cada cidade).
+const KNOWN_PLACES: KnownPlace[] = [
+  { name: 'São Paulo', latitude: -23.5505, longitude: -46.6333 },
+  { name: 'Rio de Janeiro', latitude: -22.9068, longitude: -43.1729 },
+  { name: 'Belo Horizonte', latitude: -19.9167, longitude: -43.9345 },
+  { name: 'Brasília', latitude: -15.7939, longitude: -47.8828 },
+  { name: 'Salvador', latitude: -12.9777, longitude: -38.5016 },
+  { name: 'Curitiba', latitude: -25.4284, longitude: -49.2733 },
+  { name: 'Porto Alegre', latitude: -30.0346, longitude: -51.2177 },
+  { name: 'Recife', latitude: -8.0476, longitude: -34.877 },
+  { name: 'Fortaleza', latitude: -3.7319, longitude: -38.5267 },
+  { name: 'Florianópolis', latitude: -27.5954, longitude: -48.548 },
+  { name: 'Manaus', latitude: -3.119, longitude: -60.0217 },
+  { name: 'Belém', latitude: -1.4558, longitude: -48.4902 },
+  { name: 'Goiânia', latitude: -16.6869, longitude: -49.2648 },
+  { name: 'Campinas', latitude: -22.9099, longitude: -47.0626 },
+  { name: 'Vitória', latitude: -20.3155, longitude: -40.3128 },
+  { name: 'Natal', latitude: -5.7945, longitude: -35.211 },
+];
+
+// Tempo máximo de espera pelo geocodificador externo.
+const GEOCODER_TIMEOUT_MS = 5000;
+
+// Texto comparável: minúsculas, sem acentos e sem pontuação.
+const normalizeAddress = (text: string): string => {
+  return ` ${text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+};
+
+/**
+ * Geocodificador offline: encontra no endereço o nome de uma das cidades conhecidas (o mais longo, se houver mais de um)
+ * e devolve as coordenadas dela.
+ */
+export const createOfflineGeocoder = (places: KnownPlace[] = KNOWN_PLACES): Geocoder => {
+  const byLength = [...places].sort((a, b) => b.name.length - a.name.length);
+  return {
+    async geocode(address: string) {
+      const normalized = normalizeAddress(address);
+      const place = byLength.find((candidate) => normalized.includes(normalizeAddress(candidate.name)));
+      return place ? { latitude: place.latitude, longitude: place.longitude } : null;
+    },
+  };
+};
+
+/**
+ * Geocodificador do Nominatim (OpenStreetMap). A política de uso exige um User-Agent que identifique a aplicação.
+ */
+export const createNominatimGeocoder = (
+  baseUrl = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  userAgent = process.env.GEOCODER_USER_AGENT || 'event-management-backend'
+): Geocoder => ({
+  async geocode(address: string) {
+    const url = `${baseUrl}/search?format=json&limit=1&q=${encodeURIComponent(address)}`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': userAgent, Accept: 'application/json' },
+      signal: AbortSignal.timeout(GEOCODER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim respondeu com status ${response.status}.`);
+    }
+
+    const results = (await response.json()) as { lat: string; lon: string }[];
+    if (results.length === 0) {
+      return null;
+    }
+    const latitude = Number(results[0].lat);
+    const longitude = Number(results[0].lon);
+    return Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null;
+  },
+});
+
+let geocoder: Geocoder = process.env.GEOCODER === 'nominatim' ? createNominatimGeocoder() : createOfflineGeocoder();
+
+/**
+ * Substitui o geocodificador da aplicação (ex: outro provedor).
+ */
+export const setGeocoder = (newGeocoder: Geocoder): void => {
+  geocoder = newGeocoder;
+};
+
+/**
+ * Geocodifica um endereço com o geocodificador configurado. Erros do provedor são registrados e tratados
+ * como endereço não encontrado.
+ */
+export const geocodeAddress = async (address: string): Promise<Coordinates | null> => {
+  const trimmed = address.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    return await geocoder.geocode(trimmed);
+  } catch (error) {
+    console.error('Erro ao geocodificar endereço:', error);
+    return null;
+  }
+};
@@ -0,0 +1,161 @@
+// backend/src/services/loginLockout.ts
+// Bloqueio progressivo de logins contra ataques de força bruta.
+// - Por conta: ACCOUNT_MAX_FAILURES senhas erradas em FAILURE_WINDOW_MS bloqueiam a conta. O estado fica no banco
+//   (colunas de `User`), para que os administradores vejam as contas bloqueadas e possam desbloqueá-las.
+// - Por IP: IP_MAX_FAILURES tentativas erradas (em quaisquer contas, existentes ou não) bloqueiam o IP. O estado fica
+//   nos contadores dos limites de requisições (services/rateLimitStore.ts).
+// Cada bloqueio seguido dura o dobro do anterior, até LOCKOUT_MAX_MS; sem novos bloqueios por LOCKOUT_LEVEL_RESET_MS,
+// a duração volta ao início. Um login bem-sucedido ou a redefinição da senha zeram o estado da conta, mas não o do IP.
+
+import { AppTransactionClient, prisma } from './prisma';
+import { getRateLimitStore } from './rateLimitStore';
+
+// Senhas erradas que bloqueiam a conta e o IP.
+const ACCOUNT_MAX_FAILURES = 5;
+const IP_MAX_FAILURES = 20;
+
+// Janela em que as tentativas erradas são somadas.
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// Duração do primeiro bloqueio e limite da duração dos seguintes.
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+
+// Período sem bloqueios após o qual a duração volta a LOCKOUT_BASE_MS.
+const LOCKOUT_LEVEL_RESET_MS = 24 * 60 * 60 * 1000;
+
+export interface LoginLockout {
+  retryAfterMs: number;
+}
+
+// Campos das contas bloqueadas exibidos aos administradores.
+export const LOCKED_ACCOUNT_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  lockoutLevel: true,
+  lockedUntil: true,
+  lastFailedLoginAt: true,
+} as const;
+
+const getLockoutDuration = (level: number): number => Math.min(LOCKOUT_BASE_MS * 2 ** (level - 1), LOCKOUT_MAX_MS);
+
+const ipKeys = (ip: string) => ({
+  failures: `login:ip:${ip}:failures`,
+  level: `login:ip:${ip}:level`,
+  lock: `login:ip:${ip}:lock`,
+});
+
+/**
+ * Mensagem da resposta a um login bloqueado.
+ */
+export const describeLoginLockout = ({ retryAfterMs }: LoginLockout): string => {
+  const minutes = Math.max(Math.ceil(retryAfterMs / 60000), 1);
+  return `Muitas tentativas de login. Tente novamente em ${minutes} minuto${minutes > 1 ? 's' : ''}.`;
+};
+
+/**
+ * Indica se o login está bloqueado para a conta (se existir) ou para o IP.
+ * @returns O bloqueio mais longo, ou null se não houver bloqueio.
+ */
+export const getLoginLockout = async (
+  user: { lockedUntil: Date | null } | null,
+  ip: string | undefined,
+  now: Date = new Date()
+): Promise<LoginLockout | null> => {
+  const accountMs = user?.lockedUntil ? user.lockedUntil.getTime() - now.getTime() : 0;
+  const ipLock = ip ? await getRateLimitStore().get(ipKeys(ip).lock) : null;
+  const retryAfterMs = Math.max(accountMs, ipLock?.resetMs ?? 0);
+  return retryAfterMs > 0 ? { retryAfterMs } : null;
+};
+
+const recordAccountFailure = async (userId: string, now: Date): Promise<LoginLockout | null> => {
+  // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+  return prisma.$transaction(async (tx: AppTransactionClient) => {
+    // Trava a linha do usuário: tentativas simultâneas são contadas uma a uma.
+    await tx.$executeRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { failedLoginCount: true, lastFailedLoginAt: true, lockoutLevel: true, lockedUntil: true },
+    });
+    if (!user) {
+      return null;
+    }
+
+    const inWindow = user.lastFailedLoginAt !== null && now.getTime() - user.lastFailedLoginAt.getTime() < FAILURE_WINDOW_MS;
+    const failures = (inWindow ? user.failedLoginCount : 0) + 1;
+    if (failures < ACCOUNT_MAX_FAILURES) {
+      await tx.user.update({ where: { id: userId }, data: { failedLoginCount: failures, lastFailedLoginAt: now } });
+      return null;
+    }
+
+    const recentlyLocked = user.lockedUntil !== null && now.getTime() - user.lockedUntil.getTime() < LOCKOUT_LEVEL_RESET_MS;
+    const level = recentlyLocked ? user.lockoutLevel + 1 : 1;
+    const retryAfterMs = getLockoutDuration(level);
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginCount: 0,
+        lastFailedLoginAt: now,
+        lockoutLevel: level,
+        lockedUntil: new Date(now.getTime() + retryAfterMs),
+      },
+    });
+    console.warn(`Conta ${userId} bloqueada por ${Math.round(retryAfterMs / 1000)}s após ${failures} tentativas de login.`);
+    return { retryAfterMs };
+  });
+};
+
+const recordIpFailure = async (ip: string): Promise<LoginLockout | null> => {
+  const store = getRateLimitStore();
+  const keys = ipKeys(ip);
+
+  const { count } = await store.hit(keys.failures, FAILURE_WINDOW_MS);
+  if (count < IP_MAX_FAILURES) {
+    return null;
+  }
+
+  const previous = await store.get(keys.level);
+  const level = (previous?.count ?? 0) + 1;
+  const retryAfterMs = getLockoutDuration(level);
+  await store.set(keys.level, level, retryAfterMs + LOCKOUT_LEVEL_RESET_MS);
+  await store.set(keys.lock, level, retryAfterMs);
+  await store.delete([keys.failures]);
+  console.warn(`IP ${ip} bloqueado por ${Math.round(retryAfterMs / 1000)}s após ${count} tentativas de login.`);
+  return { retryAfterMs };
+};
+
+/**
+ * Registra uma tentativa de login com senha errada (ou e-mail inexistente, sem `userId`).
+ * @returns O bloqueio iniciado por esta tentativa (o mais longo, se forem dois), ou null.
+ */
+export const recordLoginFailure = async (
+  userId: string | null,
+  ip: string | undefined,
+  now: Date = new Date()
+): Promise<LoginLockout | null> => {
+  const [accountLockout, ipLockout] = await Promise.all([
+    userId ? recordAccountFailure(userId, now) : null,
+    ip ? recordIpFailure(ip) : null,
+  ]);
+  const retryAfterMs = Math.max(accountLockout?.retryAfterMs ?? 0, ipLockout?.retryAfterMs ?? 0);
+  return retryAfterMs > 0 ? { retryAfterMs } : null;
+};
+
+/**
+ * Zera as tentativas erradas e o bloqueio da conta (login bem-sucedido, nova senha ou desbloqueio manual).
+ * @returns true se havia algo a zerar.
+ */
+export const clearLoginFailures = async (
+  userId: string,
+  client: AppTransactionClient = prisma
+): Promise<boolean> => {
+  const cleared = await client.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ failedLoginCount: { gt: 0 } }, { lockoutLevel: { gt: 0 } }, { lockedUntil: { not: null } }],
+    },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockoutLevel: 0, lockedUntil: null },
+  });
+  return cleared.count > 0;
+};
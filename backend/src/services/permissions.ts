@@ -0,0 +1,269 @@
+// backend/src/services/permissions.ts
+// Permissões de cada papel. Cada permissão vale com um escopo:
+// - 'all': em todos os recursos;
+// - 'own': apenas nos eventos (e séries) criados pelo usuário;
+// - 'assigned': apenas nos eventos para os quais o usuário foi atribuído à equipe (`EventStaff`).
+// Além do papel, algumas permissões podem ser delegadas a coorganizadores de um evento (`EventCoOrganizer`), em qualquer
+// papel: valem apenas naquele evento e só depois que o convite é aceito.
+// As rotas verificam as permissões com o middleware `requirePermission` (middlewares/auth.ts); listagens usam
+// `getEventAccessFilter` para restringir os eventos ao escopo de quem consulta.
+
+import { Request } from 'express';
+import { CoOrganizerPermission, CoOrganizerStatus, Prisma, Role } from '@prisma/client';
+import { AppTransactionClient, prismaWithDeleted } from './prisma';
+
+export type Permission =
+  | 'event:create'          // Criar eventos e séries.
+  | 'event:view-drafts'     // Ver rascunhos, a agenda dos rascunhos e os links online.
+  | 'event:update'          // Editar o evento, o status, a série e a agenda.
+  | 'event:delete'          // Excluir o evento, ver a lixeira e restaurá-lo.
+  | 'event:manage-staff'    // Atribuir e remover a equipe de check-in e os coorganizadores.
+  | 'event:check-in'        // Fazer o check-in dos ingressos e acompanhar os contadores.
+  | 'event:message-attendees' // Enviar mensagens aos participantes confirmados.
+  | 'reservation:create'    // Reservar vagas e entrar na lista de espera.
+  | 'reservation:read'      // Ver as reservas de outros usuários, seus ingressos e históricos.
+  | 'reservation:update'    // Alterar o status, cancelar e liberar assentos de reservas de outros usuários.
+  | 'user:read'             // Consultar os usuários e as contas bloqueadas.
+  | 'user:update'           // Editar outros usuários, seus papéis e desbloquear contas.
+  | 'user:delete'           // Excluir usuários, ver a lixeira e restaurá-los.
+  | 'category:manage'
+  | 'venue:manage'
+  | 'system:monitor';       // Métricas internas (ex: cache).
+
+export type PermissionScope = 'all' | 'own' | 'assigned';
+
+const ROLE_PERMISSIONS: Record<Role, Partial<Record<Permission, PermissionScope>>> = {
+  [Role.USER]: {
+    'reservation:create': 'all',
+  },
+  [Role.ORGANIZER]: {
+    'event:create': 'all',
+    'event:view-drafts': 'own',
+    'event:update': 'own',
+    'event:delete': 'own',
+    'event:manage-staff': 'own',
+    'event:check-in': 'own',
+    'event:message-attendees': 'own',
+    'reservation:create': 'all',
+    'reservation:read': 'own',
+    'reservation:update': 'own',
+  },
+  [Role.CHECKIN_STAFF]: {
+    'event:check-in': 'assigned',
+    'reservation:create': 'all',
+  },
+  [Role.SUPPORT]: {
+    'reservation:create': 'all',
+    'reservation:read': 'all',
+    'user:read': 'all',
+  },
+  [Role.ADMIN]: {
+    'event:create': 'all',
+    'event:view-drafts': 'all',
+    'event:update': 'all',
+    'event:delete': 'all',
+    'event:manage-staff': 'all',
+    'event:check-in': 'all',
+    'event:message-attendees': 'all',
+    'reservation:create': 'all',
+    'reservation:read': 'all',
+    'reservation:update': 'all',
+    'user:read': 'all',
+    'user:update': 'all',
+    'user:delete': 'all',
+    'category:manage': 'all',
+    'venue:manage': 'all',
+    'system:monitor': 'all',
+  },
+};
+
+// Permissões concedidas por cada delegação de coorganizador.
+const CO_ORGANIZER_GRANTS: Record<CoOrganizerPermission, Permission[]> = {
+  [CoOrganizerPermission.EDIT_DETAILS]: ['event:view-drafts', 'event:update'],
+  [CoOrganizerPermission.VIEW_ATTENDEES]: ['reservation:read'],
+  [CoOrganizerPermission.CHECK_IN]: ['event:check-in'],
+  [CoOrganizerPermission.MESSAGE_ATTENDEES]: ['event:message-attendees'],
+};
+
+// Quem faz a requisição (os campos anexados por `authenticate`).
+export type Requester = Pick<Request, 'userId' | 'role'>;
+
+// Recurso protegido por uma permissão de escopo 'own' ou 'assigned'.
+export interface ProtectedResource {
+  creatorId: string;
+  // Evento do recurso, para o escopo 'assigned'; null em recursos sem evento (ex: séries).
+  eventId: string | null;
+}
+
+/**
+ * Carrega o recurso de uma rota para o middleware `requirePermission`.
+ */
+export interface ResourceLoader {
+  // Mensagem da resposta 404 quando o recurso não existe.
+  notFoundMessage: string;
+  load(req: Request): Promise<ProtectedResource | null>;
+}
+
+/**
+ * Escopo em que o papel tem a permissão, ou null se não a tiver.
+ */
+export const getPermissionScope = (role: Role | undefined, permission: Permission): PermissionScope | null => {
+  return role ? ROLE_PERMISSIONS[role][permission] ?? null : null;
+};
+
+/**
+ * Indica se o papel tem a permissão em algum escopo.
+ */
+export const hasPermission = (role: Role | undefined, permission: Permission): boolean => {
+  return getPermissionScope(role, permission) !== null;
+};
+
+/**
+ * Delegações de coorganizador que concedem a permissão (vazio se ela não puder ser delegada).
+ */
+export const getDelegatingPermissions = (permission: Permission): CoOrganizerPermission[] => {
+  return (Object.keys(CO_ORGANIZER_GRANTS) as CoOrganizerPermission[]).filter((delegated) =>
+    CO_ORGANIZER_GRANTS[delegated].includes(permission)
+  );
+};
+
+/**
+ * Filtro das delegações aceitas do usuário que concedem a permissão, ou null se ela não puder ser delegada.
+ */
+const getCoOrganizerFilter = (userId: string, permission: Permission): Prisma.EventCoOrganizerWhereInput | null => {
+  const delegating = getDelegatingPermissions(permission);
+  return delegating.length > 0
+    ? { userId, status: CoOrganizerStatus.ACCEPTED, permissions: { hasSome: delegating } }
+    : null;
+};
+
+/**
+ * Indica se o usuário recebeu a permissão como coorganizador de algum evento (ex: para as listagens, que são
+ * restritas aos eventos com a delegação).
+ */
+export const hasDelegatedPermission = async (
+  requester: Requester,
+  permission: Permission,
+  client: AppTransactionClient | Prisma.TransactionClient = prismaWithDeleted
+): Promise<boolean> => {
+  const filter = requester.userId ? getCoOrganizerFilter(requester.userId, permission) : null;
+  if (!filter) return false;
+  const grant = await client.eventCoOrganizer.findFirst({ where: filter, select: { id: true } });
+  return grant !== null;
+};
+
+/**
+ * Indica se quem consulta tem a permissão sobre o recurso, pelo papel ou como coorganizador do evento.
+ */
+export const canAccessResource = async (
+  requester: Requester,
+  permission: Permission,
+  resource: ProtectedResource,
+  client: AppTransactionClient | Prisma.TransactionClient = prismaWithDeleted
+): Promise<boolean> => {
+  const scope = getPermissionScope(requester.role, permission);
+  if (scope === 'all') return true;
+  if (!requester.userId) return false;
+  if (scope === 'own' && resource.creatorId === requester.userId) return true;
+
+  // Os escopos 'assigned' e as delegações de coorganizador valem apenas em recursos de um evento.
+  if (!resource.eventId) return false;
+  if (scope === 'assigned') {
+    const assignment = await client.eventStaff.findUnique({
+      where: { eventId_userId: { eventId: resource.eventId, userId: requester.userId } },
+      select: { id: true },
+    });
+    if (assignment) return true;
+  }
+
+  const filter = getCoOrganizerFilter(requester.userId, permission);
+  if (!filter) return false;
+  const grant = await client.eventCoOrganizer.findFirst({ where: { ...filter, eventId: resource.eventId }, select: { id: true } });
+  return grant !== null;
+};
+
+/**
+ * Indica se quem consulta tem a permissão sobre o evento (inclusive na lixeira). Falso se o evento não existir.
+ */
+export const canAccessEvent = async (
+  requester: Requester,
+  permission: Permission,
+  eventId: string,
+  client: AppTransactionClient | Prisma.TransactionClient = prismaWithDeleted
+): Promise<boolean> => {
+  const scope = getPermissionScope(requester.role, permission);
+  if (scope === 'all') return true;
+  if (!scope && getDelegatingPermissions(permission).length === 0) return false;
+
+  const event = await client.event.findUnique({ where: { id: eventId }, select: { creatorId: true } });
+  return event !== null && canAccessResource(requester, permission, { creatorId: event.creatorId, eventId }, client);
+};
+
+/**
+ * Filtro dos eventos em que quem consulta tem a permissão: vazio para o escopo 'all', ou null se não a tiver.
+ * @param options.coOrganizers Inclui os eventos em que a permissão foi delegada ao usuário como coorganizador (padrão).
+ */
+export const getEventAccessFilter = (
+  requester: Requester,
+  permission: Permission,
+  options: { coOrganizers?: boolean } = {}
+): Prisma.EventWhereInput | null => {
+  const scope = getPermissionScope(requester.role, permission);
+  if (scope === 'all') return {};
+  if (!requester.userId) return null;
+
+  const filters: Prisma.EventWhereInput[] = [];
+  if (scope === 'own') filters.push({ creatorId: requester.userId });
+  if (scope === 'assigned') filters.push({ staff: { some: { userId: requester.userId } } });
+  const coOrganizerFilter = (options.coOrganizers ?? true) ? getCoOrganizerFilter(requester.userId, permission) : null;
+  if (coOrganizerFilter) filters.push({ coOrganizers: { some: coOrganizerFilter } });
+
+  if (filters.length === 0) return null;
+  return filters.length === 1 ? filters[0] : { OR: filters };
+};
+
+/**
+ * Filtro dos eventos gerenciados pelo usuário: os que criou e os que coorganiza (convite aceito).
+ */
+export const getManagedEventsFilter = (userId: string): Prisma.EventWhereInput => ({
+  OR: [
+    { creatorId: userId },
+    { coOrganizers: { some: { userId, status: CoOrganizerStatus.ACCEPTED } } },
+  ],
+});
+
+/**
+ * Carrega o evento do parâmetro de rota informado (inclusive na lixeira, para as rotas de restauração).
+ */
+export const eventResource = (param = 'id'): ResourceLoader => ({
+  notFoundMessage: 'Evento não encontrado.',
+  async load(req) {
+    const event = await prismaWithDeleted.event.findUnique({ where: { id: req.params[param] }, select: { id: true, creatorId: true } });
+    return event && { creatorId: event.creatorId, eventId: event.id };
+  },
+});
+
+/**
+ * Carrega o evento da reserva do parâmetro de rota informado.
+ */
+export const reservationResource = (param = 'id'): ResourceLoader => ({
+  notFoundMessage: 'Reserva não encontrada.',
+  async load(req) {
+    const reservation = await prismaWithDeleted.reservation.findUnique({
+      where: { id: req.params[param] },
+      select: { event: { select: { id: true, creatorId: true } } },
+    });
+    return reservation && { creatorId: reservation.event.creatorId, eventId: reservation.event.id };
+  },
+});
+
+/**
+ * Carrega a série recorrente do parâmetro de rota informado.
+ */
+export const seriesResource = (param = 'id'): ResourceLoader => ({
+  notFoundMessage: 'Série não encontrada.',
+  async load(req) {
+    const series = await prismaWithDeleted.eventSeries.findUnique({ where: { id: req.params[param] }, select: { creatorId: true } });
+    return series && { creatorId: series.creatorId, eventId: null };
+  },
+});
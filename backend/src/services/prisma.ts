@@ -1,3 +1,57 @@
 import { PrismaClient } from '@prisma/client';
+import { ITXClientDenyList } from '@prisma/client/runtime/library';
 
-export const prisma = new PrismaClient();
+// Modelos com exclusão lógica (coluna `deletedAt`).
+const SOFT_DELETE_MODELS = ['Event', 'User'];
+
+// Leituras que ignoram registros excluídos logicamente, a menos que a consulta filtre `deletedAt` explicitamente.
+// Escritas não são filtradas: os controllers localizam o registro antes de alterá-lo, e o ciclo de vida das
+// reservas precisa continuar ajustando `availableSpots` de eventos que estão na lixeira.
+const SOFT_DELETE_FILTERED_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+];
+
+const baseClient = new PrismaClient();
+
+/**
+ * Cliente sem o filtro de exclusão lógica.
+ * Use apenas na lixeira (listar, restaurar e expurgar registros excluídos) e em verificações de unicidade.
+ */
+export const prismaWithDeleted = baseClient;
+
+/**
+ * Cliente padrão da aplicação: eventos e usuários excluídos logicamente (`deletedAt` preenchido)
+ * ficam invisíveis para todas as consultas. Para incluí-los, filtre `deletedAt` explicitamente
+ * (ex: `where: { deletedAt: { not: null } }`) ou use `prismaWithDeleted`.
+ * Relações incluídas (`include`) não são filtradas automaticamente.
+ */
+export const prisma = baseClient.$extends({
+  name: 'softDelete',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        if (SOFT_DELETE_MODELS.includes(model) && SOFT_DELETE_FILTERED_OPERATIONS.includes(operation)) {
+          const where = (args as { where?: Record<string, unknown> }).where;
+          if (!where || !('deletedAt' in where)) {
+            (args as { where?: Record<string, unknown> }).where = { ...where, deletedAt: null };
+          }
+        }
+        return query(args);
+      },
+    },
+  },
+});
+
+// Tipo do cliente padrão (com a extensão de exclusão lógica).
+export type AppPrismaClient = typeof prisma;
+
+// Cliente recebido pelas transações interativas de `prisma.$transaction`. Serviços que rodam dentro ou fora de uma
+// transação recebem este tipo, que também aceita o próprio `prisma`.
+export type AppTransactionClient = Omit<AppPrismaClient, ITXClientDenyList>;
@@ -0,0 +1,215 @@
+// backend/src/services/rateLimitStore.ts
+// Contadores com validade usados pelos limites de requisições (middlewares/rateLimit.ts) e pelo bloqueio de logins
+// (services/loginLockout.ts). O armazenamento é plugável: `RATE_LIMIT_DRIVER=redis` guarda os contadores no Redis,
+// compartilhados entre as instâncias do servidor; `memory` guarda em memória, no próprio processo. Sem
+// RATE_LIMIT_DRIVER, usa o Redis se REDIS_URL estiver definida e a memória caso contrário.
+// Ao contrário do cache, os limites não podem simplesmente deixar de valer: se o Redis estiver fora do ar, os
+// contadores passam a ficar em memória até a conexão ser restabelecida.
+
+import dotenv from 'dotenv';
+import { connectRedis, disconnectRedis, redisClient } from '../config/redis';
+
+dotenv.config();
+
+export type RateLimitDriver = 'redis' | 'memory';
+
+export interface RateLimitCounter {
+  count: number;
+  // Milissegundos até o contador expirar.
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  readonly driver: RateLimitDriver;
+  /**
+   * Incrementa o contador da chave. Um contador novo (ou expirado) começa em 1 e vale por `windowMs`;
+   * os incrementos seguintes não estendem a validade.
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+  /**
+   * @returns O contador da chave, ou null se ele não existir ou tiver expirado.
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+  /**
+   * Grava o contador com a validade informada, substituindo o atual.
+   */
+  set(key: string, count: number, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  // Inicia a conexão sem aguardá-la: o servidor sobe mesmo sem o armazenamento.
+  connect(): void;
+  disconnect(): Promise<void>;
+}
+
+// Intervalo mínimo entre os registros de erro do armazenamento no log.
+const ERROR_LOG_INTERVAL_MS = 60_000;
+
+const DEFAULT_MAX_ENTRIES = 100_000;
+
+/**
+ * Contadores no Redis, com a validade do próprio Redis.
+ */
+export const createRedisRateLimitStore = (client: typeof redisClient = redisClient): RateLimitStore => ({
+  driver: 'redis',
+
+  async hit(key, windowMs) {
+    // O SET com NX cria o contador com a validade da janela apenas se ele ainda não existir.
+    const [, count, ttl] = await client.multi().set(key, '0', { PX: windowMs, NX: true }).incr(key).pTTL(key).exec();
+    return { count: Number(count), resetMs: Math.max(Number(ttl), 0) };
+  },
+
+  async get(key) {
+    const [value, ttl] = await client.multi().get(key).pTTL(key).exec();
+    return value === null ? null : { count: Number(value), resetMs: Math.max(Number(ttl), 0) };
+  },
+
+  async set(key, count, ttlMs) {
+    await client.set(key, String(count), { PX: ttlMs });
+  },
+
+  async delete(keys) {
+    if (keys.length > 0) {
+      await client.del(keys);
+    }
+  },
+
+  connect: () => connectRedis(client),
+
+  disconnect: () => disconnectRedis(client),
+});
+
+interface MemoryCounter {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * Contadores em memória. Cada instância do servidor conta apenas as requisições que recebe.
+ * Com mais de `maxEntries` contadores, os expirados são descartados e, se ainda preciso, os mais antigos.
+ */
+export const createMemoryRateLimitStore = (maxEntries = DEFAULT_MAX_ENTRIES): RateLimitStore => {
+  const counters = new Map<string, MemoryCounter>();
+
+  const read = (key: string, now: number): MemoryCounter | null => {
+    const counter = counters.get(key);
+    if (counter && counter.expiresAt <= now) {
+      counters.delete(key);
+      return null;
+    }
+    return counter ?? null;
+  };
+
+  const write = (key: string, counter: MemoryCounter, now: number) => {
+    counters.set(key, counter);
+    if (counters.size <= maxEntries) {
+      return;
+    }
+    for (const [existingKey, existing] of counters) {
+      if (existing.expiresAt <= now) {
+        counters.delete(existingKey);
+      }
+    }
+    for (const oldestKey of counters.keys()) {
+      if (counters.size <= maxEntries) {
+        break;
+      }
+      counters.delete(oldestKey);
+    }
+  };
+
+  return {
+    driver: 'memory',
+
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const counter = read(key, now);
+      if (counter) {
+        counter.count++;
+        return { count: counter.count, resetMs: counter.expiresAt - now };
+      }
+      write(key, { count: 1, expiresAt: now + windowMs }, now);
+      return { count: 1, resetMs: windowMs };
+    },
+
+    async get(key) {
+      const now = Date.now();
+      const counter = read(key, now);
+      return counter ? { count: counter.count, resetMs: counter.expiresAt - now } : null;
+    },
+
+    async set(key, count, ttlMs) {
+      const now = Date.now();
+      counters.delete(key);
+      write(key, { count, expiresAt: now + ttlMs }, now);
+    },
+
+    async delete(keys) {
+      for (const key of keys) {
+        counters.delete(key);
+      }
+    },
+
+    connect() {},
+
+    async disconnect() {
+      counters.clear();
+    },
+  };
+};
+
+/**
+ * Usa `primary` e, quando ele falha (ex: Redis fora do ar), os contadores de `fallback`.
+ * Os contadores não são copiados entre os dois: na troca, cada chave recomeça do zero.
+ */
+export const withMemoryFallback = (
+  primary: RateLimitStore,
+  fallback: RateLimitStore = createMemoryRateLimitStore()
+): RateLimitStore => {
+  let lastErrorLoggedAt = 0;
+
+  const attempt = async <T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> => {
+    try {
+      return await operation(primary);
+    } catch (error) {
+      if (Date.now() - lastErrorLoggedAt >= ERROR_LOG_INTERVAL_MS) {
+        lastErrorLoggedAt = Date.now();
+        console.error(`Limites de requisições indisponíveis (${primary.driver}); contando em memória:`, error);
+      }
+      return operation(fallback);
+    }
+  };
+
+  return {
+    driver: primary.driver,
+    hit: (key, windowMs) => attempt((store) => store.hit(key, windowMs)),
+    get: (key) => attempt((store) => store.get(key)),
+    set: (key, count, ttlMs) => attempt((store) => store.set(key, count, ttlMs)),
+    delete: (keys) => attempt((store) => store.delete(keys)),
+    connect: () => primary.connect(),
+    async disconnect() {
+      await primary.disconnect();
+      await fallback.disconnect();
+    },
+  };
+};
+
+const RATE_LIMIT_DRIVER = process.env.RATE_LIMIT_DRIVER || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+if (RATE_LIMIT_DRIVER !== 'redis' && RATE_LIMIT_DRIVER !== 'memory') {
+  console.error(`ERRO: RATE_LIMIT_DRIVER inválido (${RATE_LIMIT_DRIVER}). Use "redis" ou "memory".`);
+  process.exit(1);
+}
+
+let rateLimitStore: RateLimitStore =
+  RATE_LIMIT_DRIVER === 'redis' ? withMemoryFallback(createRedisRateLimitStore()) : createMemoryRateLimitStore();
+
+/**
+ * Armazenamento em uso pelos limites de requisições.
+ */
+export const getRateLimitStore = (): RateLimitStore => rateLimitStore;
+
+/**
+ * Substitui o armazenamento dos limites de requisições (ex: outro armazenamento).
+ */
+export const setRateLimitStore = (newStore: RateLimitStore): void => {
+  rateLimitStore = newStore;
+};
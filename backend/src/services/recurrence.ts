@@ -0,0 +1,293 @@
+// backend/src/services/recurrence.ts
+// Regras de recorrência das séries de eventos: um subconjunto da RFC 5545 (RRULE).
+// Suporta FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (com ordinal na frequência mensal, ex: 1MO, -1FR),
+// BYMONTHDAY, COUNT e UNTIL. Semanas começam na segunda-feira (WKST=MO) e os cálculos são feitos em UTC.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface ByDay {
+  weekday: Weekday;
+  ordinal?: number; // Apenas na frequência mensal: 1 = primeira, -1 = última ocorrência do dia da semana no mês.
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: ByDay[];
+  byMonthDay: number[];
+  count?: number;
+  until?: Date;
+}
+
+// Limite de ocorrências materializadas por série.
+export const MAX_OCCURRENCES = 366;
+
+// Limite de períodos (dias, semanas ou meses) percorridos na expansão, contra regras que quase nunca casam.
+const MAX_PERIODS = 5000;
+
+// Índice = getUTCDay() (domingo = 0).
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parsePositiveInt = (value: string, name: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new Error(`${name} deve ser um número inteiro positivo.`);
+  }
+  return Number(value);
+};
+
+const parseByDay = (value: string, freq: RecurrenceFrequency): ByDay => {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) {
+    throw new Error(`Valor inválido em BYDAY: "${value}".`);
+  }
+  if (match[1] === undefined) {
+    return { weekday: match[2] as Weekday };
+  }
+  const ordinal = Number(match[1]);
+  if (freq !== 'MONTHLY') {
+    throw new Error('Ordinais em BYDAY (ex: 1MO, -1FR) só são aceitos com FREQ=MONTHLY.');
+  }
+  if (ordinal === 0 || Math.abs(ordinal) > 5) {
+    throw new Error(`Ordinal inválido em BYDAY: "${value}".`);
+  }
+  return { weekday: match[2] as Weekday, ordinal };
+};
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error('UNTIL deve estar no formato AAAAMMDD ou AAAAMMDDTHHMMSSZ.');
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  // Uma data sem horário inclui o dia inteiro.
+  const until = hour === undefined
+    ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59))
+    : new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  if (isNaN(until.getTime()) || until.getUTCDate() !== Number(day)) {
+    throw new Error('Data inválida em UNTIL.');
+  }
+  return until;
+};
+
+const formatUntil = (until: Date): string => {
+  return until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Interpreta uma regra de recorrência (ex: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10").
+ * O prefixo "RRULE:" é opcional. Lança um erro descritivo se a regra for inválida ou usar
+ * recursos fora do subconjunto suportado. Toda regra precisa de COUNT ou UNTIL, para que a série seja finita.
+ */
+export const parseRRule = (rrule: string): RecurrenceRule => {
+  const source = rrule.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of source.split(';')) {
+    if (!part) continue;
+    const [key, value, ...rest] = part.split('=');
+    if (!key || !value || rest.length > 0) {
+      throw new Error(`Trecho inválido na regra de recorrência: "${part}".`);
+    }
+    const name = key.trim().toUpperCase();
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new Error(`Parâmetro não suportado na regra de recorrência: ${name}.`);
+    }
+    if (parts.has(name)) {
+      throw new Error(`Parâmetro repetido na regra de recorrência: ${name}.`);
+    }
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error('FREQ é obrigatório e deve ser DAILY, WEEKLY ou MONTHLY.');
+  }
+
+  if (parts.has('WKST') && parts.get('WKST') !== 'MO') {
+    throw new Error('Apenas WKST=MO é suportado.');
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parsePositiveInt(parts.get('INTERVAL') ?? '1', 'INTERVAL'),
+    byDay: parts.has('BYDAY') ? parts.get('BYDAY')!.split(',').map((value) => parseByDay(value, freq)) : [],
+    byMonthDay: [],
+  };
+
+  if (parts.has('BYMONTHDAY')) {
+    if (freq !== 'MONTHLY') {
+      throw new Error('BYMONTHDAY só é aceito com FREQ=MONTHLY.');
+    }
+    rule.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map((value) => {
+      const day = Number(value);
+      if (!/^[+-]?\d{1,2}$/.test(value) || day === 0 || Math.abs(day) > 31) {
+        throw new Error(`Valor inválido em BYMONTHDAY: "${value}".`);
+      }
+      return day;
+    });
+  }
+
+  if (parts.has('COUNT')) {
+    rule.count = parsePositiveInt(parts.get('COUNT')!, 'COUNT');
+    if (rule.count > MAX_OCCURRENCES) {
+      throw new Error(`COUNT não pode exceder ${MAX_OCCURRENCES} ocorrências.`);
+    }
+  }
+  if (parts.has('UNTIL')) {
+    rule.until = parseUntil(parts.get('UNTIL')!);
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('COUNT e UNTIL não podem ser usados juntos.');
+  }
+  if (rule.count === undefined && rule.until === undefined) {
+    throw new Error('A regra de recorrência deve ter COUNT ou UNTIL.');
+  }
+
+  return rule;
+};
+
+/**
+ * Serializa uma regra no formato RRULE (sem o prefixo "RRULE:").
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+};
+
+const startOfUtcDay = (date: Date): number => {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+// Dias do mês (1..N) que casam com BYDAY/BYMONTHDAY; sem nenhum dos dois, o dia do mês de `dtstart`.
+const monthDays = (rule: RecurrenceRule, year: number, month: number, dtstart: Date): number[] => {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+
+  let days: number[] | null = null;
+
+  if (rule.byDay.length > 0) {
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const firstMatch = 1 + ((WEEKDAYS.indexOf(weekday) - firstWeekday + 7) % 7);
+      const matches: number[] = [];
+      for (let day = firstMatch; day <= daysInMonth; day += 7) {
+        matches.push(day);
+      }
+      if (ordinal === undefined) {
+        days.push(...matches);
+      } else {
+        const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    const byMonthDay = rule.byMonthDay
+      .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+      .filter((day) => day >= 1 && day <= daysInMonth);
+    // Com BYDAY e BYMONTHDAY juntos, valem apenas os dias que casam com ambos.
+    days = days === null ? byMonthDay : days.filter((day) => byMonthDay.includes(day));
+  }
+
+  if (days === null) {
+    const day = dtstart.getUTCDate();
+    days = day <= daysInMonth ? [day] : []; // Meses sem esse dia (ex: dia 31) são pulados, como na RFC 5545.
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+// Início do período de índice `period` e as datas candidatas dentro dele, em ordem.
+const periodCandidates = (rule: RecurrenceRule, dtstart: Date, period: number): { start: number; dates: number[] } => {
+  const firstDay = startOfUtcDay(dtstart);
+  const timeOfDay = dtstart.getTime() - firstDay;
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    const day = firstDay + step * DAY_MS;
+    const weekday = WEEKDAYS[new Date(day).getUTCDay()];
+    const matches = rule.byDay.length === 0 || rule.byDay.some((byDay) => byDay.weekday === weekday);
+    return { start: day, dates: matches ? [day + timeOfDay] : [] };
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+    const weekStart = firstDay - mondayOffset * DAY_MS + step * 7 * DAY_MS;
+    const offsets = rule.byDay.length > 0
+      ? rule.byDay.map((byDay) => (WEEKDAYS.indexOf(byDay.weekday) + 6) % 7)
+      : [mondayOffset];
+    const dates = Array.from(new Set(offsets))
+      .sort((a, b) => a - b)
+      .map((offset) => weekStart + offset * DAY_MS + timeOfDay);
+    return { start: weekStart, dates };
+  }
+
+  const year = dtstart.getUTCFullYear();
+  const month = dtstart.getUTCMonth() + step;
+  const monthStart = Date.UTC(year, month, 1);
+  const normalized = new Date(monthStart);
+  const dates = monthDays(rule, normalized.getUTCFullYear(), normalized.getUTCMonth(), dtstart)
+    .map((day) => Date.UTC(normalized.getUTCFullYear(), normalized.getUTCMonth(), day) + timeOfDay);
+  return { start: monthStart, dates };
+};
+
+/**
+ * Gera as datas das ocorrências de uma regra a partir de `dtstart`, em ordem cronológica.
+ * Todas as ocorrências mantêm o horário de `dtstart`. Como na RFC 5545, COUNT conta as ocorrências
+ * antes da remoção das exceções (`exdates`).
+ * Lança um erro se a regra gerar mais de MAX_OCCURRENCES ocorrências.
+ */
+export const expandRRule = (rule: RecurrenceRule, dtstart: Date, exdates: Date[] = []): Date[] => {
+  const generated: number[] = [];
+  const limit = rule.count ?? Infinity;
+
+  expansion:
+  for (let period = 0; period < MAX_PERIODS && generated.length < limit; period++) {
+    const { start, dates } = periodCandidates(rule, dtstart, period);
+    if (rule.until && start > rule.until.getTime()) {
+      break;
+    }
+    for (const date of dates) {
+      if (date < dtstart.getTime()) continue;
+      if (rule.until && date > rule.until.getTime()) break expansion;
+      generated.push(date);
+      if (generated.length >= limit) break expansion;
+      if (generated.length > MAX_OCCURRENCES) {
+        throw new Error(`A série não pode ter mais de ${MAX_OCCURRENCES} ocorrências.`);
+      }
+    }
+  }
+
+  const excluded = new Set(exdates.map((date) => date.getTime()));
+  return generated.filter((date) => !excluded.has(date)).map((date) => new Date(date));
+};
+
+/**
+ * Divide uma regra em `splitAt` (uma ocorrência posterior a `dtstart`), para a edição "esta e as seguintes":
+ * `head` gera as ocorrências anteriores a `splitAt` a partir de `dtstart`; `tail` gera as demais a partir de `splitAt`.
+ */
+export const splitRRule = (rule: RecurrenceRule, dtstart: Date, splitAt: Date): { head: RecurrenceRule; tail: RecurrenceRule } => {
+  if (rule.count !== undefined) {
+    const before = expandRRule(rule, dtstart).filter((date) => date < splitAt).length;
+    return {
+      head: { ...rule, count: before },
+      tail: { ...rule, count: rule.count - before },
+    };
+  }
+
+  return {
+    head: { ...rule, until: new Date(splitAt.getTime() - 1000) },
+    tail: { ...rule },
+  };
+};
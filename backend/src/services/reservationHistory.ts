@@ -0,0 +1,48 @@
+// backend/src/services/reservationHistory.ts
+// Registro do histórico de transições de status das reservas (tabela reservation_history).
+
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+
+interface HistoryEntryInput {
+  reservationId: string;
+  fromStatus: ReservationStatus | null;
+  toStatus: ReservationStatus;
+  changedById?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Grava uma linha no histórico de uma reserva.
+ * Use `fromStatus: null` para registrar a criação da reserva.
+ * @param tx Cliente de transação do Prisma (o histórico deve ser gravado junto com a mudança).
+ * @param entry Dados da transição.
+ */
+export const recordReservationHistory = async (tx: AppTransactionClient, entry: HistoryEntryInput) => {
+  return tx.reservationHistory.create({
+    data: {
+      reservationId: entry.reservationId,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      changedById: entry.changedById ?? null,
+      reason: entry.reason ?? null,
+    },
+  });
+};
+
+/**
+ * Grava em uma única inserção o histórico de várias reservas (transições em lote, ex: cancelamento de um evento).
+ * @param tx Cliente de transação do Prisma.
+ * @param entries Dados das transições.
+ */
+export const recordReservationHistoryMany = async (tx: AppTransactionClient, entries: HistoryEntryInput[]) => {
+  return tx.reservationHistory.createMany({
+    data: entries.map((entry) => ({
+      reservationId: entry.reservationId,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      changedById: entry.changedById ?? null,
+      reason: entry.reason ?? null,
+    })),
+  });
+};
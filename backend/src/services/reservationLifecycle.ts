@@ -0,0 +1,173 @@
+// backend/src/services/reservationLifecycle.ts
+// Ciclo de vida das reservas: transições de status permitidas, contabilidade de assentos e histórico.
+// Toda mudança de status de uma reserva deve passar por `transitionReservation`.
+
+import { EventStatus, Prisma, ReservationStatus } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+import { promoteFromWaitlist } from './waitlist';
+import { recordReservationHistory } from './reservationHistory';
+import { removeSessionEnrollments } from './eventSessions';
+import { getModeAvailableSpots, lockEventSeats, seatsUpdate } from './attendance';
+
+// Status em que a reserva ainda está "em aberto". Um usuário só pode ter uma reserva ativa por evento
+// (garantido também pelo índice único parcial "Reservation_active_event_user_key").
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+];
+
+// Status que ocupam assentos do evento. Sair de um destes para um status fora da lista devolve os assentos.
+export const SEAT_HOLDING_STATUSES: ReservationStatus[] = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.ATTENDED,
+  ReservationStatus.NO_SHOW,
+];
+
+// Mapa de transições permitidas: status de origem -> status de destino aceitos.
+export const RESERVATION_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  [ReservationStatus.PENDING]: [ReservationStatus.CONFIRMED, ReservationStatus.CANCELED, ReservationStatus.EXPIRED],
+  [ReservationStatus.CONFIRMED]: [ReservationStatus.CANCELED, ReservationStatus.ATTENDED, ReservationStatus.NO_SHOW],
+  [ReservationStatus.CANCELED]: [],
+  [ReservationStatus.ATTENDED]: [],
+  [ReservationStatus.NO_SHOW]: [ReservationStatus.ATTENDED],
+  [ReservationStatus.EXPIRED]: [],
+};
+
+// Transições adicionais permitidas apenas a quem gerencia as reservas do evento (permissão 'reservation:update': admins e o
+// organizador), ex: reativar uma reserva cancelada por engano.
+export const ADMIN_RESERVATION_TRANSITIONS: Partial<Record<ReservationStatus, ReservationStatus[]>> = {
+  [ReservationStatus.CANCELED]: [ReservationStatus.CONFIRMED],
+  [ReservationStatus.EXPIRED]: [ReservationStatus.CONFIRMED],
+  [ReservationStatus.ATTENDED]: [ReservationStatus.NO_SHOW],
+};
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  [ReservationStatus.PENDING]: 'pendente',
+  [ReservationStatus.CONFIRMED]: 'confirmada',
+  [ReservationStatus.CANCELED]: 'cancelada',
+  [ReservationStatus.ATTENDED]: 'com presença registrada',
+  [ReservationStatus.NO_SHOW]: 'marcada como ausente',
+  [ReservationStatus.EXPIRED]: 'expirada',
+};
+
+/**
+ * Indica se a transição `from -> to` é permitida.
+ * @param asAdmin Se verdadeiro, considera também as transições exclusivas de administradores.
+ */
+export const canTransition = (from: ReservationStatus, to: ReservationStatus, asAdmin = false): boolean => {
+  if (RESERVATION_TRANSITIONS[from].includes(to)) {
+    return true;
+  }
+  return asAdmin && (ADMIN_RESERVATION_TRANSITIONS[from] ?? []).includes(to);
+};
+
+/**
+ * Lança um erro descritivo se a transição `from -> to` não for permitida.
+ * @param asAdmin Se verdadeiro, considera também as transições exclusivas de administradores.
+ */
+export const assertTransition = (from: ReservationStatus, to: ReservationStatus, asAdmin = false): void => {
+  if (from === to) {
+    throw new Error(`Esta reserva já está ${STATUS_LABELS[to]}.`);
+  }
+  if (!canTransition(from, to, asAdmin)) {
+    throw new Error(`Não é possível alterar uma reserva ${STATUS_LABELS[from]} para ${STATUS_LABELS[to]}.`);
+  }
+};
+
+interface TransitionOptions {
+  changedById?: string | null;
+  reason?: string | null;
+  asAdmin?: boolean; // Libera as transições de ADMIN_RESERVATION_TRANSITIONS.
+}
+
+/**
+ * Aplica uma transição de status a uma reserva, dentro de uma transação:
+ * valida a regra de transição, ajusta as vagas da modalidade da reserva quando ela passa a ocupar
+ * ou deixa de ocupar assentos, promove a lista de espera quando assentos são devolvidos
+ * (liberando também as sessões da agenda escolhidas com a reserva) e grava a transição em reservation_history.
+ * @param tx Cliente de transação do Prisma.
+ * @param reservationId ID da reserva.
+ * @param toStatus Novo status.
+ * @param options Autor e motivo da transição.
+ * @returns A reserva atualizada.
+ */
+export const transitionReservation = async (
+  tx: AppTransactionClient,
+  reservationId: string,
+  toStatus: ReservationStatus,
+  options: TransitionOptions = {}
+) => {
+  const reservation = await tx.reservation.findUnique({
+    where: { id: reservationId },
+    select: { id: true, eventId: true, userId: true, status: true, quantity: true, attendanceMode: true },
+  });
+
+  if (!reservation) {
+    throw new Error('Reserva não encontrada.');
+  }
+
+  assertTransition(reservation.status, toStatus, options.asAdmin);
+
+  const heldSeats = SEAT_HOLDING_STATUSES.includes(reservation.status);
+  const holdsSeats = SEAT_HOLDING_STATUSES.includes(toStatus);
+
+  // Reativar uma reserva não pode gerar uma segunda reserva ativa do mesmo usuário no evento.
+  if (!ACTIVE_RESERVATION_STATUSES.includes(reservation.status) && ACTIVE_RESERVATION_STATUSES.includes(toStatus)) {
+    const otherActive = await tx.reservation.findFirst({
+      where: {
+        id: { not: reservation.id },
+        eventId: reservation.eventId,
+        userId: reservation.userId,
+        status: { in: ACTIVE_RESERVATION_STATUSES },
+      },
+      select: { id: true },
+    });
+    if (otherActive) {
+      throw new Error('O usuário já possui outra reserva ativa para este evento.');
+    }
+  }
+
+  if (!heldSeats && holdsSeats) {
+    await lockEventSeats(tx, reservation.eventId);
+    const event = await tx.event.findUnique({
+      where: { id: reservation.eventId },
+      select: { availableSpots: true, onlineAvailableSpots: true, status: true },
+    });
+    if (!event || event.status !== EventStatus.PUBLISHED) {
+      throw new Error('O evento desta reserva não está aberto para reservas.');
+    }
+    if (getModeAvailableSpots(event, reservation.attendanceMode) < reservation.quantity) {
+      throw new Error('Não há vagas suficientes no evento para esta reserva.');
+    }
+    await tx.event.update({
+      where: { id: reservation.eventId },
+      data: seatsUpdate(reservation.attendanceMode, 'decrement', reservation.quantity),
+    });
+  }
+
+  const updatedReservation = await tx.reservation.update({
+    where: { id: reservationId },
+    data: { status: toStatus },
+  });
+
+  await recordReservationHistory(tx, {
+    reservationId,
+    fromStatus: reservation.status,
+    toStatus,
+    changedById: options.changedById,
+    reason: options.reason,
+  });
+
+  if (heldSeats && !holdsSeats) {
+    await removeSessionEnrollments(tx, reservationId, reservation.quantity);
+    await tx.event.update({
+      where: { id: reservation.eventId },
+      data: seatsUpdate(reservation.attendanceMode, 'increment', reservation.quantity),
+    });
+    // Os assentos devolvidos vão para o primeiro da lista de espera, na mesma transação.
+    await promoteFromWaitlist(tx, reservation.eventId);
+  }
+
+  return updatedReservation;
+};
@@ -0,0 +1,81 @@
+// backend/src/services/scheduler.ts
+// Tarefas periódicas executadas em segundo plano pelo servidor:
+// publicação agendada de eventos, expurgo da lixeira e limpeza das sessões de login antigas.
+
+import { invalidateEventCache } from './eventCache';
+import { publishScheduledEvents } from './eventLifecycle';
+import { purgeExpiredTrash } from './trash';
+import { purgeStaleSessions } from './userSessions';
+
+// Intervalo entre as execuções, em milissegundos (padrão: 1 minuto).
+const SCHEDULER_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 60_000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Executa uma rodada das tarefas agendadas e invalida o cache dos eventos alterados.
+ * Rodadas não se sobrepõem: se a anterior ainda estiver em andamento, esta é ignorada.
+ * Uma tarefa com falha não impede as demais.
+ */
+export const runScheduledTasks = async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    try {
+      const published = await publishScheduledEvents();
+      if (published.length > 0) {
+        await invalidateEventCache(published);
+        console.log(`Eventos publicados pelo agendamento: ${published.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Erro ao publicar eventos agendados:', error);
+    }
+
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged.releasedEventIds.length > 0) {
+        await invalidateEventCache(purged.releasedEventIds, { lists: false });
+      }
+      if (purged.events > 0 || purged.users > 0) {
+        console.log(`Lixeira expurgada: ${purged.events} evento(s), ${purged.users} usuário(s).`);
+      }
+    } catch (error) {
+      console.error('Erro ao expurgar a lixeira:', error);
+    }
+
+    try {
+      const purged = await purgeStaleSessions();
+      if (purged > 0) {
+        console.log(`Sessões encerradas ou expiradas apagadas: ${purged}.`);
+      }
+    } catch (error) {
+      console.error('Erro ao apagar sessões antigas:', error);
+    }
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Inicia o agendador. Executa uma rodada imediatamente e depois a cada intervalo.
+ */
+export const startScheduler = () => {
+  if (timer) {
+    return;
+  }
+  runScheduledTasks();
+  timer = setInterval(runScheduledTasks, SCHEDULER_INTERVAL_MS);
+};
+
+/**
+ * Interrompe o agendador (usado no encerramento do servidor).
+ */
+export const stopScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
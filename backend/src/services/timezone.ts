@@ -0,0 +1,84 @@
+// backend/src/services/timezone.ts
+// Conversões entre instantes (UTC) e horários de parede em um fuso IANA, usando apenas a API Intl.
+// Um "horário de parede" é representado por um Date cujos campos UTC (getUTCHours etc.) são o horário local no fuso.
+
+// Fuso usado quando o evento ou o filtro não informam um.
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Indica se o identificador é um fuso IANA reconhecido (ex: "America/Sao_Paulo", "UTC").
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Diferença, em ms, entre o horário de parede no fuso e o UTC no instante informado (ex: -3h em São Paulo).
+ */
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)!.value);
+  const wallTime = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallTime - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+/**
+ * Converte um instante no horário de parede do fuso.
+ */
+export const toZonedTime = (instant: Date, timeZone: string): Date => {
+  return new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone));
+};
+
+/**
+ * Converte um horário de parede do fuso no instante correspondente.
+ * O deslocamento é recalculado no instante estimado para acertar as datas de mudança de horário de verão;
+ * horários inexistentes (no salto do relógio) caem no deslocamento posterior à mudança.
+ */
+export const fromZonedTime = (wallTime: Date, timeZone: string): Date => {
+  const estimate = wallTime.getTime() - getTimeZoneOffset(wallTime, timeZone);
+  return new Date(wallTime.getTime() - getTimeZoneOffset(new Date(estimate), timeZone));
+};
+
+/**
+ * Intervalo [início, fim) de um dia do calendário ("AAAA-MM-DD") no fuso informado.
+ * @returns Os instantes de início e fim do dia, ou null se a data for inválida.
+ */
+export const getZonedDayRange = (day: string, timeZone: string): { start: Date; end: Date } | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return null;
+
+  const wallStart = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (wallStart.getUTCDate() !== Number(match[3])) return null;
+
+  return {
+    start: fromZonedTime(wallStart, timeZone),
+    end: fromZonedTime(new Date(wallStart.getTime() + DAY_MS), timeZone),
+  };
+};
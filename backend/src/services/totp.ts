@@ -0,0 +1,122 @@
+// backend/src/services/totp.ts
+// Códigos de uso único baseados em tempo (TOTP, RFC 6238), compatíveis com os aplicativos autenticadores
+// (Google Authenticator, Authy, 1Password etc.): HMAC-SHA1, códigos de 6 dígitos e intervalos de 30 segundos.
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+// Intervalos vizinhos aceitos, para tolerar a diferença entre o relógio do servidor e o do celular.
+const ALLOWED_DRIFT_STEPS = 1;
+
+// Nome exibido no aplicativo autenticador.
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Gerenciador de Eventos';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const encodeBase32 = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const decodeBase32 = (encoded: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Segredo TOTP inválido.');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// Código HOTP (RFC 4226) do contador informado.
+const generateHotp = (key: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+/**
+ * Intervalo de 30 segundos em que cai o instante informado.
+ */
+export const getTotpStep = (now: Date = new Date()): number => Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+
+/**
+ * Gera um segredo aleatório de 160 bits, em base32 (o formato digitado ou lido pelos aplicativos).
+ */
+export const generateTotpSecret = (): string => encodeBase32(crypto.randomBytes(20));
+
+/**
+ * Código do segredo no intervalo informado.
+ */
+export const generateTotpCode = (secret: string, step: number = getTotpStep()): string => {
+  return generateHotp(decodeBase32(secret), step);
+};
+
+/**
+ * URI de provisionamento (otpauth://), lida pelos aplicativos a partir do QR code.
+ */
+export const getTotpUri = (secret: string, accountName: string): string => {
+  // encodeURIComponent em vez de URLSearchParams: alguns aplicativos exibem o "+" dos espaços literalmente.
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const issuer = encodeURIComponent(TOTP_ISSUER);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+};
+
+/**
+ * Verifica um código contra o segredo, aceitando os intervalos vizinhos.
+ * @param afterStep Último intervalo já usado: códigos desse intervalo ou de anteriores são recusados (reutilização).
+ * @returns O intervalo do código, ou null se ele não for válido.
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  afterStep: number | null = null,
+  now: Date = new Date()
+): number | null => {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) {
+    return null;
+  }
+  const key = decodeBase32(secret);
+  const currentStep = getTotpStep(now);
+  for (let step = currentStep - ALLOWED_DRIFT_STEPS; step <= currentStep + ALLOWED_DRIFT_STEPS; step++) {
+    if (afterStep !== null && step <= afterStep) {
+      continue;
+    }
+    const expected = Buffer.from(generateHotp(key, step));
+    // Comparação em tempo constante para não vazar informação sobre o código.
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,66 @@
+// backend/src/services/trash.ts
+// Lixeira: prazo de retenção dos registros excluídos logicamente e expurgo definitivo após o prazo.
+
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { AppTransactionClient, prisma, prismaWithDeleted } from './prisma';
+import { ACTIVE_RESERVATION_STATUSES, transitionReservation } from './reservationLifecycle';
+
+// Dias que um evento ou usuário excluído permanece na lixeira antes de ser apagado definitivamente.
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Data a partir da qual um registro excluído em `deletedAt` será expurgado.
+ */
+export const getPurgeDate = (deletedAt: Date): Date => {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+};
+
+/**
+ * Indica se um registro excluído ainda está dentro do prazo de restauração.
+ */
+export const isWithinRetention = (deletedAt: Date, now: Date = new Date()): boolean => {
+  return getPurgeDate(deletedAt) > now;
+};
+
+/**
+ * Apaga definitivamente os eventos e usuários cuja retenção na lixeira expirou.
+ * Eventos são expurgados primeiro (levando reservas, lista de espera e histórico em cascata), junto com
+ * as séries recorrentes que ficaram sem ocorrências; usuários que ainda são criadores de algum evento
+ * ou série ficam para uma próxima rodada. As reservas ativas dos usuários expurgados, preservadas na exclusão lógica,
+ * são canceladas antes, devolvendo as vagas e promovendo a lista de espera dos eventos.
+ * @returns Quantidade de eventos e usuários expurgados e os eventos que tiveram vagas devolvidas.
+ */
+export const purgeExpiredTrash = async (now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  const events = await prismaWithDeleted.event.deleteMany({
+    where: { deletedAt: { lt: cutoff } },
+  });
+
+  if (events.count > 0) {
+    await prismaWithDeleted.eventSeries.deleteMany({ where: { events: { none: {} } } });
+  }
+
+  const expiredUsers: Prisma.UserWhereInput = { deletedAt: { lt: cutoff }, events: { none: {} }, eventSeries: { none: {} } };
+
+  const reservations = await prismaWithDeleted.reservation.findMany({
+    where: { user: expiredUsers, status: { in: ACTIVE_RESERVATION_STATUSES } },
+    select: { id: true, eventId: true },
+  });
+  for (const reservation of reservations) {
+    // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+    await prisma.$transaction(async (tx: AppTransactionClient) => {
+      await transitionReservation(tx, reservation.id, ReservationStatus.CANCELED, { reason: 'Usuário expurgado da lixeira.' });
+    });
+  }
+
+  const users = await prismaWithDeleted.user.deleteMany({ where: expiredUsers });
+
+  return {
+    events: events.count,
+    users: users.count,
+    releasedEventIds: [...new Set(reservations.map((reservation) => reservation.eventId))],
+  };
+};
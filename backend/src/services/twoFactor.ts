@@ -0,0 +1,181 @@
+// backend/src/services/twoFactor.ts
+// Verificação em duas etapas: além da senha, um código TOTP do aplicativo autenticador (services/totp.ts) ou um código
+// de recuperação. Opcional para os usuários e obrigatória para os administradores.
+// - Login em duas etapas: com a senha correta, o login devolve um token de desafio curto (CHALLENGE_EXPIRES_IN) em vez
+//   da sessão; a sessão só é aberta quando o código é apresentado junto com o desafio.
+// - Ativação: um segredo novo fica pendente (`totpSecret` sem `totpEnabledAt`) até o primeiro código ser confirmado;
+//   nesse momento são gerados os códigos de recuperação, exibidos uma única vez.
+
+import { createHash, randomBytes } from 'crypto';
+import { Role } from '@prisma/client';
+import QRCode from 'qrcode';
+import { generateToken, verifyToken } from '../config/jwt';
+import { AppTransactionClient, prisma } from './prisma';
+import { generateTotpSecret, getTotpUri, verifyTotpCode } from './totp';
+
+// Validade do token de desafio do login em duas etapas.
+const CHALLENGE_EXPIRES_IN = '5m';
+const CHALLENGE_PURPOSE = 'two-factor';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeSvg: string;
+}
+
+// Os códigos são exibidos como "xxxxx-xxxxx"; hífens, espaços e maiúsculas são ignorados na digitação.
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string): string => createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Indica se o login do usuário exige a segunda etapa: sempre para administradores, e para quem a ativou.
+ */
+export const requiresTwoFactor = (user: { role: Role; totpEnabledAt: Date | null }): boolean => {
+  return user.role === Role.ADMIN || user.totpEnabledAt !== null;
+};
+
+/**
+ * Emite o token de desafio entregue após a senha correta, trocado pela sessão na segunda etapa.
+ */
+export const issueTwoFactorChallenge = (userId: string): string => {
+  return generateToken({ id: userId, purpose: CHALLENGE_PURPOSE }, CHALLENGE_EXPIRES_IN);
+};
+
+/**
+ * @returns O ID do usuário do desafio, ou null se o token for inválido, expirado ou de outro tipo.
+ */
+export const verifyTwoFactorChallenge = (challengeToken: string): string | null => {
+  try {
+    const decoded = verifyToken(challengeToken);
+    return decoded.purpose === CHALLENGE_PURPOSE && typeof decoded.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Gera um novo segredo pendente para o usuário, substituindo um pendente anterior.
+ * @returns O segredo, a URI de provisionamento e o QR code (SVG) para o aplicativo autenticador, ou null se a
+ * verificação já estiver ativa.
+ */
+export const startTotpEnrollment = async (user: { id: string; email: string }): Promise<TotpEnrollment | null> => {
+  const secret = generateTotpSecret();
+  const updated = await prisma.user.updateMany({
+    where: { id: user.id, totpEnabledAt: null },
+    data: { totpSecret: secret, totpLastUsedStep: null },
+  });
+  if (updated.count === 0) {
+    return null;
+  }
+
+  const otpauthUri = getTotpUri(secret, user.email);
+  const qrCodeSvg = await QRCode.toString(otpauthUri, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+  return { secret, otpauthUri, qrCodeSvg };
+};
+
+/**
+ * Substitui os códigos de recuperação do usuário por novos.
+ * @returns Os códigos, a serem exibidos uma única vez (o banco guarda apenas o hash).
+ */
+export const generateRecoveryCodes = async (
+  userId: string,
+  client: AppTransactionClient = prisma
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  await client.recoveryCode.deleteMany({ where: { userId } });
+  await client.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+  return codes;
+};
+
+/**
+ * Ativa a verificação em duas etapas se o código conferir com o segredo pendente.
+ * @returns Os códigos de recuperação gerados, ou null se não houver segredo pendente ou o código for inválido.
+ */
+export const confirmTotpEnrollment = async (userId: string, code: string, now: Date = new Date()): Promise<string[] | null> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { totpSecret: true, totpEnabledAt: true } });
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    return null;
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code, null, now);
+  if (step === null) {
+    return null;
+  }
+
+  // @ts-ignore: Tipagem de `tx` em `$transaction` pode ser problemática.
+  return prisma.$transaction(async (tx: AppTransactionClient) => {
+    // A ativação é condicional: o segredo pode ter sido trocado por outra configuração enquanto isso.
+    const enabled = await tx.user.updateMany({
+      where: { id: userId, totpSecret: user.totpSecret, totpEnabledAt: null },
+      data: { totpEnabledAt: now, totpLastUsedStep: step },
+    });
+    if (enabled.count === 0) {
+      return null;
+    }
+    return generateRecoveryCodes(userId, tx);
+  });
+};
+
+/**
+ * Verifica o código da segunda etapa de um usuário com a verificação ativa: um código TOTP ainda não usado ou um
+ * código de recuperação, que deixa de valer.
+ */
+export const verifySecondFactor = async (userId: string, code: string, now: Date = new Date()): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+  });
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  // Códigos TOTP têm 6 dígitos; os de recuperação, 10 caracteres.
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotpCode(user.totpSecret, trimmed, user.totpLastUsedStep, now);
+    if (step === null) {
+      return false;
+    }
+    // Registro condicional do intervalo: duas requisições com o mesmo código não passam ambas.
+    const accepted = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    });
+    return accepted.count === 1;
+  }
+
+  const used = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(trimmed), usedAt: null },
+    data: { usedAt: now },
+  });
+  return used.count === 1;
+};
+
+/**
+ * Quantidade de códigos de recuperação ainda não usados.
+ */
+export const countRemainingRecoveryCodes = (userId: string): Promise<number> => {
+  return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+};
+
+/**
+ * Desativa a verificação em duas etapas, apagando o segredo e os códigos de recuperação.
+ */
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    }),
+  ]);
+};
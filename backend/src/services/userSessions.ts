@@ -0,0 +1,201 @@
+// backend/src/services/userSessions.ts
+// Sessões de login: tokens de acesso curtos (JWT) renovados com refresh tokens guardados no servidor.
+// - O refresh token tem o formato "<id da sessão>.<segredo>"; o banco guarda apenas o hash do segredo.
+// - Cada renovação troca o refresh token (rotação). Reapresentar um token já trocado indica que ele vazou: a sessão
+//   é encerrada, e tanto quem o roubou quanto o dono precisam entrar novamente.
+// - O token de acesso carrega o ID da sessão (`sid`): encerrar a sessão invalida também os tokens de acesso já emitidos.
+
+import { Request } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { Prisma, Role, SessionRevokeReason } from '@prisma/client';
+import { generateToken } from '../config/jwt';
+import { AppTransactionClient, prisma } from './prisma';
+
+// Validade do token de acesso (formato do jsonwebtoken, ex: '15m').
+export const ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+
+// Dias sem renovação após os quais a sessão expira.
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// Janela em que o refresh token anterior ainda é reconhecido como uma renovação simultânea (ex: duas abas
+// renovando ao mesmo tempo) em vez de reutilização.
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Campos das sessões exibidos ao usuário.
+export const SESSION_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const;
+
+/**
+ * Dispositivo e IP de onde vem a requisição, registrados na sessão.
+ */
+export const getSessionClient = (req: Request): SessionClient => ({
+  userAgent: req.get('user-agent')?.slice(0, 255) || null,
+  ipAddress: req.ip || null,
+});
+
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+const generateSecret = (): string => randomBytes(32).toString('base64url');
+
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  return sessionId && secret && rest.length === 0 ? { sessionId, secret } : null;
+};
+
+const getExpiresAt = (now: Date): Date => new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+
+const issueAccessToken = (user: { id: string; role: Role }, sessionId: string): string => {
+  return generateToken({ id: user.id, role: user.role, sid: sessionId }, ACCESS_TOKEN_EXPIRES_IN);
+};
+
+/**
+ * Abre uma sessão para o usuário (login ou cadastro) e emite os seus tokens.
+ */
+export const createSession = async (user: { id: string; role: Role }, client: SessionClient): Promise<IssuedTokens> => {
+  const secret = generateSecret();
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashSecret(secret),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: getExpiresAt(new Date()),
+    },
+    select: { id: true },
+  });
+  return { token: issueAccessToken(user, session.id), refreshToken: `${session.id}.${secret}` };
+};
+
+/**
+ * Troca um refresh token válido por um novo par de tokens.
+ * Um token já trocado encerra a sessão (exceto logo após a troca, quando é tratado como uma renovação simultânea).
+ * @returns Os novos tokens, ou a mensagem de erro se o token não puder ser renovado.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  client: SessionClient,
+  now: Date = new Date()
+): Promise<{ tokens: IssuedTokens } | { error: string }> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { error: 'Refresh token inválido.' };
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: parsed.sessionId },
+    include: { user: { select: { id: true, role: true, deletedAt: true } } },
+  });
+  // Relações incluídas não passam pelo filtro de exclusão lógica: usuários na lixeira são recusados aqui.
+  if (!session || session.user.deletedAt) {
+    return { error: 'Refresh token inválido.' };
+  }
+  if (session.revokedAt) {
+    return { error: 'Sessão encerrada. Faça login novamente.' };
+  }
+  if (session.expiresAt <= now) {
+    return { error: 'Sessão expirada. Faça login novamente.' };
+  }
+
+  const presentedHash = hashSecret(parsed.secret);
+  const secret = generateSecret();
+
+  // A troca só acontece se o token apresentado ainda for o atual: duas renovações com o mesmo token não passam ambas.
+  const rotated = await prisma.userSession.updateMany({
+    where: { id: session.id, tokenHash: presentedHash, revokedAt: null },
+    data: {
+      tokenHash: hashSecret(secret),
+      previousTokenHash: presentedHash,
+      lastUsedAt: now,
+      expiresAt: getExpiresAt(now),
+      ipAddress: client.ipAddress,
+    },
+  });
+  if (rotated.count === 1) {
+    return { tokens: { token: issueAccessToken(session.user, session.id), refreshToken: `${session.id}.${secret}` } };
+  }
+
+  const current = await prisma.userSession.findUnique({
+    where: { id: session.id },
+    select: { previousTokenHash: true, lastUsedAt: true },
+  });
+  if (current?.previousTokenHash === presentedHash && now.getTime() - current.lastUsedAt.getTime() <= ROTATION_GRACE_MS) {
+    return { error: 'Refresh token já renovado por outra requisição.' };
+  }
+
+  await revokeSessions({ id: session.id }, SessionRevokeReason.REUSE_DETECTED, now);
+  console.warn(`Reutilização de refresh token detectada; sessão ${session.id} do usuário ${session.userId} encerrada.`);
+  return { error: 'Refresh token reutilizado. Por segurança, a sessão foi encerrada.' };
+};
+
+/**
+ * Encerra a sessão do refresh token informado (logout). Tokens inválidos são ignorados.
+ */
+export const revokeSessionByToken = async (refreshToken: string): Promise<void> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return;
+  }
+  const presentedHash = hashSecret(parsed.secret);
+  await revokeSessions(
+    { id: parsed.sessionId, OR: [{ tokenHash: presentedHash }, { previousTokenHash: presentedHash }] },
+    SessionRevokeReason.LOGOUT
+  );
+};
+
+/**
+ * Encerra as sessões ativas que atendem ao filtro.
+ * @returns Quantidade de sessões encerradas.
+ */
+export const revokeSessions = async (
+  where: Prisma.UserSessionWhereInput,
+  reason: SessionRevokeReason,
+  now: Date = new Date(),
+  client: AppTransactionClient = prisma
+): Promise<number> => {
+  const revoked = await client.userSession.updateMany({
+    where: { ...where, revokedAt: null },
+    data: { revokedAt: now, revokedReason: reason },
+  });
+  return revoked.count;
+};
+
+/**
+ * Indica se a sessão de um token de acesso continua ativa.
+ */
+export const isSessionActive = async (sessionId: string, userId: string, now: Date = new Date()): Promise<boolean> => {
+  const session = await prisma.userSession.findFirst({
+    where: { id: sessionId, userId, revokedAt: null, expiresAt: { gt: now } },
+    select: { id: true },
+  });
+  return session !== null;
+};
+
+/**
+ * Apaga as sessões encerradas ou expiradas há mais de REFRESH_TOKEN_TTL_DAYS dias.
+ * @returns Quantidade de sessões apagadas.
+ */
+export const purgeStaleSessions = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+  const purged = await prisma.userSession.deleteMany({
+    where: { OR: [{ revokedAt: { lt: cutoff } }, { expiresAt: { lt: cutoff } }] },
+  });
+  return purged.count;
+};
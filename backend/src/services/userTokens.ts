@@ -0,0 +1,94 @@
+// backend/src/services/userTokens.ts
+// Tokens enviados por e-mail para confirmar o endereço e redefinir a senha.
+// Cada token é aleatório, vale uma única vez e expira; o banco guarda apenas o hash. Emitir um novo token
+// invalida os anteriores do mesmo tipo, de forma que só o e-mail mais recente funciona.
+
+import { createHash, randomBytes } from 'crypto';
+import { UserTokenType } from '@prisma/client';
+import { prisma } from './prisma';
+import { FRONTEND_URL, sendMail } from './mailer';
+
+// Validade de cada tipo de token, em minutos.
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  [UserTokenType.EMAIL_VERIFICATION]: 24 * 60,
+  [UserTokenType.PASSWORD_RESET]: 60,
+};
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Emite um token para o usuário, invalidando os anteriores do mesmo tipo ainda não usados.
+ * @returns O token, a ser enviado por e-mail (não é possível recuperá-lo depois).
+ */
+export const issueUserToken = async (user: { id: string; email: string }, type: UserTokenType): Promise<string> => {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId: user.id, type, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.userToken.create({
+      data: {
+        userId: user.id,
+        type,
+        tokenHash: hashToken(token),
+        email: user.email,
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_MINUTES[type] * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+/**
+ * Usa um token: marca-o como usado se ainda for válido (do tipo informado, não usado e não expirado).
+ * O token também deixa de valer se o e-mail do usuário mudou depois de ele ser emitido.
+ * @returns O ID do usuário do token, ou null se ele não for válido.
+ */
+export const consumeUserToken = async (token: string, type: UserTokenType, now: Date = new Date()): Promise<string | null> => {
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { email: true, deletedAt: true } } },
+  });
+  if (!userToken || userToken.type !== type || userToken.user.deletedAt || userToken.user.email !== userToken.email) {
+    return null;
+  }
+
+  // A marcação é condicional: duas requisições simultâneas com o mesmo token não passam ambas.
+  const consumed = await prisma.userToken.updateMany({
+    where: { id: userToken.id, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  return consumed.count === 1 ? userToken.userId : null;
+};
+
+/**
+ * Envia ao usuário o link de confirmação do e-mail.
+ */
+export const sendVerificationEmail = async (user: { id: string; email: string }): Promise<void> => {
+  const token = await issueUserToken(user, UserTokenType.EMAIL_VERIFICATION);
+  const link = `${FRONTEND_URL}/verify-email?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Confirme o seu e-mail',
+    text: `Olá!\n\nConfirme o seu e-mail para poder reservar vagas nos eventos:\n${link}\n\nO link vale por 24 horas.`,
+    html: `<p>Olá!</p><p>Confirme o seu e-mail para poder reservar vagas nos eventos:</p><p><a href="${link}">Confirmar e-mail</a></p><p>O link vale por 24 horas.</p>`,
+  });
+};
+
+/**
+ * Envia ao usuário o link de redefinição de senha.
+ */
+export const sendPasswordResetEmail = async (user: { id: string; email: string }): Promise<void> => {
+  const token = await issueUserToken(user, UserTokenType.PASSWORD_RESET);
+  const link = `${FRONTEND_URL}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Redefinição de senha',
+    text: `Olá!\n\nRecebemos um pedido para redefinir a sua senha. Para escolher uma nova senha, acesse:\n${link}\n\nO link vale por 1 hora. Se você não fez o pedido, ignore este e-mail: a sua senha continua a mesma.`,
+    html: `<p>Olá!</p><p>Recebemos um pedido para redefinir a sua senha.</p><p><a href="${link}">Escolher uma nova senha</a></p><p>O link vale por 1 hora. Se você não fez o pedido, ignore este e-mail: a sua senha continua a mesma.</p>`,
+  });
+};
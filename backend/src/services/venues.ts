@@ -0,0 +1,110 @@
+// backend/src/services/venues.ts
+// Catálogo de locais e salas: endereço exibido nos eventos e detecção de reservas sobrepostas da mesma sala.
+// A verificação de conflitos deve rodar dentro da transação que grava o evento, depois de `lockRoom`,
+// para que duas requisições simultâneas não reservem a mesma sala no mesmo horário.
+
+import { EventStatus, Prisma } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+
+// Sala com o seu local, como usada para montar o endereço dos eventos.
+export type RoomWithVenue = Prisma.RoomGetPayload<{ include: { venue: true } }>;
+
+// Intervalo de tempo ocupado por um evento.
+export interface BookingRange {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Eventos cancelados liberam a sala.
+const ROOM_HOLDING_FILTER: Prisma.EventWhereInput = { status: { not: EventStatus.CANCELED } };
+
+// Mensagem da resposta 409 quando a sala já está ocupada no horário pedido.
+export const ROOM_CONFLICT_MESSAGE = 'A sala já está reservada para outro evento neste horário.';
+
+/**
+ * Monta o texto de `location` de um evento que ocupa a sala, ex: "Auditório 1 — Centro de Convenções, Av. Paulista, 1000".
+ */
+export const formatRoomLocation = (room: RoomWithVenue): string => {
+  return `${room.name} — ${room.venue.name}, ${room.venue.address}`;
+};
+
+/**
+ * Verifica se a parte presencial da capacidade do evento cabe na sala.
+ * @returns A mensagem de erro, ou null se couber.
+ */
+export const getRoomCapacityError = (room: { name: string; capacity: number }, inPersonCapacity: number): string | null => {
+  if (inPersonCapacity > room.capacity) {
+    return `A capacidade presencial do evento (${inPersonCapacity}) excede a capacidade da sala ${room.name} (${room.capacity}).`;
+  }
+  return null;
+};
+
+/**
+ * Serializa, até o fim da transação, as reservas de uma sala (trava consultiva do PostgreSQL).
+ */
+export const lockRoom = async (tx: AppTransactionClient, roomId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${roomId}))`;
+};
+
+/**
+ * Lista os eventos que ocupam a sala em algum dos intervalos informados (exceto os de `excludeEventIds`).
+ * Intervalos que apenas se tocam (um termina quando o outro começa) não são conflito.
+ */
+export const findRoomConflicts = async (
+  client: AppTransactionClient,
+  roomId: string,
+  ranges: BookingRange[],
+  excludeEventIds: string[] = []
+) => {
+  if (ranges.length === 0) return [];
+
+  return client.event.findMany({
+    where: {
+      ...ROOM_HOLDING_FILTER,
+      roomId,
+      id: { notIn: excludeEventIds },
+      OR: ranges.map((range) => ({ startsAt: { lt: range.endsAt }, endsAt: { gt: range.startsAt } })),
+    },
+    select: { id: true, name: true, startsAt: true, endsAt: true, status: true },
+    orderBy: { startsAt: 'asc' },
+  });
+};
+
+/**
+ * Lista os eventos futuros (ainda não encerrados e não cancelados) que ocupam alguma das salas.
+ * Usado para impedir a remoção de salas e locais com reservas pendentes.
+ */
+export const findUpcomingRoomEvents = async (client: AppTransactionClient, roomIds: string[]) => {
+  return client.event.findMany({
+    where: { ...ROOM_HOLDING_FILTER, roomId: { in: roomIds }, endsAt: { gt: new Date() } },
+    select: { id: true, name: true, startsAt: true, endsAt: true, roomId: true, maxCapacity: true, onlineCapacity: true },
+    orderBy: { startsAt: 'asc' },
+  });
+};
+
+/**
+ * Atualiza o `location` e as coordenadas dos eventos futuros das salas informadas (após renomear a sala ou alterar
+ * o seu local). Eventos já encerrados mantêm o endereço da época.
+ * @returns Os IDs dos eventos atualizados, para invalidar o cache.
+ */
+export const syncRoomEventLocations = async (client: AppTransactionClient, roomIds: string[]): Promise<string[]> => {
+  const rooms = await client.room.findMany({ where: { id: { in: roomIds } }, include: { venue: true } });
+  const eventIds: string[] = [];
+
+  for (const room of rooms) {
+    const events = await client.event.findMany({
+      where: { roomId: room.id, endsAt: { gt: new Date() } },
+      select: { id: true },
+    });
+    if (events.length === 0) continue;
+
+    const ids = events.map((event) => event.id);
+    await client.event.updateMany({
+      where: { id: { in: ids } },
+      data: { location: formatRoomLocation(room), latitude: room.venue.latitude, longitude: room.venue.longitude },
+    });
+    eventIds.push(...ids);
+  }
+
+  return eventIds;
+};
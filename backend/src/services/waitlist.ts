@@ -0,0 +1,110 @@
+// backend/src/services/waitlist.ts
+// Regras da lista de espera: cálculo de posição e promoção automática para reservas confirmadas.
+
+import { AttendanceMode, EventStatus, Prisma, Reservation, ReservationStatus } from '@prisma/client';
+import { AppTransactionClient } from './prisma';
+import { recordReservationHistory } from './reservationHistory';
+import { getModeAvailableSpots, lockEventSeats, seatsUpdate } from './attendance';
+
+/**
+ * Promove usuários da lista de espera enquanto houver vagas disponíveis no evento.
+ * Deve ser chamada dentro da mesma transação que liberou as vagas (cancelamento ou aumento de capacidade),
+ * para que a vaga nunca fique visível como livre entre a liberação e a promoção.
+ * Cada modalidade (presencial/online) tem sua própria fila, estritamente FIFO: se o primeiro da fila pediu
+ * mais assentos do que os disponíveis na sua modalidade, ninguém atrás dele nessa modalidade é promovido
+ * até que vagas suficientes sejam liberadas.
+ * @param tx Cliente de transação do Prisma.
+ * @param eventId ID do evento que teve vagas liberadas.
+ * @returns As reservas criadas para os usuários promovidos.
+ */
+export const promoteFromWaitlist = async (tx: AppTransactionClient, eventId: string) => {
+  const promoted: Reservation[] = [];
+
+  await lockEventSeats(tx, eventId);
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: { availableSpots: true, onlineAvailableSpots: true, status: true, endsAt: true },
+  });
+  // Apenas eventos publicados e ainda não encerrados promovem a fila (ex: assentos devolvidos por um evento cancelado,
+  // ou por um cancelamento depois do fim do evento, não geram reservas). Eventos continuam PUBLISHED após o término
+  // até serem marcados como COMPLETED.
+  if (!event || event.status !== EventStatus.PUBLISHED || event.endsAt <= new Date()) {
+    return promoted;
+  }
+
+  const availableSpots: Record<AttendanceMode, number> = {
+    [AttendanceMode.IN_PERSON]: getModeAvailableSpots(event, AttendanceMode.IN_PERSON),
+    [AttendanceMode.ONLINE]: getModeAvailableSpots(event, AttendanceMode.ONLINE),
+  };
+
+  for (const mode of [AttendanceMode.IN_PERSON, AttendanceMode.ONLINE]) {
+    while (availableSpots[mode] > 0) {
+      // Entradas de usuários na lixeira são preservadas para a restauração, mas não recebem vagas.
+      const nextEntry = await tx.waitlistEntry.findFirst({
+        where: { eventId, attendanceMode: mode, user: { deletedAt: null } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (!nextEntry || nextEntry.quantity > availableSpots[mode]) {
+        break;
+      }
+
+      await tx.waitlistEntry.delete({ where: { id: nextEntry.id } });
+
+      // Um usuário que já obteve uma vaga por outro caminho (reserva PENDING ou CONFIRMED) apenas sai da fila.
+      const alreadyReserved = await tx.reservation.findFirst({
+        where: {
+          eventId,
+          userId: nextEntry.userId,
+          status: { in: [ReservationStatus.PENDING, ReservationStatus.CONFIRMED] },
+        },
+        select: { id: true },
+      });
+      if (alreadyReserved) {
+        continue;
+      }
+
+      await tx.event.update({
+        where: { id: eventId },
+        data: seatsUpdate(mode, 'decrement', nextEntry.quantity),
+      });
+
+      const reservation = await tx.reservation.create({
+        data: {
+          eventId,
+          userId: nextEntry.userId,
+          status: ReservationStatus.CONFIRMED,
+          quantity: nextEntry.quantity,
+          attendanceMode: mode,
+        },
+      });
+
+      await recordReservationHistory(tx, {
+        reservationId: reservation.id,
+        fromStatus: null,
+        toStatus: ReservationStatus.CONFIRMED,
+        reason: 'Promovido da lista de espera.',
+      });
+
+      promoted.push(reservation);
+      availableSpots[mode] -= nextEntry.quantity;
+    }
+  }
+
+  return promoted;
+};
+
+/**
+ * Calcula a posição (1-based) de uma entrada na fila da sua modalidade no evento.
+ * @param client Cliente do Prisma (ou de transação).
+ * @param entry A entrada da lista de espera.
+ */
+export const getWaitlistPosition = async (
+  client: AppTransactionClient,
+  entry: { eventId: string; attendanceMode: AttendanceMode; createdAt: Date }
+): Promise<number> => {
+  const ahead = await client.waitlistEntry.count({
+    where: { eventId: entry.eventId, attendanceMode: entry.attendanceMode, createdAt: { lt: entry.createdAt }, user: { deletedAt: null } },
+  });
+  return ahead + 1;
+};
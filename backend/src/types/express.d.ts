@@ -5,6 +5,7 @@ declare global {
     interface Request {
       userId?: string;
       role?: Role;
+      sessionId?: string; // Sessão de login do token de acesso (services/userSessions.ts).
     }
   }
 }
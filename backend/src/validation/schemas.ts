@@ -2,6 +2,12 @@
 // Este arquivo define os schemas de validação para os dados de entrada da API usando Zod.
 
 import { z } from 'zod';
+import { EventFormat } from '@prisma/client';
+import { MAX_OCCURRENCES, parseRRule } from '../services/recurrence';
+import { isValidTimeZone } from '../services/timezone';
+import { getEventPlaceError, inferEventFormat, resolveOnlineCapacity } from '../services/attendance';
+import { MAX_EVENT_TAGS, MAX_TAG_LENGTH, normalizeTags, slugify } from '../services/categories';
+import { MAX_NEARBY_RADIUS_KM } from '../services/eventGeo';
 
 // Helper function to check if a value is a non-empty string after trimming
 const isNonEmptyString = (value: string | null | undefined): boolean => {
@@ -20,56 +26,427 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'A senha é obrigatória.'),
 });
 
+// Schema para renovação de tokens e logout
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'O refresh token é obrigatório.'),
+});
+
+// Schema para o pedido de redefinição de senha
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Formato de e-mail inválido.').min(1, 'E-mail é obrigatório.'),
+});
+
+// Schema para a redefinição de senha com o token recebido por e-mail
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'O token é obrigatório.'),
+  password: registerSchema.shape.password,
+});
+
+// Schema para a confirmação de e-mail com o token recebido por e-mail
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'O token é obrigatório.'),
+});
+
+// Código da verificação em duas etapas: TOTP de 6 dígitos ou código de recuperação.
+const twoFactorCodeField = z.string().trim().min(6, 'Informe o código de verificação.').max(20, 'Código de verificação inválido.');
+
+// Schema para os códigos da verificação em duas etapas (ativação, desativação e novos códigos de recuperação)
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+// Schema para a configuração da verificação em duas etapas durante o login
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'O token de desafio é obrigatório.'),
+});
+
+// Schema para a segunda etapa do login
+export const twoFactorLoginSchema = twoFactorChallengeSchema.extend({
+  code: twoFactorCodeField,
+});
+
+// Formato do evento: presencial, online ou híbrido.
+const eventFormatSchema = z.enum(['IN_PERSON', 'ONLINE', 'HYBRID'], {
+  errorMap: () => ({ message: 'Formato de evento inválido. Deve ser IN_PERSON, ONLINE ou HYBRID.' }),
+});
+
+// Modalidade de participação escolhida na reserva.
+const attendanceModeSchema = z.enum(['IN_PERSON', 'ONLINE'], {
+  errorMap: () => ({ message: 'Modalidade de participação inválida. Deve ser IN_PERSON ou ONLINE.' }),
+});
+
+// Verifica se o local e a capacidade online correspondem ao formato do evento (deduzido do local quando omitido).
+const validateEventFormat = (
+  data: { format?: z.infer<typeof eventFormatSchema>; roomId?: string | null; location?: string | null; onlineLink?: string | null; maxCapacity: number; onlineCapacity?: number },
+  ctx: z.RefinementCtx
+) => {
+  // Uma sala do catálogo faz as vezes da localização (o endereço do evento vem da sala).
+  const location = data.roomId ?? data.location;
+  const format = data.format ?? inferEventFormat(location, data.onlineLink);
+
+  const placeError = data.roomId && format === EventFormat.ONLINE
+    ? 'Eventos online não podem ocupar uma sala. Use o formato híbrido.'
+    : getEventPlaceError(format, location, data.onlineLink);
+  if (placeError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: placeError });
+  }
+
+  const capacity = resolveOnlineCapacity(format, data.maxCapacity, data.onlineCapacity);
+  if ('error' in capacity) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: capacity.error, path: ['onlineCapacity'] });
+  }
+};
+
+// Fuso horário do evento: identificador IANA, ex: "America/Sao_Paulo".
+const timezoneSchema = z.string().refine(isValidTimeZone, {
+  message: 'Fuso horário inválido. Use um identificador IANA (ex: "America/Sao_Paulo").',
+});
+
+// Tags livres de um evento, normalizadas (minúsculas, sem duplicatas).
+const tagsSchema = z.array(
+  z.string().trim().min(1, 'Tags não podem ser vazias.').max(MAX_TAG_LENGTH, `Cada tag deve ter no máximo ${MAX_TAG_LENGTH} caracteres.`)
+).max(MAX_EVENT_TAGS, `Um evento pode ter no máximo ${MAX_EVENT_TAGS} tags.`).transform(normalizeTags);
+
+// Coordenadas geográficas em graus decimais.
+const latitudeSchema = z.number().min(-90, 'Latitude inválida.').max(90, 'Latitude inválida.');
+const longitudeSchema = z.number().min(-180, 'Longitude inválida.').max(180, 'Longitude inválida.');
+
+// Verifica se as coordenadas foram informadas juntas (ambas ou nenhuma).
+const hasBothCoordinates = (data: { latitude?: number | null; longitude?: number | null }): boolean => {
+  return (data.latitude === undefined || data.latitude === null) === (data.longitude === undefined || data.longitude === null);
+};
+
+// Verifica se o término do evento é posterior ao início.
+const endsAfterStart = (data: { startsAt: string; endsAt: string }): boolean => new Date(data.endsAt) > new Date(data.startsAt);
+
 // Schema base para eventos (campos comuns)
 const baseEventSchema = z.object({
   name: z.string().min(1, 'Nome do evento é obrigatório.'),
   description: z.string().nullable().optional(),
-  eventDate: z.string().datetime('Formato de data e hora inválido para eventDate. Use ISO 8601 (ex: "2024-12-31T23:59").'),
+  startsAt: z.string().datetime('Formato de data e hora inválido para startsAt. Use ISO 8601 (ex: "2024-12-31T23:59:00Z").'),
+  endsAt: z.string().datetime('Formato de data e hora inválido para endsAt. Use ISO 8601 (ex: "2024-12-31T23:59:00Z").'),
+  timezone: timezoneSchema.optional(),
+  format: eventFormatSchema.optional(),
+  // Sala do catálogo; o local do evento passa a ser o endereço da sala.
+  roomId: z.string().uuid('ID da sala inválido.').nullable().optional(),
+  categoryId: z.string().uuid('ID da categoria inválido.').nullable().optional(),
+  tags: tagsSchema.optional(),
+  // Coordenadas do local; sem elas, vêm do local da sala ou são geocodificadas a partir de 'location'.
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
   maxCapacity: z.number().int().positive('A capacidade máxima deve ser um número inteiro positivo.'),
+  // Parte da capacidade total destinada à participação online (obrigatória em eventos híbridos).
+  onlineCapacity: z.number().int().positive('A capacidade online deve ser um número inteiro positivo.').optional(),
+  maxSeatsPerUser: z.number().int().positive('O limite de assentos por usuário deve ser um número inteiro positivo.').optional(),
+  // Na criação o evento pode nascer como rascunho (padrão) ou já publicado.
+  status: z.enum(['DRAFT', 'PUBLISHED'], {
+    errorMap: () => ({ message: 'Status inicial inválido. Deve ser DRAFT ou PUBLISHED.' }),
+  }).optional(),
+  publishAt: z.string().datetime('Formato de data e hora inválido para publishAt. Use ISO 8601.').nullable().optional(),
 });
 
 // Schema para criação de evento
-// Deve ter 'location' OU 'onlineLink', mas não ambos.
+// O local depende do formato: 'location' (IN_PERSON), 'onlineLink' (ONLINE) ou ambos (HYBRID).
 export const createEventSchema = baseEventSchema.extend({
   location: z.string().nullable().optional(),
   onlineLink: z.string().url('Formato de URL inválido para onlineLink.').nullable().optional(),
-}).refine(data => {
-  const hasLocation = isNonEmptyString(data.location);
-  const hasOnlineLink = isNonEmptyString(data.onlineLink);
+}).superRefine(validateEventFormat).refine(endsAfterStart, {
+  message: 'O término do evento deve ser posterior ao início.',
+  path: ['endsAt'],
+}).refine(hasBothCoordinates, {
+  message: 'Informe a latitude e a longitude juntas.',
+  path: ['longitude'],
+});
 
-  if (hasLocation && hasOnlineLink) return false; // ambos presentes
-  if (!hasLocation && !hasOnlineLink) return false; // nenhum presente
-  return true; // um ou outro presente
-}, {
-  message: 'O evento deve ter uma localização OU um link online, mas não ambos.',
+// Schema para criação de uma série de eventos recorrentes.
+// 'startsAt'/'endsAt' são a primeira ocorrência (as demais mantêm a mesma duração); 'rrule' segue o subconjunto
+// da RFC 5545 aceito em services/recurrence.ts, expandido no fuso do evento, e 'exdates' lista as ocorrências
+// da regra que não devem ser criadas.
+export const createEventSeriesSchema = baseEventSchema.extend({
+  location: z.string().nullable().optional(),
+  onlineLink: z.string().url('Formato de URL inválido para onlineLink.').nullable().optional(),
+  rrule: z.string().trim().min(1, 'A regra de recorrência é obrigatória.').superRefine((value, ctx) => {
+    try {
+      parseRRule(value);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'Regra de recorrência inválida.' });
+    }
+  }),
+  exdates: z.array(z.string().datetime('Formato de data e hora inválido em exdates. Use ISO 8601.'))
+    .max(MAX_OCCURRENCES, `É possível informar no máximo ${MAX_OCCURRENCES} exceções.`)
+    .optional(),
+}).superRefine(validateEventFormat).refine(endsAfterStart, {
+  message: 'O término do evento deve ser posterior ao início.',
+  path: ['endsAt'],
+}).refine(hasBothCoordinates, {
+  message: 'Informe a latitude e a longitude juntas.',
+  path: ['longitude'],
 });
 
 // Schema para atualização de evento: permite que todos os campos sejam opcionais.
+// O local e as capacidades finais (payload + evento atual) são validados contra o formato no controller.
 export const updateEventSchema = z.object({
   name: z.string().min(1, 'Nome do evento é obrigatório.').optional(),
   description: z.string().nullable().optional(),
-  eventDate: z.string().datetime('Formato de data e hora inválido para eventDate. Use ISO 8601 (ex: "2024-12-31T23:59").').optional(),
+  startsAt: z.string().datetime('Formato de data e hora inválido para startsAt. Use ISO 8601 (ex: "2024-12-31T23:59:00Z").').optional(),
+  endsAt: z.string().datetime('Formato de data e hora inválido para endsAt. Use ISO 8601 (ex: "2024-12-31T23:59:00Z").').optional(),
+  timezone: timezoneSchema.optional(),
+  format: eventFormatSchema.optional(),
+  // null remove a sala do evento (o endereço continua como local livre).
+  roomId: z.string().uuid('ID da sala inválido.').nullable().optional(),
+  // null remove a categoria; as tags enviadas substituem as atuais.
+  categoryId: z.string().uuid('ID da categoria inválido.').nullable().optional(),
+  tags: tagsSchema.optional(),
+  // Coordenadas informadas substituem as calculadas; null as remove.
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
   maxCapacity: z.number().int().positive('A capacidade máxima deve ser um número inteiro positivo.').optional(),
+  onlineCapacity: z.number().int().positive('A capacidade online deve ser um número inteiro positivo.').optional(),
+  maxSeatsPerUser: z.number().int().positive('O limite de assentos por usuário deve ser um número inteiro positivo.').optional(),
   location: z.string().nullable().optional(),
   onlineLink: z.string().url('Formato de URL inválido para onlineLink.').nullable().optional(),
-}).refine(data => {
-  const isLocationInPayloadPresent = isNonEmptyString(data.location);
-  const isOnlineLinkInPayloadPresent = isNonEmptyString(data.onlineLink);
+  publishAt: z.string().datetime('Formato de data e hora inválido para publishAt. Use ISO 8601.').nullable().optional(),
+  // Em ocorrências de séries: THIS altera só esta ocorrência (padrão), FOLLOWING esta e as seguintes, ALL a série inteira.
+  scope: z.enum(['THIS', 'FOLLOWING', 'ALL'], {
+    errorMap: () => ({ message: 'Escopo de edição inválido. Deve ser THIS, FOLLOWING ou ALL.' }),
+  }).optional(),
+}).refine((data) => (data.latitude === undefined) === (data.longitude === undefined) && hasBothCoordinates(data), {
+  message: 'Informe a latitude e a longitude juntas.',
+  path: ['longitude'],
+});
+
+// Schema para mudança de status de um evento (admin)
+export const updateEventStatusSchema = z.object({
+  status: z.enum(['DRAFT', 'PUBLISHED', 'CANCELED', 'COMPLETED', 'ARCHIVED'], {
+    errorMap: () => ({ message: 'Status de evento inválido. Deve ser DRAFT, PUBLISHED, CANCELED, COMPLETED ou ARCHIVED.' }),
+  }),
+  reason: z.string().trim().max(500, 'O motivo deve ter no máximo 500 caracteres.').optional(),
+});
+
+// Booleano de query string: aceita apenas "true" ou "false".
+const queryBooleanSchema = z.enum(['true', 'false'], {
+  errorMap: () => ({ message: 'Use "true" ou "false".' }),
+}).transform((value) => value === 'true');
+
+// Schema dos filtros, da ordenação e da paginação da listagem de eventos (query string).
+// `name`, `date`, `timezone` e `status` continuam tratados no controller.
+export const listEventsQuerySchema = z.object({
+  // Busca textual em nome, descrição, local e tags, com resultados ordenados por relevância.
+  q: z.string().trim().min(1, 'Informe o texto da busca.').max(200, 'A busca deve ter no máximo 200 caracteres.').optional(),
+  from: z.string().datetime('Formato de data e hora inválido para from. Use ISO 8601.').optional(),
+  to: z.string().datetime('Formato de data e hora inválido para to. Use ISO 8601.').optional(),
+  upcoming: queryBooleanSchema.optional(),
+  hasSpots: queryBooleanSchema.optional(),
+  format: eventFormatSchema.optional(),
+  location: z.string().trim().min(1, 'Informe o local a filtrar.').optional(),
+  creatorId: z.string().uuid('ID do criador inválido.').optional(),
+  // Apenas os eventos criados ou coorganizados por quem consulta (exige autenticação).
+  mine: queryBooleanSchema.optional(),
+  // Slug da categoria, ex: "tecnologia".
+  category: z.string().trim().min(1, 'Informe a categoria a filtrar.').optional(),
+  // Tags separadas por vírgula; o evento precisa ter todas elas.
+  tags: z.string().transform((value) => normalizeTags(value.split(','))).optional(),
+  // Ponto de referência da busca por proximidade, "latitude,longitude" (ex: "-23.56,-46.65").
+  near: z.string().trim().regex(/^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/, 'Use near no formato "latitude,longitude" (ex: "-23.56,-46.65").')
+    .transform((value) => {
+      const [latitude, longitude] = value.split(',').map(Number);
+      return { latitude, longitude };
+    })
+    .refine((point) => Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180, 'Coordenadas de near fora do intervalo válido.')
+    .optional(),
+  // Raio da busca por proximidade, em km.
+  radiusKm: z.coerce.number().positive('O raio deve ser positivo.').max(MAX_NEARBY_RADIUS_KM, `O raio deve ser de no máximo ${MAX_NEARBY_RADIUS_KM} km.`).optional(),
+  sort: z.enum(['relevance', 'distance', 'startsAt', 'name', 'availableSpots', 'createdAt'], {
+    errorMap: () => ({ message: 'Ordenação inválida. Deve ser relevance, distance, startsAt, name, availableSpots ou createdAt.' }),
+  }).optional(),
+  order: z.enum(['asc', 'desc'], {
+    errorMap: () => ({ message: 'Direção de ordenação inválida. Deve ser asc ou desc.' }),
+  }).optional(),
+  limit: z.coerce.number().int('O limite deve ser um número inteiro.').min(1, 'O limite deve ser de pelo menos 1.').max(100, 'O limite deve ser de no máximo 100.').optional(),
+  cursor: z.string().min(1).optional(),
+}).refine((data) => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'O fim do período (to) deve ser posterior ao início (from).',
+  path: ['to'],
+}).refine((data) => data.sort !== 'relevance' || data.q, {
+  message: 'A ordenação por relevância exige uma busca (q).',
+  path: ['sort'],
+}).refine((data) => data.sort !== 'distance' || data.near, {
+  message: 'A ordenação por distância exige um ponto de referência (near).',
+  path: ['sort'],
+}).refine((data) => data.radiusKm === undefined || data.near, {
+  message: 'O raio (radiusKm) exige um ponto de referência (near).',
+  path: ['radiusKm'],
+});
+
+// Schema das sugestões da caixa de busca (query string).
+export const searchSuggestionsQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Informe o texto da busca.').max(200, 'A busca deve ter no máximo 200 caracteres.'),
+  limit: z.coerce.number().int('O limite deve ser um número inteiro.').min(1, 'O limite deve ser de pelo menos 1.').max(20, 'O limite deve ser de no máximo 20.').optional(),
+});
+
+// Schema para criação de categoria; sem slug, ele é gerado a partir do nome.
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1, 'O nome da categoria é obrigatório.').max(60, 'O nome da categoria deve ter no máximo 60 caracteres.'),
+  slug: z.string().trim().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'O slug deve conter apenas letras minúsculas, números e hífens (ex: "musica-ao-vivo").').optional(),
+  description: z.string().trim().max(500, 'A descrição deve ter no máximo 500 caracteres.').nullable().optional(),
+}).refine((data) => data.slug || slugify(data.name), {
+  message: 'Não foi possível gerar o slug a partir do nome. Informe o slug.',
+  path: ['slug'],
+});
+
+// Schema para atualização de categoria: todos os campos opcionais
+export const updateCategorySchema = z.object({
+  name: z.string().trim().min(1, 'O nome da categoria é obrigatório.').max(60, 'O nome da categoria deve ter no máximo 60 caracteres.').optional(),
+  slug: z.string().trim().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'O slug deve conter apenas letras minúsculas, números e hífens (ex: "musica-ao-vivo").').optional(),
+  description: z.string().trim().max(500, 'A descrição deve ter no máximo 500 caracteres.').nullable().optional(),
+});
+
+// Schema base para os locais do catálogo
+const baseVenueSchema = z.object({
+  name: z.string().trim().min(1, 'O nome do local é obrigatório.'),
+  address: z.string().trim().min(1, 'O endereço do local é obrigatório.'),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  accessibilityNotes: z.string().trim().max(1000, 'As observações de acessibilidade devem ter no máximo 1000 caracteres.').nullable().optional(),
+});
+
+// Schema para criação de local
+export const createVenueSchema = baseVenueSchema.refine(hasBothCoordinates, {
+  message: 'Informe a latitude e a longitude juntas.',
+  path: ['longitude'],
+});
+
+// Schema para atualização de local: todos os campos opcionais
+export const updateVenueSchema = baseVenueSchema.partial().refine(hasBothCoordinates, {
+  message: 'Informe a latitude e a longitude juntas.',
+  path: ['longitude'],
+});
+
+// Schema para criação de sala em um local
+export const createRoomSchema = z.object({
+  name: z.string().trim().min(1, 'O nome da sala é obrigatório.'),
+  capacity: z.number().int().positive('A capacidade da sala deve ser um número inteiro positivo.'),
+  accessibilityNotes: z.string().trim().max(1000, 'As observações de acessibilidade devem ter no máximo 1000 caracteres.').nullable().optional(),
+});
+
+// Schema para atualização de sala: todos os campos opcionais
+export const updateRoomSchema = createRoomSchema.partial();
+
+// Schema base para as sessões da agenda de um evento.
+// Uma sessão pode ter sala OU link online (ou nenhum dos dois, herdando o local do evento), mas não ambos.
+const baseSessionSchema = z.object({
+  title: z.string().trim().min(1, 'O título da sessão é obrigatório.'),
+  description: z.string().nullable().optional(),
+  startsAt: z.string().datetime('Formato de data e hora inválido para startsAt. Use ISO 8601.'),
+  endsAt: z.string().datetime('Formato de data e hora inválido para endsAt. Use ISO 8601.'),
+  room: z.string().trim().nullable().optional(),
+  onlineLink: z.string().url('Formato de URL inválido para onlineLink.').nullable().optional(),
+  speakers: z.array(z.string().trim().min(1, 'O nome do palestrante não pode ser vazio.'))
+    .max(20, 'Informe no máximo 20 palestrantes.')
+    .optional(),
+  // null remove a capacidade própria da sessão (limitada apenas pelas reservas do evento).
+  maxCapacity: z.number().int().positive('A capacidade da sessão deve ser um número inteiro positivo.').nullable().optional(),
+});
+
+// Schema para criação de sessão
+export const createSessionSchema = baseSessionSchema.refine(data => new Date(data.endsAt) > new Date(data.startsAt), {
+  message: 'O fim da sessão deve ser posterior ao início.',
+  path: ['endsAt'],
+}).refine(data => !(isNonEmptyString(data.room) && isNonEmptyString(data.onlineLink)), {
+  message: 'A sessão não pode ter sala e link online simultaneamente.',
+});
 
-  if (isLocationInPayloadPresent && isOnlineLinkInPayloadPresent) return false;
-  return true;
-}, {
-  message: 'O evento não pode ter localização e link online simultaneamente no payload de atualização.',
+// Schema para atualização de sessão: todos os campos opcionais (a ordem início/fim é validada no controller).
+export const updateSessionSchema = baseSessionSchema.partial().refine(data => !(isNonEmptyString(data.room) && isNonEmptyString(data.onlineLink)), {
+  message: 'A sessão não pode ter sala e link online simultaneamente.',
+});
+
+// Schema para inscrição de uma reserva em uma sessão da agenda
+export const sessionEnrollmentSchema = z.object({
+  sessionId: z.string().uuid('ID da sessão inválido.'),
 });
 
 // Schema para validação de criação de reserva
+// 'quantity' é o número de assentos; 'attendeeNames', se enviado, deve ter um nome por assento.
+// 'attendanceMode' só precisa ser informado em eventos híbridos.
 export const reservationSchema = z.object({
   eventId: z.string().uuid('ID do evento inválido.'),
+  quantity: z.number().int().positive('A quantidade de assentos deve ser um número inteiro positivo.').default(1),
+  attendanceMode: attendanceModeSchema.optional(),
+  attendeeNames: z.array(z.string().trim().min(1, 'O nome do participante não pode ser vazio.')).optional(),
+}).refine(data => !data.attendeeNames || data.attendeeNames.length === data.quantity, {
+  message: 'Informe exatamente um nome de participante por assento reservado.',
+  path: ['attendeeNames'],
+});
+
+// Schema para liberação parcial de assentos de uma reserva em grupo.
+// Pode-se informar quais participantes saem ('attendeeNames') ou apenas quantos assentos liberar ('seats').
+export const releaseSeatsSchema = z.object({
+  seats: z.number().int().positive('A quantidade de assentos a liberar deve ser um número inteiro positivo.').optional(),
+  attendeeNames: z.array(z.string().trim().min(1)).nonempty('Informe ao menos um participante.').optional(),
+}).refine(data => data.seats !== undefined || data.attendeeNames !== undefined, {
+  message: 'Informe a quantidade de assentos ou os participantes a liberar.',
+}).refine(data => data.seats === undefined || data.attendeeNames === undefined || data.seats === data.attendeeNames.length, {
+  message: 'A quantidade de assentos deve corresponder ao número de participantes informados.',
 });
 
 // Schema para validação de atualização de status de reserva (admin)
 export const updateReservationStatusSchema = z.object({
-  status: z.enum(['CONFIRMED', 'CANCELED'], {
-    errorMap: () => ({ message: 'Status de reserva inválido. Deve ser CONFIRMED ou CANCELED.' }),
+  status: z.enum(['PENDING', 'CONFIRMED', 'CANCELED', 'ATTENDED', 'NO_SHOW', 'EXPIRED'], {
+    errorMap: () => ({ message: 'Status de reserva inválido. Deve ser PENDING, CONFIRMED, CANCELED, ATTENDED, NO_SHOW ou EXPIRED.' }),
   }),
+  reason: z.string().trim().max(500, 'O motivo deve ter no máximo 500 caracteres.').optional(),
+});
+
+// Schema para atualização de status de várias reservas de uma vez (admin)
+export const bulkUpdateReservationStatusSchema = updateReservationStatusSchema.extend({
+  reservationIds: z.array(z.string().uuid('ID de reserva inválido.'))
+    .min(1, 'Informe ao menos uma reserva.')
+    .max(200, 'É possível alterar no máximo 200 reservas por vez.'),
+});
+
+// Schema para atribuir um usuário à equipe de check-in de um evento, pelo e-mail
+export const eventStaffSchema = z.object({
+  email: z.string().email('Formato de e-mail inválido.').min(1, 'E-mail é obrigatório.'),
+});
+
+// Permissões delegáveis a um coorganizador (ao menos uma).
+const coOrganizerPermissionsSchema = z.array(z.enum(['EDIT_DETAILS', 'VIEW_ATTENDEES', 'CHECK_IN', 'MESSAGE_ATTENDEES'], {
+  errorMap: () => ({ message: 'Permissão inválida. Deve ser EDIT_DETAILS, VIEW_ATTENDEES, CHECK_IN ou MESSAGE_ATTENDEES.' }),
+}))
+  .min(1, 'Informe ao menos uma permissão.')
+  .transform((permissions) => [...new Set(permissions)]);
+
+// Schema para convidar um usuário, pelo e-mail, a coorganizar um evento
+export const inviteCoOrganizerSchema = z.object({
+  email: z.string().email('Formato de e-mail inválido.').min(1, 'E-mail é obrigatório.'),
+  permissions: coOrganizerPermissionsSchema,
+});
+
+// Schema para alterar as permissões delegadas a um coorganizador
+export const updateCoOrganizerSchema = z.object({
+  permissions: coOrganizerPermissionsSchema,
+});
+
+// Schema da mensagem enviada aos participantes confirmados de um evento
+export const eventMessageSchema = z.object({
+  subject: z.string().trim().min(1, 'O assunto é obrigatório.').max(200, 'O assunto deve ter no máximo 200 caracteres.'),
+  message: z.string().trim().min(1, 'A mensagem é obrigatória.').max(5000, 'A mensagem deve ter no máximo 5000 caracteres.'),
+});
+
+// Schema para validação do check-in por leitura do ingresso
+export const checkInSchema = z.object({
+  ticketCode: z.string().trim().min(1, 'O código do ingresso é obrigatório.'),
+});
+
+// Schema para sincronização em lote dos check-ins feitos offline
+// 'deviceId' identifica o dispositivo de leitura; 'scannedAt' é o horário da leitura registrado no dispositivo.
+export const checkInSyncSchema = z.object({
+  deviceId: z.string().trim().min(1, 'O identificador do dispositivo é obrigatório.').max(100, 'O identificador do dispositivo deve ter no máximo 100 caracteres.'),
+  scans: z.array(z.object({
+    ticketCode: z.string().trim().min(1, 'O código do ingresso é obrigatório.'),
+    scannedAt: z.string().datetime('Formato de data e hora inválido para scannedAt. Use ISO 8601.'),
+  }))
+    .min(1, 'Informe ao menos uma leitura.')
+    .max(500, 'É possível sincronizar no máximo 500 leituras por vez.'),
 });
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ShieldCheckIcon, ShieldOffIcon } from 'lucide-react';
+import { RecoveryCodesList, TotpEnrollment, TotpEnrollmentPanel } from '@/components/TwoFactorSetup';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean; // Obrigatória (administradores): não pode ser desativada.
+  recoveryCodesRemaining: number;
+}
+
+// Verificação em duas etapas da conta: ativação com o aplicativo autenticador, códigos de recuperação e desativação.
+const AccountSecurityPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const fetchStatus = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<TwoFactorStatus>('/users/me/2fa', { method: 'GET' });
+      setStatus(data);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar a verificação em duas etapas.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated) {
+      fetchStatus();
+    }
+  }, [authLoading, isAuthenticated, fetchStatus]);
+
+  // Envia um código para uma das ações da verificação; devolve a resposta, ou null se falhar.
+  const submitCode = async <T,>(path: string): Promise<T | null> => {
+    setIsSubmitting(true);
+    try {
+      const res = await apiFetch<T>(path, { method: 'POST', body: JSON.stringify({ code }) });
+      setCode('');
+      return res;
+    } catch (err: any) {
+      alert(err.message || 'Código de verificação inválido.');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = await apiFetch<TotpEnrollment>('/users/me/2fa/setup', { method: 'POST' });
+      setEnrollment(data);
+      setCode('');
+    } catch (err: any) {
+      alert(err.message || 'Falha ao iniciar a configuração.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await submitCode<{ message: string; recoveryCodes: string[] }>('/users/me/2fa/enable');
+    if (res) {
+      setEnrollment(null);
+      setRecoveryCodes(res.recoveryCodes);
+      refreshUser().catch(() => undefined);
+      fetchStatus();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Gerar novos códigos de recuperação? Os atuais deixarão de valer.')) {
+      return;
+    }
+    const res = await submitCode<{ message: string; recoveryCodes: string[] }>('/users/me/2fa/recovery-codes');
+    if (res) {
+      setRecoveryCodes(res.recoveryCodes);
+      fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Desativar a verificação em duas etapas? A conta ficará protegida apenas pela senha.')) {
+      return;
+    }
+    const res = await submitCode<{ message: string }>('/users/me/2fa/disable');
+    if (res) {
+      alert(res.message);
+      refreshUser().catch(() => undefined);
+      fetchStatus();
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !status) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <Input
+      id="code"
+      type="text"
+      autoComplete="one-time-code"
+      placeholder={enrollment ? '123456' : '123456 ou código de recuperação'}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full rounded-md"
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-xl">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-2">Segurança</h1>
+        <p className="text-center text-muted-foreground mb-8">
+          Com a verificação em duas etapas, o login pede também um código do aplicativo autenticador do seu celular.
+        </p>
+
+        <div className="bg-card border border-border rounded-md p-6 flex flex-col gap-6">
+          <div className="flex items-center gap-3">
+            {status.enabled ? (
+              <ShieldCheckIcon className="h-6 w-6 text-green-600" />
+            ) : (
+              <ShieldOffIcon className="h-6 w-6 text-muted-foreground" />
+            )}
+            <div>
+              <div className="font-semibold text-foreground">
+                Verificação em duas etapas {status.enabled ? 'ativa' : 'desativada'}
+              </div>
+              {status.enabled && (
+                <div className="text-sm text-muted-foreground">
+                  {status.recoveryCodesRemaining} código(s) de recuperação disponível(is)
+                </div>
+              )}
+            </div>
+          </div>
+
+          {recoveryCodes ? (
+            <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : enrollment ? (
+            <form onSubmit={handleEnable} className="flex flex-col gap-4">
+              <TotpEnrollmentPanel enrollment={enrollment} />
+              {codeInput}
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={isSubmitting || !code}>Ativar</Button>
+              </div>
+            </form>
+          ) : status.enabled ? (
+            <div className="flex flex-col gap-3">
+              <label htmlFor="code" className="text-sm text-foreground">
+                Para gerar novos códigos de recuperação{status.required ? '' : ' ou desativar a verificação'}, informe um código atual.
+              </label>
+              {codeInput}
+              <div className="flex flex-wrap gap-2 justify-end">
+                <Button variant="outline" onClick={handleRegenerate} disabled={isSubmitting || !code}>
+                  Gerar novos códigos de recuperação
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={handleDisable} disabled={isSubmitting || !code}>
+                    Desativar
+                  </Button>
+                )}
+              </div>
+              {status.required && (
+                <p className="text-xs text-muted-foreground">A verificação em duas etapas é obrigatória para administradores.</p>
+              )}
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button onClick={handleSetup} disabled={isSubmitting}>Ativar a verificação em duas etapas</Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AccountSecurityPage;
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Button } from '@/components/ui/button';
+import { MonitorSmartphoneIcon, LogOutIcon } from 'lucide-react';
+import { LoginSession, describeUserAgent } from '@/lib/loginSessions';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Dispositivos conectados à conta, com a opção de encerrar cada sessão (ex: um celular perdido).
+const AccountSessionsPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, logout } = useAuth();
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ sessions: LoginSession[] }>('/users/me/sessions', { method: 'GET' });
+      setSessions(data.sessions);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar as sessões.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated) {
+      fetchSessions();
+    }
+  }, [authLoading, isAuthenticated, fetchSessions]);
+
+  const handleRevoke = async (session: LoginSession) => {
+    if (session.current) {
+      // Encerrar a sessão deste navegador é o mesmo que sair.
+      await logout();
+      router.push('/login');
+      return;
+    }
+    if (!confirm(`Encerrar a sessão em "${describeUserAgent(session.userAgent)}"?`)) {
+      return;
+    }
+
+    setIsRevoking(true);
+    try {
+      const res = await apiFetch<{ message: string }>(`/users/me/sessions/${session.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchSessions();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao encerrar a sessão.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Encerrar todas as sessões, exceto a deste navegador?')) {
+      return;
+    }
+
+    setIsRevoking(true);
+    try {
+      const res = await apiFetch<{ message: string }>('/users/me/sessions', { method: 'DELETE' });
+      alert(res.message);
+      fetchSessions();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao encerrar as sessões.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando sessões...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-3xl">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-2">Sessões</h1>
+        <p className="text-center text-muted-foreground mb-8">
+          Dispositivos conectados à sua conta. Encerre as sessões que você não reconhece; trocar a senha encerra todas as outras.
+        </p>
+
+        {hasOtherSessions && (
+          <div className="flex justify-end mb-4">
+            <Button onClick={handleRevokeOthers} variant="destructive" disabled={isRevoking} className="flex items-center gap-2">
+              <LogOutIcon className="h-4 w-4" /> Encerrar as outras sessões
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-4">
+          {sessions.map((session) => (
+            <div key={session.id} className="bg-card border border-border rounded-md p-5 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <MonitorSmartphoneIcon className="h-6 w-6 mt-0.5 text-muted-foreground flex-shrink-0" />
+                <div>
+                  <div className="font-semibold text-foreground flex items-center gap-2">
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && (
+                      <span className="text-xs font-medium rounded-full bg-green-100 text-green-800 px-2 py-0.5">Este navegador</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {session.ipAddress && <>IP {session.ipAddress} · </>}
+                    Último uso em {formatDateTime(session.lastUsedAt)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Conectado em {formatDateTime(session.createdAt)}</div>
+                </div>
+              </div>
+              <Button onClick={() => handleRevoke(session)} variant="outline" size="sm" disabled={isRevoking}>
+                {session.current ? 'Sair' : 'Encerrar'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AccountSessionsPage;
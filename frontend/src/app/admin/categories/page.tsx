@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { can } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { EditIcon, Trash2Icon, PlusCircleIcon, ArrowLeftIcon, LinkIcon } from 'lucide-react';
+import { Category, getCategoryUrl } from '@/lib/categories';
+
+// Campos do formulário de categoria; sem slug, o backend o gera a partir do nome.
+interface CategoryForm {
+  id?: string;
+  name: string;
+  slug: string;
+  description: string;
+}
+
+const AdminCategoriesPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [categoryForm, setCategoryForm] = useState<CategoryForm | null>(null); // null = modal fechado.
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'category:manage'))) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchCategories = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ categories: Category[] }>('/categories', { method: 'GET' });
+      setCategories(data.categories);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar categorias.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && can(user?.role, 'category:manage')) {
+      fetchCategories();
+    }
+  }, [authLoading, isAuthenticated, user, fetchCategories]);
+
+  const handleOpenModal = (category?: Category) => {
+    setCategoryForm(category
+      ? { id: category.id, name: category.name, slug: category.slug, description: category.description || '' }
+      : { name: '', slug: '', description: '' });
+    setModalError(null);
+  };
+
+  const handleCloseModal = () => {
+    setCategoryForm(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setModalError(null);
+    if (!categoryForm) return;
+
+    const payload: any = {
+      name: categoryForm.name.trim(),
+      description: categoryForm.description.trim() || null,
+    };
+    if (categoryForm.slug.trim()) {
+      payload.slug = categoryForm.slug.trim();
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(categoryForm.id ? `/categories/${categoryForm.id}` : '/categories', {
+        method: categoryForm.id ? 'PUT' : 'POST',
+        body: JSON.stringify(payload),
+      });
+      alert(res.message);
+      fetchCategories();
+      handleCloseModal();
+    } catch (err: any) {
+      if (err.errors && Array.isArray(err.errors)) {
+        setModalError(`Falha na validação: ${err.errors.map((e: any) => e.message).join('; ')}`);
+      } else {
+        setModalError(err.message || 'Falha ao salvar categoria.');
+      }
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Remover a categoria "${category.name}"? Os eventos dela ficarão sem categoria.`)) {
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/categories/${category.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchCategories();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao remover categoria.');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando categorias...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !can(user?.role, 'category:manage')) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Acesso negado. Apenas administradores podem gerenciar categorias.</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Categorias</h1>
+
+        <div className="bg-card p-6 rounded-md mb-6 flex justify-between gap-2">
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <Link href="/admin/events">
+              <ArrowLeftIcon className="h-5 w-5" /> Gerenciar Eventos
+            </Link>
+          </Button>
+          <Button onClick={() => handleOpenModal()} className="flex items-center gap-2">
+            <PlusCircleIcon className="h-5 w-5" /> Cadastrar Categoria
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-center text-destructive text-lg font-semibold mb-6">{error}</div>
+        )}
+
+        {categories.length === 0 && !error && (
+          <div className="text-center text-muted-foreground text-lg">Nenhuma categoria cadastrada.</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {categories.map((category) => (
+            <div key={category.id} className="bg-card border border-border rounded-md p-6 flex flex-col gap-3">
+              <h2 className="text-xl font-semibold text-foreground">{category.name}</h2>
+              <Link href={getCategoryUrl(category.slug)} className="flex items-center gap-2 text-sm text-blue-500 hover:underline">
+                <LinkIcon className="w-4 h-4" /> {getCategoryUrl(category.slug)}
+              </Link>
+              {category.description && (
+                <p className="text-sm text-muted-foreground">{category.description}</p>
+              )}
+              <div className="mt-auto pt-4 border-t border-border flex justify-end gap-2">
+                <Button onClick={() => handleOpenModal(category)} variant="secondary" size="sm">
+                  <EditIcon className="w-4 h-4 mr-1" /> Editar
+                </Button>
+                <Button onClick={() => handleDelete(category)} variant="destructive" size="sm">
+                  <Trash2Icon className="w-4 h-4 mr-1" /> Remover
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Modal para Cadastrar/Editar Categoria */}
+        {categoryForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-card rounded-md p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+              <h2 className="text-2xl font-bold text-center text-foreground mb-6">
+                {categoryForm.id ? 'Editar Categoria' : 'Cadastrar Categoria'}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="categoryName" className="block text-sm font-medium text-foreground mb-1">Nome</label>
+                  <Input
+                    id="categoryName"
+                    type="text"
+                    placeholder="Tecnologia"
+                    value={categoryForm.name}
+                    onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="categorySlug" className="block text-sm font-medium text-foreground mb-1">Slug (opcional)</label>
+                  <Input
+                    id="categorySlug"
+                    type="text"
+                    placeholder="Gerado a partir do nome, ex: tecnologia"
+                    value={categoryForm.slug}
+                    onChange={(e) => setCategoryForm({ ...categoryForm, slug: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Mudar o slug muda o endereço da página da categoria.</p>
+                </div>
+                <div>
+                  <label htmlFor="categoryDescription" className="block text-sm font-medium text-foreground mb-1">Descrição</label>
+                  <textarea
+                    id="categoryDescription"
+                    rows={3}
+                    value={categoryForm.description}
+                    onChange={(e) => setCategoryForm({ ...categoryForm, description: e.target.value })}
+                    className="flex w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  ></textarea>
+                </div>
+                {modalError && <p className="text-destructive text-sm text-center mt-2">{modalError}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                  <Button type="button" variant="outline" onClick={handleCloseModal}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit">
+                    {categoryForm.id ? 'Salvar Alterações' : 'Cadastrar Categoria'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminCategoriesPage;
@@ -0,0 +1,430 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CheckCircleIcon, XCircleIcon, ScanLineIcon, UsersIcon, DownloadIcon, RefreshCwIcon, WifiOffIcon, AlertTriangleIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CheckInManifest,
+  QueuedScan,
+  getDeviceId,
+  saveManifest,
+  loadManifest,
+  getQueuedScans,
+  removeQueuedScans,
+  checkInOffline,
+  markTicketsCheckedIn,
+} from '@/lib/offlineCheckIn';
+
+interface Event {
+  id: string;
+  name: string;
+  startsAt: string;
+  timezone: string;
+}
+
+interface CheckInStats {
+  confirmed: number;
+  confirmedSeats: number;
+  checkedIn: number;
+  checkedInSeats: number;
+}
+
+interface ScanResult {
+  id: number;
+  success: boolean;
+  message: string;
+  attendee?: string;
+  scannedAt: Date;
+  offline?: boolean; // Leitura validada offline, pendente de sincronização.
+}
+
+interface SyncResult {
+  ticketCode: string;
+  scannedAt: string;
+  outcome: 'CHECKED_IN' | 'CONFLICT' | 'REJECTED' | 'INVALID';
+  message: string;
+  reservationId?: string;
+  winner?: { deviceId: string | null; checkedInAt: string };
+}
+
+// Intervalo de atualização dos contadores de check-in.
+const STATS_REFRESH_MS = 5000;
+
+const AdminCheckInPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState('');
+  const [stats, setStats] = useState<CheckInStats | null>(null);
+  const [ticketCode, setTicketCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [results, setResults] = useState<ScanResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [manifest, setManifest] = useState<CheckInManifest | null>(null);
+  const [pendingScans, setPendingScans] = useState<QueuedScan[]>([]);
+  const [isOffline, setIsOffline] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncIssues, setSyncIssues] = useState<SyncResult[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Além dos papéis com a permissão, coorganizadores com o check-in delegado (de qualquer papel) usam esta página; a lista
+  // de eventos já vem restrita pelo backend.
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) {
+      return;
+    }
+    // Eventos ainda não encerrados em que o usuário pode fazer check-in (a equipe vê apenas os atribuídos a ela).
+    apiFetch<{ events: Event[] }>('/events/check-in', { method: 'GET' })
+      .then((data) => setEvents(data.events))
+      .catch((err: any) => setError(err.message || 'Falha ao carregar eventos.'));
+  }, [authLoading, isAuthenticated, user]);
+
+  // Acompanha o estado da conexão do navegador para alternar entre check-in online e offline.
+  useEffect(() => {
+    const updateStatus = () => setIsOffline(!navigator.onLine);
+    updateStatus();
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
+
+  // Ao trocar de evento, carrega o manifesto e a fila pendente salvos neste dispositivo.
+  useEffect(() => {
+    if (!selectedEventId) {
+      setManifest(null);
+      setPendingScans([]);
+      return;
+    }
+    setManifest(loadManifest(selectedEventId));
+    setPendingScans(getQueuedScans(selectedEventId));
+    setSyncIssues([]);
+  }, [selectedEventId]);
+
+  const fetchStats = useCallback(async () => {
+    if (!selectedEventId || isOffline) {
+      if (!selectedEventId) setStats(null);
+      return;
+    }
+    try {
+      const data = await apiFetch<{ stats: CheckInStats }>(`/events/${selectedEventId}/check-in/stats`, { method: 'GET' });
+      setStats(data.stats);
+    } catch (err: any) {
+      console.error('Falha ao atualizar contadores de check-in:', err);
+    }
+  }, [selectedEventId, isOffline]);
+
+  // Atualiza os contadores periodicamente, para acompanhar leituras feitas em outros dispositivos.
+  useEffect(() => {
+    fetchStats();
+    const interval = setInterval(fetchStats, STATS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchStats]);
+
+  const handleDownloadManifest = async () => {
+    if (!selectedEventId) return;
+    try {
+      const data = await apiFetch<CheckInManifest>(`/events/${selectedEventId}/check-in/manifest`, { method: 'GET' });
+      saveManifest(data);
+      setManifest(data);
+    } catch (err: any) {
+      alert(err.message || 'Falha ao baixar a lista de check-in.');
+    }
+  };
+
+  const handleSync = useCallback(async () => {
+    if (!selectedEventId || isSyncing) return;
+    const queued = getQueuedScans(selectedEventId);
+    if (queued.length === 0) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await apiFetch<{ message: string; results: SyncResult[] }>(`/events/${selectedEventId}/check-in/sync`, {
+        method: 'POST',
+        body: JSON.stringify({ deviceId: getDeviceId(), scans: queued }),
+      });
+      removeQueuedScans(selectedEventId, queued);
+      setPendingScans(getQueuedScans(selectedEventId));
+      // Conflitos e recusas ficam visíveis para o operador até a próxima troca de evento.
+      setSyncIssues((prev) => [...res.results.filter((result) => result.outcome !== 'CHECKED_IN'), ...prev]);
+      const stored = loadManifest(selectedEventId);
+      if (stored) {
+        setManifest(markTicketsCheckedIn(stored, res.results
+          .filter((result) => result.outcome === 'CHECKED_IN' || result.outcome === 'CONFLICT')
+          .map((result) => result.ticketCode)));
+      }
+      fetchStats();
+    } catch (err: any) {
+      // Sem conexão: a fila permanece salva e será reenviada depois.
+      console.error('Falha ao sincronizar check-ins offline:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [selectedEventId, isSyncing, fetchStats]);
+
+  // Sincroniza a fila automaticamente quando a conexão volta.
+  // A referência evita reenviar a fila a cada mudança de estado de `handleSync`.
+  const syncRef = useRef(handleSync);
+  syncRef.current = handleSync;
+  useEffect(() => {
+    if (!isOffline) {
+      syncRef.current();
+    }
+  }, [isOffline]);
+
+  const registerOfflineScan = (code: string) => {
+    if (!manifest) {
+      setResults((prev) => [{
+        id: Date.now(),
+        success: false,
+        message: 'Sem conexão e sem lista offline: baixe a lista do evento antes de ficar offline.',
+        scannedAt: new Date(),
+      }, ...prev].slice(0, 20));
+      return;
+    }
+
+    const result = checkInOffline(manifest, code);
+    setPendingScans(getQueuedScans(manifest.event.id));
+    setResults((prev) => [{
+      id: Date.now(),
+      success: result.accepted,
+      message: result.message,
+      attendee: result.ticket ? `${result.ticket.email} (${result.ticket.quantity} assento(s))` : undefined,
+      scannedAt: new Date(),
+      offline: true,
+    }, ...prev].slice(0, 20));
+  };
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = ticketCode.trim();
+    if (!selectedEventId || !code) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    if (isOffline) {
+      registerOfflineScan(code);
+      setIsSubmitting(false);
+      setTicketCode('');
+      inputRef.current?.focus();
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string; reservation: { quantity: number; user: { email: string } } }>(
+        `/events/${selectedEventId}/check-in`,
+        { method: 'POST', body: JSON.stringify({ ticketCode: code }) }
+      );
+      setResults((prev) => [{
+        id: Date.now(),
+        success: true,
+        message: res.message,
+        attendee: `${res.reservation.user.email} (${res.reservation.quantity} assento(s))`,
+        scannedAt: new Date(),
+      }, ...prev].slice(0, 20));
+      if (manifest) {
+        setManifest(markTicketsCheckedIn(manifest, [code]));
+      }
+      fetchStats();
+    } catch (err: any) {
+      // Falha de rede (fetch lança TypeError): valida pela lista offline em vez de perder a leitura.
+      if (err instanceof TypeError) {
+        registerOfflineScan(code);
+        return;
+      }
+      setResults((prev) => [{
+        id: Date.now(),
+        success: false,
+        message: err.message || 'Falha no check-in.',
+        scannedAt: new Date(),
+      }, ...prev].slice(0, 20));
+    } finally {
+      setIsSubmitting(false);
+      setTicketCode('');
+      // Leitores de QR code funcionam como teclado: mantém o foco no campo para a próxima leitura.
+      inputRef.current?.focus();
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando check-in...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Acesso negado. Faça login para realizar check-in.</div>
+        </main>
+      </div>
+    );
+  }
+
+  const progress = stats && stats.confirmed > 0 ? Math.round((stats.checkedIn / stats.confirmed) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Check-in de Participantes</h1>
+
+        {error && (
+          <div className="text-center text-destructive text-lg font-semibold mb-6">{error}</div>
+        )}
+
+        {isOffline && (
+          <div className="flex items-center justify-center gap-2 bg-yellow-100 text-yellow-900 p-3 rounded-md mb-6">
+            <WifiOffIcon className="w-5 h-5" />
+            <span>Sem conexão: as leituras são validadas pela lista offline e sincronizadas quando a conexão voltar.</span>
+          </div>
+        )}
+
+        <div className="bg-card p-6 rounded-md mb-6 space-y-4">
+          <div>
+            <label htmlFor="event" className="block text-sm font-medium text-foreground mb-1">Evento</label>
+            <select
+              id="event"
+              value={selectedEventId}
+              onChange={(e) => {
+                setSelectedEventId(e.target.value);
+                setResults([]);
+              }}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+            >
+              <option value="">Selecione um evento...</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name} ({new Date(event.startsAt).toLocaleDateString('pt-BR', { timeZone: event.timezone })})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedEventId && (
+            <form onSubmit={handleCheckIn} className="flex gap-2">
+              <Input
+                ref={inputRef}
+                autoFocus
+                type="text"
+                placeholder="Leia o QR code ou digite o código do ingresso"
+                value={ticketCode}
+                onChange={(e) => setTicketCode(e.target.value)}
+                className="flex-grow"
+              />
+              <Button type="submit" disabled={isSubmitting || !ticketCode.trim()}>
+                <ScanLineIcon className="mr-2 h-4 w-4" /> Validar
+              </Button>
+            </form>
+          )}
+
+          {selectedEventId && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <Button type="button" variant="outline" onClick={handleDownloadManifest} disabled={isOffline}>
+                <DownloadIcon className="mr-2 h-4 w-4" /> {manifest ? 'Atualizar Lista Offline' : 'Baixar Lista Offline'}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleSync} disabled={isOffline || isSyncing || pendingScans.length === 0}>
+                <RefreshCwIcon className={cn("mr-2 h-4 w-4", isSyncing && 'animate-spin')} /> Sincronizar ({pendingScans.length})
+              </Button>
+              <span>
+                {manifest
+                  ? `Lista offline com ${manifest.tickets.length} ingresso(s), baixada em ${new Date(manifest.generatedAt).toLocaleString('pt-BR')}.`
+                  : 'Lista offline não baixada neste dispositivo.'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {syncIssues.length > 0 && (
+          <div className="bg-card border border-yellow-500 p-6 rounded-md mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+                <AlertTriangleIcon className="w-5 h-5 text-yellow-600" /> Conflitos da sincronização
+              </h2>
+              <Button type="button" variant="outline" className="text-xs px-3 py-1" onClick={() => setSyncIssues([])}>
+                Limpar
+              </Button>
+            </div>
+            <ul className="space-y-2 text-sm">
+              {syncIssues.map((issue) => (
+                <li key={`${issue.ticketCode}-${issue.scannedAt}`} className="text-foreground/80">
+                  <span className="font-medium">{issue.message}</span>
+                  {' '}Leitura em {new Date(issue.scannedAt).toLocaleTimeString('pt-BR')}
+                  {issue.winner && (
+                    <> · prevaleceu a leitura de {new Date(issue.winner.checkedInAt).toLocaleTimeString('pt-BR')}
+                      {' '}({issue.winner.deviceId ? `dispositivo ${issue.winner.deviceId.slice(0, 8)}` : 'check-in online'})</>
+                  )}
+                  <code className="block text-xs text-muted-foreground break-all">{issue.ticketCode}</code>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {stats && (
+          <div className="bg-card p-6 rounded-md mb-6">
+            <div className="flex items-center gap-2 text-lg font-semibold text-foreground mb-2">
+              <UsersIcon className="w-5 h-5 text-primary" />
+              <span>{stats.checkedIn} de {stats.confirmed} reservas presentes ({stats.checkedInSeats} de {stats.confirmedSeats} assentos)</span>
+            </div>
+            <div className="w-full h-3 rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-primary transition-all duration-500" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {results.map((result) => (
+            <div
+              key={result.id}
+              className={cn(
+                "bg-card border rounded-md p-4 flex items-center gap-3",
+                result.success ? 'border-green-600' : 'border-destructive'
+              )}
+            >
+              {result.success ? (
+                <CheckCircleIcon className="w-6 h-6 text-green-600" />
+              ) : (
+                <XCircleIcon className="w-6 h-6 text-destructive" />
+              )}
+              <div className="flex-grow">
+                <p className="font-medium text-foreground">{result.message}</p>
+                {result.attendee && <p className="text-sm text-muted-foreground">{result.attendee}</p>}
+                {result.offline && result.success && (
+                  <p className="text-xs text-yellow-700">Pendente de sincronização</p>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {result.scannedAt.toLocaleTimeString('pt-BR')}
+              </span>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AdminCheckInPage;
@@ -0,0 +1,314 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ClockIcon, MapPinIcon, LinkIcon, MicIcon, UsersIcon, EditIcon, Trash2Icon, PlusCircleIcon, XCircleIcon } from 'lucide-react';
+import { EventSession, groupSessionsByDay, formatSessionTimeRange } from '@/lib/sessions';
+import { EventSchedule, formatEventSchedule } from '@/lib/events';
+import { toZonedInput, zonedInputToISO } from '@/lib/timezone';
+
+interface SessionForm {
+  title: string;
+  description: string;
+  startsAt: string;
+  endsAt: string;
+  room: string;
+  onlineLink: string;
+  speakers: string;
+  maxCapacity: string;
+}
+
+interface AgendaEvent extends EventSchedule {
+  id: string;
+  name: string;
+  sessions: EventSession[];
+}
+
+// Os campos de data do formulário são horários no fuso do evento.
+const emptyForm = (startsAt: string, timeZone: string): SessionForm => ({
+  title: '',
+  description: '',
+  startsAt: toZonedInput(startsAt, timeZone),
+  endsAt: toZonedInput(new Date(startsAt).getTime() + 60 * 60000, timeZone),
+  room: '',
+  onlineLink: '',
+  speakers: '',
+  maxCapacity: '',
+});
+
+const AdminEventSessionsPage: React.FC<{ params: { id: string } }> = ({ params }) => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const eventId = params.id;
+
+  const [event, setEvent] = useState<AgendaEvent | null>(null);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSession, setEditingSession] = useState<EventSession | null>(null);
+  const [form, setForm] = useState<SessionForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Coorganizadores com a edição delegada (de qualquer papel) também editam a agenda; o backend verifica a permissão em
+  // cada alteração.
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchAgenda = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ event: AgendaEvent }>(`/events/${eventId}`);
+      setEvent(data.event);
+      setSessions(data.event.sessions);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar a agenda do evento.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, user, eventId]);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated) {
+      fetchAgenda();
+    }
+  }, [authLoading, isAuthenticated, user, fetchAgenda]);
+
+  const handleOpenCreateModal = () => {
+    if (!event) return;
+    // Sugere o horário logo após a última sessão da agenda (ou o início do evento).
+    const lastSession = sessions[sessions.length - 1];
+    setEditingSession(null);
+    setForm(emptyForm(lastSession ? lastSession.endsAt : event.startsAt, event.timezone));
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleOpenEditModal = (session: EventSession) => {
+    if (!event) return;
+    setEditingSession(session);
+    setForm({
+      title: session.title,
+      description: session.description || '',
+      startsAt: toZonedInput(session.startsAt, event.timezone),
+      endsAt: toZonedInput(session.endsAt, event.timezone),
+      room: session.room || '',
+      onlineLink: session.onlineLink || '',
+      speakers: session.speakers.join(', '),
+      maxCapacity: session.maxCapacity !== null ? String(session.maxCapacity) : '',
+    });
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingSession(null);
+    setForm(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prevForm) => (prevForm ? { ...prevForm, [name]: value } : prevForm));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || !event) return;
+    setFormError(null);
+
+    const startsAt = zonedInputToISO(form.startsAt, event.timezone);
+    const endsAt = zonedInputToISO(form.endsAt, event.timezone);
+    if (!startsAt || !endsAt) {
+      setFormError('Informe o início e o fim da sessão.');
+      return;
+    }
+
+    if (form.room && form.onlineLink) {
+      setFormError('Informe a sala ou o link online da sessão, não ambos.');
+      return;
+    }
+
+    const payload = {
+      title: form.title,
+      description: form.description || null,
+      startsAt,
+      endsAt,
+      room: form.room || null,
+      onlineLink: form.onlineLink || null,
+      speakers: form.speakers.split(',').map((speaker) => speaker.trim()).filter(Boolean),
+      // Sem capacidade própria, a sessão aceita todos os participantes do evento.
+      maxCapacity: form.maxCapacity ? Number(form.maxCapacity) : null,
+    };
+
+    try {
+      const res = editingSession
+        ? await apiFetch<{ message: string }>(`/events/${eventId}/sessions/${editingSession.id}`, { method: 'PUT', body: JSON.stringify(payload) })
+        : await apiFetch<{ message: string }>(`/events/${eventId}/sessions`, { method: 'POST', body: JSON.stringify(payload) });
+      alert(res.message);
+      handleCloseModal();
+      fetchAgenda();
+    } catch (err: any) {
+      setFormError(err.message || 'Falha ao salvar a sessão.');
+    }
+  };
+
+  const handleDeleteSession = async (session: EventSession) => {
+    const confirmed = window.confirm(`Remover a sessão "${session.title}"? As inscrições dos participantes nela serão apagadas.`);
+    if (!confirmed) return;
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${eventId}/sessions/${session.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchAgenda();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao remover a sessão.');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando agenda...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !event) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error || 'Evento não encontrado.'}</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Agenda: {event.name}</h1>
+            <p className="text-sm text-muted-foreground">{formatEventSchedule(event)} · horários no fuso {event.timezone}</p>
+            <Link href="/admin/events" className="text-sm text-primary hover:underline">Voltar para eventos</Link>
+          </div>
+          <Button onClick={handleOpenCreateModal} className="flex items-center gap-2">
+            <PlusCircleIcon className="w-5 h-5" /> Nova Sessão
+          </Button>
+        </div>
+
+        {sessions.length === 0 && (
+          <div className="text-center text-muted-foreground text-lg">Este evento ainda não tem sessões na agenda.</div>
+        )}
+
+        <div className="space-y-8">
+          {groupSessionsByDay(sessions, event.timezone).map(({ day, sessions: daySessions }) => (
+            <section key={day}>
+              <h2 className="text-sm font-semibold uppercase text-muted-foreground mb-3">{day}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {daySessions.map((session) => (
+                  <div key={session.id} className="bg-card border border-border rounded-md p-4 flex flex-col gap-2">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <ClockIcon className="w-4 h-4" /> {formatSessionTimeRange(session, event.timezone)}
+                    </div>
+                    <h3 className="text-lg font-semibold text-foreground">{session.title}</h3>
+                    {session.speakers.length > 0 && (
+                      <div className="flex items-center gap-2 text-sm"><MicIcon className="w-4 h-4 text-primary" />{session.speakers.join(', ')}</div>
+                    )}
+                    {session.room && (
+                      <div className="flex items-center gap-2 text-sm"><MapPinIcon className="w-4 h-4 text-primary" />{session.room}</div>
+                    )}
+                    {session.onlineLink && (
+                      <div className="flex items-center gap-2 text-sm"><LinkIcon className="w-4 h-4 text-primary" />{session.onlineLink}</div>
+                    )}
+                    <div className="flex items-center gap-2 text-sm">
+                      <UsersIcon className="w-4 h-4 text-primary" />
+                      {session.maxCapacity !== null ? `${session.availableSpots} / ${session.maxCapacity} vagas` : 'Sem limite próprio de vagas'}
+                    </div>
+                    <div className="mt-auto pt-3 border-t border-border flex justify-end gap-2">
+                      <Button onClick={() => handleOpenEditModal(session)} variant="secondary" size="sm">
+                        <EditIcon className="w-4 h-4 mr-1" /> Editar
+                      </Button>
+                      <Button onClick={() => handleDeleteSession(session)} variant="destructive" size="sm">
+                        <Trash2Icon className="w-4 h-4 mr-1" /> Remover
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {isModalOpen && form && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+            <div className="bg-card rounded-md p-8 w-full max-w-lg relative max-h-[90vh] overflow-y-auto">
+              <Button variant="ghost" size="icon" onClick={handleCloseModal} className="absolute top-4 right-4">
+                <XCircleIcon className="w-6 h-6" />
+              </Button>
+              <h2 className="text-2xl font-bold text-foreground mb-6">{editingSession ? 'Editar Sessão' : 'Nova Sessão'}</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input name="title" placeholder="Título da sessão" value={form.title} onChange={handleChange} required />
+                <textarea
+                  name="description"
+                  placeholder="Descrição (opcional)"
+                  value={form.description}
+                  onChange={handleChange}
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="startsAt" className="block text-sm font-medium text-foreground mb-1">Início</label>
+                    <Input id="startsAt" type="datetime-local" name="startsAt" value={form.startsAt} onChange={handleChange} required />
+                  </div>
+                  <div>
+                    <label htmlFor="endsAt" className="block text-sm font-medium text-foreground mb-1">Fim</label>
+                    <Input id="endsAt" type="datetime-local" name="endsAt" value={form.endsAt} onChange={handleChange} required />
+                  </div>
+                </div>
+                <Input name="room" placeholder="Sala (opcional)" value={form.room} onChange={handleChange} />
+                <Input name="onlineLink" placeholder="Link online (opcional)" value={form.onlineLink} onChange={handleChange} />
+                <Input name="speakers" placeholder="Palestrantes, separados por vírgula" value={form.speakers} onChange={handleChange} />
+                <div>
+                  <label htmlFor="maxCapacity" className="block text-sm font-medium text-foreground mb-1">Capacidade da sessão</label>
+                  <Input id="maxCapacity" type="number" min={1} name="maxCapacity" placeholder="Sem limite próprio" value={form.maxCapacity} onChange={handleChange} />
+                </div>
+                {formError && <p className="text-sm text-destructive">{formError}</p>}
+                <div className="flex justify-end gap-2 pt-2">
+                  <Button type="button" variant="outline" onClick={handleCloseModal}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit">
+                    {editingSession ? 'Salvar Alterações' : 'Adicionar Sessão'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminEventSessionsPage;
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { can } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { UserCircleIcon, Trash2Icon, PlusCircleIcon } from 'lucide-react';
+import {
+  CoOrganizer,
+  CoOrganizerPermission,
+  CO_ORGANIZER_PERMISSIONS,
+  CO_ORGANIZER_PERMISSION_LABELS,
+  CO_ORGANIZER_STATUS_LABELS,
+} from '@/lib/coOrganizers';
+
+interface StaffMember {
+  id: string;
+  createdAt: string;
+  user: { id: string; email: string };
+  assignedBy: { id: string; email: string } | null;
+}
+
+// Equipe de um evento: a de check-in (usuários com o papel CHECKIN_STAFF atribuídos pelo organizador) e os
+// coorganizadores convidados, com as permissões delegadas a cada um.
+const AdminEventStaffPage: React.FC<{ params: { id: string } }> = ({ params }) => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const eventId = params.id;
+
+  const [eventName, setEventName] = useState<string | null>(null);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [coOrganizers, setCoOrganizers] = useState<CoOrganizer[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [invitePermissions, setInvitePermissions] = useState<CoOrganizerPermission[]>(['VIEW_ATTENDEES']);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'event:manage-staff'))) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchStaff = useCallback(async () => {
+    if (!isAuthenticated || !can(user?.role, 'event:manage-staff')) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [eventData, staffData, coOrganizerData] = await Promise.all([
+        apiFetch<{ event: { name: string } }>(`/events/${eventId}`),
+        apiFetch<{ staff: StaffMember[] }>(`/events/${eventId}/staff`),
+        apiFetch<{ coOrganizers: CoOrganizer[] }>(`/events/${eventId}/co-organizers`),
+      ]);
+      setEventName(eventData.event.name);
+      setStaff(staffData.staff);
+      setCoOrganizers(coOrganizerData.coOrganizers);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar a equipe do evento.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, user, eventId]);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && can(user?.role, 'event:manage-staff')) {
+      fetchStaff();
+    }
+  }, [authLoading, isAuthenticated, user, fetchStaff]);
+
+  const handleAddStaff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${eventId}/staff`, {
+        method: 'POST',
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      alert(res.message);
+      setEmail('');
+      fetchStaff();
+    } catch (err: any) {
+      setFormError(err.message || 'Falha ao atribuir o usuário à equipe.');
+    }
+  };
+
+  const handleRemoveStaff = async (member: StaffMember) => {
+    const confirmed = window.confirm(`Remover ${member.user.email} da equipe de check-in?`);
+    if (!confirmed) return;
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${eventId}/staff/${member.user.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchStaff();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao remover o usuário da equipe.');
+    }
+  };
+
+  const togglePermission = (permissions: CoOrganizerPermission[], permission: CoOrganizerPermission) => {
+    return permissions.includes(permission)
+      ? permissions.filter((current) => current !== permission)
+      : [...permissions, permission];
+  };
+
+  const handleInviteCoOrganizer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+    if (invitePermissions.length === 0) {
+      setInviteError('Escolha ao menos uma permissão.');
+      return;
+    }
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${eventId}/co-organizers`, {
+        method: 'POST',
+        body: JSON.stringify({ email: inviteEmail.trim(), permissions: invitePermissions }),
+      });
+      alert(res.message);
+      setInviteEmail('');
+      fetchStaff();
+    } catch (err: any) {
+      setInviteError(err.message || 'Falha ao convidar o coorganizador.');
+    }
+  };
+
+  const handleToggleCoOrganizerPermission = async (coOrganizer: CoOrganizer, permission: CoOrganizerPermission) => {
+    const permissions = togglePermission(coOrganizer.permissions, permission);
+    if (permissions.length === 0) {
+      alert('O coorganizador precisa de ao menos uma permissão. Para retirar todas, remova-o do evento.');
+      return;
+    }
+    try {
+      await apiFetch<{ message: string }>(`/events/${eventId}/co-organizers/${coOrganizer.user.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ permissions }),
+      });
+      fetchStaff();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao alterar as permissões do coorganizador.');
+    }
+  };
+
+  const handleRemoveCoOrganizer = async (coOrganizer: CoOrganizer) => {
+    const confirmed = window.confirm(`Remover ${coOrganizer.user.email} dos coorganizadores do evento?`);
+    if (!confirmed) return;
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${eventId}/co-organizers/${coOrganizer.user.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchStaff();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao remover o coorganizador.');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando equipe...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground">Equipe: {eventName}</h1>
+          <Link href="/admin/events" className="text-sm text-primary hover:underline">Voltar para eventos</Link>
+        </div>
+
+        <h2 className="text-xl font-semibold text-foreground mb-4">Equipe de check-in</h2>
+
+        <form onSubmit={handleAddStaff} className="bg-card p-6 rounded-md mb-6 space-y-3">
+          <label htmlFor="email" className="block text-sm font-medium text-foreground">
+            E-mail de um usuário com o papel de check-in
+          </label>
+          <div className="flex gap-2">
+            <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+            <Button type="submit" className="flex items-center gap-2">
+              <PlusCircleIcon className="w-5 h-5" /> Atribuir
+            </Button>
+          </div>
+          {formError && <p className="text-destructive text-sm">{formError}</p>}
+        </form>
+
+        {staff.length === 0 && (
+          <div className="text-center text-muted-foreground text-lg">Nenhum usuário atribuído à equipe de check-in.</div>
+        )}
+
+        <div className="space-y-3">
+          {staff.map((member) => (
+            <div key={member.id} className="bg-card border border-border rounded-md p-4 flex items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 font-medium text-foreground">
+                  <UserCircleIcon className="w-4 h-4 text-primary" /> {member.user.email}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Atribuído em {new Date(member.createdAt).toLocaleString('pt-BR')}
+                  {member.assignedBy && ` por ${member.assignedBy.email}`}
+                </p>
+              </div>
+              <Button onClick={() => handleRemoveStaff(member)} variant="destructive" size="sm">
+                <Trash2Icon className="w-4 h-4 mr-1" /> Remover
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <h2 className="text-xl font-semibold text-foreground mt-10 mb-4">Coorganizadores</h2>
+
+        <form onSubmit={handleInviteCoOrganizer} className="bg-card p-6 rounded-md mb-6 space-y-3">
+          <label htmlFor="inviteEmail" className="block text-sm font-medium text-foreground">
+            E-mail do usuário a convidar
+          </label>
+          <div className="flex gap-2">
+            <Input id="inviteEmail" type="email" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} required />
+            <Button type="submit" className="flex items-center gap-2">
+              <PlusCircleIcon className="w-5 h-5" /> Convidar
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-foreground">
+            {CO_ORGANIZER_PERMISSIONS.map((permission) => (
+              <label key={permission} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={invitePermissions.includes(permission)}
+                  onChange={() => setInvitePermissions((current) => togglePermission(current, permission))}
+                  className="h-4 w-4"
+                />
+                {CO_ORGANIZER_PERMISSION_LABELS[permission]}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">As permissões passam a valer quando o convidado aceitar o convite.</p>
+          {inviteError && <p className="text-destructive text-sm">{inviteError}</p>}
+        </form>
+
+        {coOrganizers.length === 0 && (
+          <div className="text-center text-muted-foreground text-lg">Nenhum coorganizador convidado.</div>
+        )}
+
+        <div className="space-y-3">
+          {coOrganizers.map((coOrganizer) => (
+            <div key={coOrganizer.id} className="bg-card border border-border rounded-md p-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 font-medium text-foreground">
+                    <UserCircleIcon className="w-4 h-4 text-primary" /> {coOrganizer.user.email}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {CO_ORGANIZER_STATUS_LABELS[coOrganizer.status]} · convidado em {new Date(coOrganizer.createdAt).toLocaleString('pt-BR')}
+                    {coOrganizer.invitedBy && ` por ${coOrganizer.invitedBy.email}`}
+                  </p>
+                </div>
+                <Button onClick={() => handleRemoveCoOrganizer(coOrganizer)} variant="destructive" size="sm">
+                  <Trash2Icon className="w-4 h-4 mr-1" /> Remover
+                </Button>
+              </div>
+              {coOrganizer.status !== 'DECLINED' && (
+                <div className="flex flex-wrap gap-4 text-sm text-foreground">
+                  {CO_ORGANIZER_PERMISSIONS.map((permission) => (
+                    <label key={permission} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={coOrganizer.permissions.includes(permission)}
+                        onChange={() => handleToggleCoOrganizerPermission(coOrganizer, permission)}
+                        className="h-4 w-4"
+                      />
+                      {CO_ORGANIZER_PERMISSION_LABELS[permission]}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AdminEventStaffPage;
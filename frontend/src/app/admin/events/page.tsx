@@ -3,23 +3,59 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import Header from '@/components/Header';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/components/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon, EditIcon, Trash2Icon, PlusCircleIcon, XCircleIcon } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon, EditIcon, Trash2Icon, PlusCircleIcon, XCircleIcon, RepeatIcon, ListIcon, MonitorIcon, BuildingIcon, TagIcon, ShieldCheckIcon } from 'lucide-react';
+import { cn, toDateTimeLocal } from '@/lib/utils';
+import { can, getPermissionScope } from '@/lib/permissions';
+import {
+  EventPage,
+  EventStatus,
+  EVENT_STATUS_LABELS,
+  EVENT_STATUS_ACTIONS,
+  SeriesEditScope,
+  SERIES_EDIT_SCOPE_LABELS,
+  RecurrenceFrequency,
+  RecurrenceOptions,
+  RECURRENCE_FREQUENCY_LABELS,
+  WEEKDAY_SHORT_LABELS,
+  buildRRule,
+} from '@/lib/events';
+import EventDateTime from '@/components/EventDateTime';
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS, toZonedInput, zonedInputToISO } from '@/lib/timezone';
+import { EventFormat, EVENT_FORMAT_LABELS, formatEventSpots } from '@/lib/attendance';
+import { RoomEventConflict, Venue, formatRoomConflict } from '@/lib/venues';
+import { Category, CategorySummary, parseTagInput } from '@/lib/categories';
+import { parseCoordinatesInput } from '@/lib/geo';
 
 interface Event {
   id: string;
   name: string;
   description: string | null;
-  eventDate: string; 
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  format: EventFormat;
+  roomId: string | null;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
   onlineLink: string | null;
+  categoryId: string | null;
+  category: CategorySummary | null;
+  tags: string[];
   maxCapacity: number;
   availableSpots: number;
+  onlineCapacity: number;
+  onlineAvailableSpots: number;
+  maxSeatsPerUser: number;
+  status: EventStatus;
+  publishAt: string | null;
+  seriesId: string | null;
   creatorId: string;
   createdAt: string;
   updatedAt: string;
@@ -29,53 +65,123 @@ const AdminEventsPage: React.FC = () => {
   const router = useRouter();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [events, setEvents] = useState<Event[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showAllEvents, setShowAllEvents] = useState(false); // "Todos os eventos" em vez de "Meus eventos" (apenas admins).
   const [showModal, setShowModal] = useState(false); 
   const [isEditing, setIsEditing] = useState(false); 
   const [currentEvent, setCurrentEvent] = useState<Partial<Event> | null>(null); 
   const [modalError, setModalError] = useState<string | null>(null); 
+  const [roomConflicts, setRoomConflicts] = useState<RoomEventConflict[]>([]); // Eventos que já ocupam a sala escolhida.
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tagInput, setTagInput] = useState(''); // Tags separadas por vírgula.
+  const [coordinatesInput, setCoordinatesInput] = useState(''); // "latitude, longitude"; vazio = calculadas pelo backend.
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null); // Apenas na criação; null = evento único.
+  const [editScope, setEditScope] = useState<SeriesEditScope>('THIS'); // Apenas na edição de ocorrências de série.
 
+  // Além de organizadores e admins, coorganizadores (de qualquer papel) gerenciam aqui os eventos que coorganizam; o backend
+  // recusa as ações fora das permissões delegadas.
   useEffect(() => {
-    if (!authLoading && (!isAuthenticated || user?.role !== 'ADMIN')) {
+    if (!authLoading && !isAuthenticated) {
       router.push('/'); 
     }
   }, [isAuthenticated, authLoading, user, router]);
 
+  // "Meus eventos" são os criados e os coorganizados pelo usuário; apenas admins podem listar todos.
+  const canManageAllEvents = getPermissionScope(user?.role, 'event:update') === 'all';
+  const listQuery = canManageAllEvents && showAllEvents ? '' : 'mine=true';
+
   const fetchEvents = useCallback(async () => {
-    if (!isAuthenticated || user?.role !== 'ADMIN') {
+    if (!isAuthenticated) {
       setLoading(false);
       return;
     }
     setLoading(true);
     setError(null);
     try {
-      const data = await apiFetch<{ events: Event[] }>('/events', { method: 'GET' });
+      const data = await apiFetch<EventPage<Event>>(`/events${listQuery ? `?${listQuery}` : ''}`, { method: 'GET' });
       setEvents(data.events);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
     } catch (err: any) {
       setError(err.message || 'Falha ao carregar eventos.');
     } finally {
       setLoading(false);
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, listQuery]);
+
+  const fetchMoreEvents = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await apiFetch<EventPage<Event>>(`/events?cursor=${encodeURIComponent(nextCursor)}${listQuery ? `&${listQuery}` : ''}`, { method: 'GET' });
+      setEvents((current) => [...current, ...data.events]);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar mais eventos.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const fetchVenues = useCallback(async () => {
+    try {
+      const data = await apiFetch<{ venues: Venue[] }>('/venues', { method: 'GET' });
+      setVenues(data.venues);
+    } catch (err: any) {
+      console.error('Falha ao carregar locais:', err);
+    }
+  }, []);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const data = await apiFetch<{ categories: Category[] }>('/categories', { method: 'GET' });
+      setCategories(data.categories);
+    } catch (err: any) {
+      console.error('Falha ao carregar categorias:', err);
+    }
+  }, []);
 
   useEffect(() => {
-    if (!authLoading && isAuthenticated && user?.role === 'ADMIN') {
+    if (!authLoading && isAuthenticated) {
       fetchEvents();
+      fetchVenues();
+      fetchCategories();
     }
-  }, [authLoading, isAuthenticated, user, fetchEvents]);
+  }, [authLoading, isAuthenticated, user, fetchEvents, fetchVenues, fetchCategories]);
+
+  const selectedRoom = venues.flatMap((venue) => venue.rooms).find((room) => room.id === currentEvent?.roomId);
 
   const handleOpenCreateModal = () => {
     setIsEditing(false);
     setCurrentEvent({
       name: '',
       description: '',
-      eventDate: new Date().toISOString().substring(0, 16), 
+      // Datas do formulário são horários no fuso do evento.
+      startsAt: toZonedInput(Date.now(), DEFAULT_TIMEZONE),
+      endsAt: toZonedInput(Date.now() + 2 * 60 * 60000, DEFAULT_TIMEZONE),
+      timezone: DEFAULT_TIMEZONE,
+      format: 'IN_PERSON',
+      roomId: null,
       location: '',
       onlineLink: '',
+      categoryId: null,
       maxCapacity: 1,
+      onlineCapacity: 0,
+      maxSeatsPerUser: 1,
+      status: 'DRAFT',
+      publishAt: '',
     });
+    setTagInput('');
+    setCoordinatesInput('');
+    setRecurrence(null);
     setModalError(null);
+    setRoomConflicts([]);
     setShowModal(true);
   };
 
@@ -83,11 +189,17 @@ const AdminEventsPage: React.FC = () => {
     setIsEditing(true);
     setCurrentEvent({
       ...event,
-      eventDate: new Date(event.eventDate).toISOString().substring(0, 16), 
+      startsAt: toZonedInput(event.startsAt, event.timezone),
+      endsAt: toZonedInput(event.endsAt, event.timezone),
       location: event.location || '', 
       onlineLink: event.onlineLink || '', 
+      publishAt: event.publishAt ? toDateTimeLocal(event.publishAt) : '',
     });
+    setTagInput(event.tags.join(', '));
+    setCoordinatesInput('');
+    setEditScope('THIS');
     setModalError(null);
+    setRoomConflicts([]);
     setShowModal(true);
   };
 
@@ -99,37 +211,78 @@ const AdminEventsPage: React.FC = () => {
   const handleModalSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setModalError(null);
+    setRoomConflicts([]);
 
     if (!currentEvent) return;
 
-    let formattedEventDate = '';
-    try {
-      const dateObj = new Date(currentEvent.eventDate || '');
-      if (isNaN(dateObj.getTime())) {
-        setModalError('Data e hora do evento inválidas.');
-        return;
-      }
-      formattedEventDate = dateObj.toISOString(); 
-    } catch (dateError) {
-      setModalError('Formato de data e hora inválido.');
+    // Início e término são lidos no fuso escolhido para o evento, não no fuso do navegador.
+    const eventTimeZone = currentEvent.timezone || DEFAULT_TIMEZONE;
+    const startsAt = currentEvent.startsAt ? zonedInputToISO(currentEvent.startsAt, eventTimeZone) : null;
+    const endsAt = currentEvent.endsAt ? zonedInputToISO(currentEvent.endsAt, eventTimeZone) : null;
+    if (!startsAt || !endsAt) {
+      setModalError('Informe a data e hora de início e de término do evento.');
+      return;
+    }
+    if (new Date(endsAt) <= new Date(startsAt)) {
+      setModalError('O término do evento deve ser posterior ao início.');
       return;
     }
 
-
+    const eventFormat = currentEvent.format || 'IN_PERSON';
     const payload: any = {
       name: currentEvent.name,
       description: currentEvent.description || null, 
-      eventDate: formattedEventDate,
+      startsAt,
+      endsAt,
+      timezone: eventTimeZone,
+      format: eventFormat,
       maxCapacity: currentEvent.maxCapacity ? Number(currentEvent.maxCapacity) : 1, 
+      maxSeatsPerUser: currentEvent.maxSeatsPerUser ? Number(currentEvent.maxSeatsPerUser) : 1,
+      categoryId: currentEvent.categoryId || null,
+      tags: parseTagInput(tagInput),
     };
+    // Só eventos híbridos dividem a capacidade; nos demais formatos o backend a define pelo formato.
+    if (eventFormat === 'HYBRID') {
+      payload.onlineCapacity = Number(currentEvent.onlineCapacity) || 0;
+    }
 
-    if (currentEvent.location && currentEvent.location.trim() !== '') {
+    // Campos que não fazem parte do formato escolhido são limpos. Com sala, o local é o endereço dela.
+    payload.roomId = eventFormat !== 'ONLINE' && currentEvent.roomId ? currentEvent.roomId : null;
+    if (eventFormat !== 'ONLINE' && !payload.roomId && currentEvent.location && currentEvent.location.trim() !== '') {
       payload.location = currentEvent.location.trim();
     } else {
       payload.location = null;
     }
 
-    if (currentEvent.onlineLink && currentEvent.onlineLink.trim() !== '') {
+    // Sem coordenadas digitadas, o backend usa as do local da sala ou geocodifica o endereço.
+    if (eventFormat !== 'ONLINE' && coordinatesInput.trim() !== '') {
+      const coordinates = parseCoordinatesInput(coordinatesInput);
+      if (!coordinates) {
+        setModalError('Coordenadas inválidas. Use "latitude, longitude", ex: -23.5505, -46.6333.');
+        return;
+      }
+      payload.latitude = coordinates.latitude;
+      payload.longitude = coordinates.longitude;
+    }
+
+    // Publicação agendada só vale para rascunhos; na criação, o evento pode já nascer publicado.
+    if (!isEditing) {
+      payload.status = currentEvent.status === 'PUBLISHED' ? 'PUBLISHED' : 'DRAFT';
+    }
+    if (currentEvent.status === 'DRAFT') {
+      if (currentEvent.publishAt) {
+        const publishDate = new Date(currentEvent.publishAt);
+        if (isNaN(publishDate.getTime())) {
+          setModalError('Data de publicação agendada inválida.');
+          return;
+        }
+        payload.publishAt = publishDate.toISOString();
+      } else {
+        payload.publishAt = null;
+      }
+    }
+
+    if (eventFormat !== 'IN_PERSON' && currentEvent.onlineLink && currentEvent.onlineLink.trim() !== '') {
       payload.onlineLink = currentEvent.onlineLink.trim();
     } else {
       payload.onlineLink = null;
@@ -139,26 +292,63 @@ const AdminEventsPage: React.FC = () => {
       setModalError('O nome do evento é obrigatório.');
       return;
     }
-    if (!payload.eventDate) {
-      setModalError('A data e hora do evento são obrigatórias.');
-      return;
-    }
     if (payload.maxCapacity <= 0) {
       setModalError('A capacidade máxima deve ser um número positivo.');
       return;
     }
-    if ((payload.location && payload.onlineLink) || (!payload.location && !payload.onlineLink)) {
-      setModalError('O evento deve ter uma localização OU um link online, mas não ambos.');
+    if (payload.maxSeatsPerUser <= 0 || payload.maxSeatsPerUser > payload.maxCapacity) {
+      setModalError('O limite de assentos por usuário deve estar entre 1 e a capacidade máxima.');
+      return;
+    }
+    if (eventFormat !== 'ONLINE' && !payload.roomId && !payload.location) {
+      setModalError('Escolha uma sala ou informe o local do evento.');
+      return;
+    }
+    if (eventFormat !== 'IN_PERSON' && !payload.onlineLink) {
+      setModalError('Informe o link online do evento.');
+      return;
+    }
+    if (eventFormat === 'HYBRID' && (payload.onlineCapacity <= 0 || payload.onlineCapacity >= payload.maxCapacity)) {
+      setModalError('A capacidade online deve ser positiva e menor que a capacidade total, deixando vagas presenciais.');
       return;
     }
+    if (payload.roomId && selectedRoom) {
+      const inPersonCapacity = payload.maxCapacity - (eventFormat === 'HYBRID' ? payload.onlineCapacity : 0);
+      if (inPersonCapacity > selectedRoom.capacity) {
+        setModalError(`A capacidade presencial (${inPersonCapacity}) excede a capacidade da sala (${selectedRoom.capacity}).`);
+        return;
+      }
+    }
+
+    if (isEditing && currentEvent.seriesId) {
+      payload.scope = editScope;
+    }
+
+    if (!isEditing && recurrence) {
+      if (!recurrence.count && !recurrence.until) {
+        setModalError('Informe o número de ocorrências ou a data final da repetição.');
+        return;
+      }
+      if (recurrence.frequency === 'WEEKLY' && recurrence.weekdays.length === 0) {
+        setModalError('Escolha ao menos um dia da semana para a repetição.');
+        return;
+      }
+      payload.rrule = buildRRule(recurrence, eventTimeZone);
+    }
 
     try {
       if (isEditing && currentEvent.id) {
-        await apiFetch(`/events/${currentEvent.id}`, {
+        const res = await apiFetch<{ message: string }>(`/events/${currentEvent.id}`, {
           method: 'PUT',
           body: JSON.stringify(payload), 
         });
-        alert('Evento atualizado com sucesso!');
+        alert(res.message);
+      } else if (recurrence) {
+        const res = await apiFetch<{ message: string }>('/events/series', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+        });
+        alert(res.message);
       } else {
         await apiFetch('/events', {
           method: 'POST',
@@ -174,12 +364,38 @@ const AdminEventsPage: React.FC = () => {
         setModalError(`Falha na validação: ${errorMessages}`);
       } else {
         setModalError(err.message || 'Falha ao salvar evento.');
+        if (Array.isArray(err.conflicts)) {
+          setRoomConflicts(err.conflicts);
+        }
       }
     }
   };
 
+  const handleChangeStatus = async (event: Event, status: EventStatus) => {
+    let reason: string | undefined;
+    if (status === 'CANCELED') {
+      const answer = window.prompt('Motivo do cancelamento (será registrado em todas as reservas canceladas):', '');
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+      if (!confirm(`Cancelar "${event.name}"? Todas as reservas ativas serão canceladas.`)) {
+        return;
+      }
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${event.id}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status, ...(reason ? { reason } : {}) }),
+      });
+      alert(res.message);
+      fetchEvents();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao alterar status do evento.');
+    }
+  };
+
   const handleDeleteEvent = async (eventId: string) => {
-    if (!confirm('Tem certeza que deseja deletar este evento? Todas as reservas associadas também serão removidas.')) {
+    if (!confirm('Mover este evento para a lixeira? Ele poderá ser restaurado, com suas reservas, até a data de expurgo.')) {
       return;
     }
 
@@ -205,12 +421,12 @@ const AdminEventsPage: React.FC = () => {
     );
   }
 
-  if (!isAuthenticated || user?.role !== 'ADMIN') {
+  if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
         <Header />
         <main className="flex-grow flex items-center justify-center">
-          <div className="text-lg text-muted-foreground">Acesso negado. Apenas administradores podem gerenciar eventos.</div>
+          <div className="text-lg text-muted-foreground">Acesso negado. Faça login para gerenciar eventos.</div>
         </main>
       </div>
     );
@@ -222,10 +438,36 @@ const AdminEventsPage: React.FC = () => {
       <main className="flex-grow container mx-auto p-4 md:p-8">
         <h1 className="text-3xl font-bold text-center text-foreground mb-8">Gerenciar Eventos</h1>
 
-        <div className="bg-card p-6 rounded-md mb-6 flex justify-end">
-          <Button onClick={handleOpenCreateModal} className="flex items-center gap-2">
-            <PlusCircleIcon className="h-5 w-5" /> Criar Novo Evento
-          </Button>
+        <div className="bg-card p-6 rounded-md mb-6 flex flex-wrap justify-end gap-2">
+          {canManageAllEvents && (
+            <div className="flex gap-1 mr-auto">
+              <Button variant={showAllEvents ? 'outline' : 'default'} onClick={() => setShowAllEvents(false)}>
+                Meus eventos
+              </Button>
+              <Button variant={showAllEvents ? 'default' : 'outline'} onClick={() => setShowAllEvents(true)}>
+                Todos os eventos
+              </Button>
+            </div>
+          )}
+          {can(user?.role, 'category:manage') && (
+            <Button asChild variant="outline" className="flex items-center gap-2">
+              <Link href="/admin/categories">
+                <TagIcon className="h-5 w-5" /> Categorias
+              </Link>
+            </Button>
+          )}
+          {can(user?.role, 'venue:manage') && (
+            <Button asChild variant="outline" className="flex items-center gap-2">
+              <Link href="/admin/venues">
+                <BuildingIcon className="h-5 w-5" /> Locais e Salas
+              </Link>
+            </Button>
+          )}
+          {can(user?.role, 'event:create') && (
+            <Button onClick={handleOpenCreateModal} className="flex items-center gap-2">
+              <PlusCircleIcon className="h-5 w-5" /> Criar Novo Evento
+            </Button>
+          )}
         </div>
 
         {error && (
@@ -238,21 +480,42 @@ const AdminEventsPage: React.FC = () => {
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           {events.map((event) => {
-            const eventDateTime = new Date(event.eventDate);
-            const formattedDate = eventDateTime.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
-            const formattedTime = eventDateTime.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+            // Nos eventos coorganizados, excluir e gerenciar a equipe continuam com o organizador.
+            const isOwnEvent = canManageAllEvents || event.creatorId === user?.id;
 
             return (
               <div
                 key={event.id}
                 className="bg-card border border-border rounded-md p-6 flex flex-col gap-4 transition-transform duration-300 hover:scale-[1.02]" 
               >
-                <h2 className="text-xl font-semibold text-foreground">{event.name}</h2>
+                <div className="flex items-start justify-between gap-2">
+                  <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                    {event.name}
+                    {event.seriesId && <RepeatIcon className="w-4 h-4 text-muted-foreground" aria-label="Evento recorrente" />}
+                    {!isOwnEvent && <span className="text-xs font-normal text-muted-foreground">(coorganizador)</span>}
+                  </h2>
+                  <span className={cn(
+                    "text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap",
+                    event.status === 'PUBLISHED' ? 'bg-green-100 text-green-800' :
+                    event.status === 'CANCELED' ? 'bg-destructive/10 text-destructive' : 'bg-muted text-muted-foreground'
+                  )}>
+                    {EVENT_STATUS_LABELS[event.status]}
+                  </span>
+                </div>
                 <p className="text-muted-foreground text-sm line-clamp-2">{event.description}</p>
+                {event.status === 'DRAFT' && event.publishAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Publicação agendada para {new Date(event.publishAt).toLocaleString('pt-BR')}
+                  </p>
+                )}
                 <div className="space-y-2 text-sm text-foreground/80">
                   <div className="flex items-center gap-2">
                     <CalendarIcon className="w-4 h-4 text-primary" />
-                    <span>{formattedDate} às {formattedTime}</span>
+                    <EventDateTime event={event} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MonitorIcon className="w-4 h-4 text-primary" />
+                    <span>{EVENT_FORMAT_LABELS[event.format]}</span>
                   </div>
                   {event.location && (
                     <div className="flex items-center gap-2">
@@ -270,26 +533,73 @@ const AdminEventsPage: React.FC = () => {
                   )}
                   <div className="flex items-center gap-2">
                     <UsersIcon className="w-4 h-4 text-primary" />
-                    <span>{event.availableSpots} / {event.maxCapacity} vagas</span>
+                    <span>{formatEventSpots(event)} vagas (até {event.maxSeatsPerUser} por usuário)</span>
                   </div>
+                  {(event.category || event.tags.length > 0) && (
+                    <div className="flex items-center gap-2">
+                      <TagIcon className="w-4 h-4 text-primary" />
+                      <span>
+                        {[event.category?.name, ...event.tags.map((tag) => `#${tag}`)].filter(Boolean).join(' · ')}
+                      </span>
+                    </div>
+                  )}
                 </div>
-                <div className="mt-auto pt-4 border-t border-border flex justify-end gap-2">
-                  <Button onClick={() => handleOpenEditModal(event)} variant="secondary" size="sm">
-                    <EditIcon className="w-4 h-4 mr-1" /> Editar
+                {EVENT_STATUS_ACTIONS[event.status].length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {EVENT_STATUS_ACTIONS[event.status].map((action) => (
+                      <Button
+                        key={action.status}
+                        onClick={() => handleChangeStatus(event, action.status)}
+                        variant={action.status === 'CANCELED' ? 'destructive' : 'outline'}
+                        size="sm"
+                      >
+                        {action.label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-auto pt-4 border-t border-border flex flex-wrap justify-end gap-2">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/events/${event.id}/sessions`}>
+                      <ListIcon className="w-4 h-4 mr-1" /> Agenda
+                    </Link>
                   </Button>
-                  <Button onClick={() => handleDeleteEvent(event.id)} variant="destructive" size="sm">
-                    <Trash2Icon className="w-4 h-4 mr-1" /> Deletar
+                  {can(user?.role, 'event:manage-staff') && isOwnEvent && (
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/admin/events/${event.id}/staff`}>
+                        <ShieldCheckIcon className="w-4 h-4 mr-1" /> Equipe
+                      </Link>
+                    </Button>
+                  )}
+                  <Button onClick={() => handleOpenEditModal(event)} variant="secondary" size="sm" disabled={event.status === 'ARCHIVED'}>
+                    <EditIcon className="w-4 h-4 mr-1" /> Editar
                   </Button>
+                  {isOwnEvent && (
+                    <Button onClick={() => handleDeleteEvent(event.id)} variant="destructive" size="sm">
+                      <Trash2Icon className="w-4 h-4 mr-1" /> Deletar
+                    </Button>
+                  )}
                 </div>
               </div>
             );
           })}
         </div>
 
+        {events.length > 0 && (
+          <div className="mt-6 flex flex-col items-center gap-2">
+            <p className="text-sm text-muted-foreground">Exibindo {events.length} de {total} evento(s).</p>
+            {nextCursor && (
+              <Button onClick={fetchMoreEvents} variant="outline" disabled={loadingMore}>
+                {loadingMore ? 'Carregando...' : 'Carregar mais'}
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Modal para Criar/Editar Evento */}
         {showModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-            <div className="bg-card rounded-md p-6 w-full max-w-md">
+            <div className="bg-card rounded-md p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
               <h2 className="text-2xl font-bold text-center text-foreground mb-6">
                 {isEditing ? 'Editar Evento' : 'Criar Novo Evento'}
               </h2>
@@ -314,8 +624,76 @@ const AdminEventsPage: React.FC = () => {
                     className="flex w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                   ></textarea>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="categoryId" className="block text-sm font-medium text-foreground mb-1">Categoria</label>
+                    <select
+                      id="categoryId"
+                      value={currentEvent?.categoryId || ''}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, categoryId: e.target.value || null })}
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                    >
+                      <option value="">Sem categoria</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="tags" className="block text-sm font-medium text-foreground mb-1">Tags</label>
+                    <Input
+                      id="tags"
+                      type="text"
+                      placeholder="Ex: react, frontend"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="timezone" className="block text-sm font-medium text-foreground mb-1">Fuso Horário</label>
+                  <select
+                    id="timezone"
+                    value={currentEvent?.timezone || DEFAULT_TIMEZONE}
+                    onChange={(e) => setCurrentEvent({ ...currentEvent, timezone: e.target.value })}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                  >
+                    {(currentEvent?.timezone && !TIMEZONE_OPTIONS.includes(currentEvent.timezone)
+                      ? [currentEvent.timezone, ...TIMEZONE_OPTIONS]
+                      : TIMEZONE_OPTIONS
+                    ).map((timeZone) => (
+                      <option key={timeZone} value={timeZone}>{timeZone}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="startsAt" className="block text-sm font-medium text-foreground mb-1">
+                      {recurrence ? 'Início da Primeira Ocorrência' : 'Início'}
+                    </label>
+                    <Input
+                      id="startsAt"
+                      type="datetime-local"
+                      value={currentEvent?.startsAt || ''}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, startsAt: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="endsAt" className="block text-sm font-medium text-foreground mb-1">
+                      {recurrence ? 'Término da Primeira Ocorrência' : 'Término'}
+                    </label>
+                    <Input
+                      id="endsAt"
+                      type="datetime-local"
+                      value={currentEvent?.endsAt || ''}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, endsAt: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
                 <div>
-                  <label htmlFor="eventDate" className="block text-sm font-medium text-foreground mb-1">Data e Hora do Evento</label>
+                  <label htmlFor="maxCapacity" className="block text-sm font-medium text-foreground mb-1">Capacidade Máxima (total)</label>
                   <Input
                     id="maxCapacity"
                     type="number"
@@ -325,29 +703,264 @@ const AdminEventsPage: React.FC = () => {
                     required
                   />
                 </div>
+                <div>
+                  <label htmlFor="maxSeatsPerUser" className="block text-sm font-medium text-foreground mb-1">Máximo de Assentos por Usuário</label>
+                  <Input
+                    id="maxSeatsPerUser"
+                    type="number"
+                    value={currentEvent?.maxSeatsPerUser || 1}
+                    onChange={(e) => setCurrentEvent({ ...currentEvent, maxSeatsPerUser: Number(e.target.value) })}
+                    min={1}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="format" className="block text-sm font-medium text-foreground mb-1">Formato</label>
+                  <select
+                    id="format"
+                    value={currentEvent?.format || 'IN_PERSON'}
+                    onChange={(e) => setCurrentEvent({ ...currentEvent, format: e.target.value as EventFormat })}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                  >
+                    {(Object.keys(EVENT_FORMAT_LABELS) as EventFormat[]).map((format) => (
+                      <option key={format} value={format}>{EVENT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                </div>
+                {currentEvent?.format !== 'ONLINE' && (
+                  <div>
+                    <label htmlFor="roomId" className="block text-sm font-medium text-foreground mb-1">Sala</label>
+                    <select
+                      id="roomId"
+                      value={currentEvent?.roomId || ''}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, roomId: e.target.value || null })}
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                    >
+                      <option value="">Nenhuma (informar o local)</option>
+                      {venues.map((venue) => (
+                        <optgroup key={venue.id} label={venue.name}>
+                          {venue.rooms.map((room) => (
+                            <option key={room.id} value={room.id}>{room.name} ({room.capacity} lugares)</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                    {selectedRoom && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        A capacidade presencial do evento deve caber nos {selectedRoom.capacity} lugares da sala.
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {currentEvent?.format !== 'ONLINE' && !currentEvent?.roomId && (
+                    <div>
+                      <label htmlFor="location" className="block text-sm font-medium text-foreground mb-1">Local</label>
+                      <Input
+                        id="location"
+                        type="text"
+                        placeholder="Auditório Principal"
+                        value={currentEvent?.location || ''}
+                        onChange={(e) => setCurrentEvent({ ...currentEvent, location: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  {currentEvent?.format !== 'IN_PERSON' && (
+                    <div>
+                      <label htmlFor="onlineLink" className="block text-sm font-medium text-foreground mb-1">Link Online</label>
+                      <Input
+                        id="onlineLink"
+                        type="url"
+                        placeholder="https://meet.google.com/..."
+                        value={currentEvent?.onlineLink || ''}
+                        onChange={(e) => setCurrentEvent({ ...currentEvent, onlineLink: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+                {currentEvent?.format !== 'ONLINE' && (
                   <div>
-                    <label htmlFor="location" className="block text-sm font-medium text-foreground mb-1">Local (para eventos presenciais)</label>
+                    <label htmlFor="coordinates" className="block text-sm font-medium text-foreground mb-1">Coordenadas (opcional)</label>
                     <Input
-                      id="location"
+                      id="coordinates"
                       type="text"
-                      placeholder="Auditório Principal"
-                      value={currentEvent?.location || ''}
-                      onChange={(e) => setCurrentEvent({ ...currentEvent, location: e.target.value })}
+                      placeholder={
+                        typeof currentEvent?.latitude === 'number' && typeof currentEvent?.longitude === 'number'
+                          ? `Atuais: ${currentEvent.latitude}, ${currentEvent.longitude}`
+                          : '-23.5505, -46.6333'
+                      }
+                      value={coordinatesInput}
+                      onChange={(e) => setCoordinatesInput(e.target.value)}
                     />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Em branco, usa as coordenadas do local da sala ou as do endereço informado (quando encontrado).
+                    </p>
                   </div>
+                )}
+                {currentEvent?.format === 'HYBRID' && (
                   <div>
-                    <label htmlFor="onlineLink" className="block text-sm font-medium text-foreground mb-1">Link Online (para eventos online)</label>
+                    <label htmlFor="onlineCapacity" className="block text-sm font-medium text-foreground mb-1">
+                      Vagas Online (o restante da capacidade é presencial)
+                    </label>
                     <Input
-                      id="onlineLink"
-                      type="url"
-                      placeholder="https://meet.google.com/..."
-                      value={currentEvent?.onlineLink || ''}
-                      onChange={(e) => setCurrentEvent({ ...currentEvent, onlineLink: e.target.value })}
+                      id="onlineCapacity"
+                      type="number"
+                      value={currentEvent?.onlineCapacity || 0}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, onlineCapacity: Number(e.target.value) })}
+                      min={1}
+                      required
                     />
                   </div>
-                </div>
+                )}
+                {!isEditing && (
+                  <div>
+                    <label htmlFor="status" className="block text-sm font-medium text-foreground mb-1">Publicação</label>
+                    <select
+                      id="status"
+                      value={currentEvent?.status || 'DRAFT'}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, status: e.target.value as EventStatus })}
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                    >
+                      <option value="DRAFT">Salvar como rascunho</option>
+                      <option value="PUBLISHED">Publicar imediatamente</option>
+                    </select>
+                  </div>
+                )}
+                {!isEditing && (
+                  <div className="space-y-2">
+                    <label htmlFor="recurrence" className="block text-sm font-medium text-foreground mb-1">Repetição</label>
+                    <select
+                      id="recurrence"
+                      value={recurrence?.frequency || ''}
+                      onChange={(e) => setRecurrence(e.target.value
+                        ? {
+                            frequency: e.target.value as RecurrenceFrequency,
+                            interval: recurrence?.interval || 1,
+                            weekdays: recurrence?.weekdays.length
+                              ? recurrence.weekdays
+                              : [new Date(`${currentEvent?.startsAt || toZonedInput(Date.now(), DEFAULT_TIMEZONE)}:00Z`).getUTCDay()],
+                            count: recurrence?.count ?? (recurrence?.until ? undefined : 4),
+                            until: recurrence?.until,
+                          }
+                        : null)}
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                    >
+                      <option value="">Não se repete</option>
+                      {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                        <option key={frequency} value={frequency}>{RECURRENCE_FREQUENCY_LABELS[frequency]}</option>
+                      ))}
+                    </select>
+                    {recurrence && (
+                      <>
+                        <div className="flex items-center gap-2 text-sm">
+                          <span>A cada</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-20"
+                            value={recurrence.interval}
+                            onChange={(e) => setRecurrence({ ...recurrence, interval: Math.max(1, Number(e.target.value)) })}
+                          />
+                          <span>{recurrence.frequency === 'DAILY' ? 'dia(s)' : recurrence.frequency === 'WEEKLY' ? 'semana(s)' : 'mês(es)'}</span>
+                        </div>
+                        {recurrence.frequency === 'WEEKLY' && (
+                          <div className="flex flex-wrap gap-1">
+                            {WEEKDAY_SHORT_LABELS.map((label, day) => (
+                              <Button
+                                key={label}
+                                type="button"
+                                size="sm"
+                                variant={recurrence.weekdays.includes(day) ? 'default' : 'outline'}
+                                onClick={() => setRecurrence({
+                                  ...recurrence,
+                                  weekdays: recurrence.weekdays.includes(day)
+                                    ? recurrence.weekdays.filter((weekday) => weekday !== day)
+                                    : [...recurrence.weekdays, day].sort((a, b) => a - b),
+                                })}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-2 text-sm">
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name="recurrenceEnd"
+                              checked={recurrence.count !== undefined}
+                              onChange={() => setRecurrence({ ...recurrence, count: 4, until: undefined })}
+                            />
+                            Após
+                            <Input
+                              type="number"
+                              min={1}
+                              className="w-20"
+                              disabled={recurrence.count === undefined}
+                              value={recurrence.count ?? ''}
+                              onChange={(e) => setRecurrence({ ...recurrence, count: Math.max(1, Number(e.target.value)) })}
+                            />
+                            vezes
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name="recurrenceEnd"
+                              checked={recurrence.count === undefined}
+                              onChange={() => setRecurrence({ ...recurrence, count: undefined, until: recurrence.until || '' })}
+                            />
+                            Até
+                            <Input
+                              type="date"
+                              disabled={recurrence.count !== undefined}
+                              value={recurrence.until ?? ''}
+                              onChange={(e) => setRecurrence({ ...recurrence, until: e.target.value })}
+                            />
+                          </label>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+                {isEditing && currentEvent?.seriesId && (
+                  <div>
+                    <label htmlFor="editScope" className="block text-sm font-medium text-foreground mb-1">Aplicar alterações a</label>
+                    <select
+                      id="editScope"
+                      value={editScope}
+                      onChange={(e) => setEditScope(e.target.value as SeriesEditScope)}
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                    >
+                      {(Object.keys(SERIES_EDIT_SCOPE_LABELS) as SeriesEditScope[]).map((scope) => (
+                        <option key={scope} value={scope}>{SERIES_EDIT_SCOPE_LABELS[scope]}</option>
+                      ))}
+                    </select>
+                    {editScope !== 'THIS' && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Uma nova data desloca todas as ocorrências afetadas pelo mesmo intervalo.
+                      </p>
+                    )}
+                  </div>
+                )}
+                {currentEvent?.status === 'DRAFT' && (
+                  <div>
+                    <label htmlFor="publishAt" className="block text-sm font-medium text-foreground mb-1">Publicar automaticamente em (opcional)</label>
+                    <Input
+                      id="publishAt"
+                      type="datetime-local"
+                      value={currentEvent?.publishAt || ''}
+                      onChange={(e) => setCurrentEvent({ ...currentEvent, publishAt: e.target.value })}
+                    />
+                  </div>
+                )}
                 {modalError && <p className="text-destructive text-sm text-center mt-2">{modalError}</p>}
+                {roomConflicts.length > 0 && (
+                  <ul className="text-destructive text-sm list-disc pl-5">
+                    {roomConflicts.map((conflict) => (
+                      <li key={conflict.id}>{formatRoomConflict(conflict)}</li>
+                    ))}
+                  </ul>
+                )}
                 <div className="flex justify-end gap-3 mt-6">
                   <Button type="button" variant="outline" onClick={handleCloseModal}>
                     Cancelar
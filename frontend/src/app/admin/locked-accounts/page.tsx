@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Role, can } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { LockIcon, UnlockIcon } from 'lucide-react';
+
+interface LockedAccount {
+  id: string;
+  email: string;
+  role: Role;
+  lockoutLevel: number;
+  lockedUntil: string;
+  lastFailedLoginAt: string | null;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Contas bloqueadas por excesso de tentativas de login, com a opção de desbloquear cada uma (apenas administradores).
+const AdminLockedAccountsPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [accounts, setAccounts] = useState<LockedAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'user:read'))) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!isAuthenticated || !can(user?.role, 'user:read')) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ users: LockedAccount[] }>('/users/locked', { method: 'GET' });
+      setAccounts(data.users);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar as contas bloqueadas.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, user]);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && can(user?.role, 'user:read')) {
+      fetchAccounts();
+    }
+  }, [authLoading, isAuthenticated, user, fetchAccounts]);
+
+  const handleUnlock = async (account: LockedAccount) => {
+    if (!confirm(`Desbloquear a conta ${account.email}?`)) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    try {
+      const res = await apiFetch<{ message: string }>(`/users/${account.id}/unlock`, { method: 'POST' });
+      alert(res.message);
+      fetchAccounts();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao desbloquear a conta.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando contas bloqueadas...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !can(user?.role, 'user:read')) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Acesso negado. Apenas o suporte e os administradores podem ver as contas bloqueadas.</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-3xl">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-2">Contas bloqueadas</h1>
+        <p className="text-center text-muted-foreground mb-8">
+          Contas com login bloqueado após várias senhas erradas seguidas. O bloqueio termina sozinho; cada novo bloqueio dura o dobro do anterior.
+        </p>
+
+        {accounts.length === 0 ? (
+          <div className="text-center text-muted-foreground">Nenhuma conta bloqueada no momento.</div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            {accounts.map((account) => (
+              <div key={account.id} className="bg-card border border-border rounded-md p-5 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <LockIcon className="h-6 w-6 mt-0.5 text-destructive flex-shrink-0" />
+                  <div>
+                    <div className="font-semibold text-foreground">
+                      {account.email} <span className="text-xs text-muted-foreground">({account.role})</span>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Bloqueada até {formatDateTime(account.lockedUntil)} · {account.lockoutLevel}º bloqueio seguido
+                    </div>
+                    {account.lastFailedLoginAt && (
+                      <div className="text-xs text-muted-foreground">Última tentativa errada em {formatDateTime(account.lastFailedLoginAt)}</div>
+                    )}
+                  </div>
+                </div>
+                {can(user?.role, 'user:update') && (
+                  <Button onClick={() => handleUnlock(account)} variant="outline" size="sm" disabled={isUnlocking} className="flex items-center gap-2">
+                    <UnlockIcon className="h-4 w-4" /> Desbloquear
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminLockedAccountsPage;
@@ -6,19 +6,26 @@ import Header from '@/components/Header';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/components/AuthContext';
 import { Button } from '@/components/ui/button';
-import { CalendarIcon, UserCircleIcon, CheckCircleIcon, XCircleIcon } from 'lucide-react';
+import { CalendarIcon, UserCircleIcon, CheckCircleIcon, XCircleIcon, UsersIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ReservationStatus, RESERVATION_STATUS_LABELS, ADMIN_STATUS_ACTIONS, isClosedReservation } from '@/lib/reservations';
+import { formatEventSchedule } from '@/lib/events';
+import { can } from '@/lib/permissions';
 
 interface Reservation {
   id: string;
   eventId: string;
   userId: string;
   reservationDate: string;
-  status: 'CONFIRMED' | 'CANCELED';
+  status: ReservationStatus;
+  quantity: number;
+  attendeeNames: string[];
   event: { 
     id: string;
     name: string;
-    eventDate: string;
+    startsAt: string;
+    endsAt: string;
+    timezone: string;
   };
   user: { 
     id: string;
@@ -32,40 +39,28 @@ const AdminReservationsPage: React.FC = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
 
   useEffect(() => {
-    if (!authLoading && (!isAuthenticated || user?.role !== 'ADMIN')) {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'reservation:read'))) {
       router.push('/'); 
     }
   }, [isAuthenticated, authLoading, user, router]);
 
   const fetchAllReservations = useCallback(async () => {
-    if (!isAuthenticated || user?.role !== 'ADMIN') {
+    if (!isAuthenticated || !can(user?.role, 'reservation:read')) {
       setLoading(false);
       return;
     }
     setLoading(true);
     setError(null);
     try {
-      const allEvents = await apiFetch<{ events: { id: string; name: string; eventDate: string; }[] }>('/events', { method: 'GET' });
-      let allReservations: Reservation[] = [];
-
-      for (const event of allEvents.events) {
-        try {
-          const eventReservations = await apiFetch<{ reservations: Reservation[] }>(`/reservations/events/${event.id}/reservations`, { method: 'GET' });
-          const enrichedReservations = eventReservations.reservations.map(res => ({
-            ...res,
-            event: { id: event.id, name: event.name, eventDate: event.eventDate },
-            user: res.user 
-          }));
-          allReservations = allReservations.concat(enrichedReservations);
-        } catch (eventResErr: any) {
-          console.warn(`Não foi possível carregar reservas para o evento ${event.name}:`, eventResErr.message);
-        }
-      }
+      const data = await apiFetch<{ reservations: Reservation[] }>('/reservations', { method: 'GET' });
+      const allReservations = data.reservations;
       allReservations.sort((a, b) => {
-        const eventDateA = new Date(a.event.eventDate).getTime();
-        const eventDateB = new Date(b.event.eventDate).getTime();
+        const eventDateA = new Date(a.event.startsAt).getTime();
+        const eventDateB = new Date(b.event.startsAt).getTime();
         if (eventDateA !== eventDateB) {
           return eventDateA - eventDateB;
         }
@@ -73,6 +68,7 @@ const AdminReservationsPage: React.FC = () => {
       });
 
       setReservations(allReservations);
+      setSelectedIds((prevIds) => prevIds.filter((id) => allReservations.some((res) => res.id === id)));
 
     } catch (err: any) {
       setError(err.message || 'Falha ao carregar reservas.');
@@ -83,28 +79,65 @@ const AdminReservationsPage: React.FC = () => {
 
 
   useEffect(() => {
-    if (!authLoading && isAuthenticated && user?.role === 'ADMIN') {
+    if (!authLoading && isAuthenticated && can(user?.role, 'reservation:read')) {
       fetchAllReservations();
     }
   }, [authLoading, isAuthenticated, user, fetchAllReservations]);
 
-  const handleCancelReservation = async (reservationId: string) => {
-    const userConfirmed = window.confirm('Tem certeza que deseja cancelar esta reserva?');
-    if (!userConfirmed) {
+  const handleChangeStatus = async (reservationId: string, status: ReservationStatus, label: string) => {
+    const reason = window.prompt(`Ação: ${label}. Informe um motivo (opcional):`, '');
+    if (reason === null) {
       return;
     }
 
+    setIsUpdating(true);
     try {
-      const res = await apiFetch<{ message: string }>('/reservations/' + reservationId, {
-        method: 'DELETE',
+      const res = await apiFetch<{ message: string }>(`/reservations/${reservationId}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status, ...(reason.trim() ? { reason: reason.trim() } : {}) }),
       });
       alert(res.message);
       fetchAllReservations(); 
     } catch (err: any) {
-      alert(err.message || 'Falha ao cancelar reserva.');
+      alert(err.message || 'Falha ao alterar status da reserva.');
+    } finally {
+      setIsUpdating(false);
     }
   };
 
+  const handleBulkChangeStatus = async (status: ReservationStatus, label: string) => {
+    if (selectedIds.length === 0) {
+      return;
+    }
+    const reason = window.prompt(`${label} ${selectedIds.length} reserva(s). Informe um motivo (opcional):`, '');
+    if (reason === null) {
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const res = await apiFetch<{ message: string; results: { reservationId: string; success: boolean; message: string }[] }>('/reservations/status', {
+        method: 'PATCH',
+        body: JSON.stringify({ reservationIds: selectedIds, status, ...(reason.trim() ? { reason: reason.trim() } : {}) }),
+      });
+      const failures = res.results.filter((result) => !result.success);
+      const failureDetails = failures.map((failure) => `- ${failure.message}`).join('\n');
+      alert(failures.length > 0 ? `${res.message}\nFalhas:\n${failureDetails}` : res.message);
+      setSelectedIds([]);
+      fetchAllReservations();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao alterar status das reservas.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const toggleSelected = (reservationId: string) => {
+    setSelectedIds((prevIds) =>
+      prevIds.includes(reservationId) ? prevIds.filter((id) => id !== reservationId) : [...prevIds, reservationId]
+    );
+  };
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
@@ -127,22 +160,58 @@ const AdminReservationsPage: React.FC = () => {
     );
   }
 
-  if (!isAuthenticated || user?.role !== 'ADMIN') {
+  if (!isAuthenticated || !can(user?.role, 'reservation:read')) {
       return (
         <div className="min-h-screen bg-background flex flex-col">
           <Header />
           <main className="flex-grow flex items-center justify-center">
-            <div className="text-lg text-muted-foreground">Acesso negado. Apenas administradores podem ver todas as reservas.</div>
+            <div className="text-lg text-muted-foreground">Acesso negado. Você não tem permissão para ver as reservas.</div>
           </main>
         </div>
       );
   }
 
+  // Suporte apenas consulta as reservas; organizadores as alteram nos próprios eventos.
+  const canUpdate = can(user?.role, 'reservation:update');
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-8">
-        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Gerenciar Todas as Reservas</h1>
+        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Gerenciar Reservas</h1>
+
+        {canUpdate && reservations.length > 0 && (
+          <div className="bg-card p-4 rounded-md mb-6 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-sm text-muted-foreground">
+              {selectedIds.length} reserva(s) selecionada(s)
+            </span>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSelectedIds(selectedIds.length === reservations.length ? [] : reservations.map((res) => res.id))}
+              >
+                {selectedIds.length === reservations.length ? 'Limpar Seleção' : 'Selecionar Todas'}
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={selectedIds.length === 0 || isUpdating}
+                onClick={() => handleBulkChangeStatus('CONFIRMED', 'Reativar')}
+              >
+                Reativar Selecionadas
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={selectedIds.length === 0 || isUpdating}
+                onClick={() => handleBulkChangeStatus('CANCELED', 'Cancelar')}
+              >
+                Cancelar Selecionadas
+              </Button>
+            </div>
+          </div>
+        )}
 
         {reservations.length === 0 && !loading && !error && (
           <div className="text-center text-muted-foreground text-lg">Nenhuma reserva encontrada no sistema.</div>
@@ -150,16 +219,6 @@ const AdminReservationsPage: React.FC = () => {
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {reservations.map((reservation) => {
-            const eventDateTime = new Date(reservation.event.eventDate);
-            const formattedEventDate = eventDateTime.toLocaleDateString('pt-BR', {
-              day: '2-digit',
-              month: '2-digit',
-              year: 'numeric',
-            });
-            const formattedEventTime = eventDateTime.toLocaleTimeString('pt-BR', {
-              hour: '2-digit',
-              minute: '2-digit',
-            });
             const reservationDateTime = new Date(reservation.reservationDate);
             const formattedReservationDate = reservationDateTime.toLocaleDateString('pt-BR', {
               day: '2-digit',
@@ -167,50 +226,71 @@ const AdminReservationsPage: React.FC = () => {
               year: 'numeric',
             });
 
-            const isEventPast = eventDateTime < new Date();
-            const canCancel = reservation.status === 'CONFIRMED' && !isEventPast;
+            const statusActions = canUpdate ? ADMIN_STATUS_ACTIONS[reservation.status] : [];
 
             return (
               <div
                 key={reservation.id}
                 className={cn(
                   "bg-card border rounded-md p-6 flex flex-col gap-4", 
-                  reservation.status === 'CANCELED' ? 'opacity-70 border-dashed border-gray-400' : 'border-border',
+                  isClosedReservation(reservation.status) ? 'opacity-70 border-dashed border-gray-400' : 'border-border',
                   "transition-transform duration-300 hover:scale-[1.02]"
                 )}
               >
-                <h2 className="text-xl font-semibold text-foreground">{reservation.event.name}</h2>
+                <div className="flex items-start justify-between gap-2">
+                  <h2 className="text-xl font-semibold text-foreground">{reservation.event.name}</h2>
+                  {canUpdate && (
+                    <input
+                      type="checkbox"
+                      aria-label="Selecionar reserva"
+                      checked={selectedIds.includes(reservation.id)}
+                      onChange={() => toggleSelected(reservation.id)}
+                      className="mt-2 h-4 w-4"
+                    />
+                  )}
+                </div>
                 <div className="flex items-center gap-2 text-sm text-foreground/80">
                   <UserCircleIcon className="w-4 h-4 text-primary" />
                   <span>Feita por: {reservation.user.email}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-foreground/80">
                   <CalendarIcon className="w-4 h-4 text-primary" />
-                  <span>Evento em: {formattedEventDate} às {formattedEventTime}</span>
+                  <span>Evento em: {formatEventSchedule(reservation.event)}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-foreground/80">
                   <CalendarIcon className="w-4 h-4 text-primary" />
                   <span>Reservado em: {formattedReservationDate}</span>
                 </div>
+                <div className="flex items-start gap-2 text-sm text-foreground/80">
+                  <UsersIcon className="w-4 h-4 text-primary mt-0.5" />
+                  <span>
+                    {reservation.quantity} assento(s)
+                    {reservation.attendeeNames.length > 0 && `: ${reservation.attendeeNames.join(', ')}`}
+                  </span>
+                </div>
                 <div className="mt-auto pt-4 border-t border-border flex justify-between items-center">
-                  {reservation.status === 'CONFIRMED' ? (
-                    <span className="text-green-600 font-medium flex items-center gap-1">
-                      <CheckCircleIcon className="w-5 h-5" /> Confirmada
+                  {isClosedReservation(reservation.status) ? (
+                    <span className="text-destructive font-medium flex items-center gap-1">
+                      <XCircleIcon className="w-5 h-5" /> {RESERVATION_STATUS_LABELS[reservation.status]}
                     </span>
                   ) : (
-                    <span className="text-destructive font-medium flex items-center gap-1">
-                      <XCircleIcon className="w-5 h-5" /> Cancelada
+                    <span className="text-green-600 font-medium flex items-center gap-1">
+                      <CheckCircleIcon className="w-5 h-5" /> {RESERVATION_STATUS_LABELS[reservation.status]}
                     </span>
                   )}
-                  {canCancel && (
-                    <Button
-                      onClick={() => handleCancelReservation(reservation.id)}
-                      variant="destructive"
-                      className="text-xs px-3 py-1"
-                    >
-                      Cancelar Reserva
-                    </Button>
-                  )}
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {statusActions.map((action) => (
+                      <Button
+                        key={action.status}
+                        onClick={() => handleChangeStatus(reservation.id, action.status, action.label)}
+                        variant={action.status === 'CANCELED' ? 'destructive' : 'secondary'}
+                        className="text-xs px-3 py-1"
+                        disabled={isUpdating}
+                      >
+                        {action.label}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
               </div>
             );
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Role, can } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { CalendarIcon, Trash2Icon, UserCircleIcon, UsersIcon, RotateCcwIcon } from 'lucide-react';
+import { formatEventSchedule } from '@/lib/events';
+
+interface DeletedEvent {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  deletedAt: string;
+  purgeAt: string;
+  _count: { reservations: number };
+}
+
+interface DeletedUser {
+  id: string;
+  email: string;
+  role: Role;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const AdminTrashPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [events, setEvents] = useState<DeletedEvent[]>([]);
+  const [users, setUsers] = useState<DeletedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'event:delete'))) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchTrash = useCallback(async () => {
+    if (!isAuthenticated || !can(user?.role, 'event:delete')) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      // Organizadores veem apenas os próprios eventos e não têm acesso à lixeira de usuários.
+      const [eventData, userData] = await Promise.all([
+        apiFetch<{ events: DeletedEvent[] }>('/events/trash', { method: 'GET' }),
+        can(user?.role, 'user:delete') ? apiFetch<{ users: DeletedUser[] }>('/users/trash', { method: 'GET' }) : null,
+      ]);
+      setEvents(eventData.events);
+      setUsers(userData?.users ?? []);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar a lixeira.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, user]);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && can(user?.role, 'event:delete')) {
+      fetchTrash();
+    }
+  }, [authLoading, isAuthenticated, user, fetchTrash]);
+
+  const handleRestore = async (path: string) => {
+    setIsRestoring(true);
+    try {
+      const res = await apiFetch<{ message: string }>(path, { method: 'POST' });
+      alert(res.message);
+      fetchTrash();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao restaurar.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando lixeira...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !can(user?.role, 'event:delete')) {
+      return (
+        <div className="min-h-screen bg-background flex flex-col">
+          <Header />
+          <main className="flex-grow flex items-center justify-center">
+            <div className="text-lg text-muted-foreground">Acesso negado. Apenas organizadores e administradores podem ver a lixeira.</div>
+          </main>
+        </div>
+      );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-2">Lixeira</h1>
+        <p className="text-center text-muted-foreground mb-8">
+          Itens excluídos podem ser restaurados até a data de expurgo, quando são apagados definitivamente.
+        </p>
+
+        <section className="mb-10">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Eventos</h2>
+          {events.length === 0 ? (
+            <div className="text-muted-foreground">Nenhum evento na lixeira.</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {events.map((event) => (
+                <div key={event.id} className="bg-card border border-dashed border-gray-400 rounded-md p-6 flex flex-col gap-3">
+                  <h3 className="text-xl font-semibold text-foreground">{event.name}</h3>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <CalendarIcon className="w-4 h-4 text-primary" />
+                    <span>Evento em: {formatEventSchedule(event)}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <UsersIcon className="w-4 h-4 text-primary" />
+                    <span>{event._count.reservations} reserva(s) preservada(s)</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <Trash2Icon className="w-4 h-4 text-destructive" />
+                    <span>Excluído em {formatDate(event.deletedAt)} · expurgo em {formatDate(event.purgeAt)}</span>
+                  </div>
+                  <div className="mt-auto pt-4 border-t border-border flex justify-end">
+                    <Button
+                      variant="secondary"
+                      className="text-xs px-3 py-1 flex items-center gap-1"
+                      disabled={isRestoring}
+                      onClick={() => handleRestore(`/events/${event.id}/restore`)}
+                    >
+                      <RotateCcwIcon className="w-4 h-4" /> Restaurar
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {can(user?.role, 'user:delete') && (
+        <section>
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Usuários</h2>
+          {users.length === 0 ? (
+            <div className="text-muted-foreground">Nenhum usuário na lixeira.</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {users.map((deletedUser) => (
+                <div key={deletedUser.id} className="bg-card border border-dashed border-gray-400 rounded-md p-6 flex flex-col gap-3">
+                  <div className="flex items-center gap-2 text-foreground">
+                    <UserCircleIcon className="w-5 h-5 text-primary" />
+                    <span className="font-semibold break-all">{deletedUser.email}</span>
+                    <span className="text-xs text-muted-foreground">({deletedUser.role})</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <Trash2Icon className="w-4 h-4 text-destructive" />
+                    <span>Excluído em {formatDate(deletedUser.deletedAt)} · expurgo em {formatDate(deletedUser.purgeAt)}</span>
+                  </div>
+                  <div className="mt-auto pt-4 border-t border-border flex justify-end">
+                    <Button
+                      variant="secondary"
+                      className="text-xs px-3 py-1 flex items-center gap-1"
+                      disabled={isRestoring}
+                      onClick={() => handleRestore(`/users/${deletedUser.id}/restore`)}
+                    >
+                      <RotateCcwIcon className="w-4 h-4" /> Restaurar
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminTrashPage;
@@ -0,0 +1,454 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { can } from '@/lib/permissions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MapPinIcon, AccessibilityIcon, UsersIcon, EditIcon, Trash2Icon, PlusCircleIcon, ArrowLeftIcon, DoorOpenIcon } from 'lucide-react';
+import { Room, RoomEventConflict, Venue, formatRoomConflict } from '@/lib/venues';
+
+// Campos do formulário de local; as coordenadas ficam como texto até o envio.
+interface VenueForm {
+  id?: string;
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  accessibilityNotes: string;
+}
+
+interface RoomForm {
+  id?: string;
+  venueId: string;
+  name: string;
+  capacity: number;
+  accessibilityNotes: string;
+}
+
+// Monta a mensagem de erro da API, incluindo os eventos que impedem a operação (respostas 409).
+const describeApiError = (err: any, fallback: string): string => {
+  if (err.errors && Array.isArray(err.errors)) {
+    return `Falha na validação: ${err.errors.map((e: any) => e.message).join('; ')}`;
+  }
+  const events: RoomEventConflict[] = Array.isArray(err.events) ? err.events : [];
+  const message = err.message || fallback;
+  return events.length > 0 ? `${message}\n\n${events.map(formatRoomConflict).join('\n')}` : message;
+};
+
+const AdminVenuesPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [venueForm, setVenueForm] = useState<VenueForm | null>(null); // null = modal de local fechado.
+  const [roomForm, setRoomForm] = useState<RoomForm | null>(null); // null = modal de sala fechado.
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && (!isAuthenticated || !can(user?.role, 'venue:manage'))) {
+      router.push('/');
+    }
+  }, [isAuthenticated, authLoading, user, router]);
+
+  const fetchVenues = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ venues: Venue[] }>('/venues', { method: 'GET' });
+      setVenues(data.venues);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar locais.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated && can(user?.role, 'venue:manage')) {
+      fetchVenues();
+    }
+  }, [authLoading, isAuthenticated, user, fetchVenues]);
+
+  const handleOpenVenueModal = (venue?: Venue) => {
+    setVenueForm(venue
+      ? {
+          id: venue.id,
+          name: venue.name,
+          address: venue.address,
+          latitude: venue.latitude?.toString() ?? '',
+          longitude: venue.longitude?.toString() ?? '',
+          accessibilityNotes: venue.accessibilityNotes || '',
+        }
+      : { name: '', address: '', latitude: '', longitude: '', accessibilityNotes: '' });
+    setModalError(null);
+  };
+
+  const handleOpenRoomModal = (venueId: string, room?: Room) => {
+    setRoomForm(room
+      ? { id: room.id, venueId, name: room.name, capacity: room.capacity, accessibilityNotes: room.accessibilityNotes || '' }
+      : { venueId, name: '', capacity: 1, accessibilityNotes: '' });
+    setModalError(null);
+  };
+
+  const handleCloseModal = () => {
+    setVenueForm(null);
+    setRoomForm(null);
+  };
+
+  const handleVenueSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setModalError(null);
+    if (!venueForm) return;
+
+    const latitude = venueForm.latitude.trim() === '' ? null : Number(venueForm.latitude);
+    const longitude = venueForm.longitude.trim() === '' ? null : Number(venueForm.longitude);
+    if ((latitude === null) !== (longitude === null)) {
+      setModalError('Informe a latitude e a longitude juntas.');
+      return;
+    }
+    if ((latitude !== null && isNaN(latitude)) || (longitude !== null && isNaN(longitude))) {
+      setModalError('Coordenadas inválidas.');
+      return;
+    }
+
+    const payload = {
+      name: venueForm.name.trim(),
+      address: venueForm.address.trim(),
+      latitude,
+      longitude,
+      accessibilityNotes: venueForm.accessibilityNotes.trim() || null,
+    };
+
+    try {
+      const res = await apiFetch<{ message: string }>(venueForm.id ? `/venues/${venueForm.id}` : '/venues', {
+        method: venueForm.id ? 'PUT' : 'POST',
+        body: JSON.stringify(payload),
+      });
+      alert(res.message);
+      fetchVenues();
+      handleCloseModal();
+    } catch (err: any) {
+      setModalError(describeApiError(err, 'Falha ao salvar local.'));
+    }
+  };
+
+  const handleRoomSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setModalError(null);
+    if (!roomForm) return;
+
+    if (!roomForm.capacity || roomForm.capacity <= 0) {
+      setModalError('A capacidade da sala deve ser um número positivo.');
+      return;
+    }
+
+    const payload = {
+      name: roomForm.name.trim(),
+      capacity: Number(roomForm.capacity),
+      accessibilityNotes: roomForm.accessibilityNotes.trim() || null,
+    };
+
+    try {
+      const res = await apiFetch<{ message: string }>(
+        roomForm.id ? `/venues/${roomForm.venueId}/rooms/${roomForm.id}` : `/venues/${roomForm.venueId}/rooms`,
+        { method: roomForm.id ? 'PUT' : 'POST', body: JSON.stringify(payload) }
+      );
+      alert(res.message);
+      fetchVenues();
+      handleCloseModal();
+    } catch (err: any) {
+      setModalError(describeApiError(err, 'Falha ao salvar sala.'));
+    }
+  };
+
+  const handleDeleteVenue = async (venue: Venue) => {
+    if (!confirm(`Remover o local "${venue.name}" e todas as suas salas?`)) {
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/venues/${venue.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchVenues();
+    } catch (err: any) {
+      alert(describeApiError(err, 'Falha ao remover local.'));
+    }
+  };
+
+  const handleDeleteRoom = async (venue: Venue, room: Room) => {
+    if (!confirm(`Remover a sala "${room.name}" de ${venue.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/venues/${venue.id}/rooms/${room.id}`, { method: 'DELETE' });
+      alert(res.message);
+      fetchVenues();
+    } catch (err: any) {
+      alert(describeApiError(err, 'Falha ao remover sala.'));
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando locais...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !can(user?.role, 'venue:manage')) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Acesso negado. Apenas administradores podem gerenciar locais.</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Locais e Salas</h1>
+
+        <div className="bg-card p-6 rounded-md mb-6 flex justify-between gap-2">
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <Link href="/admin/events">
+              <ArrowLeftIcon className="h-5 w-5" /> Gerenciar Eventos
+            </Link>
+          </Button>
+          <Button onClick={() => handleOpenVenueModal()} className="flex items-center gap-2">
+            <PlusCircleIcon className="h-5 w-5" /> Cadastrar Local
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-center text-destructive text-lg font-semibold mb-6">{error}</div>
+        )}
+
+        {venues.length === 0 && !error && (
+          <div className="text-center text-muted-foreground text-lg">Nenhum local cadastrado.</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {venues.map((venue) => (
+            <div key={venue.id} className="bg-card border border-border rounded-md p-6 flex flex-col gap-4">
+              <h2 className="text-xl font-semibold text-foreground">{venue.name}</h2>
+              <div className="space-y-2 text-sm text-foreground/80">
+                <div className="flex items-center gap-2">
+                  <MapPinIcon className="w-4 h-4 text-primary" />
+                  <span>
+                    {venue.address}
+                    {venue.latitude !== null && venue.longitude !== null && (
+                      <span className="text-muted-foreground"> ({venue.latitude}, {venue.longitude})</span>
+                    )}
+                  </span>
+                </div>
+                {venue.accessibilityNotes && (
+                  <div className="flex items-center gap-2">
+                    <AccessibilityIcon className="w-4 h-4 text-primary" />
+                    <span>{venue.accessibilityNotes}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t border-border pt-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-foreground">Salas</h3>
+                  <Button onClick={() => handleOpenRoomModal(venue.id)} variant="outline" size="sm">
+                    <PlusCircleIcon className="w-4 h-4 mr-1" /> Adicionar Sala
+                  </Button>
+                </div>
+                {venue.rooms.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Nenhuma sala cadastrada neste local.</p>
+                )}
+                {venue.rooms.map((room) => (
+                  <div key={room.id} className="flex items-start justify-between gap-2 rounded-md border border-border p-3 text-sm">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 font-medium text-foreground">
+                        <DoorOpenIcon className="w-4 h-4 text-primary" /> {room.name}
+                      </div>
+                      <div className="flex items-center gap-2 text-foreground/80">
+                        <UsersIcon className="w-4 h-4 text-primary" /> {room.capacity} lugares
+                      </div>
+                      {room.accessibilityNotes && (
+                        <div className="flex items-center gap-2 text-foreground/80">
+                          <AccessibilityIcon className="w-4 h-4 text-primary" /> {room.accessibilityNotes}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={() => handleOpenRoomModal(venue.id, room)} variant="secondary" size="sm" aria-label="Editar sala">
+                        <EditIcon className="w-4 h-4" />
+                      </Button>
+                      <Button onClick={() => handleDeleteRoom(venue, room)} variant="destructive" size="sm" aria-label="Remover sala">
+                        <Trash2Icon className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-auto pt-4 border-t border-border flex justify-end gap-2">
+                <Button onClick={() => handleOpenVenueModal(venue)} variant="secondary" size="sm">
+                  <EditIcon className="w-4 h-4 mr-1" /> Editar
+                </Button>
+                <Button onClick={() => handleDeleteVenue(venue)} variant="destructive" size="sm">
+                  <Trash2Icon className="w-4 h-4 mr-1" /> Remover
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Modal para Cadastrar/Editar Local */}
+        {venueForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-card rounded-md p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+              <h2 className="text-2xl font-bold text-center text-foreground mb-6">
+                {venueForm.id ? 'Editar Local' : 'Cadastrar Local'}
+              </h2>
+              <form onSubmit={handleVenueSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="venueName" className="block text-sm font-medium text-foreground mb-1">Nome</label>
+                  <Input
+                    id="venueName"
+                    type="text"
+                    placeholder="Centro de Convenções"
+                    value={venueForm.name}
+                    onChange={(e) => setVenueForm({ ...venueForm, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="address" className="block text-sm font-medium text-foreground mb-1">Endereço</label>
+                  <Input
+                    id="address"
+                    type="text"
+                    value={venueForm.address}
+                    onChange={(e) => setVenueForm({ ...venueForm, address: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="latitude" className="block text-sm font-medium text-foreground mb-1">Latitude (opcional)</label>
+                    <Input
+                      id="latitude"
+                      type="number"
+                      step="any"
+                      min={-90}
+                      max={90}
+                      value={venueForm.latitude}
+                      onChange={(e) => setVenueForm({ ...venueForm, latitude: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="longitude" className="block text-sm font-medium text-foreground mb-1">Longitude (opcional)</label>
+                    <Input
+                      id="longitude"
+                      type="number"
+                      step="any"
+                      min={-180}
+                      max={180}
+                      value={venueForm.longitude}
+                      onChange={(e) => setVenueForm({ ...venueForm, longitude: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="venueAccessibility" className="block text-sm font-medium text-foreground mb-1">Acessibilidade</label>
+                  <textarea
+                    id="venueAccessibility"
+                    rows={3}
+                    placeholder="Rampas, elevadores, estacionamento..."
+                    value={venueForm.accessibilityNotes}
+                    onChange={(e) => setVenueForm({ ...venueForm, accessibilityNotes: e.target.value })}
+                    className="flex w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  ></textarea>
+                </div>
+                {modalError && <p className="text-destructive text-sm text-center mt-2 whitespace-pre-line">{modalError}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                  <Button type="button" variant="outline" onClick={handleCloseModal}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit">
+                    {venueForm.id ? 'Salvar Alterações' : 'Cadastrar Local'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* Modal para Adicionar/Editar Sala */}
+        {roomForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-card rounded-md p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+              <h2 className="text-2xl font-bold text-center text-foreground mb-6">
+                {roomForm.id ? 'Editar Sala' : 'Adicionar Sala'}
+              </h2>
+              <form onSubmit={handleRoomSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="roomName" className="block text-sm font-medium text-foreground mb-1">Nome</label>
+                  <Input
+                    id="roomName"
+                    type="text"
+                    placeholder="Auditório Principal"
+                    value={roomForm.name}
+                    onChange={(e) => setRoomForm({ ...roomForm, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="capacity" className="block text-sm font-medium text-foreground mb-1">Capacidade (lugares)</label>
+                  <Input
+                    id="capacity"
+                    type="number"
+                    min={1}
+                    value={roomForm.capacity || ''}
+                    onChange={(e) => setRoomForm({ ...roomForm, capacity: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="roomAccessibility" className="block text-sm font-medium text-foreground mb-1">Acessibilidade</label>
+                  <textarea
+                    id="roomAccessibility"
+                    rows={3}
+                    value={roomForm.accessibilityNotes}
+                    onChange={(e) => setRoomForm({ ...roomForm, accessibilityNotes: e.target.value })}
+                    className="flex w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  ></textarea>
+                </div>
+                {modalError && <p className="text-destructive text-sm text-center mt-2 whitespace-pre-line">{modalError}</p>}
+                <div className="flex justify-end gap-3 mt-6">
+                  <Button type="button" variant="outline" onClick={handleCloseModal}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit">
+                    {roomForm.id ? 'Salvar Alterações' : 'Adicionar Sala'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminVenuesPage;
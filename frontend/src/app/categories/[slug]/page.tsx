@@ -0,0 +1,4 @@
+// frontend/src/app/categories/[slug]/page.tsx
+// Página pública de uma categoria: a mesma listagem da página inicial, filtrada pela categoria da URL.
+
+export { default } from '../../page';
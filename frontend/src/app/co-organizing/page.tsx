@@ -0,0 +1,286 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarIcon, CheckCircleIcon, XCircleIcon, UsersIcon, MailIcon, EditIcon, ScanLineIcon } from 'lucide-react';
+import { CoOrganization, formatCoOrganizerPermissions } from '@/lib/coOrganizers';
+import { EVENT_STATUS_LABELS, formatEventSchedule } from '@/lib/events';
+import { ReservationStatus, RESERVATION_STATUS_LABELS } from '@/lib/reservations';
+
+interface Attendee {
+  id: string;
+  status: ReservationStatus;
+  quantity: number;
+  attendeeNames: string[];
+  user: { id: string; email: string };
+}
+
+// Convites de coorganização do usuário e os eventos que ele coorganiza, com as ações das permissões delegadas.
+const CoOrganizingPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [coOrganizations, setCoOrganizations] = useState<CoOrganization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attendees, setAttendees] = useState<Record<string, Attendee[]>>({}); // Participantes carregados, por evento.
+  const [messageEventId, setMessageEventId] = useState<string | null>(null); // Evento com o formulário de mensagem aberto.
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const fetchCoOrganizations = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiFetch<{ coOrganizations: CoOrganization[] }>('/events/co-organizing');
+      setCoOrganizations(data.coOrganizations);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar os convites de coorganização.');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!authLoading && isAuthenticated) {
+      fetchCoOrganizations();
+    }
+  }, [authLoading, isAuthenticated, fetchCoOrganizations]);
+
+  const handleRespond = async (coOrganization: CoOrganization, action: 'accept' | 'decline') => {
+    if (action === 'decline' && coOrganization.status === 'ACCEPTED') {
+      const confirmed = window.confirm(`Deixar de coorganizar "${coOrganization.event.name}"?`);
+      if (!confirmed) return;
+    }
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/co-organizing/${coOrganization.id}/${action}`, { method: 'POST' });
+      alert(res.message);
+      fetchCoOrganizations();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao responder ao convite.');
+    }
+  };
+
+  const handleToggleAttendees = async (eventId: string) => {
+    if (attendees[eventId]) {
+      setAttendees((current) => {
+        const next = { ...current };
+        delete next[eventId];
+        return next;
+      });
+      return;
+    }
+    try {
+      const data = await apiFetch<{ reservations: Attendee[] }>(`/reservations/events/${eventId}/reservations`);
+      setAttendees((current) => ({ ...current, [eventId]: data.reservations }));
+    } catch (err: any) {
+      alert(err.message || 'Falha ao carregar os participantes.');
+    }
+  };
+
+  const handleOpenMessage = (eventId: string) => {
+    setMessageEventId(messageEventId === eventId ? null : eventId);
+    setSubject('');
+    setMessage('');
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!messageEventId) return;
+    setIsSending(true);
+    try {
+      const res = await apiFetch<{ message: string }>(`/events/${messageEventId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ subject, message }),
+      });
+      alert(res.message);
+      setMessageEventId(null);
+    } catch (err: any) {
+      alert(err.message || 'Falha ao enviar a mensagem.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-lg text-muted-foreground">Carregando coorganizações...</div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center">
+          <div className="text-destructive text-lg font-semibold">{error}</div>
+        </main>
+      </div>
+    );
+  }
+
+  const invitations = coOrganizations.filter((coOrganization) => coOrganization.status === 'PENDING');
+  const accepted = coOrganizations.filter((coOrganization) => coOrganization.status === 'ACCEPTED');
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-4xl">
+        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Coorganização</h1>
+
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-foreground mb-4">Convites pendentes</h2>
+          {invitations.length === 0 && (
+            <div className="text-muted-foreground">Nenhum convite pendente.</div>
+          )}
+          <div className="space-y-3">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="bg-card border border-border rounded-md p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="font-medium text-foreground">{invitation.event.name}</div>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <CalendarIcon className="w-4 h-4 text-primary" /> {formatEventSchedule(invitation.event)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {invitation.invitedBy ? `Convite de ${invitation.invitedBy.email}` : 'Convite da organização'} ·
+                    permissões: {formatCoOrganizerPermissions(invitation.permissions)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={() => handleRespond(invitation, 'accept')} size="sm">
+                    <CheckCircleIcon className="w-4 h-4 mr-1" /> Aceitar
+                  </Button>
+                  <Button onClick={() => handleRespond(invitation, 'decline')} variant="outline" size="sm">
+                    <XCircleIcon className="w-4 h-4 mr-1" /> Recusar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-foreground mb-4">Eventos que coorganizo</h2>
+          {accepted.length === 0 && (
+            <div className="text-muted-foreground">Você ainda não coorganiza nenhum evento.</div>
+          )}
+          <div className="space-y-4">
+            {accepted.map((coOrganization) => {
+              const { event, permissions } = coOrganization;
+              const eventAttendees = attendees[event.id];
+
+              return (
+                <div key={coOrganization.id} className="bg-card border border-border rounded-md p-4 flex flex-col gap-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <Link href={`/events/${event.id}`} className="font-medium text-foreground hover:underline">{event.name}</Link>
+                    <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-muted text-muted-foreground whitespace-nowrap">
+                      {EVENT_STATUS_LABELS[event.status]}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <CalendarIcon className="w-4 h-4 text-primary" /> {formatEventSchedule(event)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Permissões: {formatCoOrganizerPermissions(permissions)}</p>
+
+                  <div className="flex flex-wrap gap-2">
+                    {permissions.includes('EDIT_DETAILS') && (
+                      <>
+                        <Button asChild variant="secondary" size="sm">
+                          <Link href="/admin/events"><EditIcon className="w-4 h-4 mr-1" /> Editar</Link>
+                        </Button>
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/admin/events/${event.id}/sessions`}>Agenda</Link>
+                        </Button>
+                      </>
+                    )}
+                    {permissions.includes('VIEW_ATTENDEES') && (
+                      <Button onClick={() => handleToggleAttendees(event.id)} variant="outline" size="sm">
+                        <UsersIcon className="w-4 h-4 mr-1" /> {eventAttendees ? 'Ocultar participantes' : 'Ver participantes'}
+                      </Button>
+                    )}
+                    {permissions.includes('CHECK_IN') && (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href="/admin/check-in"><ScanLineIcon className="w-4 h-4 mr-1" /> Check-in</Link>
+                      </Button>
+                    )}
+                    {permissions.includes('MESSAGE_ATTENDEES') && (
+                      <Button onClick={() => handleOpenMessage(event.id)} variant="outline" size="sm">
+                        <MailIcon className="w-4 h-4 mr-1" /> Enviar mensagem
+                      </Button>
+                    )}
+                    <Button onClick={() => handleRespond(coOrganization, 'decline')} variant="destructive" size="sm">
+                      Deixar de coorganizar
+                    </Button>
+                  </div>
+
+                  {eventAttendees && (
+                    <div className="border-t border-border pt-3">
+                      {eventAttendees.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nenhuma reserva neste evento.</p>
+                      ) : (
+                        <ul className="space-y-1 text-sm text-foreground/80">
+                          {eventAttendees.map((reservation) => (
+                            <li key={reservation.id} className="flex justify-between gap-2">
+                              <span>
+                                {reservation.user.email} · {reservation.quantity} assento(s)
+                                {reservation.attendeeNames.length > 0 && `: ${reservation.attendeeNames.join(', ')}`}
+                              </span>
+                              <span className="text-muted-foreground">{RESERVATION_STATUS_LABELS[reservation.status]}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {messageEventId === event.id && (
+                    <form onSubmit={handleSendMessage} className="border-t border-border pt-3 space-y-2">
+                      <Input placeholder="Assunto" value={subject} onChange={(e) => setSubject(e.target.value)} required />
+                      <textarea
+                        placeholder="Mensagem aos participantes confirmados"
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        rows={4}
+                        required
+                        className="flex w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                      />
+                      <div className="flex justify-end">
+                        <Button type="submit" size="sm" disabled={isSending}>
+                          {isSending ? 'Enviando...' : 'Enviar'}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default CoOrganizingPage;
@@ -7,18 +7,48 @@ import Header from '@/components/Header';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/components/AuthContext';
 import { Button } from '@/components/ui/button';
-import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon, UserCircleIcon, ClockIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon, UserCircleIcon, ClockIcon, MonitorIcon, AccessibilityIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ReservationStatus, isActiveReservation } from '@/lib/reservations';
+import { EventStatus, EVENT_STATUS_LABELS, isEventOpen, hasEventEnded, isEventOngoing } from '@/lib/events';
+import EventDateTime from '@/components/EventDateTime';
+import { EventSession } from '@/lib/sessions';
+import EventAgenda from '@/components/EventAgenda';
+import {
+  AttendanceMode,
+  EventFormat,
+  ATTENDANCE_MODE_LABELS,
+  EVENT_FORMAT_LABELS,
+  formatEventSpots,
+  getAttendanceModes,
+  getModeCapacity,
+} from '@/lib/attendance';
+import { RoomWithVenue } from '@/lib/venues';
+import { CategorySummary, getCategoryUrl } from '@/lib/categories';
+import { can } from '@/lib/permissions';
 
 interface Event {
   id: string;
   name: string;
   description: string | null;
-  eventDate: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  format: EventFormat;
   location: string | null;
+  room: RoomWithVenue | null;
   onlineLink: string | null;
+  category: CategorySummary | null;
+  tags: string[];
   maxCapacity: number;
   availableSpots: number;
+  onlineCapacity: number;
+  onlineAvailableSpots: number;
+  maxSeatsPerUser: number;
+  status: EventStatus;
+  cancellationReason: string | null;
+  sessions: EventSession[];
   creatorId: string;
   creator: {
     id: string;
@@ -33,7 +63,11 @@ interface Reservation {
   eventId: string;
   userId: string;
   reservationDate: string;
-  status: 'CONFIRMED' | 'CANCELED';
+  status: ReservationStatus;
+  quantity: number;
+  attendeeNames: string[];
+  attendanceMode: AttendanceMode;
+  sessionEnrollments: { sessionId: string }[];
 }
 
 const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
@@ -45,8 +79,21 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isReserved, setIsReserved] = useState(false);
+  const [activeReservationId, setActiveReservationId] = useState<string | null>(null);
+  const [enrolledSessionIds, setEnrolledSessionIds] = useState<string[]>([]);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+  const [agendaMessage, setAgendaMessage] = useState<string | null>(null);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
   const [isReserving, setIsReserving] = useState(false);
   const [reservationMessage, setReservationMessage] = useState<string | null>(null); 
+  const [seatCount, setSeatCount] = useState(1);
+  const [attendeeNames, setAttendeeNames] = useState<string[]>(['']);
+  // Modalidade escolhida (só eventos híbridos oferecem a escolha).
+  const [selectedMode, setSelectedMode] = useState<AttendanceMode>('IN_PERSON');
+
+  // Em eventos presenciais ou online a modalidade é implícita.
+  const attendanceMode: AttendanceMode = event && event.format !== 'HYBRID' ? event.format : selectedMode;
+  const modeAvailableSpots = event ? getModeCapacity(event, attendanceMode).availableSpots : 0;
 
   const fetchEventDetails = useCallback(async () => {
     setLoading(true);
@@ -62,22 +109,39 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
   }, [eventId]);
 
   const checkUserReservation = useCallback(async () => {
-    if (!isAuthenticated || user?.role !== 'USER') {
+    if (!isAuthenticated || !user || !can(user.role, 'reservation:create')) {
       setIsReserved(false);
+      setActiveReservationId(null);
+      setEnrolledSessionIds([]);
+      setWaitlistPosition(null);
       return;
     }
     try {
-      const data = await apiFetch<{ reservations: Reservation[] }>('/reservations/my-reservations', { method: 'GET' });
-      const found = data.reservations.some(
-        (res) => res.eventId === eventId && res.userId === user.id && res.status === 'CONFIRMED'
+      const data = await apiFetch<{ reservations: Reservation[]; waitlist: { eventId: string; position: number }[] }>('/reservations/my-reservations', { method: 'GET' });
+      const found = data.reservations.find(
+        (res) => res.eventId === eventId && res.userId === user.id && isActiveReservation(res.status)
       );
-      setIsReserved(found);
+      setIsReserved(!!found);
+      setActiveReservationId(found ? found.id : null);
+      setEnrolledSessionIds(found ? found.sessionEnrollments.map((enrollment) => enrollment.sessionId) : []);
+      const entry = data.waitlist.find((item) => item.eventId === eventId);
+      setWaitlistPosition(entry ? entry.position : null);
     } catch (err: any) {
       console.error('Erro ao verificar reservas do usuário:', err);
       setIsReserved(false); 
     }
   }, [isAuthenticated, eventId, user]);
 
+  // Recarrega o evento sem exibir o carregamento: atualiza as vagas e, após uma reserva online, revela o link.
+  const refreshEvent = async () => {
+    try {
+      const data = await apiFetch<{ event: Event }>(`/events/${eventId}`);
+      setEvent(data.event);
+    } catch (err: any) {
+      console.error('Erro ao recarregar o evento:', err);
+    }
+  };
+
   useEffect(() => {
     fetchEventDetails();
   }, [fetchEventDetails]);
@@ -94,11 +158,11 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
       router.push('/login');
       return;
     }
-    if (user?.role !== 'USER') {
-      setReservationMessage('Apenas usuários comuns podem fazer reservas.');
+    if (!can(user?.role, 'reservation:create')) {
+      setReservationMessage('Você não tem permissão para fazer reservas.');
       return;
     }
-    if (!event || event.availableSpots <= 0) {
+    if (!event || modeAvailableSpots <= 0) {
       setReservationMessage('Não há vagas disponíveis ou o evento não foi encontrado.');
       return;
     }
@@ -106,22 +170,44 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
       setReservationMessage('Você já tem uma reserva para este evento.');
       return;
     }
-    if (new Date(event.eventDate) < new Date()) {
+    if (hasEventEnded(event)) {
       setReservationMessage('Não é possível reservar vagas para um evento que já ocorreu.');
       return;
     }
+    if (!isEventOpen(event.status)) {
+      setReservationMessage('Este evento não está aberto para reservas.');
+      return;
+    }
+
+    if (seatCount > modeAvailableSpots) {
+      setReservationMessage(`Falha na reserva: Restam apenas ${modeAvailableSpots} vaga(s).`);
+      return;
+    }
+
+    // Os nomes são opcionais, mas se algum for informado, todos os assentos precisam de um nome.
+    const trimmedNames = attendeeNames.slice(0, seatCount).map((name) => name.trim());
+    const hasAnyName = trimmedNames.some((name) => name !== '');
+    if (hasAnyName && trimmedNames.some((name) => name === '')) {
+      setReservationMessage('Falha na reserva: Informe o nome do participante de cada assento.');
+      return;
+    }
 
     setIsReserving(true);
     setReservationMessage(null); 
     try {
       const res = await apiFetch<{ message: string; reservation: Reservation }>(`/reservations/events/${eventId}/reserve`, {
         method: 'POST',
+        body: JSON.stringify({
+          quantity: seatCount,
+          attendanceMode,
+          ...(hasAnyName ? { attendeeNames: trimmedNames } : {}),
+        }),
       });
       setReservationMessage(res.message);
-      if (event) {
-        setEvent(prevEvent => prevEvent ? { ...prevEvent, availableSpots: prevEvent.availableSpots - 1 } : null);
-      }
+      await refreshEvent();
       setIsReserved(true); 
+      setActiveReservationId(res.reservation.id);
+      setEnrolledSessionIds([]);
     } catch (err: any) {
       if (err.message && err.message.includes('você já possui uma reserva confirmada')) {
         setReservationMessage('Falha na reserva: Você já possui uma reserva confirmada para este evento.');
@@ -136,6 +222,70 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
     }
   };
 
+  const handleJoinWaitlist = async () => {
+    setIsReserving(true);
+    setReservationMessage(null);
+    try {
+      const res = await apiFetch<{ message: string; waitlistEntry: { position: number } }>(`/reservations/events/${eventId}/waitlist`, {
+        method: 'POST',
+        body: JSON.stringify({ quantity: seatCount, attendanceMode }),
+      });
+      setReservationMessage(res.message);
+      setWaitlistPosition(res.waitlistEntry.position);
+    } catch (err: any) {
+      setReservationMessage(`Falha ao entrar na lista de espera: ${err.message || 'tente novamente.'}`);
+    } finally {
+      setIsReserving(false);
+    }
+  };
+
+  // Recarrega apenas a agenda, para atualizar as vagas das sessões sem recarregar a página.
+  const refreshSessions = async () => {
+    try {
+      const data = await apiFetch<{ sessions: EventSession[] }>(`/events/${eventId}/sessions`);
+      setEvent(prevEvent => prevEvent ? { ...prevEvent, sessions: data.sessions } : null);
+    } catch (err: any) {
+      console.error('Erro ao recarregar a agenda do evento:', err);
+    }
+  };
+
+  const handleEnrollSession = async (sessionId: string) => {
+    if (!activeReservationId) return;
+    setPendingSessionId(sessionId);
+    setAgendaMessage(null);
+    try {
+      const res = await apiFetch<{ message: string }>(`/reservations/${activeReservationId}/sessions`, {
+        method: 'POST',
+        body: JSON.stringify({ sessionId }),
+      });
+      setAgendaMessage(res.message);
+      setEnrolledSessionIds((prevIds) => [...prevIds, sessionId]);
+      refreshSessions();
+    } catch (err: any) {
+      setAgendaMessage(`Falha ao escolher a sessão: ${err.message || 'tente novamente.'}`);
+    } finally {
+      setPendingSessionId(null);
+    }
+  };
+
+  const handleLeaveSession = async (sessionId: string) => {
+    if (!activeReservationId) return;
+    setPendingSessionId(sessionId);
+    setAgendaMessage(null);
+    try {
+      const res = await apiFetch<{ message: string }>(`/reservations/${activeReservationId}/sessions/${sessionId}`, {
+        method: 'DELETE',
+      });
+      setAgendaMessage(res.message);
+      setEnrolledSessionIds((prevIds) => prevIds.filter((id) => id !== sessionId));
+      refreshSessions();
+    } catch (err: any) {
+      setAgendaMessage(`Falha ao sair da sessão: ${err.message || 'tente novamente.'}`);
+    } finally {
+      setPendingSessionId(null);
+    }
+  };
+
   if (loading || authLoading) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
@@ -169,42 +319,49 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
     );
   }
 
-  const eventDateTime = new Date(event.eventDate);
-  const formattedDate = eventDateTime.toLocaleDateString('pt-BR', {
-    day: '2-digit',
-    month: '2-digit',
-    year: 'numeric',
-  });
-  const formattedTime = eventDateTime.toLocaleTimeString('pt-BR', {
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-
-  const isEventPast = eventDateTime < new Date();
-  const isSpotsAvailable = event.availableSpots > 0;
-  const canReserveLogic = user?.role === 'USER' && isSpotsAvailable && !isReserved && !isEventPast;
+  // Eventos cancelados ou concluídos são tratados como encerrados para reservas.
+  // Eventos em andamento continuam abertos até o término.
+  const isEventPast = hasEventEnded(event) || !isEventOpen(event.status);
+  const isHappeningNow = isEventOngoing(event) && isEventOpen(event.status);
+  const isSpotsAvailable = modeAvailableSpots > 0;
+  // Em eventos lotados, o seletor define quantos assentos pedir na lista de espera.
+  const maxSelectableSeats = isSpotsAvailable
+    ? Math.max(1, Math.min(event.maxSeatsPerUser, modeAvailableSpots))
+    : event.maxSeatsPerUser;
+
+  const handleSeatCountChange = (value: number) => {
+    setSeatCount(value);
+    setAttendeeNames((prevNames) => Array.from({ length: value }, (_, i) => prevNames[i] ?? ''));
+  };
+  const canReserveLogic = can(user?.role, 'reservation:create') && isSpotsAvailable && !isReserved && !isEventPast;
 
   let buttonText = 'Reservar Minha Vaga';
   let isButtonDisabled = isReserving;
   let reservationStatusMessage: string | null = null;
 
-  if (isEventPast) {
-    reservationStatusMessage = 'Evento Encerrado';
+  if (event.status === 'CANCELED') {
+    reservationStatusMessage = 'Evento Cancelado';
     isButtonDisabled = true;
-  } else if (!isSpotsAvailable) {
-    reservationStatusMessage = 'Vagas Esgotadas!';
+  } else if (isEventPast) {
+    reservationStatusMessage = 'Evento Encerrado';
     isButtonDisabled = true;
   } else if (isReserved) {
     reservationStatusMessage = 'Você já possui uma reserva confirmada para este evento!';
     isButtonDisabled = true;
+  } else if (waitlistPosition !== null) {
+    reservationStatusMessage = `Você está na lista de espera: ${waitlistPosition}º na fila.`;
+    isButtonDisabled = true;
+    buttonText = 'Na Lista de Espera';
+  } else if (!isSpotsAvailable) {
+    reservationStatusMessage = 'Vagas Esgotadas!';
+    buttonText = 'Entrar na lista de espera';
   } else if (!isAuthenticated) {
     reservationStatusMessage = 'Faça login para reservar uma vaga.';
     isButtonDisabled = true; 
     buttonText = 'Entrar para Reservar';
-  } else if (user?.role === 'ADMIN') {
-    reservationStatusMessage = 'Administradores não podem reservar vagas.';
+  } else if (!can(user?.role, 'reservation:create')) {
+    reservationStatusMessage = 'Você não tem permissão para reservar vagas.';
     isButtonDisabled = true;
-    buttonText = 'Ação de Administrador'; 
   } else {
     isButtonDisabled = isReserving;
   }
@@ -216,16 +373,45 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
       <main className="flex-grow container mx-auto p-4 md:p-8">
         <div className="bg-card p-8 rounded-md mx-auto w-full max-w-2xl">
           <h1 className="text-4xl font-bold text-foreground mb-4 text-center">{event.name}</h1>
+          {(event.category || event.tags.length > 0) && (
+            <div className="flex flex-wrap justify-center gap-2 mb-6 text-sm">
+              {event.category && (
+                <Link href={getCategoryUrl(event.category.slug)} className="px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:underline">
+                  {event.category.name}
+                </Link>
+              )}
+              {event.tags.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 rounded-full bg-muted text-muted-foreground">#{tag}</span>
+              ))}
+            </div>
+          )}
+          {event.status !== 'PUBLISHED' && (
+            <div className={cn(
+              "text-center rounded-md p-3 mb-6",
+              event.status === 'CANCELED' ? 'bg-destructive/10 text-destructive' : 'bg-muted text-muted-foreground'
+            )}>
+              <span className="font-semibold">{EVENT_STATUS_LABELS[event.status]}</span>
+              {event.status === 'CANCELED' && event.cancellationReason && (
+                <span>: {event.cancellationReason}</span>
+              )}
+            </div>
+          )}
           <p className="text-muted-foreground text-center mb-6">{event.description}</p>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-y-4 gap-x-8 text-lg mb-8">
-            <div className="flex items-center gap-3">
+            <div className="flex items-start gap-3 md:col-span-2">
               <CalendarIcon className="w-6 h-6 text-primary" />
-              <span>Data: {formattedDate}</span>
+              <EventDateTime event={event} />
             </div>
+            {isHappeningNow && (
+              <div className="flex items-center gap-3 md:col-span-2 text-green-600">
+                <ClockIcon className="w-6 h-6" />
+                <span>Acontecendo agora: ainda é possível reservar até o término.</span>
+              </div>
+            )}
             <div className="flex items-center gap-3">
-              <ClockIcon className="w-6 h-6 text-primary" />
-              <span>Hora: {formattedTime}</span>
+              <MonitorIcon className="w-6 h-6 text-primary" />
+              <span>Formato: {EVENT_FORMAT_LABELS[event.format]}</span>
             </div>
             {event.location && (
               <div className="flex items-center gap-3">
@@ -233,15 +419,28 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
                 <span>Local: {event.location}</span>
               </div>
             )}
-            {event.onlineLink && (
+            {event.room && (event.room.accessibilityNotes || event.room.venue.accessibilityNotes) && (
+              <div className="flex items-center gap-3">
+                <AccessibilityIcon className="w-6 h-6 text-primary" />
+                <span>
+                  Acessibilidade: {[event.room.venue.accessibilityNotes, event.room.accessibilityNotes].filter(Boolean).join(' ')}
+                </span>
+              </div>
+            )}
+            {event.onlineLink ? (
               <div className="flex items-center gap-3">
                 <LinkIcon className="w-6 h-6 text-primary" />
                 <span>Link Online: <a href={event.onlineLink} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">{event.onlineLink}</a></span>
               </div>
+            ) : event.format !== 'IN_PERSON' && (
+              <div className="flex items-center gap-3 md:col-span-2 text-muted-foreground">
+                <LinkIcon className="w-6 h-6 text-primary" />
+                <span>O link online é liberado para quem tem uma reserva online confirmada.</span>
+              </div>
             )}
-            <div className="flex items-center gap-3">
+            <div className="flex items-center gap-3 md:col-span-2">
               <UsersIcon className="w-6 h-6 text-primary" />
-              <span>Vagas: {event.availableSpots} / {event.maxCapacity}</span>
+              <span>Vagas: {formatEventSpots(event)} (até {event.maxSeatsPerUser} por pessoa)</span>
             </div>
             <div className="flex items-center gap-3">
               <UserCircleIcon className="w-6 h-6 text-primary" />
@@ -249,6 +448,30 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
             </div>
           </div>
 
+          {event.sessions.length > 0 && (
+            <div className="mt-8 pt-6 border-t border-border">
+              <h2 className="text-2xl font-semibold text-foreground mb-2">Agenda</h2>
+              {activeReservationId ? (
+                <p className="text-sm text-muted-foreground mb-4">Escolha as sessões que deseja assistir. Sessões com horários sobrepostos não podem ser combinadas.</p>
+              ) : (
+                <p className="text-sm text-muted-foreground mb-4">Reserve sua vaga no evento para montar a sua agenda.</p>
+              )}
+              {agendaMessage && (
+                <p className={cn("text-sm font-medium mb-4", agendaMessage.includes('Falha') ? 'text-destructive' : 'text-green-600')}>
+                  {agendaMessage}
+                </p>
+              )}
+              <EventAgenda
+                sessions={event.sessions}
+                timeZone={event.timezone}
+                enrolledSessionIds={enrolledSessionIds}
+                onEnroll={activeReservationId ? handleEnrollSession : undefined}
+                onLeave={activeReservationId ? handleLeaveSession : undefined}
+                pendingSessionId={pendingSessionId}
+              />
+            </div>
+          )}
+
           <div className="mt-8 pt-6 border-t border-border flex flex-col items-center gap-4">
             {reservationMessage && (
               <p className={cn(
@@ -268,13 +491,67 @@ const EventDetailPage: React.FC<{ params: { id: string } }> = ({ params }) => {
                 </span>
             )}
 
-            {user?.role === 'USER' && (
+            {can(user?.role, 'reservation:create') && !isEventPast && !isReserved && waitlistPosition === null && event.format === 'HYBRID' && (
+              <div className="w-full max-w-xs">
+                <label htmlFor="attendanceMode" className="block text-sm font-medium text-foreground mb-1">
+                  Como você vai participar?
+                </label>
+                <select
+                  id="attendanceMode"
+                  value={selectedMode}
+                  onChange={(e) => setSelectedMode(e.target.value as AttendanceMode)}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                >
+                  {getAttendanceModes(event.format).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {ATTENDANCE_MODE_LABELS[mode]} ({getModeCapacity(event, mode).availableSpots} vaga(s))
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {can(user?.role, 'reservation:create') && !isEventPast && !isReserved && waitlistPosition === null && maxSelectableSeats > 1 && (
+              <div className="w-full max-w-xs space-y-3">
+                <div>
+                  <label htmlFor="seatCount" className="block text-sm font-medium text-foreground mb-1">
+                    Quantidade de assentos (máx. {maxSelectableSeats})
+                  </label>
+                  <select
+                    id="seatCount"
+                    value={seatCount}
+                    onChange={(e) => handleSeatCountChange(Number(e.target.value))}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                  >
+                    {Array.from({ length: maxSelectableSeats }, (_, i) => i + 1).map((count) => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
+                {isSpotsAvailable && seatCount > 1 && attendeeNames.map((name, index) => (
+                  <div key={index}>
+                    <label htmlFor={`attendee-${index}`} className="block text-sm font-medium text-foreground mb-1">
+                      Participante do assento {index + 1}
+                    </label>
+                    <Input
+                      id={`attendee-${index}`}
+                      type="text"
+                      placeholder="Nome do participante"
+                      value={name}
+                      onChange={(e) => setAttendeeNames((prevNames) => prevNames.map((n, i) => (i === index ? e.target.value : n)))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {can(user?.role, 'reservation:create') && (
               <Button
-                onClick={handleReserve}
+                onClick={!isSpotsAvailable && !isReserved ? handleJoinWaitlist : handleReserve}
                 disabled={isButtonDisabled} 
                 className="w-full max-w-xs"
               >
-                {isReserving ? 'Reservando...' : buttonText}
+                {isReserving ? 'Enviando...' : buttonText}
               </Button>
             )}
 
@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiFetch } from '@/lib/api';
+
+// Pedido do link de redefinição de senha, enviado por e-mail.
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiFetch<{ message: string }>('/users/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      });
+      setSentMessage(data.message);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao solicitar a redefinição de senha.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow flex items-center justify-center p-4">
+        <div className="bg-card p-8 rounded-md w-full max-w-md">
+          <h1 className="text-3xl font-bold text-center text-foreground mb-6">Esqueci minha senha</h1>
+          {sentMessage ? (
+            <p className="text-center text-foreground">{sentMessage}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Informe o e-mail da sua conta e enviaremos um link para você escolher uma nova senha.
+              </p>
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-foreground mb-1">
+                  E-mail
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="seu.email@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full rounded-md"
+                />
+              </div>
+              {error && <p className="text-destructive text-sm text-center">{error}</p>}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Enviando...' : 'Enviar link'}
+              </Button>
+            </form>
+          )}
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            Lembrou a senha?{' '}
+            <Link href="/login" className="text-primary hover:underline font-medium">
+              Voltar para o login
+            </Link>
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
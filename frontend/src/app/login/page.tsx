@@ -10,17 +10,50 @@ import Header from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { apiFetch } from '@/lib/api';
-import { useAuth } from '@/components/AuthContext'; 
+import { User, useAuth } from '@/components/AuthContext'; 
+import { RecoveryCodesList, TotpEnrollment, TotpEnrollmentPanel } from '@/components/TwoFactorSetup';
 import { cn } from '@/lib/utils'; 
 
+interface LoginSuccess {
+  message: string;
+  token: string;
+  refreshToken: string;
+  user: User;
+  recoveryCodes?: string[]; // Presentes quando a verificação em duas etapas foi configurada neste login.
+}
+
+// Com a verificação em duas etapas, a senha correta rende um desafio em vez da sessão.
+interface TwoFactorChallenge {
+  message: string;
+  twoFactorRequired: true;
+  setupRequired: boolean;
+  challengeToken: string;
+}
+
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Segunda etapa: desafio do login, QR code (se a verificação ainda precisa ser configurada) e código informado.
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const router = useRouter(); 
   const { login } = useAuth(); 
 
+  const completeLogin = (data: LoginSuccess) => {
+    login(data.token, data.refreshToken, data.user);
+    if (data.recoveryCodes) {
+      // Os códigos de recuperação são exibidos antes de sair da página: não há como vê-los de novo.
+      setRecoveryCodes(data.recoveryCodes);
+      return;
+    }
+    alert(data.message); 
+    router.push('/'); 
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); 
     setLoading(true);
@@ -28,15 +61,26 @@ const LoginPage: React.FC = () => {
 
     try {
       
-      const data = await apiFetch<{ message: string; token: string; user: { id: string; email: string; role: 'USER' | 'ADMIN' } }>('/users/login', {
+      const data = await apiFetch<LoginSuccess | TwoFactorChallenge>('/users/login', {
         method: 'POST',
         body: JSON.stringify({ email, password }),
       });
 
-      
-      login(data.token, data.user);
-      alert(data.message); 
-      router.push('/'); 
+      if ('twoFactorRequired' in data) {
+        setChallenge(data);
+        setCode('');
+        if (data.setupRequired) {
+          // Administradores sem a verificação ativa a configuram agora, antes de entrar.
+          const setup = await apiFetch<TotpEnrollment>('/users/login/2fa/setup', {
+            method: 'POST',
+            body: JSON.stringify({ challengeToken: data.challengeToken }),
+          });
+          setEnrollment(setup);
+        }
+        return;
+      }
+
+      completeLogin(data);
     } catch (err: any) {
       
       setError(err.message || 'Falha no login. Por favor, verifique suas credenciais.');
@@ -45,6 +89,97 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiFetch<LoginSuccess>('/users/login/2fa', {
+        method: 'POST',
+        body: JSON.stringify({ challengeToken: challenge.challengeToken, code }),
+      });
+      completeLogin(data);
+    } catch (err: any) {
+      setError(err.message || 'Falha na verificação. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestart = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+    setError(null);
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center p-4">
+          <div className="bg-card p-8 rounded-md w-full max-w-md">
+            <h1 className="text-2xl font-bold text-center text-foreground mb-6">Verificação em duas etapas ativada</h1>
+            <RecoveryCodesList codes={recoveryCodes} onDone={() => router.push('/')} />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <Header />
+        <main className="flex-grow flex items-center justify-center p-4">
+          <div className="bg-card p-8 rounded-md w-full max-w-md">
+            <h1 className="text-2xl font-bold text-center text-foreground mb-2">Verificação em duas etapas</h1>
+            <p className="text-sm text-center text-muted-foreground mb-6">
+              {challenge.setupRequired
+                ? 'A verificação em duas etapas é obrigatória para administradores. Configure-a para continuar.'
+                : 'Informe o código do aplicativo autenticador ou um código de recuperação.'}
+            </p>
+            {enrollment && (
+              <div className="mb-6">
+                <TotpEnrollmentPanel enrollment={enrollment} />
+              </div>
+            )}
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-foreground mb-1">
+                  Código de verificação
+                </label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode={challenge.setupRequired ? 'numeric' : 'text'}
+                  autoComplete="one-time-code"
+                  placeholder={challenge.setupRequired ? '123456' : '123456 ou código de recuperação'}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  className="w-full rounded-md"
+                />
+              </div>
+              {error && <p className="text-destructive text-sm text-center">{error}</p>}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verificando...' : 'Verificar'}
+              </Button>
+            </form>
+            <p className="mt-6 text-center text-sm text-muted-foreground">
+              <button type="button" onClick={handleRestart} className="text-primary hover:underline">
+                Voltar ao login
+              </button>
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex flex-col"> 
       <Header />
@@ -80,6 +215,11 @@ const LoginPage: React.FC = () => {
                 className="w-full rounded-md"
               />
             </div>
+            <div className="text-right">
+              <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                Esqueci minha senha
+              </Link>
+            </div>
             {error && <p className="text-destructive text-sm text-center">{error}</p>}
             <Button type="submit" className="w-full" disabled={loading}>
               {loading ? 'Entrando...' : 'Entrar'}
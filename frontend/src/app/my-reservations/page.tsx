@@ -8,39 +8,80 @@ import Header from '@/components/Header';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/components/AuthContext';
 import { Button } from '@/components/ui/button';
-import { CalendarIcon, MapPinIcon, LinkIcon, XCircleIcon, CheckCircleIcon } from 'lucide-react';
+import { CalendarIcon, MapPinIcon, LinkIcon, XCircleIcon, CheckCircleIcon, HourglassIcon, UsersIcon, TicketIcon, ClockIcon, MonitorIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ReservationStatus, RESERVATION_STATUS_LABELS, isActiveReservation, isClosedReservation } from '@/lib/reservations';
+import { ScheduleSession, groupSessionsByDay, formatSessionTimeRange } from '@/lib/sessions';
+import { formatEventSchedule, hasEventEnded } from '@/lib/events';
+import { AttendanceMode, EventFormat, ATTENDANCE_MODE_LABELS } from '@/lib/attendance';
 
 interface Reservation {
   id: string;
   eventId: string;
   userId: string;
   reservationDate: string;
-  status: 'CONFIRMED' | 'CANCELED';
+  status: ReservationStatus;
+  quantity: number;
+  attendeeNames: string[];
+  attendanceMode: AttendanceMode;
+  checkedInAt: string | null;
   event: {
     id: string;
     name: string;
-    eventDate: string;
+    startsAt: string;
+    endsAt: string;
+    timezone: string;
+    format: EventFormat;
     location: string | null;
-    onlineLink: string | null;
+    onlineLink: string | null; // Presente apenas em reservas online confirmadas.
   };
 }
 
+interface WaitlistEntry {
+  id: string;
+  eventId: string;
+  userId: string;
+  createdAt: string;
+  position: number;
+  quantity: number;
+  attendanceMode: AttendanceMode;
+  event: {
+    id: string;
+    name: string;
+    startsAt: string;
+    endsAt: string;
+    timezone: string;
+    format: EventFormat;
+    location: string | null;
+  };
+}
+
+interface Ticket {
+  ticketCode: string;
+  qrCodeSvg: string;
+  status: ReservationStatus;
+  quantity: number;
+  checkedInAt: string | null;
+}
+
 const MyReservationsPage: React.FC = () => {
   const router = useRouter();
   const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<(Ticket & { eventName: string }) | null>(null);
 
   useEffect(() => {
-    if (!authLoading && (!isAuthenticated || user?.role !== 'USER')) {
+    if (!authLoading && (!isAuthenticated)) {
       router.push('/login');
     }
   }, [isAuthenticated, authLoading, user, router]);
 
   const fetchMyReservations = useCallback(async () => {
-    if (!isAuthenticated || user?.role !== 'USER') {
+    if (!isAuthenticated) {
       setLoading(false);
       return;
     }
@@ -48,13 +89,17 @@ const MyReservationsPage: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await apiFetch<{ reservations: Reservation[] }>('/reservations/my-reservations', { method: 'GET' });
+      const data = await apiFetch<{ reservations: Reservation[]; waitlist: WaitlistEntry[]; schedule: ScheduleSession[] }>('/reservations/my-reservations', { method: 'GET' });
       const sortedReservations = data.reservations.sort((a, b) => {
-        if (a.status === 'CONFIRMED' && b.status === 'CANCELED') return -1;
-        if (a.status === 'CANCELED' && b.status === 'CONFIRMED') return 1;
-        return new Date(a.event.eventDate).getTime() - new Date(b.event.eventDate).getTime();
+        const aActive = isActiveReservation(a.status);
+        const bActive = isActiveReservation(b.status);
+        if (aActive && !bActive) return -1;
+        if (!aActive && bActive) return 1;
+        return new Date(a.event.startsAt).getTime() - new Date(b.event.startsAt).getTime();
       });
       setReservations(sortedReservations);
+      setWaitlist(data.waitlist);
+      setSchedule(data.schedule);
     } catch (err: any) {
       setError(err.message || 'Falha ao carregar suas reservas.');
     } finally {
@@ -63,7 +108,7 @@ const MyReservationsPage: React.FC = () => {
   }, [isAuthenticated, user]);
 
   useEffect(() => {
-    if (!authLoading && isAuthenticated && user?.role === 'USER') {
+    if (!authLoading && isAuthenticated) {
       fetchMyReservations();
     }
   }, [authLoading, isAuthenticated, user, fetchMyReservations]);
@@ -81,6 +126,50 @@ const MyReservationsPage: React.FC = () => {
     }
   };
 
+  const handleReleaseSeats = async (reservation: Reservation) => {
+    const answer = window.prompt(`Quantos assentos deseja liberar? (1 a ${reservation.quantity - 1})`, '1');
+    if (answer === null) return;
+
+    const seats = Number(answer);
+    if (!Number.isInteger(seats) || seats < 1 || seats >= reservation.quantity) {
+      alert(`Informe um número entre 1 e ${reservation.quantity - 1}. Para liberar todos, cancele a reserva.`);
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/reservations/${reservation.id}/release`, {
+        method: 'POST',
+        body: JSON.stringify({ seats }),
+      });
+      alert(res.message);
+      fetchMyReservations();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao liberar assentos.');
+    }
+  };
+
+  const handleShowTicket = async (reservation: Reservation) => {
+    try {
+      const data = await apiFetch<Ticket>(`/reservations/${reservation.id}/ticket?format=json`, { method: 'GET' });
+      setTicket({ ...data, eventName: reservation.event.name });
+    } catch (err: any) {
+      alert(err.message || 'Falha ao carregar ingresso.');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    const confirmed = window.confirm('Tem certeza que deseja sair da lista de espera?');
+    if (!confirmed) return;
+
+    try {
+      const res = await apiFetch<{ message: string }>('/reservations/waitlist/' + entryId, { method: 'DELETE' });
+      alert(res.message);
+      fetchMyReservations();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao sair da lista de espera.');
+    }
+  };
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
@@ -103,12 +192,12 @@ const MyReservationsPage: React.FC = () => {
     );
   }
 
-  if (!isAuthenticated || user?.role !== 'USER') {
+  if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
         <Header />
         <main className="flex-grow flex items-center justify-center">
-          <div className="text-lg text-muted-foreground">Acesso negado. Por favor, faça login como usuário.</div>
+          <div className="text-lg text-muted-foreground">Acesso negado. Por favor, faça login.</div>
         </main>
       </div>
     );
@@ -120,22 +209,71 @@ const MyReservationsPage: React.FC = () => {
       <main className="flex-grow container mx-auto p-4 md:p-8">
         <h1 className="text-3xl font-bold text-center text-foreground mb-8">Minhas Reservas</h1>
 
+        {schedule.length > 0 && (
+          <section className="mb-10">
+            <h2 className="text-2xl font-semibold text-foreground mb-4">Minha Agenda</h2>
+            <p className="text-sm text-muted-foreground mb-4">Horários no seu fuso local.</p>
+            <div className="bg-card border border-border rounded-md p-6 space-y-6">
+              {groupSessionsByDay(schedule).map(({ day, sessions }) => (
+                <div key={day}>
+                  <h3 className="text-sm font-semibold uppercase text-muted-foreground mb-2">{day}</h3>
+                  <ul className="space-y-2">
+                    {sessions.map((session) => (
+                      <li key={session.id} className="flex flex-col md:flex-row md:items-center gap-x-4 text-sm">
+                        <span className="flex items-center gap-1 font-medium text-foreground w-32">
+                          <ClockIcon className="w-4 h-4 text-primary" /> {formatSessionTimeRange(session)}
+                        </span>
+                        <span className="text-foreground">{session.title}</span>
+                        <span className="text-muted-foreground">
+                          {session.event.name}
+                          {session.room && ` · ${session.room}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {waitlist.length > 0 && (
+          <section className="mb-10">
+            <h2 className="text-2xl font-semibold text-foreground mb-4">Lista de Espera</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {waitlist.map((entry) => {
+                return (
+                  <div key={entry.id} className="bg-card border border-dashed border-primary rounded-md p-6 flex flex-col gap-4">
+                    <h3 className="text-xl font-semibold text-foreground">{entry.event.name}</h3>
+                    <div className="flex items-center gap-2 text-sm text-foreground/80">
+                      <CalendarIcon className="w-4 h-4 text-primary" />
+                      <span>Evento em: {formatEventSchedule(entry.event)}</span>
+                    </div>
+                    <div className="mt-auto pt-4 border-t border-border flex justify-between items-center">
+                      <span className="text-primary font-medium flex items-center gap-1">
+                        <HourglassIcon className="w-5 h-5" /> {entry.position}º na fila ({entry.quantity} assento(s){entry.event.format === 'HYBRID' && `, ${ATTENDANCE_MODE_LABELS[entry.attendanceMode].toLowerCase()}`})
+                      </span>
+                      <Button
+                        onClick={() => handleLeaveWaitlist(entry.id)}
+                        variant="outline"
+                        className="text-xs px-3 py-1"
+                      >
+                        Sair da Fila
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {reservations.length === 0 && (
           <div className="text-center text-muted-foreground text-lg">Você não possui nenhuma reserva.</div>
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {reservations.map((reservation) => {
-            const eventDateTime = new Date(reservation.event.eventDate);
-            const formattedEventDate = eventDateTime.toLocaleDateString('pt-BR', {
-              day: '2-digit',
-              month: '2-digit',
-              year: 'numeric',
-            });
-            const formattedEventTime = eventDateTime.toLocaleTimeString('pt-BR', {
-              hour: '2-digit',
-              minute: '2-digit',
-            });
             const reservationDateTime = new Date(reservation.reservationDate);
             const formattedReservationDate = reservationDateTime.toLocaleDateString('pt-BR', {
               day: '2-digit',
@@ -143,22 +281,23 @@ const MyReservationsPage: React.FC = () => {
               year: 'numeric',
             });
 
-            const isEventPast = eventDateTime < new Date();
-            const canCancel = reservation.status === 'CONFIRMED' && !isEventPast;
+            const isEventPast = hasEventEnded(reservation.event);
+            const canCancel = isActiveReservation(reservation.status) && !isEventPast;
+            const hasTicket = reservation.status === 'CONFIRMED' || reservation.status === 'ATTENDED';
 
             return (
               <div
                 key={reservation.id}
                 className={cn(
                   "bg-card border rounded-md p-6 flex flex-col gap-4",
-                  reservation.status === 'CANCELED' ? 'opacity-70 border-dashed border-gray-400' : 'border-border',
+                  isClosedReservation(reservation.status) ? 'opacity-70 border-dashed border-gray-400' : 'border-border',
                   "transition-transform duration-300 hover:scale-[1.02]"
                 )}
               >
                 <h2 className="text-xl font-semibold text-foreground">{reservation.event.name}</h2>
                 <div className="flex items-center gap-2 text-sm text-foreground/80">
                   <CalendarIcon className="w-4 h-4 text-primary" />
-                  <span>Evento em: {formattedEventDate} às {formattedEventTime}</span>
+                  <span>Evento em: {formatEventSchedule(reservation.event)}</span>
                 </div>
                 {reservation.event.location && (
                   <div className="flex items-center gap-2 text-sm text-foreground/80">
@@ -166,6 +305,12 @@ const MyReservationsPage: React.FC = () => {
                     <span>Local: {reservation.event.location}</span>
                   </div>
                 )}
+                {reservation.event.format === 'HYBRID' && (
+                  <div className="flex items-center gap-2 text-sm text-foreground/80">
+                    <MonitorIcon className="w-4 h-4 text-primary" />
+                    <span>Participação: {ATTENDANCE_MODE_LABELS[reservation.attendanceMode]}</span>
+                  </div>
+                )}
                 {reservation.event.onlineLink && (
                   <div className="flex items-center gap-2 text-sm text-foreground/80">
                     <LinkIcon className="w-4 h-4 text-primary" />
@@ -178,30 +323,81 @@ const MyReservationsPage: React.FC = () => {
                   <CalendarIcon className="w-4 h-4 text-primary" />
                   <span>Reservado em: {formattedReservationDate}</span>
                 </div>
+                <div className="flex items-start gap-2 text-sm text-foreground/80">
+                  <UsersIcon className="w-4 h-4 text-primary mt-0.5" />
+                  <span>
+                    {reservation.quantity} assento(s)
+                    {reservation.attendeeNames.length > 0 && `: ${reservation.attendeeNames.join(', ')}`}
+                  </span>
+                </div>
                 <div className="mt-auto pt-4 border-t border-border flex justify-between items-center">
-                  {reservation.status === 'CONFIRMED' ? (
-                    <span className="text-green-600 font-medium flex items-center gap-1">
-                      <CheckCircleIcon className="w-5 h-5" /> Confirmada
+                  {isClosedReservation(reservation.status) ? (
+                    <span className="text-destructive font-medium flex items-center gap-1">
+                      <XCircleIcon className="w-5 h-5" /> {RESERVATION_STATUS_LABELS[reservation.status]}
                     </span>
                   ) : (
-                    <span className="text-destructive font-medium flex items-center gap-1">
-                      <XCircleIcon className="w-5 h-5" /> Cancelada
+                    <span className="text-green-600 font-medium flex items-center gap-1">
+                      <CheckCircleIcon className="w-5 h-5" /> {RESERVATION_STATUS_LABELS[reservation.status]}
                     </span>
                   )}
-                  {canCancel && (
-                    <Button
-                      onClick={() => handleCancelReservation(reservation.id)}
-                      variant="destructive"
-                      className="text-xs px-3 py-1"
-                    >
-                      Cancelar Reserva
-                    </Button>
+                  {(canCancel || hasTicket) && (
+                    <div className="flex gap-2">
+                      {hasTicket && (
+                        <Button
+                          onClick={() => handleShowTicket(reservation)}
+                          variant="outline"
+                          className="text-xs px-3 py-1"
+                        >
+                          <TicketIcon className="mr-1 h-4 w-4" /> Ver Ingresso
+                        </Button>
+                      )}
+                      {canCancel && reservation.quantity > 1 && (
+                        <Button
+                          onClick={() => handleReleaseSeats(reservation)}
+                          variant="outline"
+                          className="text-xs px-3 py-1"
+                        >
+                          Liberar Assentos
+                        </Button>
+                      )}
+                      {canCancel && (
+                        <Button
+                          onClick={() => handleCancelReservation(reservation.id)}
+                          variant="destructive"
+                          className="text-xs px-3 py-1"
+                        >
+                          Cancelar Reserva
+                        </Button>
+                      )}
+                    </div>
                   )}
                 </div>
               </div>
             );
           })}
         </div>
+
+        {ticket && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50" onClick={() => setTicket(null)}>
+            <div className="bg-card rounded-md p-6 w-full max-w-sm flex flex-col items-center gap-4" onClick={(e) => e.stopPropagation()}>
+              <h2 className="text-xl font-semibold text-foreground text-center">{ticket.eventName}</h2>
+              {/* O SVG é gerado pelo backend a partir do código assinado do ingresso. */}
+              <div className="w-64 h-64 bg-white p-2 rounded-md" dangerouslySetInnerHTML={{ __html: ticket.qrCodeSvg }} />
+              <p className="text-sm text-foreground/80">{ticket.quantity} assento(s)</p>
+              {ticket.checkedInAt ? (
+                <p className="text-sm text-green-600 font-medium">
+                  Check-in realizado em {new Date(ticket.checkedInAt).toLocaleString('pt-BR')}
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">Apresente este QR code na entrada do evento.</p>
+              )}
+              <code className="text-xs text-muted-foreground break-all text-center">{ticket.ticketCode}</code>
+              <Button onClick={() => setTicket(null)} variant="outline" className="w-full">
+                Fechar
+              </Button>
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -2,29 +2,55 @@
 
 "use client"; 
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
 import Header from '@/components/Header';
 import EventCard from '@/components/EventCard';
+import HighlightedText from '@/components/HighlightedText';
+import CategoryNav from '@/components/CategoryNav';
+import EventMap from '@/components/EventMap';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/components/AuthContext';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { CalendarDaysIcon, SearchIcon, XCircleIcon } from 'lucide-react'; 
+import { CalendarDaysIcon, LocateFixedIcon, MapIcon, SearchIcon, XCircleIcon } from 'lucide-react'; 
 import { cn } from '@/lib/utils'; 
+import { ReservationStatus, isActiveReservation } from '@/lib/reservations';
+import { EventPage, EventSort, EventStatus, EVENT_SORT_LABELS, hasEventEnded } from '@/lib/events';
+import { EventFormat, EVENT_FORMAT_LABELS } from '@/lib/attendance';
+import { getViewerTimeZone } from '@/lib/timezone';
+import { EventSuggestion, SearchHighlight } from '@/lib/search';
+import { Category, CategoryFacet, CategorySummary } from '@/lib/categories';
+import { Coordinates, DEFAULT_NEARBY_RADIUS_KM, NEARBY_RADIUS_OPTIONS, formatNearParam, hasCoordinates } from '@/lib/geo';
+import { can } from '@/lib/permissions';
 
+// Espera após a última tecla antes de buscar, para não consultar o backend a cada letra.
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface Event {
   id: string;
   name: string;
   description: string | null;
-  eventDate: string; 
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  format: EventFormat;
   location: string | null;
+  latitude: number | null;
+  longitude: number | null;
   onlineLink: string | null;
+  category: CategorySummary | null;
+  tags: string[];
   maxCapacity: number;
   availableSpots: number;
+  onlineCapacity: number;
+  onlineAvailableSpots: number;
+  status: EventStatus;
   creatorId: string;
   createdAt: string;
   updatedAt: string;
+  search?: SearchHighlight; // Presente apenas nos resultados de uma busca.
+  distanceKm?: number | null; // Presente apenas na busca por proximidade.
 }
 
 interface Reservation {
@@ -32,44 +58,168 @@ interface Reservation {
   eventId: string;
   userId: string;
   reservationDate: string;
-  status: 'CONFIRMED' | 'CANCELED';
+  status: ReservationStatus;
 }
 
+interface WaitlistEntry {
+  id: string;
+  eventId: string;
+  userId: string;
+  createdAt: string;
+  position: number;
+}
+
+// Também é a página de cada categoria (/categories/[slug]), que filtra a listagem pela categoria da URL.
 const HomePage: React.FC = () => {
+  const router = useRouter();
+  const params = useParams<{ slug?: string }>();
+  const categorySlug = params?.slug ? decodeURIComponent(params.slug) : undefined;
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const [events, setEvents] = useState<Event[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [categoryFacets, setCategoryFacets] = useState<CategoryFacet[]>([]);
+  const [category, setCategory] = useState<Category | null>(null);
+  const [categoryNotFound, setCategoryNotFound] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filterName, setFilterName] = useState('');
+  const [searchText, setSearchText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<EventSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [filterDate, setFilterDate] = useState('');
+  const [filterFormat, setFilterFormat] = useState<EventFormat | ''>('');
+  const [onlyUpcoming, setOnlyUpcoming] = useState(false);
+  const [onlyWithSpots, setOnlyWithSpots] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [nearPoint, setNearPoint] = useState<Coordinates | null>(null); // Posição de quem consulta, na busca "Perto de mim".
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_NEARBY_RADIUS_KM);
+  const [locating, setLocating] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  // Sem escolha explícita, buscas são ordenadas por relevância, buscas por proximidade por distância e a listagem, por data.
+  const [sort, setSort] = useState<EventSort | null>(null);
   const [myReservations, setMyReservations] = useState<Reservation[]>([]);
+  const [myWaitlist, setMyWaitlist] = useState<WaitlistEntry[]>([]);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Incrementada a cada nova busca, para descartar páginas que chegarem de uma busca anterior.
+  const queryVersionRef = useRef(0);
+
+  const defaultSort: EventSort = searchQuery ? 'relevance' : nearPoint ? 'distance' : 'startsAt';
+  const effectiveSort: EventSort = sort && (sort !== 'relevance' || searchQuery) && (sort !== 'distance' || nearPoint) ? sort : defaultSort;
+
+  const buildEventsUrl = useCallback((cursor?: string) => {
+    const queryParams = new URLSearchParams();
+    if (searchQuery) queryParams.append('q', searchQuery);
+    if (categorySlug) queryParams.append('category', categorySlug);
+    if (selectedTags.length > 0) queryParams.append('tags', selectedTags.join(','));
+    if (filterDate) {
+      // O dia do filtro é o do calendário de quem consulta.
+      queryParams.append('date', filterDate);
+      queryParams.append('timezone', getViewerTimeZone());
+    }
+    if (filterFormat) queryParams.append('format', filterFormat);
+    if (onlyUpcoming) queryParams.append('upcoming', 'true');
+    if (onlyWithSpots) queryParams.append('hasSpots', 'true');
+    if (nearPoint) {
+      queryParams.append('near', formatNearParam(nearPoint));
+      queryParams.append('radiusKm', String(radiusKm));
+    }
+    if (effectiveSort !== defaultSort) queryParams.append('sort', effectiveSort);
+    if (cursor) queryParams.append('cursor', cursor);
+
+    return `/events${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  }, [searchQuery, categorySlug, selectedTags, filterDate, filterFormat, onlyUpcoming, onlyWithSpots, nearPoint, radiusKm, effectiveSort, defaultSort]);
+
+  // Nome e descrição da categoria da URL.
+  useEffect(() => {
+    setCategory(null);
+    setCategoryNotFound(false);
+    if (!categorySlug) return;
+    apiFetch<{ category: Category }>(`/categories/${encodeURIComponent(categorySlug)}`, { method: 'GET' })
+      .then((data) => setCategory(data.category))
+      .catch(() => setCategoryNotFound(true));
+  }, [categorySlug]);
+
+  // A busca só é aplicada quando o usuário para de digitar.
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchText.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  // Sugestões da caixa de busca para o texto atual.
+  useEffect(() => {
+    if (!searchQuery) {
+      setSuggestions([]);
+      return;
+    }
+    let canceled = false;
+    apiFetch<{ suggestions: EventSuggestion[] }>(`/events/suggest?q=${encodeURIComponent(searchQuery)}`, { method: 'GET' })
+      .then((data) => {
+        if (!canceled) setSuggestions(data.suggestions);
+      })
+      .catch((err) => console.error('Falha ao carregar sugestões:', err));
+    return () => {
+      canceled = true;
+    };
+  }, [searchQuery]);
 
   const fetchEvents = useCallback(async () => {
+    const queryVersion = ++queryVersionRef.current;
     setLoading(true);
     setError(null);
     try {
-      const queryParams = new URLSearchParams();
-      if (filterName) queryParams.append('name', filterName);
-      if (filterDate) queryParams.append('date', filterDate);
-
-      const url = `/events${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-      const data = await apiFetch<{ events: Event[] }>(url, { method: 'GET' });
+      const data = await apiFetch<EventPage<Event>>(buildEventsUrl(), { method: 'GET' });
+      if (queryVersion !== queryVersionRef.current) return;
       setEvents(data.events);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+      setCategoryFacets(data.facets.categories);
     } catch (err: any) {
       setError(err.message || 'Falha ao carregar eventos.');
     } finally {
       setLoading(false);
     }
-  }, [filterName, filterDate]);
+  }, [buildEventsUrl]);
+
+  // Carrega a próxima página e a acrescenta à lista (rolagem infinita).
+  const fetchMoreEvents = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const queryVersion = queryVersionRef.current;
+    setLoadingMore(true);
+    try {
+      const data = await apiFetch<EventPage<Event>>(buildEventsUrl(nextCursor), { method: 'GET' });
+      if (queryVersion !== queryVersionRef.current) return;
+      setEvents((current) => [...current, ...data.events]);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao carregar mais eventos.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildEventsUrl, nextCursor, loadingMore]);
+
+  // Atualiza apenas um evento da lista (ex: vagas após uma reserva), sem perder as páginas já carregadas.
+  const refreshEvent = useCallback(async (eventId: string) => {
+    try {
+      const data = await apiFetch<{ event: Event }>(`/events/${eventId}`, { method: 'GET' });
+      setEvents((current) => current.map((event) => (event.id === eventId ? { ...event, ...data.event } : event)));
+    } catch (err: any) {
+      console.error('Falha ao atualizar evento:', err);
+    }
+  }, []);
 
   const fetchMyReservations = useCallback(async () => {
-    if (!isAuthenticated || user?.role !== 'USER') {
+    if (!isAuthenticated || !can(user?.role, 'reservation:create')) {
       setMyReservations([]);
+      setMyWaitlist([]);
       return;
     }
     try {
-      const data = await apiFetch<{ reservations: Reservation[] }>('/reservations/my-reservations', { method: 'GET' });
-      setMyReservations(data.reservations.filter(res => res.status === 'CONFIRMED'));
+      const data = await apiFetch<{ reservations: Reservation[]; waitlist: WaitlistEntry[] }>('/reservations/my-reservations', { method: 'GET' });
+      setMyReservations(data.reservations.filter(res => isActiveReservation(res.status)));
+      setMyWaitlist(data.waitlist);
     } catch (err: any) {
       console.error('Falha ao carregar minhas reservas:', err);
     }
@@ -79,6 +229,20 @@ const HomePage: React.FC = () => {
     fetchEvents();
   }, [fetchEvents]);
 
+  // Quando o fim da lista aparece na tela, carrega a próxima página.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        fetchMoreEvents();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, fetchMoreEvents]);
+
   useEffect(() => {
     if (!authLoading) {
       fetchMyReservations();
@@ -90,8 +254,8 @@ const HomePage: React.FC = () => {
       alert('Você precisa estar logado para reservar uma vaga.');
       return;
     }
-    if (user?.role !== 'USER') {
-      alert('Apenas usuários comuns podem fazer reservas.');
+    if (!can(user?.role, 'reservation:create')) {
+      alert('Você não tem permissão para fazer reservas.');
       return;
     }
 
@@ -100,42 +264,162 @@ const HomePage: React.FC = () => {
         method: 'POST',
       });
       alert(res.message);
-      fetchEvents();
+      refreshEvent(eventId);
       fetchMyReservations();
     } catch (err: any) {
       alert(err.message || 'Falha ao reservar vaga.');
     }
   };
 
+  const handleJoinWaitlist = async (eventId: string) => {
+    if (!isAuthenticated || !can(user?.role, 'reservation:create')) {
+      alert('Você não tem permissão para entrar na lista de espera.');
+      return;
+    }
+
+    try {
+      const res = await apiFetch<{ message: string }>(`/reservations/events/${eventId}/waitlist`, {
+        method: 'POST',
+      });
+      alert(res.message);
+      fetchMyReservations();
+    } catch (err: any) {
+      alert(err.message || 'Falha ao entrar na lista de espera.');
+    }
+  };
+
   const handleClearFilters = () => {
-    setFilterName('');
+    setSearchText('');
+    setSearchQuery('');
     setFilterDate('');
+    setFilterFormat('');
+    setOnlyUpcoming(false);
+    setOnlyWithSpots(false);
+    setSelectedTags([]);
+    setNearPoint(null);
+    setRadiusKm(DEFAULT_NEARBY_RADIUS_KM);
+    setSort(null);
+  };
+
+  // "Perto de mim": pede a localização ao navegador; um novo clique remove a busca por proximidade.
+  const handleNearMe = () => {
+    if (nearPoint) {
+      setNearPoint(null);
+      return;
+    }
+    if (!navigator.geolocation) {
+      alert('Seu navegador não permite obter a localização.');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setNearPoint({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        alert('Não foi possível obter a sua localização. Verifique a permissão de localização do navegador.');
+        setLocating(false);
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  const handleTagClick = (tag: string) => {
+    setSelectedTags((current) => (current.includes(tag) ? current : [...current, tag]));
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    setSelectedTags((current) => current.filter((selected) => selected !== tag));
+  };
+
+  // Aplica o texto digitado sem esperar o intervalo da digitação (ou repete a busca, se ele não mudou).
+  const handleSearch = () => {
+    setShowSuggestions(false);
+    if (searchText.trim() !== searchQuery) {
+      setSearchQuery(searchText.trim());
+    } else {
+      fetchEvents();
+    }
+  };
+
+  // Enter aplica a busca na hora; Esc fecha as sugestões.
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleSearch();
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
   };
 
   const isEventReservedByUser = (eventId: string): boolean => {
-    if (!isAuthenticated || user?.role !== 'USER') return false;
-    return myReservations.some(res => res.eventId === eventId && res.userId === user?.id && res.status === 'CONFIRMED');
+    if (!isAuthenticated || !can(user?.role, 'reservation:create')) return false;
+    return myReservations.some(res => res.eventId === eventId && res.userId === user?.id && isActiveReservation(res.status));
   };
 
+  const isEventWaitlistedByUser = (eventId: string): boolean => {
+    if (!isAuthenticated || !can(user?.role, 'reservation:create')) return false;
+    return myWaitlist.some(entry => entry.eventId === eventId);
+  };
+
+  // O mapa mostra os eventos carregados que ainda não terminaram e têm coordenadas.
+  const mapEvents = events.filter(hasCoordinates).filter((event) => !hasEventEnded(event));
+
   return (
     <div className="min-h-screen bg-background flex flex-col"> 
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-8">
-        <h1 className="text-3xl font-bold text-center text-foreground mb-8">Eventos Disponíveis</h1> 
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-foreground">
+            {category ? category.name : 'Eventos Disponíveis'}
+          </h1>
+          {category?.description && (
+            <p className="text-muted-foreground mt-2">{category.description}</p>
+          )}
+          {categoryNotFound && (
+            <p className="text-destructive mt-2">Categoria não encontrada.</p>
+          )}
+        </div>
 
         <div className="bg-card p-6 rounded-md mb-8 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"> 
-          <div>
-            <label htmlFor="filterName" className="block text-sm font-medium text-foreground mb-1"> 
-              Filtrar por Nome
+          <div className="relative">
+            <label htmlFor="search" className="block text-sm font-medium text-foreground mb-1">
+              Buscar
             </label>
             <Input
-              id="filterName"
-              type="text"
-              placeholder="Nome do evento..."
-              value={filterName}
-              onChange={(e) => setFilterName(e.target.value)}
+              id="search"
+              type="search"
+              placeholder="Nome, descrição ou local..."
+              value={searchText}
+              onChange={(e) => {
+                setSearchText(e.target.value);
+                setShowSuggestions(true);
+              }}
+              onKeyDown={handleSearchKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              // Atraso para que o clique em uma sugestão seja registrado antes de a lista fechar.
+              onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+              autoComplete="off"
               className="w-full rounded-md"
             />
+            {showSuggestions && searchText.trim() && suggestions.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full bg-card border border-border rounded-md shadow-md overflow-hidden">
+                {suggestions.map((suggestion) => (
+                  <li key={suggestion.id}>
+                    <button
+                      type="button"
+                      onClick={() => router.push(`/events/${suggestion.id}`)}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                    >
+                      <HighlightedText text={suggestion.highlight} className="block text-foreground" />
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(suggestion.startsAt).toLocaleDateString('pt-BR')}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <div>
             <label htmlFor="filterDate" className="block text-sm font-medium text-foreground mb-1"> 
@@ -149,8 +433,73 @@ const HomePage: React.FC = () => {
               className="w-full rounded-md"
             />
           </div>
+          <div>
+            <label htmlFor="filterFormat" className="block text-sm font-medium text-foreground mb-1">
+              Formato
+            </label>
+            <select
+              id="filterFormat"
+              value={filterFormat}
+              onChange={(e) => setFilterFormat(e.target.value as EventFormat | '')}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+            >
+              <option value="">Todos</option>
+              {(Object.keys(EVENT_FORMAT_LABELS) as EventFormat[]).map((format) => (
+                <option key={format} value={format}>{EVENT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="sort" className="block text-sm font-medium text-foreground mb-1">
+              Ordenar por
+            </label>
+            <select
+              id="sort"
+              value={effectiveSort}
+              onChange={(e) => setSort(e.target.value as EventSort)}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+            >
+              {(Object.keys(EVENT_SORT_LABELS) as EventSort[])
+                .filter((field) => (field !== 'relevance' || searchQuery) && (field !== 'distance' || nearPoint))
+                .map((field) => (
+                  <option key={field} value={field}>{EVENT_SORT_LABELS[field]}</option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="radiusKm" className="block text-sm font-medium text-foreground mb-1">
+              Proximidade
+            </label>
+            <div className="flex gap-2">
+              <Button onClick={handleNearMe} variant={nearPoint ? 'default' : 'outline'} disabled={locating} className="flex-grow">
+                <LocateFixedIcon className="mr-2 h-4 w-4" />
+                {locating ? 'Localizando...' : 'Perto de mim'}
+              </Button>
+              <select
+                id="radiusKm"
+                value={radiusKm}
+                onChange={(e) => setRadiusKm(Number(e.target.value))}
+                disabled={!nearPoint}
+                className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm disabled:opacity-50"
+              >
+                {NEARBY_RADIUS_OPTIONS.map((radius) => (
+                  <option key={radius} value={radius}>{radius} km</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-col gap-1 text-sm text-foreground">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={onlyUpcoming} onChange={(e) => setOnlyUpcoming(e.target.checked)} />
+              Apenas futuros
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={onlyWithSpots} onChange={(e) => setOnlyWithSpots(e.target.checked)} />
+              Apenas com vagas
+            </label>
+          </div>
           <div className="flex gap-2">
-            <Button onClick={fetchEvents} className="w-full md:w-auto">
+            <Button onClick={handleSearch} className="w-full md:w-auto">
               <SearchIcon className="mr-2 h-4 w-4" /> Buscar
             </Button>
             <Button onClick={handleClearFilters} variant="outline" className="w-full md:w-auto">
@@ -159,26 +508,79 @@ const HomePage: React.FC = () => {
           </div>
         </div>
 
-        {loading && (
-          <div className="text-center text-muted-foreground text-lg">Carregando eventos...</div> 
-        )}
-        {error && (
-          <div className="text-center text-destructive text-lg font-semibold">{error}</div>
-        )}
-        {!loading && !error && events.length === 0 && (
-          <div className="text-center text-muted-foreground text-lg">Nenhum evento encontrado.</div> 
-        )}
-
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {events.map((event) => (
-            <EventCard
-              key={event.id}
-              event={event}
-              onReserve={isAuthenticated && user?.role === 'USER' ? handleReserve : undefined}
-              userRole={user?.role}
-              isReserved={isEventReservedByUser(event.id)}
-            />
-          ))}
+        <div className="flex flex-col lg:flex-row gap-6">
+          <CategoryNav facets={categoryFacets} activeSlug={categorySlug} className="lg:w-56 shrink-0" />
+          <div className="flex-grow min-w-0">
+            {selectedTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                <span className="text-muted-foreground">Tags:</span>
+                {selectedTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => handleRemoveTag(tag)}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20"
+                    title="Remover filtro"
+                  >
+                    #{tag} <XCircleIcon className="h-3 w-3" />
+                  </button>
+                ))}
+              </div>
+            )}
+            {loading && (
+              <div className="text-center text-muted-foreground text-lg">Carregando eventos...</div> 
+            )}
+            {error && (
+              <div className="text-center text-destructive text-lg font-semibold">{error}</div>
+            )}
+            {!loading && !error && events.length === 0 && (
+              <div className="text-center text-muted-foreground text-lg">Nenhum evento encontrado.</div> 
+            )}
+            {!loading && events.length > 0 && (
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <p className="text-sm text-muted-foreground">
+                  Exibindo {events.length} de {total} evento(s).
+                </p>
+                <Button onClick={() => setShowMap(!showMap)} variant={showMap ? 'default' : 'outline'} size="sm">
+                  <MapIcon className="mr-2 h-4 w-4" /> {showMap ? 'Ocultar mapa' : 'Ver mapa'}
+                </Button>
+              </div>
+            )}
+
+            <div className={cn(showMap && events.length > 0 && "flex flex-col-reverse xl:flex-row gap-6")}>
+              <div className={cn("grid grid-cols-1 sm:grid-cols-2 gap-6", showMap && events.length > 0 ? "xl:w-3/5 self-start" : "xl:grid-cols-3")}>
+                {events.map((event) => (
+                  <EventCard
+                    key={event.id}
+                    event={event}
+                    onReserve={isAuthenticated && can(user?.role, 'reservation:create') ? handleReserve : undefined}
+                    onJoinWaitlist={isAuthenticated && can(user?.role, 'reservation:create') ? handleJoinWaitlist : undefined}
+                    userRole={user?.role}
+                    isReserved={isEventReservedByUser(event.id)}
+                    isWaitlisted={isEventWaitlistedByUser(event.id)}
+                    highlight={event.search}
+                    onTagClick={handleTagClick}
+                  />
+                ))}
+              </div>
+              {showMap && events.length > 0 && (
+                <div className="xl:w-2/5 xl:sticky xl:top-4 self-start w-full">
+                  <EventMap events={mapEvents} origin={nearPoint} />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {mapEvents.length > 0
+                      ? `${mapEvents.length} evento(s) futuro(s) no mapa. Eventos online ou sem endereço localizado não aparecem.`
+                      : 'Nenhum evento futuro com endereço localizado entre os exibidos.'}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Marca o fim da lista: ao aparecer na tela, a próxima página é carregada. */}
+            <div ref={loadMoreRef} className="h-1" />
+            {loadingMore && (
+              <div className="text-center text-muted-foreground mt-6">Carregando mais eventos...</div>
+            )}
+          </div>
         </div>
       </main>
     </div>
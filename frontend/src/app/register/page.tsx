@@ -10,7 +10,7 @@ import Header from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { apiFetch } from '@/lib/api';
-import { useAuth } from '@/components/AuthContext'; 
+import { User, useAuth } from '@/components/AuthContext'; 
 import { cn } from '@/lib/utils'; 
 
 
@@ -29,13 +29,13 @@ const RegisterPage: React.FC = () => {
 
     try {
       
-      const data = await apiFetch<{ message: string; token: string; user: { id: string; email: string; role: 'USER' | 'ADMIN' } }>('/users/register', {
+      const data = await apiFetch<{ message: string; token: string; refreshToken: string; user: User }>('/users/register', {
         method: 'POST',
         body: JSON.stringify({ email, password }),
       });
 
       
-      login(data.token, data.user);
+      login(data.token, data.refreshToken, data.user);
       alert(data.message);
       router.push('/'); 
     } catch (err: any) {
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiFetch } from '@/lib/api';
+
+// Nova senha com o link enviado por e-mail (/reset-password?token=...).
+const ResetPasswordPage: React.FC<{ searchParams: { token?: string } }> = ({ searchParams }) => {
+  const router = useRouter();
+  const token = searchParams.token;
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirmation) {
+      setError('As senhas não conferem.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await apiFetch<{ message: string }>('/users/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+      });
+      alert(data.message);
+      router.push('/login');
+    } catch (err: any) {
+      if (err.errors && Array.isArray(err.errors)) {
+        setError(err.errors.map((e: any) => e.message).join('; '));
+      } else {
+        setError(err.message || 'Falha ao redefinir a senha.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow flex items-center justify-center p-4">
+        <div className="bg-card p-8 rounded-md w-full max-w-md">
+          <h1 className="text-3xl font-bold text-center text-foreground mb-6">Nova senha</h1>
+          {!token ? (
+            <p className="text-center text-destructive">
+              Link de redefinição incompleto. Abra o link do e-mail novamente ou{' '}
+              <Link href="/forgot-password" className="text-primary hover:underline">peça um novo</Link>.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-foreground mb-1">
+                  Nova senha
+                </label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Mínimo de 6 caracteres"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={6}
+                  required
+                  className="w-full rounded-md"
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmation" className="block text-sm font-medium text-foreground mb-1">
+                  Confirme a nova senha
+                </label>
+                <Input
+                  id="confirmation"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  minLength={6}
+                  required
+                  className="w-full rounded-md"
+                />
+              </div>
+              {error && <p className="text-destructive text-sm text-center">{error}</p>}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Salvando...' : 'Redefinir senha'}
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                Por segurança, todas as sessões abertas serão encerradas.
+              </p>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
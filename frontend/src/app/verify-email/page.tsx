@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/components/AuthContext';
+
+// Confirmação do e-mail com o link enviado no cadastro (/verify-email?token=...).
+const VerifyEmailPage: React.FC<{ searchParams: { token?: string } }> = ({ searchParams }) => {
+  const token = searchParams.token;
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? 'Confirmando o seu e-mail...' : 'Link de confirmação incompleto.');
+  const submitted = useRef(false);
+
+  // O token vale uma única vez: a confirmação é enviada só uma vez, mesmo se o efeito rodar de novo.
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    apiFetch<{ message: string }>('/users/verify-email', { method: 'POST', body: JSON.stringify({ token }) })
+      .then((data) => {
+        setStatus('verified');
+        setMessage(data.message);
+      })
+      .catch((err: any) => {
+        setStatus('failed');
+        setMessage(err.message || 'Falha ao confirmar o e-mail.');
+      });
+  }, [token]);
+
+  // Atualiza o perfil em memória para liberar as reservas sem precisar entrar de novo.
+  useEffect(() => {
+    if (status === 'verified' && isAuthenticated) {
+      refreshUser().catch(() => undefined);
+    }
+  }, [status, isAuthenticated]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+      <main className="flex-grow flex items-center justify-center p-4">
+        <div className="bg-card p-8 rounded-md w-full max-w-md text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-6">Confirmação de e-mail</h1>
+          <p className={status === 'failed' ? 'text-destructive' : 'text-foreground'}>{message}</p>
+          {status === 'verified' && (
+            <Link href="/" className="inline-block mt-6 text-primary hover:underline font-medium">
+              Ver eventos
+            </Link>
+          )}
+          {status === 'failed' && (
+            <p className="mt-6 text-sm text-muted-foreground">
+              {isAuthenticated
+                ? 'Use o aviso no topo da página para receber um novo link.'
+                : <>Entre na sua conta para receber um novo link. <Link href="/login" className="text-primary hover:underline">Login</Link></>}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
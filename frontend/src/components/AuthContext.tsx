@@ -1,18 +1,30 @@
 // frontend/src/components/AuthContext.tsx
 // Este arquivo define o Contexto de Autenticação para a aplicação.
 // Ele gerencia o estado de login/logout do usuário e fornece o token JWT e informações do usuário.
+// Os tokens ficam nos cookies, e `apiFetch` renova o token de acesso sozinho; o contexto só encerra a sessão
+// quando o backend recusa a renovação.
 
 "use client"; // Marca este componente como um Componente Cliente (Client Component) no Next.js.
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import Cookies from 'js-cookie'; // Biblioteca para gerenciar cookies.
-import { apiFetch } from '@/lib/api'; // Função utilitária para requisições à API.
+import {
+  REFRESH_TOKEN_COOKIE,
+  SESSION_EXPIRED_EVENT,
+  TOKEN_COOKIE,
+  apiFetch,
+  clearSessionTokens,
+  storeSessionTokens,
+} from '@/lib/api'; // Funções utilitárias para requisições à API e para os tokens da sessão.
+import { Role } from '@/lib/permissions';
 
 // Define a interface para o objeto do usuário que será armazenado no contexto.
-interface User {
+export interface User {
   id: string;
   email: string;
-  role: 'USER' | 'ADMIN';
+  role: Role; // Define as permissões do usuário (lib/permissions.ts).
+  emailVerifiedAt: string | null; // Sem a confirmação do e-mail, o usuário não pode reservar.
+  twoFactorEnabled: boolean; // Verificação em duas etapas ativa (obrigatória para administradores).
 }
 
 // Define a interface para o estado do contexto de autenticação.
@@ -21,8 +33,9 @@ interface AuthContextType {
   token: string | null;      // O token JWT, ou null.
   isAuthenticated: boolean;  // Booleano indicando se o usuário está autenticado.
   isLoading: boolean;        // Booleano indicando se o estado de autenticação está sendo carregado.
-  login: (token: string, user: User) => void; // Função para realizar o login.
-  logout: () => void;        // Função para realizar o logout.
+  login: (token: string, refreshToken: string, user: User) => void; // Função para realizar o login.
+  logout: () => Promise<void>; // Função para realizar o logout (encerra a sessão também no backend).
+  refreshUser: () => Promise<void>; // Recarrega o perfil do usuário (ex: após confirmar o e-mail).
 }
 
 // Cria o Contexto de Autenticação com um valor padrão (que será substituído pelo provedor).
@@ -43,25 +56,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Efeito que roda uma vez ao montar o componente para verificar o token no cookie.
   useEffect(() => {
     const loadAuthStatus = async () => {
-      const storedToken = Cookies.get('token');
-      if (storedToken) {
+      if (Cookies.get(TOKEN_COOKIE) || Cookies.get(REFRESH_TOKEN_COOKIE)) {
         try {
-          // Tenta verificar o token chamando uma rota de perfil (se tiver uma)
-          // ou decodificando localmente (se for um token sem verificação de assinatura no frontend)
-          // Para simplicidade e segurança, vamos tentar buscar o perfil do usuário.
-          // Isso também valida o token no backend.
-          const res = await apiFetch<{ user: User }>('/users/me', {
-            method: 'GET',
-            token: storedToken, // Passa o token para a requisição
-          });
+          // Busca o perfil do usuário, o que também valida o token no backend.
+          // Se o token de acesso tiver expirado, `apiFetch` o renova com o refresh token antes.
+          const res = await apiFetch<{ user: User }>('/users/me', { method: 'GET' });
 
           setUser(res.user);
-          setToken(storedToken);
+          setToken(Cookies.get(TOKEN_COOKIE) || null);
           setIsAuthenticated(true);
         } catch (error) {
           console.error("Falha ao validar token:", error);
-          // Se o token for inválido, remova-o.
-          Cookies.remove('token');
+          // Se a sessão não puder ser recuperada, remove os tokens.
+          clearSessionTokens();
           setUser(null);
           setToken(null);
           setIsAuthenticated(false);
@@ -73,22 +80,44 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loadAuthStatus();
   }, []); // Array de dependências vazio significa que ele roda apenas uma vez ao montar.
 
+  // Sessão encerrada pelo backend (expirada, revogada em outro dispositivo ou token reutilizado):
+  // `apiFetch` já removeu os tokens, resta atualizar o estado.
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setToken(null);
+      setUser(null);
+      setIsAuthenticated(false);
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
   // Função para realizar o login.
-  const login = (newToken: string, newUser: User) => {
-    Cookies.set('token', newToken, {
-      expires: 7,
-      path: '/',
-      sameSite: 'Lax',
-      secure:false
-    }); 
+  const login = (newToken: string, newRefreshToken: string, newUser: User) => {
+    storeSessionTokens(newToken, newRefreshToken);
     setToken(newToken);
     setUser(newUser);
     setIsAuthenticated(true);
   };
 
+  // Função para recarregar o perfil do usuário logado.
+  const refreshUser = async () => {
+    const res = await apiFetch<{ user: User }>('/users/me', { method: 'GET' });
+    setUser(res.user);
+  };
+
   // Função para realizar o logout.
-  const logout = () => {
-    Cookies.remove('token'); // Remove o token do cookie.
+  const logout = async () => {
+    const refreshToken = Cookies.get(REFRESH_TOKEN_COOKIE);
+    if (refreshToken) {
+      try {
+        await apiFetch('/users/logout', { method: 'POST', body: JSON.stringify({ refreshToken }) });
+      } catch (error) {
+        // Mesmo sem resposta do backend, o logout local continua; a sessão expira sozinha.
+        console.error("Falha ao encerrar a sessão no backend:", error);
+      }
+    }
+    clearSessionTokens(); // Remove os tokens dos cookies.
     setToken(null);
     setUser(null);
     setIsAuthenticated(false);
@@ -102,6 +131,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading,
     login,
     logout,
+    refreshUser,
   };
 
   // Renderiza os filhos, fornecendo o valor do contexto.
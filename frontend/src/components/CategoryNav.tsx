@@ -0,0 +1,46 @@
+// frontend/src/components/CategoryNav.tsx
+
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { CategoryFacet, getCategoryUrl } from '@/lib/categories';
+
+interface CategoryNavProps {
+  facets: CategoryFacet[];
+  activeSlug?: string;
+  className?: string;
+}
+
+// Navegação por categorias com a quantidade de eventos futuros de cada uma: chips no celular, barra lateral em telas largas.
+// Cada categoria é um link para a sua página, que pode ser compartilhada.
+const CategoryNav: React.FC<CategoryNavProps> = ({ facets, activeSlug, className }) => {
+  const itemClass = (active: boolean) => cn(
+    "flex items-center justify-between gap-2 whitespace-nowrap rounded-full lg:rounded-md px-3 py-1.5 text-sm border lg:border-0",
+    active ? 'bg-primary text-primary-foreground border-primary' : 'text-foreground border-border hover:bg-muted'
+  );
+
+  return (
+    <nav aria-label="Categorias" className={className}>
+      <h2 className="hidden lg:block text-sm font-semibold text-muted-foreground mb-2">Categorias</h2>
+      <ul className="flex lg:flex-col gap-2 lg:gap-1 overflow-x-auto pb-2 lg:pb-0">
+        <li>
+          <Link href="/" className={itemClass(!activeSlug)}>
+            Todas
+          </Link>
+        </li>
+        {facets.map((facet) => (
+          <li key={facet.id}>
+            <Link href={getCategoryUrl(facet.slug)} className={itemClass(facet.slug === activeSlug)}>
+              <span>{facet.name}</span>
+              <span className="text-xs opacity-70">{facet.upcomingEvents}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
+
+export default CategoryNav;
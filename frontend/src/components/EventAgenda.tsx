@@ -0,0 +1,99 @@
+// frontend/src/components/EventAgenda.tsx
+
+"use client";
+
+import React from 'react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import { ClockIcon, MapPinIcon, LinkIcon, MicIcon, UsersIcon } from 'lucide-react';
+import { EventSession, groupSessionsByDay, formatSessionTimeRange, sessionsOverlap } from '@/lib/sessions';
+
+interface EventAgendaProps {
+  sessions: EventSession[];
+  // Fuso do evento, em que os horários das sessões são exibidos.
+  timeZone: string;
+  enrolledSessionIds?: string[];
+  // Quando informados, exibe os botões para montar a agenda pessoal.
+  onEnroll?: (sessionId: string) => void;
+  onLeave?: (sessionId: string) => void;
+  pendingSessionId?: string | null;
+}
+
+// Linha do tempo da agenda de um evento, agrupada por dia.
+const EventAgenda: React.FC<EventAgendaProps> = ({ sessions, timeZone, enrolledSessionIds = [], onEnroll, onLeave, pendingSessionId }) => {
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const enrolledSessions = sessions.filter((session) => enrolledSessionIds.includes(session.id));
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      {groupSessionsByDay(sessions, timeZone).map(({ day, sessions: daySessions }) => (
+        <div key={day}>
+          <h3 className="text-sm font-semibold uppercase text-muted-foreground mb-3">{day}</h3>
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {daySessions.map((session) => {
+              const isEnrolled = enrolledSessionIds.includes(session.id);
+              const isOver = new Date(session.endsAt) < now;
+              const isFull = session.availableSpots !== null && session.availableSpots <= 0;
+              const conflict = !isEnrolled
+                ? enrolledSessions.find((enrolled) => sessionsOverlap(enrolled, session))
+                : undefined;
+
+              return (
+                <li key={session.id} className="ml-4">
+                  <span className={cn(
+                    "absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background",
+                    isEnrolled ? 'bg-green-600' : 'bg-primary'
+                  )} />
+                  <div className={cn("rounded-md border p-4", isEnrolled ? 'border-green-600' : 'border-border')}>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <ClockIcon className="w-4 h-4" />
+                      <span>{formatSessionTimeRange(session, timeZone)}</span>
+                    </div>
+                    <h4 className="text-lg font-semibold text-foreground mt-1">{session.title}</h4>
+                    {session.description && <p className="text-sm text-muted-foreground mt-1">{session.description}</p>}
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm mt-2">
+                      {session.speakers.length > 0 && (
+                        <span className="flex items-center gap-1"><MicIcon className="w-4 h-4 text-primary" />{session.speakers.join(', ')}</span>
+                      )}
+                      {session.room && (
+                        <span className="flex items-center gap-1"><MapPinIcon className="w-4 h-4 text-primary" />{session.room}</span>
+                      )}
+                      {session.onlineLink && (
+                        <a href={session.onlineLink} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-500 hover:underline">
+                          <LinkIcon className="w-4 h-4" />Link da sessão
+                        </a>
+                      )}
+                      {session.maxCapacity !== null && (
+                        <span className="flex items-center gap-1"><UsersIcon className="w-4 h-4 text-primary" />{session.availableSpots} / {session.maxCapacity} vagas</span>
+                      )}
+                    </div>
+                    {onEnroll && onLeave && !isOver && (
+                      <div className="mt-3 flex items-center gap-3">
+                        {isEnrolled ? (
+                          <Button size="sm" variant="outline" disabled={pendingSessionId === session.id} onClick={() => onLeave(session.id)}>
+                            Sair da sessão
+                          </Button>
+                        ) : (
+                          <Button size="sm" disabled={isFull || !!conflict || pendingSessionId === session.id} onClick={() => onEnroll(session.id)}>
+                            {isFull ? 'Sessão lotada' : 'Adicionar à minha agenda'}
+                          </Button>
+                        )}
+                        {conflict && <span className="text-xs text-destructive">Conflita com &quot;{conflict.title}&quot;</span>}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EventAgenda;
@@ -6,18 +6,35 @@ import React from 'react';
 import Link from 'next/link';
 import { Button } from './ui/button';
 import { cn } from '@/lib/utils';
-import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon } from 'lucide-react'; 
+import { CalendarIcon, MapPinIcon, LinkIcon, UsersIcon, MonitorIcon } from 'lucide-react'; 
 import { useAuth } from '@/components/AuthContext'; 
+import { EventStatus, EVENT_STATUS_LABELS, hasEventEnded, isEventOngoing } from '@/lib/events';
+import EventDateTime from './EventDateTime';
+import HighlightedText from './HighlightedText';
+import { EventFormat, EVENT_FORMAT_LABELS, formatEventSpots } from '@/lib/attendance';
+import { SearchHighlight } from '@/lib/search';
+import { CategorySummary, getCategoryUrl } from '@/lib/categories';
+import { formatDistance } from '@/lib/geo';
+import { Role, can } from '@/lib/permissions';
 
 interface Event {
   id: string;
   name: string;
   description: string | null;
-  eventDate: string; 
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  format: EventFormat;
   location: string | null;
   onlineLink: string | null;
+  category?: CategorySummary | null;
+  tags?: string[];
+  distanceKm?: number | null; // Distância até quem consulta, na busca por proximidade.
   maxCapacity: number;
   availableSpots: number;
+  onlineCapacity: number;
+  onlineAvailableSpots: number;
+  status: EventStatus;
   creatorId: string;
   createdAt: string;
   updatedAt: string;
@@ -26,42 +43,49 @@ interface Event {
 interface EventCardProps {
   event: Event;
   onReserve?: (eventId: string) => void; 
-  userRole?: 'USER' | 'ADMIN' | null; 
+  onJoinWaitlist?: (eventId: string) => void; 
+  userRole?: Role | null; 
   isReserved?: boolean; 
+  isWaitlisted?: boolean; 
+  highlight?: SearchHighlight; // Termos encontrados, quando o evento vem de uma busca.
+  onTagClick?: (tag: string) => void; // Filtra a listagem pela tag clicada.
   className?: string; 
 }
 
-const EventCard: React.FC<EventCardProps> = ({ event, onReserve, userRole, isReserved, className }) => {
+const EventCard: React.FC<EventCardProps> = ({ event, onReserve, onJoinWaitlist, userRole, isReserved, isWaitlisted, highlight, onTagClick, className }) => {
   const { isAuthenticated } = useAuth(); 
 
-  const eventDateTime = new Date(event.eventDate);
-  const formattedDate = eventDateTime.toLocaleDateString('pt-BR', {
-    day: '2-digit',
-    month: '2-digit',
-    year: 'numeric',
-  });
-  const formattedTime = eventDateTime.toLocaleTimeString('pt-BR', {
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-
-  const isEventPast = eventDateTime < new Date();
+  // Eventos em andamento ainda aceitam reservas; só os que já terminaram são encerrados.
+  const isEventPast = hasEventEnded(event);
   const isSpotsAvailable = event.availableSpots > 0;
 
-  const canUserAttemptReserve = userRole === 'USER' && !isEventPast && onReserve !== undefined;
+  const canUserReserve = can(userRole, 'reservation:create');
+  const canUserAttemptReserve = canUserReserve && !isEventPast && onReserve !== undefined;
+  // Em eventos híbridos a modalidade é escolhida na página do evento.
+  const needsAttendanceMode = event.format === 'HYBRID';
 
   let buttonText = 'Reservar Vaga';
   let isButtonDisabled = false;
+  let handleClick = () => onReserve && onReserve(event.id);
 
-  if (isEventPast) {
-    buttonText = 'Evento Encerrado';
+  if (event.status === 'CANCELED') {
+    buttonText = 'Evento Cancelado';
     isButtonDisabled = true;
-  } else if (!isSpotsAvailable) {
-    buttonText = 'Vagas Esgotadas';
+  } else if (isEventPast || event.status === 'COMPLETED') {
+    buttonText = 'Evento Encerrado';
     isButtonDisabled = true;
   } else if (isReserved) {
     buttonText = 'Vaga Reservada';
     isButtonDisabled = true;
+  } else if (isWaitlisted) {
+    buttonText = 'Na Lista de Espera';
+    isButtonDisabled = true;
+  } else if (needsAttendanceMode) {
+    buttonText = isSpotsAvailable ? 'Escolher Modalidade' : 'Entrar na lista de espera';
+  } else if (!isSpotsAvailable) {
+    buttonText = 'Entrar na lista de espera';
+    isButtonDisabled = onJoinWaitlist === undefined;
+    handleClick = () => onJoinWaitlist && onJoinWaitlist(event.id);
   }
 
 
@@ -75,24 +99,57 @@ const EventCard: React.FC<EventCardProps> = ({ event, onReserve, userRole, isRes
       <div className="p-6 flex-grow">
         <h3 className="text-xl font-semibold mb-2">
           <Link href={`/events/${event.id}`} className="text-xl font-semibold text-foreground"> 
-            {event.name}
+            {highlight?.name ? <HighlightedText text={highlight.name} /> : event.name}
           </Link>
         </h3>
+        {event.category && (
+          <Link
+            href={getCategoryUrl(event.category.slug)}
+            className="inline-block text-xs font-medium px-2 py-0.5 rounded-full mb-2 mr-2 bg-primary/10 text-primary hover:underline"
+          >
+            {event.category.name}
+          </Link>
+        )}
+        {event.status !== 'PUBLISHED' && (
+          <span className={cn(
+            "inline-block text-xs font-medium px-2 py-0.5 rounded-full mb-2",
+            event.status === 'CANCELED' ? 'bg-destructive/10 text-destructive' : 'bg-muted text-muted-foreground'
+          )}>
+            {EVENT_STATUS_LABELS[event.status]}
+          </span>
+        )}
         {event.description && (
           <p className="text-muted-foreground text-sm mb-4 line-clamp-3">
-            {event.description}
+            {/* Na busca, mostra os trechos da descrição em que os termos aparecem. */}
+            {highlight?.snippet ? <HighlightedText text={highlight.snippet} /> : event.description}
           </p>
         )}
 
         <div className="space-y-2 text-sm text-foreground/80">
           <div className="flex items-center gap-2">
             <CalendarIcon className="w-4 h-4 text-primary" />
-            <span>{formattedDate} às {formattedTime}</span>
+            <EventDateTime event={event} />
           </div>
+          {isEventOngoing(event) && event.status === 'PUBLISHED' && (
+            <span className="inline-block text-xs font-medium px-2 py-0.5 rounded-full bg-green-600/10 text-green-600">
+              Acontecendo agora
+            </span>
+          )}
+          {event.format !== 'IN_PERSON' && (
+            <div className="flex items-center gap-2">
+              <MonitorIcon className="w-4 h-4 text-primary" />
+              <span>{EVENT_FORMAT_LABELS[event.format]}</span>
+            </div>
+          )}
           {event.location && (
             <div className="flex items-center gap-2">
               <MapPinIcon className="w-4 h-4 text-primary" />
-              <span>{event.location}</span>
+              <span>
+                {event.location}
+                {typeof event.distanceKm === 'number' && (
+                  <span className="text-muted-foreground"> · a {formatDistance(event.distanceKm)}</span>
+                )}
+              </span>
             </div>
           )}
           {event.onlineLink && (
@@ -110,20 +167,35 @@ const EventCard: React.FC<EventCardProps> = ({ event, onReserve, userRole, isRes
           )}
           <div className="flex items-center gap-2">
             <UsersIcon className="w-4 h-4 text-primary" /> 
-            <span>{event.availableSpots} / {event.maxCapacity} vagas disponíveis</span>
+            <span>{formatEventSpots(event)} vagas disponíveis</span>
           </div>
+          {event.tags && event.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {event.tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => onTagClick && onTagClick(tag)}
+                  disabled={!onTagClick}
+                  className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground enabled:hover:bg-muted/70"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
       <div className="p-6 border-t border-border mt-4 flex items-center justify-between">
-        {userRole === 'ADMIN' ? (
+        {isAuthenticated && canUserReserve && needsAttendanceMode && !isButtonDisabled ? (
           <Button asChild className="w-full sm:w-auto">
-            <Link href={`/admin/events`}> 
-              Gerenciar Evento
+            <Link href={`/events/${event.id}`}>
+              {buttonText}
             </Link>
           </Button>
-        ) : isAuthenticated && userRole === 'USER' ? (
+        ) : isAuthenticated && canUserReserve ? (
           <Button
-            onClick={() => onReserve && onReserve(event.id)}
+            onClick={handleClick}
             className="w-full sm:w-auto"
             disabled={isButtonDisabled}
           >
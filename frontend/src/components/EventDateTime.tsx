@@ -0,0 +1,30 @@
+// frontend/src/components/EventDateTime.tsx
+
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { EventSchedule, formatEventSchedule } from '@/lib/events';
+import { getViewerTimeZone, isSameWallTime } from '@/lib/timezone';
+
+interface EventDateTimeProps {
+  event: EventSchedule;
+  className?: string;
+}
+
+// Horário do evento no fuso do evento; quando o fuso de quem visualiza mostra outro horário, ele aparece logo abaixo.
+const EventDateTime: React.FC<EventDateTimeProps> = ({ event, className }) => {
+  const viewerTimeZone = getViewerTimeZone();
+  const showViewerTime = !isSameWallTime(event.startsAt, event.timezone, viewerTimeZone);
+
+  return (
+    <span className={cn("flex flex-col", className)}>
+      <span>{formatEventSchedule(event)}</span>
+      {showViewerTime && (
+        <span className="text-xs text-muted-foreground">Seu horário: {formatEventSchedule(event, viewerTimeZone)}</span>
+      )}
+    </span>
+  );
+};
+
+export default EventDateTime;
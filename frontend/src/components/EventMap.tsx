@@ -0,0 +1,119 @@
+// frontend/src/components/EventMap.tsx
+
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { MapPinIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Coordinates, TILE_SIZE, getMapViewport, getTileUrl, projectToPixels } from '@/lib/geo';
+
+interface MapEvent extends Coordinates {
+  id: string;
+  name: string;
+}
+
+interface EventMapProps {
+  events: MapEvent[];
+  origin?: Coordinates | null; // Posição de quem consulta, na busca por proximidade.
+  className?: string;
+}
+
+const MAP_HEIGHT = 420;
+
+// Mapa com um marcador por evento (link para a página do evento), enquadrado para mostrar todos os marcadores.
+const EventMap: React.FC<EventMapProps> = ({ events, origin, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // O enquadramento depende da largura disponível, que muda com a tela.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver((entries) => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const points: Coordinates[] = origin ? [...events, origin] : events;
+  const { zoom, center } = getMapViewport(points, width || 1, MAP_HEIGHT);
+  const left = center.x - width / 2;
+  const top = center.y - MAP_HEIGHT / 2;
+  const tileCount = 2 ** zoom;
+
+  // Partes do mapa que cobrem a área visível; na horizontal o mapa se repete (antimeridiano).
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (width > 0) {
+    for (let tileY = Math.max(0, Math.floor(top / TILE_SIZE)); tileY <= Math.min(tileCount - 1, Math.floor((top + MAP_HEIGHT) / TILE_SIZE)); tileY++) {
+      for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + width) / TILE_SIZE); tileX++) {
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${tileX}-${tileY}`,
+          url: getTileUrl(zoom, wrappedX, tileY),
+          x: tileX * TILE_SIZE - left,
+          y: tileY * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const toScreen = (point: Coordinates) => {
+    const pixel = projectToPixels(point, zoom);
+    return { x: pixel.x - left, y: pixel.y - top };
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("relative overflow-hidden rounded-lg border border-border bg-muted", className)}
+      style={{ height: MAP_HEIGHT }}
+    >
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          width={TILE_SIZE}
+          height={TILE_SIZE}
+          draggable={false}
+          className="absolute max-w-none select-none"
+          style={{ left: tile.x, top: tile.y }}
+        />
+      ))}
+
+      {width > 0 && origin && (
+        <span
+          className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-blue-600 shadow"
+          style={{ left: toScreen(origin).x, top: toScreen(origin).y }}
+          title="Você está aqui"
+        />
+      )}
+
+      {width > 0 && events.map((event) => {
+        const position = toScreen(event);
+        return (
+          <Link
+            key={event.id}
+            href={`/events/${event.id}`}
+            className="group absolute -translate-x-1/2 -translate-y-full"
+            style={{ left: position.x, top: position.y }}
+            title={event.name}
+          >
+            <MapPinIcon className="h-7 w-7 fill-primary text-primary-foreground drop-shadow" />
+            <span className="pointer-events-none absolute bottom-full left-1/2 mb-1 hidden -translate-x-1/2 whitespace-nowrap rounded bg-card px-2 py-0.5 text-xs text-foreground shadow group-hover:block">
+              {event.name}
+            </span>
+          </Link>
+        );
+      })}
+
+      {/* A licença dos dados do OpenStreetMap exige a atribuição. */}
+      <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-700">
+        © <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer" className="hover:underline">OpenStreetMap</a>
+      </span>
+    </div>
+  );
+};
+
+export default EventMap;
@@ -1,10 +1,12 @@
 "use client"; 
 
-import React from 'react';
+import React, { useState } from 'react';
 import Link from 'next/link'; 
 import { useAuth } from '@/components/AuthContext'; 
 import { Button } from './ui/button'; 
 import { cn } from '@/lib/utils'; 
+import { apiFetch } from '@/lib/api';
+import { can, ROLE_LABELS } from '@/lib/permissions';
 
 interface HeaderProps {
   className?: string;
@@ -12,8 +14,23 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ className }) => {
   const { isAuthenticated, user, logout } = useAuth(); 
+  const [isResending, setIsResending] = useState(false);
+
+  // Reenvia o link de confirmação do e-mail (ex: o anterior expirou ou não chegou).
+  const handleResendVerification = async () => {
+    setIsResending(true);
+    try {
+      const res = await apiFetch<{ message: string }>('/users/verify-email/resend', { method: 'POST' });
+      alert(res.message);
+    } catch (err: any) {
+      alert(err.message || 'Falha ao reenviar o e-mail de confirmação.');
+    } finally {
+      setIsResending(false);
+    }
+  };
 
   return (
+    <>
     <header className={cn(
       "bg-primary text-primary-foreground p-4 shadow-md", 
       "flex flex-col sm:flex-row justify-between items-center gap-4",
@@ -29,20 +46,51 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
         <Link href="/" className="hover:text-white transition-colors duration-200"> 
           Eventos
         </Link>
-        {isAuthenticated && user?.role === 'USER' && (
-          <Link href="/my-reservations" className="hover:text-white transition-colors duration-200"> 
+        {/* Cada item aparece para os papéis com a permissão correspondente (lib/permissions.ts). */}
+        {isAuthenticated && can(user?.role, 'reservation:create') && (
+          <Link href="/my-reservations" className="hover:text-white transition-colors duration-200">
             Minhas Reservas
           </Link>
         )}
-        {isAuthenticated && user?.role === 'ADMIN' && (
-          <>
-            <Link href="/admin/events" className="hover:text-white transition-colors duration-200"> 
-              Gerenciar Eventos
-            </Link>
-            <Link href="/admin/reservations" className="hover:text-white transition-colors duration-200"> 
-              Ver Reservas
-            </Link>
-          </>
+        {isAuthenticated && (
+          <Link href="/co-organizing" className="hover:text-white transition-colors duration-200">
+            Coorganização
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'event:create') && (
+          <Link href="/admin/events" className="hover:text-white transition-colors duration-200">
+            Gerenciar Eventos
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'venue:manage') && (
+          <Link href="/admin/venues" className="hover:text-white transition-colors duration-200">
+            Locais
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'category:manage') && (
+          <Link href="/admin/categories" className="hover:text-white transition-colors duration-200">
+            Categorias
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'reservation:read') && (
+          <Link href="/admin/reservations" className="hover:text-white transition-colors duration-200">
+            Ver Reservas
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'event:check-in') && (
+          <Link href="/admin/check-in" className="hover:text-white transition-colors duration-200">
+            Check-in
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'event:delete') && (
+          <Link href="/admin/trash" className="hover:text-white transition-colors duration-200">
+            Lixeira
+          </Link>
+        )}
+        {isAuthenticated && can(user?.role, 'user:read') && (
+          <Link href="/admin/locked-accounts" className="hover:text-white transition-colors duration-200">
+            Bloqueios
+          </Link>
         )}
         <div className="border-l border-primary-foreground/50 h-6 mx-2 hidden sm:block"></div> 
         {!isAuthenticated ? (
@@ -56,7 +104,13 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
           </>
         ) : (
           <div className="flex items-center gap-2">
-            <span className="text-sm text-primary-foreground">Olá, {user?.email} ({user?.role})</span> 
+            <span className="text-sm text-primary-foreground">Olá, {user?.email} ({user && ROLE_LABELS[user.role]})</span> 
+            <Link href="/account/sessions" className="text-sm hover:text-white transition-colors duration-200">
+              Sessões
+            </Link>
+            <Link href="/account/security" className="text-sm hover:text-white transition-colors duration-200">
+              Segurança
+            </Link>
             <Button
               onClick={logout}
               variant="outline"
@@ -68,6 +122,15 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
         )}
       </nav>
     </header>
+    {isAuthenticated && user && !user.emailVerifiedAt && (
+      <div className="bg-yellow-100 text-yellow-900 text-sm px-4 py-2 flex flex-wrap justify-center items-center gap-2">
+        <span>Confirme o seu e-mail ({user.email}) para poder reservar vagas nos eventos.</span>
+        <button onClick={handleResendVerification} disabled={isResending} className="font-medium underline disabled:opacity-50">
+          {isResending ? 'Enviando...' : 'Reenviar e-mail de confirmação'}
+        </button>
+      </div>
+    )}
+    </>
   );
 };
 
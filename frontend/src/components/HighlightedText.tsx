@@ -0,0 +1,26 @@
+// frontend/src/components/HighlightedText.tsx
+
+"use client";
+
+import React from 'react';
+import { splitHighlight } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Texto devolvido pela busca, com os termos encontrados destacados.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => {
+  return (
+    <span className={className}>
+      {splitHighlight(text).map((part, index) => (
+        part.highlighted
+          ? <mark key={index} className="bg-yellow-200/70 text-inherit rounded-sm px-0.5">{part.text}</mark>
+          : <React.Fragment key={index}>{part.text}</React.Fragment>
+      ))}
+    </span>
+  );
+};
+
+export default HighlightedText;
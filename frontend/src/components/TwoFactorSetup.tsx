@@ -0,0 +1,63 @@
+"use client";
+
+import React from 'react';
+import { Button } from './ui/button';
+
+// Resposta do backend ao iniciar a ativação da verificação em duas etapas.
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeSvg: string;
+}
+
+interface TotpEnrollmentPanelProps {
+  enrollment: TotpEnrollment;
+}
+
+// QR code para o aplicativo autenticador, com o segredo para digitação manual.
+export const TotpEnrollmentPanel: React.FC<TotpEnrollmentPanelProps> = ({ enrollment }) => (
+  <div className="flex flex-col items-center gap-3">
+    <p className="text-sm text-muted-foreground text-center">
+      Leia o QR code com um aplicativo autenticador (Google Authenticator, Authy, 1Password...) e informe o código de 6 dígitos gerado.
+    </p>
+    <div className="w-48 h-48 bg-white p-2 rounded-md" dangerouslySetInnerHTML={{ __html: enrollment.qrCodeSvg }} />
+    <p className="text-xs text-muted-foreground text-center">
+      Sem câmera? Digite a chave: <span className="font-mono break-all text-foreground">{enrollment.secret}</span>
+    </p>
+  </div>
+);
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone?: () => void;
+}
+
+// Códigos de recuperação recém-gerados: exibidos uma única vez.
+export const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes, onDone }) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      alert('Códigos copiados.');
+    } catch {
+      alert('Não foi possível copiar. Anote os códigos manualmente.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-foreground">
+        Guarde estes códigos de recuperação em um lugar seguro. Cada um permite entrar uma única vez sem o aplicativo
+        autenticador, e eles não serão exibidos novamente.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded-md p-4">
+        {codes.map((code) => (
+          <li key={code} className="text-center">{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="outline" onClick={handleCopy}>Copiar</Button>
+        {onDone && <Button type="button" onClick={onDone}>Já guardei os códigos</Button>}
+      </div>
+    </div>
+  );
+};
@@ -7,14 +7,111 @@ import Cookies from 'js-cookie'; // Importa a biblioteca js-cookie para gerencia
 // `NEXT_PUBLIC_API_URL` é definida em `next.config.js` e `.env.local`.
 const API_URL = process.env.NEXT_PUBLIC_API_URL;
 
+// Cookies da sessão: o token de acesso (JWT) vale poucos minutos e é renovado com o refresh token,
+// que o backend troca a cada renovação.
+export const TOKEN_COOKIE = 'token';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+// Validade dos cookies, igual à das sessões no backend (REFRESH_TOKEN_TTL_DAYS).
+const SESSION_COOKIE_DAYS = 30;
+
+// O token de acesso é renovado antes da requisição quando faltar menos que isto para ele expirar.
+const TOKEN_REFRESH_MARGIN_MS = 30 * 1000;
+
+// Evento disparado na janela quando a sessão termina sem ação do usuário (refresh token recusado pelo backend).
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// Rotas de autenticação, que não passam pela renovação automática.
+const AUTH_ENDPOINTS = ['/users/login', '/users/register', '/users/refresh', '/users/logout'];
+
 interface RequestOptions extends RequestInit {
   // Define uma interface para as opções de requisição, estendendo as opções padrão do Fetch API.
   // Permite adicionar um token JWT manualmente, se necessário.
   token?: string;
 }
 
+/**
+ * Guarda os tokens da sessão nos cookies (login, cadastro e renovação).
+ */
+export function storeSessionTokens(token: string, refreshToken: string) {
+  const cookieOptions = { expires: SESSION_COOKIE_DAYS, path: '/', sameSite: 'Lax' as const, secure: false };
+  Cookies.set(TOKEN_COOKIE, token, cookieOptions);
+  Cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, cookieOptions);
+}
+
+/**
+ * Remove os tokens da sessão dos cookies.
+ */
+export function clearSessionTokens() {
+  Cookies.remove(TOKEN_COOKIE, { path: '/' });
+  Cookies.remove(REFRESH_TOKEN_COOKIE, { path: '/' });
+}
+
+// Momento em que o token de acesso expira, lido do próprio JWT (sem verificar a assinatura).
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Renovação em andamento, compartilhada pelas requisições que precisam dela ao mesmo tempo
+// (o refresh token só pode ser usado uma vez).
+let pendingRefresh: Promise<string | null> | null = null;
+
+async function requestRefresh(): Promise<string | null> {
+  const refreshToken = Cookies.get(REFRESH_TOKEN_COOKIE);
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${API_URL}/users/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (response.ok) {
+      const data = await response.json();
+      storeSessionTokens(data.token, data.refreshToken);
+      return data.token;
+    }
+
+    // Outra aba pode ter renovado a sessão ao mesmo tempo: nesse caso os cookies já têm os novos tokens.
+    if (Cookies.get(REFRESH_TOKEN_COOKIE) !== refreshToken) {
+      return Cookies.get(TOKEN_COOKIE) || null;
+    }
+    if (response.status === 401) {
+      clearSessionTokens();
+      window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    }
+    return null;
+  } catch (error) {
+    // Falha de rede: mantém os tokens para tentar novamente na próxima requisição.
+    console.error('Falha ao renovar a sessão:', error);
+    return null;
+  }
+}
+
+/**
+ * Renova o token de acesso com o refresh token guardado.
+ * @returns O novo token de acesso, ou null se a sessão não puder ser renovada.
+ */
+export function refreshSession(): Promise<string | null> {
+  if (!pendingRefresh) {
+    pendingRefresh = requestRefresh().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
 /**
  * Função utilitária para fazer requisições à API.
+ * Com a sessão dos cookies, o token de acesso é renovado automaticamente quando expira (antes da requisição ou
+ * após uma resposta 401, repetindo a requisição uma vez).
  * @param endpoint O caminho da API (ex: '/users/login', '/events').
  * @param options Opções da requisição (método, headers, body, etc.).
  * @returns A resposta JSON da API.
@@ -25,36 +122,60 @@ export async function apiFetch<T>(endpoint: string, options?: RequestOptions): P
   const url = `${API_URL}${endpoint}`;
   console.log(`Requisição para: ${url}`, options);
 
-  // Obtém o token JWT do cookie, se existir.
-  const token = options?.token || Cookies.get('token');
+  // A renovação automática vale apenas para o token dos cookies, fora das rotas de autenticação.
+  const usesSessionToken = !options?.token && !AUTH_ENDPOINTS.includes(endpoint);
 
-  // Define os cabeçalhos padrão da requisição, garantindo que seja um Record<string, string>.
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json', // Por padrão, o corpo será JSON.
-    // Converte HeadersInit de options?.headers para Record<string, string> se existir.
-    ...(options?.headers ? Object.fromEntries(new Headers(options.headers).entries()) : {}),
-  };
+  // Obtém o token JWT do cookie, se existir.
+  let token = options?.token || Cookies.get(TOKEN_COOKIE);
 
-  // Se um token estiver disponível, adiciona-o ao cabeçalho de autorização.
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
+  // Renova antes de enviar se o token expirou ou está para expirar: rotas públicas tratam um token expirado como
+  // visitante, sem responder 401.
+  if (usesSessionToken && Cookies.get(REFRESH_TOKEN_COOKIE)) {
+    const expiresAt = token ? getTokenExpiry(token) : 0;
+    if (expiresAt !== null && expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      token = (await refreshSession()) || undefined;
+    }
   }
 
-  // Configura as opções da requisição Fetch API.
-  const config: RequestInit = {
-    method: options?.method || 'GET', // Método HTTP padrão é GET.
-    headers, // Agora TypeScript entende 'headers' como Record<string, string>
-    body: options?.body,              // O corpo da requisição (já deve ser stringified se for JSON).
-    ...options,                       // Mescla com quaisquer outras opções fornecidas.
-  };
+  // Monta as opções da requisição Fetch API com o token informado.
+  const buildConfig = (accessToken: string | undefined): RequestInit => {
+    // Define os cabeçalhos padrão da requisição, garantindo que seja um Record<string, string>.
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json', // Por padrão, o corpo será JSON.
+      // Converte HeadersInit de options?.headers para Record<string, string> se existir.
+      ...(options?.headers ? Object.fromEntries(new Headers(options.headers).entries()) : {}),
+    };
+
+    // Se um token estiver disponível, adiciona-o ao cabeçalho de autorização.
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
 
-  // Remove a propriedade `token` de `config` para evitar que ela seja passada para o Fetch API.
-  // @ts-ignore
-  delete config.token;
+    // Configura as opções da requisição Fetch API.
+    const config: RequestInit = {
+      method: options?.method || 'GET', // Método HTTP padrão é GET.
+      headers, // Agora TypeScript entende 'headers' como Record<string, string>
+      body: options?.body,              // O corpo da requisição (já deve ser stringified se for JSON).
+      ...options,                       // Mescla com quaisquer outras opções fornecidas.
+    };
+
+    // Remove a propriedade `token` de `config` para evitar que ela seja passada para o Fetch API.
+    // @ts-ignore
+    delete config.token;
+    return config;
+  };
 
   try {
     // Faz a requisição HTTP.
-    const response = await fetch(url, config);
+    let response = await fetch(url, buildConfig(token));
+
+    // Token recusado (expirado ou de uma sessão encerrada): renova e repete a requisição uma vez.
+    if (response.status === 401 && usesSessionToken && Cookies.get(REFRESH_TOKEN_COOKIE)) {
+      const refreshedToken = await refreshSession();
+      if (refreshedToken) {
+        response = await fetch(url, buildConfig(refreshedToken));
+      }
+    }
 
     // Tenta parsear a resposta como JSON.
     let data: any;
@@ -70,8 +191,10 @@ export async function apiFetch<T>(endpoint: string, options?: RequestOptions): P
     }
 
     // Se a resposta não for bem-sucedida (status 4xx ou 5xx), lança um erro com a mensagem da API.
+    // Os demais campos da resposta (ex: `errors` de validação, `conflicts` de salas) acompanham o erro.
     if (!response.ok) {
-      throw new Error(data.message || 'Ocorreu um erro na requisição.');
+      const apiError = new Error(data.message || 'Ocorreu um erro na requisição.');
+      throw Object.assign(apiError, { ...data, message: apiError.message });
     }
 
     // Retorna os dados da resposta.
@@ -0,0 +1,64 @@
+// frontend/src/lib/attendance.ts
+// Formatos de evento (presencial, online, híbrido) e modalidades de participação das reservas.
+// Espelha backend/src/services/attendance.ts: `maxCapacity`/`availableSpots` são totais e
+// `onlineCapacity`/`onlineAvailableSpots` são a parte online deles.
+
+export type EventFormat = 'IN_PERSON' | 'ONLINE' | 'HYBRID';
+export type AttendanceMode = 'IN_PERSON' | 'ONLINE';
+
+export const EVENT_FORMAT_LABELS: Record<EventFormat, string> = {
+  IN_PERSON: 'Presencial',
+  ONLINE: 'Online',
+  HYBRID: 'Híbrido',
+};
+
+export const ATTENDANCE_MODE_LABELS: Record<AttendanceMode, string> = {
+  IN_PERSON: 'Presencial',
+  ONLINE: 'Online',
+};
+
+// Capacidades de um evento, por modalidade.
+export interface EventCapacity {
+  format: EventFormat;
+  maxCapacity: number;
+  availableSpots: number;
+  onlineCapacity: number;
+  onlineAvailableSpots: number;
+}
+
+/**
+ * Modalidades oferecidas por um formato de evento; só eventos híbridos oferecem a escolha.
+ */
+export function getAttendanceModes(format: EventFormat): AttendanceMode[] {
+  if (format === 'HYBRID') return ['IN_PERSON', 'ONLINE'];
+  return [format];
+}
+
+/**
+ * Capacidade e vagas disponíveis de um evento na modalidade informada.
+ */
+export function getModeCapacity(event: EventCapacity, mode: AttendanceMode): { capacity: number; availableSpots: number } {
+  if (mode === 'ONLINE') {
+    return { capacity: event.onlineCapacity, availableSpots: event.onlineAvailableSpots };
+  }
+  return {
+    capacity: event.maxCapacity - event.onlineCapacity,
+    availableSpots: event.availableSpots - event.onlineAvailableSpots,
+  };
+}
+
+/**
+ * Resume as vagas do evento: o total, ou cada modalidade em eventos híbridos
+ * (ex: "Presencial: 10 / 50 · Online: 80 / 100").
+ */
+export function formatEventSpots(event: EventCapacity): string {
+  if (event.format !== 'HYBRID') {
+    return `${event.availableSpots} / ${event.maxCapacity}`;
+  }
+  return getAttendanceModes(event.format)
+    .map((mode) => {
+      const { capacity, availableSpots } = getModeCapacity(event, mode);
+      return `${ATTENDANCE_MODE_LABELS[mode]}: ${availableSpots} / ${capacity}`;
+    })
+    .join(' · ');
+}
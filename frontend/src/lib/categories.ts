@@ -0,0 +1,34 @@
+// frontend/src/lib/categories.ts
+// Categorias (cadastradas pelos administradores) e tags livres dos eventos.
+// Cada categoria tem uma página pública em /categories/<slug>.
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+}
+
+// Categoria resumida, como vem em cada evento da listagem.
+export type CategorySummary = Pick<Category, 'id' | 'name' | 'slug'>;
+
+// Quantidade de eventos futuros de uma categoria no filtro atual (campo `facets` de GET /events).
+export interface CategoryFacet extends CategorySummary {
+  upcomingEvents: number;
+}
+
+/**
+ * URL pública da página de uma categoria.
+ */
+export function getCategoryUrl(slug: string): string {
+  return `/categories/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Converte o texto digitado no formulário ("react, Frontend , react") nas tags do evento,
+ * normalizadas como no backend: minúsculas e sem duplicatas.
+ */
+export function parseTagInput(text: string): string[] {
+  const tags = text.split(',').map((tag) => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter((tag) => tag.length > 0);
+  return Array.from(new Set(tags));
+}
@@ -0,0 +1,53 @@
+// frontend/src/lib/coOrganizers.ts
+// Coorganizadores de eventos: usuários convidados pelo organizador, com parte das permissões delegadas apenas naquele
+// evento (GET /events/:id/co-organizers e GET /events/co-organizing).
+
+import { EventStatus } from './events';
+
+export type CoOrganizerPermission = 'EDIT_DETAILS' | 'VIEW_ATTENDEES' | 'CHECK_IN' | 'MESSAGE_ATTENDEES';
+
+export type CoOrganizerStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED';
+
+export const CO_ORGANIZER_PERMISSION_LABELS: Record<CoOrganizerPermission, string> = {
+  EDIT_DETAILS: 'Editar dados e agenda',
+  VIEW_ATTENDEES: 'Ver participantes',
+  CHECK_IN: 'Fazer check-in',
+  MESSAGE_ATTENDEES: 'Enviar mensagens',
+};
+
+export const CO_ORGANIZER_STATUS_LABELS: Record<CoOrganizerStatus, string> = {
+  PENDING: 'Convite pendente',
+  ACCEPTED: 'Aceito',
+  DECLINED: 'Recusado',
+};
+
+export const CO_ORGANIZER_PERMISSIONS = Object.keys(CO_ORGANIZER_PERMISSION_LABELS) as CoOrganizerPermission[];
+
+// Coorganizador de um evento, como visto pelo organizador.
+export interface CoOrganizer {
+  id: string;
+  permissions: CoOrganizerPermission[];
+  status: CoOrganizerStatus;
+  createdAt: string;
+  respondedAt: string | null;
+  user: { id: string; email: string };
+  invitedBy: { id: string; email: string } | null;
+}
+
+// Convite (ou coorganização aceita) do próprio usuário.
+export interface CoOrganization {
+  id: string;
+  permissions: CoOrganizerPermission[];
+  status: CoOrganizerStatus;
+  createdAt: string;
+  respondedAt: string | null;
+  event: { id: string; name: string; status: EventStatus; startsAt: string; endsAt: string; timezone: string };
+  invitedBy: { id: string; email: string } | null;
+}
+
+/**
+ * Lista legível das permissões delegadas.
+ */
+export function formatCoOrganizerPermissions(permissions: CoOrganizerPermission[]): string {
+  return permissions.map((permission) => CO_ORGANIZER_PERMISSION_LABELS[permission]).join(', ');
+}
@@ -0,0 +1,157 @@
+// frontend/src/lib/events.ts
+// Tipos e utilitários compartilhados para o ciclo de vida dos eventos.
+
+import { getTimeZoneName, zonedInputToISO } from './timezone';
+import { CategoryFacet } from './categories';
+
+// Status possíveis de um evento (espelha o enum EventStatus do backend).
+export type EventStatus = 'DRAFT' | 'PUBLISHED' | 'CANCELED' | 'COMPLETED' | 'ARCHIVED';
+
+// Rótulos exibidos para cada status.
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  DRAFT: 'Rascunho',
+  PUBLISHED: 'Publicado',
+  CANCELED: 'Cancelado',
+  COMPLETED: 'Concluído',
+  ARCHIVED: 'Arquivado',
+};
+
+// Ações de status disponíveis para administradores em cada status (espelha as transições do backend).
+export const EVENT_STATUS_ACTIONS: Record<EventStatus, { status: EventStatus; label: string }[]> = {
+  DRAFT: [
+    { status: 'PUBLISHED', label: 'Publicar' },
+    { status: 'CANCELED', label: 'Cancelar' },
+  ],
+  PUBLISHED: [
+    { status: 'DRAFT', label: 'Despublicar' },
+    { status: 'COMPLETED', label: 'Concluir' },
+    { status: 'CANCELED', label: 'Cancelar' },
+  ],
+  CANCELED: [{ status: 'ARCHIVED', label: 'Arquivar' }],
+  COMPLETED: [{ status: 'ARCHIVED', label: 'Arquivar' }],
+  ARCHIVED: [],
+};
+
+// Página da listagem de eventos (GET /events): `nextCursor` é null na última página.
+// `facets` traz a quantidade de eventos futuros por categoria, considerando os demais filtros.
+export interface EventPage<T> {
+  events: T[];
+  nextCursor: string | null;
+  total: number;
+  facets: { categories: CategoryFacet[] };
+}
+
+// Ordenações aceitas pela listagem de eventos; a relevância só vale para buscas textuais (`q`)
+// e a distância para buscas por proximidade (`near`).
+export type EventSortField = 'startsAt' | 'name' | 'availableSpots' | 'createdAt';
+export type EventSort = EventSortField | 'relevance' | 'distance';
+
+export const EVENT_SORT_LABELS: Record<EventSort, string> = {
+  relevance: 'Relevância',
+  distance: 'Distância',
+  startsAt: 'Data',
+  name: 'Nome',
+  availableSpots: 'Vagas disponíveis',
+  createdAt: 'Mais recentes',
+};
+
+// Horário de um evento: instantes em UTC e o fuso IANA em que o evento acontece.
+export interface EventSchedule {
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+}
+
+/**
+ * Formata o intervalo do evento no fuso informado (por padrão, o do próprio evento),
+ * ex: "10/07/2025, 19:00 – 21:00 (BRT)". Eventos de vários dias mostram a data de término.
+ */
+export function formatEventSchedule(event: EventSchedule, timeZone: string = event.timezone): string {
+  const start = new Date(event.startsAt);
+  const end = new Date(event.endsAt);
+  const formatDay = (date: Date) => date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone });
+  const formatTime = (date: Date) => date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', timeZone });
+
+  const range = formatDay(start) === formatDay(end)
+    ? `${formatDay(start)}, ${formatTime(start)} – ${formatTime(end)}`
+    : `${formatDay(start)} ${formatTime(start)} – ${formatDay(end)} ${formatTime(end)}`;
+  return `${range} (${getTimeZoneName(start, timeZone)})`;
+}
+
+/**
+ * Indica se o evento já terminou.
+ */
+export function hasEventEnded(event: Pick<EventSchedule, 'endsAt'>): boolean {
+  return new Date(event.endsAt) < new Date();
+}
+
+/**
+ * Indica se o evento está acontecendo agora (já começou e ainda não terminou).
+ */
+export function isEventOngoing(event: Pick<EventSchedule, 'startsAt' | 'endsAt'>): boolean {
+  const now = new Date();
+  return new Date(event.startsAt) <= now && now < new Date(event.endsAt);
+}
+
+/**
+ * Indica se o evento aceita reservas (apenas eventos publicados).
+ * @param status O status do evento.
+ */
+export function isEventOpen(status: EventStatus): boolean {
+  return status === 'PUBLISHED';
+}
+
+// Alcance de uma edição em ocorrência de série recorrente (espelha o `scope` de PUT /events/:id).
+export type SeriesEditScope = 'THIS' | 'FOLLOWING' | 'ALL';
+
+export const SERIES_EDIT_SCOPE_LABELS: Record<SeriesEditScope, string> = {
+  THIS: 'Apenas esta ocorrência',
+  FOLLOWING: 'Esta e as seguintes',
+  ALL: 'Todas as ocorrências',
+};
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Diariamente',
+  WEEKLY: 'Semanalmente',
+  MONTHLY: 'Mensalmente',
+};
+
+// Dias da semana no formato da RRULE; o índice corresponde a Date.getDay() (domingo = 0).
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export const WEEKDAY_SHORT_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export interface RecurrenceOptions {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[]; // Dias da semana no fuso do evento (0 = domingo), usados na frequência semanal.
+  count?: number;
+  until?: string; // Data (AAAA-MM-DD), no fuso do evento, da última ocorrência possível.
+}
+
+/**
+ * Monta a regra de recorrência (RRULE) enviada para POST /events/series.
+ * O backend expande a regra no fuso do evento, então os dias da semana vão sem conversão;
+ * só o UNTIL, que é um instante, é calculado como o fim do dia no fuso do evento.
+ * @param options As opções escolhidas no formulário.
+ * @param timeZone Fuso IANA do evento.
+ */
+export function buildRRule(options: RecurrenceOptions, timeZone: string): string {
+  const parts = [`FREQ=${options.frequency}`];
+  if (options.interval > 1) {
+    parts.push(`INTERVAL=${options.interval}`);
+  }
+  if (options.frequency === 'WEEKLY' && options.weekdays.length > 0) {
+    parts.push(`BYDAY=${options.weekdays.map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (options.count) {
+    parts.push(`COUNT=${options.count}`);
+  } else if (options.until) {
+    const endOfDay = zonedInputToISO(`${options.until}T23:59`, timeZone);
+    if (endOfDay) {
+      parts.push(`UNTIL=${endOfDay.replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+  }
+  return parts.join(';');
+}
@@ -0,0 +1,109 @@
+// frontend/src/lib/geo.ts
+// Coordenadas dos eventos, busca por proximidade (GET /events?near=lat,lng&radiusKm=) e a projeção do mapa de eventos.
+// O mapa é montado com as imagens (tiles) do OpenStreetMap na projeção Web Mercator, sem biblioteca de mapas.
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Raios oferecidos na busca por proximidade, em km (o backend aceita até 500).
+export const NEARBY_RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+export const DEFAULT_NEARBY_RADIUS_KM = 25;
+
+export const TILE_SIZE = 256;
+const MIN_MAP_ZOOM = 2;
+const MAX_MAP_ZOOM = 15;
+// Aproximação usada quando há um único ponto no mapa.
+const SINGLE_POINT_ZOOM = 13;
+
+/**
+ * URL da imagem de uma parte (tile) do mapa do OpenStreetMap.
+ */
+export function getTileUrl(zoom: number, x: number, y: number): string {
+  return `https://tile.openstreetmap.org/${zoom}/${x}/${y}.png`;
+}
+
+/**
+ * Indica se o evento tem coordenadas (eventos online e endereços não encontrados não têm).
+ */
+export function hasCoordinates<T extends { latitude?: number | null; longitude?: number | null }>(item: T): item is T & Coordinates {
+  return typeof item.latitude === 'number' && typeof item.longitude === 'number';
+}
+
+/**
+ * Formata a distância até o evento, ex: "800 m" ou "3,2 km".
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) {
+    return `${Math.round(distanceKm * 1000)} m`;
+  }
+  return `${distanceKm.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} km`;
+}
+
+/**
+ * Valor do parâmetro `near` da listagem, ex: "-23.5505,-46.6333".
+ */
+export function formatNearParam(point: Coordinates): string {
+  return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+}
+
+/**
+ * Posição do ponto, em pixels, no mapa do mundo inteiro no nível de aproximação informado (Web Mercator).
+ */
+export function projectToPixels(point: Coordinates, zoom: number): { x: number; y: number } {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const latitude = Math.max(-85.05112878, Math.min(85.05112878, point.latitude));
+  const sinLatitude = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * worldSize,
+    y: (0.5 - Math.log((1 + sinLatitude) / (1 - sinLatitude)) / (4 * Math.PI)) * worldSize,
+  };
+}
+
+// Área exibida do mapa: nível de aproximação e centro (em pixels do mapa do mundo nesse nível).
+export interface MapViewport {
+  zoom: number;
+  center: { x: number; y: number };
+}
+
+/**
+ * Escolhe a maior aproximação em que todos os pontos cabem no mapa (com uma margem) e centraliza os pontos.
+ */
+export function getMapViewport(points: Coordinates[], width: number, height: number, padding = 40): MapViewport {
+  if (points.length === 0) {
+    // Sem pontos, mostra o Brasil.
+    return getMapViewport([{ latitude: 5, longitude: -74 }, { latitude: -34, longitude: -34 }], width, height, 0);
+  }
+
+  const boundsAt = (zoom: number) => {
+    const pixels = points.map((point) => projectToPixels(point, zoom));
+    const xs = pixels.map((pixel) => pixel.x);
+    const ys = pixels.map((pixel) => pixel.y);
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  };
+
+  let zoom = points.length === 1 ? SINGLE_POINT_ZOOM : MAX_MAP_ZOOM;
+  while (zoom > MIN_MAP_ZOOM) {
+    const bounds = boundsAt(zoom);
+    if (bounds.maxX - bounds.minX <= width - 2 * padding && bounds.maxY - bounds.minY <= height - 2 * padding) {
+      break;
+    }
+    zoom--;
+  }
+
+  const bounds = boundsAt(zoom);
+  return { zoom, center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 } };
+}
+
+/**
+ * Lê as coordenadas digitadas no formulário, ex: "-23.5505, -46.6333".
+ * @returns As coordenadas, ou null se o texto não for um par latitude/longitude válido.
+ */
+export function parseCoordinatesInput(text: string): Coordinates | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+}
@@ -0,0 +1,40 @@
+// frontend/src/lib/loginSessions.ts
+// Sessões de login do usuário (dispositivos conectados), como retornadas em GET /users/me/sessions.
+// Não confundir com as sessões da agenda dos eventos (lib/sessions.ts).
+
+export interface LoginSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // Sessão deste navegador.
+}
+
+// Navegadores e sistemas reconhecidos no User-Agent, na ordem de verificação (ex: o Edge também se anuncia Chrome).
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Descreve o dispositivo da sessão a partir do User-Agent, ex: "Chrome no Windows".
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Dispositivo desconhecido';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} no ${system}`;
+  return browser || system || userAgent.slice(0, 60);
+}
@@ -0,0 +1,157 @@
+// frontend/src/lib/offlineCheckIn.ts
+// Armazenamento local do check-in offline: a lista de ingressos do evento (manifesto),
+// a fila de leituras pendentes de sincronização e o identificador deste dispositivo.
+
+import { ReservationStatus } from './reservations';
+
+export interface ManifestTicket {
+  reservationId: string;
+  ticketCode: string;
+  status: ReservationStatus;
+  quantity: number;
+  attendeeNames: string[];
+  email: string;
+  checkedInAt: string | null;
+}
+
+export interface CheckInManifest {
+  event: {
+    id: string;
+    name: string;
+    startsAt: string;
+    endsAt: string;
+    timezone: string;
+  };
+  generatedAt: string;
+  tickets: ManifestTicket[];
+}
+
+export interface QueuedScan {
+  ticketCode: string;
+  scannedAt: string;
+}
+
+export interface OfflineScanResult {
+  accepted: boolean;
+  message: string;
+  ticket?: ManifestTicket;
+}
+
+const DEVICE_ID_KEY = 'checkin:deviceId';
+const manifestKey = (eventId: string) => `checkin:manifest:${eventId}`;
+const queueKey = (eventId: string) => `checkin:queue:${eventId}`;
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    // Conteúdo corrompido no armazenamento local é tratado como ausente.
+    return null;
+  }
+}
+
+/**
+ * Retorna o identificador deste dispositivo de check-in, gerando-o na primeira chamada.
+ * O backend usa este ID para desempatar leituras do mesmo ingresso em dispositivos diferentes.
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Salva o manifesto de um evento para uso sem conexão.
+ * @param manifest A lista de ingressos baixada de `/events/:id/check-in/manifest`.
+ */
+export function saveManifest(manifest: CheckInManifest): void {
+  localStorage.setItem(manifestKey(manifest.event.id), JSON.stringify(manifest));
+}
+
+/**
+ * Carrega o manifesto salvo de um evento.
+ * @param eventId O ID do evento.
+ * @returns O manifesto, ou `null` se ainda não foi baixado neste dispositivo.
+ */
+export function loadManifest(eventId: string): CheckInManifest | null {
+  return readJson<CheckInManifest>(manifestKey(eventId));
+}
+
+/**
+ * Retorna as leituras feitas offline que ainda não foram sincronizadas.
+ * @param eventId O ID do evento.
+ */
+export function getQueuedScans(eventId: string): QueuedScan[] {
+  return readJson<QueuedScan[]>(queueKey(eventId)) ?? [];
+}
+
+/**
+ * Remove da fila as leituras já enviadas ao backend.
+ * Leituras feitas durante a sincronização permanecem na fila para o próximo envio.
+ * @param eventId O ID do evento.
+ * @param synced As leituras enviadas.
+ */
+export function removeQueuedScans(eventId: string, synced: QueuedScan[]): void {
+  const sent = new Set(synced.map((scan) => `${scan.ticketCode}|${scan.scannedAt}`));
+  const remaining = getQueuedScans(eventId).filter((scan) => !sent.has(`${scan.ticketCode}|${scan.scannedAt}`));
+  localStorage.setItem(queueKey(eventId), JSON.stringify(remaining));
+}
+
+/**
+ * Valida uma leitura contra o manifesto salvo e, se aceita, a coloca na fila de sincronização.
+ * A validação offline não confere a assinatura (a chave fica só no backend): o código precisa
+ * constar no manifesto, que só contém ingressos gerados pelo backend.
+ * @param manifest O manifesto do evento.
+ * @param ticketCode O código lido do QR code.
+ */
+export function checkInOffline(manifest: CheckInManifest, ticketCode: string): OfflineScanResult {
+  const ticket = manifest.tickets.find((entry) => entry.ticketCode === ticketCode);
+  if (!ticket) {
+    return { accepted: false, message: 'Ingresso não encontrado na lista offline deste evento.' };
+  }
+
+  if (ticket.status === 'ATTENDED') {
+    return { accepted: false, message: 'Ingresso já utilizado.', ticket };
+  }
+
+  if (ticket.status !== 'CONFIRMED' && ticket.status !== 'NO_SHOW') {
+    return { accepted: false, message: 'Ingresso cancelado ou expirado.', ticket };
+  }
+
+  const queue = getQueuedScans(manifest.event.id);
+  if (queue.some((scan) => scan.ticketCode === ticketCode)) {
+    return { accepted: false, message: 'Ingresso já utilizado neste dispositivo.', ticket };
+  }
+
+  queue.push({ ticketCode, scannedAt: new Date().toISOString() });
+  localStorage.setItem(queueKey(manifest.event.id), JSON.stringify(queue));
+
+  return { accepted: true, message: 'Check-in registrado offline.', ticket };
+}
+
+/**
+ * Marca ingressos como utilizados no manifesto salvo (após check-in online ou sincronização),
+ * para que uma nova leitura offline do mesmo ingresso seja recusada.
+ * @param manifest O manifesto do evento.
+ * @param ticketCodes Os códigos dos ingressos utilizados.
+ * @returns O manifesto atualizado.
+ */
+export function markTicketsCheckedIn(manifest: CheckInManifest, ticketCodes: string[]): CheckInManifest {
+  const codes = new Set(ticketCodes);
+  const updated: CheckInManifest = {
+    ...manifest,
+    tickets: manifest.tickets.map((ticket) => (
+      codes.has(ticket.ticketCode) && ticket.status !== 'ATTENDED'
+        ? { ...ticket, status: 'ATTENDED', checkedInAt: ticket.checkedInAt ?? new Date().toISOString() }
+        : ticket
+    )),
+  };
+  saveManifest(updated);
+  return updated;
+}
@@ -0,0 +1,95 @@
+// frontend/src/lib/permissions.ts
+// Permissões de cada papel, espelhando backend/src/services/permissions.ts. Servem apenas para montar o menu e as
+// telas: o escopo (todos os eventos, os próprios ou os atribuídos) e as permissões delegadas a coorganizadores
+// (lib/coOrganizers.ts) são verificados pelo backend, que responde 403 fora deles.
+
+export type Role = 'USER' | 'ORGANIZER' | 'CHECKIN_STAFF' | 'SUPPORT' | 'ADMIN';
+
+export type Permission =
+  | 'event:create'
+  | 'event:view-drafts'
+  | 'event:update'
+  | 'event:delete'
+  | 'event:manage-staff'
+  | 'event:check-in'
+  | 'event:message-attendees'
+  | 'reservation:create'
+  | 'reservation:read'
+  | 'reservation:update'
+  | 'user:read'
+  | 'user:update'
+  | 'user:delete'
+  | 'category:manage'
+  | 'venue:manage'
+  | 'system:monitor';
+
+// Alcance da permissão: todos os recursos, apenas os eventos próprios ou apenas os atribuídos.
+export type PermissionScope = 'all' | 'own' | 'assigned';
+
+const ROLE_PERMISSIONS: Record<Role, Partial<Record<Permission, PermissionScope>>> = {
+  USER: {
+    'reservation:create': 'all',
+  },
+  ORGANIZER: {
+    'event:create': 'all',
+    'event:view-drafts': 'own',
+    'event:update': 'own',
+    'event:delete': 'own',
+    'event:manage-staff': 'own',
+    'event:check-in': 'own',
+    'event:message-attendees': 'own',
+    'reservation:create': 'all',
+    'reservation:read': 'own',
+    'reservation:update': 'own',
+  },
+  CHECKIN_STAFF: {
+    'event:check-in': 'assigned',
+    'reservation:create': 'all',
+  },
+  SUPPORT: {
+    'reservation:create': 'all',
+    'reservation:read': 'all',
+    'user:read': 'all',
+  },
+  ADMIN: {
+    'event:create': 'all',
+    'event:view-drafts': 'all',
+    'event:update': 'all',
+    'event:delete': 'all',
+    'event:manage-staff': 'all',
+    'event:check-in': 'all',
+    'event:message-attendees': 'all',
+    'reservation:create': 'all',
+    'reservation:read': 'all',
+    'reservation:update': 'all',
+    'user:read': 'all',
+    'user:update': 'all',
+    'user:delete': 'all',
+    'category:manage': 'all',
+    'venue:manage': 'all',
+    'system:monitor': 'all',
+  },
+};
+
+// Nomes dos papéis exibidos na interface.
+export const ROLE_LABELS: Record<Role, string> = {
+  USER: 'Participante',
+  ORGANIZER: 'Organizador',
+  CHECKIN_STAFF: 'Check-in',
+  SUPPORT: 'Suporte',
+  ADMIN: 'Administrador',
+};
+
+/**
+ * Escopo em que o papel tem a permissão, ou null se não a tiver.
+ */
+export function getPermissionScope(role: Role | null | undefined, permission: Permission): PermissionScope | null {
+  return role ? ROLE_PERMISSIONS[role][permission] ?? null : null;
+}
+
+/**
+ * Indica se o papel tem a permissão em algum escopo.
+ */
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  return getPermissionScope(role, permission) !== null;
+}
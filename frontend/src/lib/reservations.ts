@@ -0,0 +1,48 @@
+// frontend/src/lib/reservations.ts
+// Tipos e utilitários compartilhados para o ciclo de vida das reservas.
+
+// Status possíveis de uma reserva (espelha o enum ReservationStatus do backend).
+export type ReservationStatus = 'PENDING' | 'CONFIRMED' | 'CANCELED' | 'ATTENDED' | 'NO_SHOW' | 'EXPIRED';
+
+// Rótulos exibidos para cada status.
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  PENDING: 'Pendente',
+  CONFIRMED: 'Confirmada',
+  CANCELED: 'Cancelada',
+  ATTENDED: 'Presença Registrada',
+  NO_SHOW: 'Ausente',
+  EXPIRED: 'Expirada',
+};
+
+/**
+ * Indica se a reserva está ativa (ainda pode ser usada ou cancelada).
+ * @param status O status da reserva.
+ */
+export function isActiveReservation(status: ReservationStatus): boolean {
+  return status === 'PENDING' || status === 'CONFIRMED';
+}
+
+/**
+ * Indica se a reserva foi encerrada sem uso (cancelada ou expirada).
+ * @param status O status da reserva.
+ */
+export function isClosedReservation(status: ReservationStatus): boolean {
+  return status === 'CANCELED' || status === 'EXPIRED';
+}
+
+// Ações de status disponíveis para administradores em cada status (espelha as transições do backend).
+export const ADMIN_STATUS_ACTIONS: Record<ReservationStatus, { status: ReservationStatus; label: string }[]> = {
+  PENDING: [
+    { status: 'CONFIRMED', label: 'Confirmar' },
+    { status: 'CANCELED', label: 'Cancelar' },
+  ],
+  CONFIRMED: [
+    { status: 'ATTENDED', label: 'Marcar Presença' },
+    { status: 'NO_SHOW', label: 'Marcar Ausência' },
+    { status: 'CANCELED', label: 'Cancelar' },
+  ],
+  CANCELED: [{ status: 'CONFIRMED', label: 'Reativar' }],
+  ATTENDED: [{ status: 'NO_SHOW', label: 'Marcar Ausência' }],
+  NO_SHOW: [{ status: 'ATTENDED', label: 'Marcar Presença' }],
+  EXPIRED: [{ status: 'CONFIRMED', label: 'Reativar' }],
+};
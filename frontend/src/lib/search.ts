@@ -0,0 +1,49 @@
+// frontend/src/lib/search.ts
+// Busca textual de eventos. O backend marca os termos encontrados entre ⟦ e ⟧ (backend/src/services/eventSearch.ts);
+// aqui esses trechos são separados para serem exibidos com destaque.
+
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+// Destaques de um evento encontrado pela busca (campo `search` de GET /events?q=...).
+export interface SearchHighlight {
+  rank: number;
+  name?: string; // Nome completo, com os termos marcados.
+  snippet?: string | null; // Trechos da descrição com os termos marcados.
+}
+
+// Sugestão da caixa de busca (GET /events/suggest).
+export interface EventSuggestion {
+  id: string;
+  name: string;
+  startsAt: string;
+  highlight: string; // Nome com os termos marcados.
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Separa um texto marcado em partes com e sem destaque, ex: "⟦Workshop⟧ de React" →
+ * [{ text: 'Workshop', highlighted: true }, { text: ' de React', highlighted: false }].
+ */
+export function splitHighlight(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let rest = text;
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start);
+    if (end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+  return parts;
+}
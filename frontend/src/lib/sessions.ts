@@ -0,0 +1,66 @@
+// frontend/src/lib/sessions.ts
+// Tipos e utilitários compartilhados para a agenda (sessões) dos eventos.
+
+// Sessão da agenda de um evento (espelha o modelo EventSession do backend).
+export interface EventSession {
+  id: string;
+  eventId: string;
+  title: string;
+  description: string | null;
+  startsAt: string;
+  endsAt: string;
+  room: string | null;
+  onlineLink: string | null;
+  speakers: string[];
+  maxCapacity: number | null;
+  availableSpots: number | null;
+}
+
+// Sessão da agenda pessoal do usuário, como retornada em /reservations/my-reservations.
+export interface ScheduleSession extends EventSession {
+  reservationId: string;
+  event: { id: string; name: string };
+}
+
+/**
+ * Agrupa sessões por dia, mantendo a ordem cronológica.
+ * @param timeZone Fuso em que os dias são contados (o do evento); sem ele, o fuso de quem visualiza.
+ * @returns Lista de dias com o rótulo formatado e as sessões daquele dia.
+ */
+export function groupSessionsByDay<T extends EventSession>(sessions: T[], timeZone?: string): { day: string; sessions: T[] }[] {
+  const sorted = [...sessions].sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  const groups: { day: string; sessions: T[] }[] = [];
+
+  for (const session of sorted) {
+    const day = new Date(session.startsAt).toLocaleDateString('pt-BR', {
+      weekday: 'long',
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      timeZone,
+    });
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && lastGroup.day === day) {
+      lastGroup.sessions.push(session);
+    } else {
+      groups.push({ day, sessions: [session] });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Formata o intervalo de horário de uma sessão (ex: "09:00 – 10:30") no fuso informado.
+ */
+export function formatSessionTimeRange(session: Pick<EventSession, 'startsAt' | 'endsAt'>, timeZone?: string): string {
+  const format = (value: string) => new Date(value).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', timeZone });
+  return `${format(session.startsAt)} – ${format(session.endsAt)}`;
+}
+
+/**
+ * Indica se duas sessões têm horários sobrepostos.
+ */
+export function sessionsOverlap(a: Pick<EventSession, 'startsAt' | 'endsAt'>, b: Pick<EventSession, 'startsAt' | 'endsAt'>): boolean {
+  return new Date(a.startsAt) < new Date(b.endsAt) && new Date(a.endsAt) > new Date(b.startsAt);
+}
@@ -0,0 +1,87 @@
+// frontend/src/lib/timezone.ts
+// Utilitários de fuso horário: os eventos guardam instantes em UTC e um fuso IANA próprio,
+// e os horários são exibidos no fuso do evento, com o horário local de quem visualiza ao lado.
+
+// Fuso padrão dos eventos (espelha o DEFAULT_TIMEZONE do backend).
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+// Fusos oferecidos no formulário de eventos.
+export const TIMEZONE_OPTIONS = [
+  'America/Sao_Paulo',
+  'America/Manaus',
+  'America/Fortaleza',
+  'America/Noronha',
+  'America/Rio_Branco',
+  'America/Argentina/Buenos_Aires',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Europe/Lisbon',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Tokyo',
+  'UTC',
+];
+
+/**
+ * Fuso horário do navegador de quem está visualizando.
+ */
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Diferença, em ms, entre o horário de parede no fuso e o UTC no instante informado.
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)!.value);
+  const wallTime = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallTime - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * Converte o valor de um <input type="datetime-local"> (AAAA-MM-DDTHH:mm), lido como horário no fuso informado,
+ * no instante ISO 8601 correspondente.
+ */
+export function zonedInputToISO(value: string, timeZone: string): string | null {
+  const wallTime = new Date(`${value}:00Z`);
+  if (isNaN(wallTime.getTime())) return null;
+  const estimate = wallTime.getTime() - getTimeZoneOffset(wallTime, timeZone);
+  return new Date(wallTime.getTime() - getTimeZoneOffset(new Date(estimate), timeZone)).toISOString();
+}
+
+/**
+ * Formata um instante como valor de <input type="datetime-local">, no horário do fuso informado.
+ */
+export function toZonedInput(value: string | number | Date, timeZone: string): string {
+  const instant = new Date(value);
+  return new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone)).toISOString().substring(0, 16);
+}
+
+/**
+ * Nome curto do fuso no instante informado (ex: "BRT", "GMT-3"), considerando o horário de verão.
+ */
+export function getTimeZoneName(value: string | Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('pt-BR', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(value))
+    .find((item) => item.type === 'timeZoneName');
+  return part ? part.value : timeZone;
+}
+
+/**
+ * Indica se dois fusos mostram o mesmo horário de parede no instante informado.
+ */
+export function isSameWallTime(value: string | Date, timeZoneA: string, timeZoneB: string): boolean {
+  const instant = new Date(value);
+  return getTimeZoneOffset(instant, timeZoneA) === getTimeZoneOffset(instant, timeZoneB);
+}
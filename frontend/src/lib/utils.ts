@@ -11,3 +11,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Formata uma data no padrão do <input type="datetime-local"> (AAAA-MM-DDTHH:mm), no fuso local.
+ * O input interpreta o valor como horário local; usar toISOString() deslocaria o horário a cada edição.
+ */
+export function toDateTimeLocal(value: string | number | Date) {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().substring(0, 16);
+}
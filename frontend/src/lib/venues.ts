@@ -0,0 +1,47 @@
+// frontend/src/lib/venues.ts
+// Catálogo de locais e salas. Eventos que ocupam uma sala usam o endereço dela como local
+// e o backend recusa (409) reservas de sala sobrepostas, devolvendo os eventos em conflito.
+
+export interface Room {
+  id: string;
+  venueId: string;
+  name: string;
+  capacity: number;
+  accessibilityNotes: string | null;
+}
+
+export interface Venue {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  accessibilityNotes: string | null;
+  rooms: Room[];
+}
+
+// Sala com o seu local, como devolvida nos detalhes de um evento.
+export interface RoomWithVenue extends Room {
+  venue: Omit<Venue, 'rooms'>;
+}
+
+// Evento que já ocupa a sala no horário pedido (ou que impede remover/reduzir a sala).
+export interface RoomEventConflict {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+/**
+ * Descreve um evento em conflito, ex: "Workshop de React (10/08/2025 14:00 – 17:00)".
+ */
+export function formatRoomConflict(conflict: RoomEventConflict): string {
+  const start = new Date(conflict.startsAt);
+  const end = new Date(conflict.endsAt);
+  const sameDay = start.toDateString() === end.toDateString();
+  const endLabel = sameDay
+    ? end.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
+    : end.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+  return `${conflict.name} (${start.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })} – ${endLabel})`;
+}